@@ -0,0 +1,143 @@
+import type { Request, Response } from "express";
+import { createAccount, listAccounts, resetAccount } from "@repo/trading";
+import type { AccountParams, CreateAccountInput } from "../schemas/index.js";
+
+/**
+ * Map an account error to an HTTP response
+ */
+function sendAccountError(res: Response, error: unknown): void {
+  const message = error instanceof Error ? error.message : "Unknown error";
+
+  if (message.includes("not found")) {
+    res.status(404).json({ success: false, error: message, code: "ACCOUNT_NOT_FOUND" });
+    return;
+  }
+
+  if (message.includes("already exists")) {
+    res.status(409).json({ success: false, error: message, code: "ACCOUNT_EXISTS" });
+    return;
+  }
+
+  if (message.includes("Account limit")) {
+    res.status(400).json({ success: false, error: message, code: "ACCOUNT_LIMIT_REACHED" });
+    return;
+  }
+
+  if (message.includes("open") && message.includes("position")) {
+    res.status(409).json({ success: false, error: message, code: "OPEN_PERP_POSITION" });
+    return;
+  }
+
+  res.status(400).json({ success: false, error: message });
+}
+
+/**
+ * GET /accounts?includeArchived=true
+ * The wallet's paper accounts ('main' first) with their balances
+ *
+ * Select one on any trading route with the X-Account header (or the
+ * account field of a WebSocket subscribe message).
+ *
+ * Response:
+ * {
+ *   success: true,
+ *   accounts: [
+ *     {
+ *       accountId: 7, name: 'main', createdAt: '...', archivedAt: null,
+ *       balances: [{ asset: 'SOL', available: '2', locked: '0' }, { asset: 'USDC', ... }]
+ *     },
+ *     { accountId: 31, name: 'scalping', ... },
+ *     { accountId: 40, name: 'scalping', archivedAt: '...', ... }  // includeArchived: left by a reset
+ *   ]
+ * }
+ */
+export async function listAccountsHandler(
+  req: Request,
+  res: Response
+): Promise<void> {
+  try {
+    const ownerId = (req as any).ownerId; // From auth middleware
+    const includeArchived = req.query.includeArchived as unknown as boolean;
+
+    const accounts = await listAccounts(ownerId, includeArchived);
+
+    res.status(200).json({
+      success: true,
+      accounts,
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    res.status(500).json({
+      success: false,
+      error: message,
+    });
+  }
+}
+
+/**
+ * POST /accounts
+ * Create a named sub-account funded with INITIAL_BALANCE
+ *
+ * Request body: { name: 'scalping' }
+ * Response (201): { success: true, account: { accountId, name, createdAt, archivedAt: null, balances } }
+ *
+ * Errors:
+ * - 409 ACCOUNT_EXISTS if the wallet already has an account of that name
+ * - 400 ACCOUNT_LIMIT_REACHED past MAX_SUB_ACCOUNTS
+ */
+export async function createAccountHandler(
+  req: Request,
+  res: Response
+): Promise<void> {
+  try {
+    const ownerId = (req as any).ownerId; // From auth middleware
+    const { name } = req.body as CreateAccountInput;
+
+    const account = await createAccount(ownerId, name);
+
+    res.status(201).json({
+      success: true,
+      account,
+    });
+  } catch (error) {
+    sendAccountError(res, error);
+  }
+}
+
+/**
+ * POST /accounts/:name/reset
+ * Start an account over at INITIAL_BALANCE
+ *
+ * Pending orders are cancelled; the account's orders, trades, positions
+ * and journal move to an archived account (listed with includeArchived).
+ *
+ * Response:
+ * {
+ *   success: true,
+ *   account: { accountId: 31, name: 'scalping', balances: [...], ... },
+ *   archivedAccountId: 40,
+ *   cancelledOrderIds: [118]
+ * }
+ *
+ * Errors:
+ * - 404 ACCOUNT_NOT_FOUND
+ * - 409 OPEN_PERP_POSITION if a perp position is open
+ */
+export async function resetAccountHandler(
+  req: Request,
+  res: Response
+): Promise<void> {
+  try {
+    const ownerId = (req as any).ownerId; // From auth middleware
+    const { name } = req.params as unknown as AccountParams;
+
+    const result = await resetAccount(ownerId, name);
+
+    res.status(200).json({
+      success: true,
+      ...result,
+    });
+  } catch (error) {
+    sendAccountError(res, error);
+  }
+}
@@ -0,0 +1,359 @@
+import type { Request, Response } from "express";
+import {
+  getReconciliationReport,
+  getRiskStatus,
+  getSystemAccountBalances,
+  removeRiskLimits,
+  runReconciliation,
+  setRiskLimits,
+} from "@repo/trading";
+import { getMarkets, upsertMarket, type Market } from "@repo/pricing";
+import type {
+  ReconciliationParams,
+  RunReconciliationInput,
+  SetRiskLimitsInput,
+  UpsertMarketInput,
+  UserParams,
+} from "../schemas/index.js";
+
+/**
+ * POST /admin/reconciliation
+ * Recompute every user's balances and positions from the trade ledger now
+ *
+ * Request body: { repair?: boolean, userId?: number }
+ *
+ * Response:
+ * {
+ *   success: true,
+ *   report: {
+ *     runId: 12, repair: false, usersChecked: 40, driftCount: 1,
+ *     startedAt: '...', finishedAt: '...',
+ *     drifts: [
+ *       {
+ *         userId: 7, kind: 'balance', asset: 'USDC', field: 'available',
+ *         expected: '995', actual: '1000', difference: '5', repaired: false
+ *       }
+ *     ]
+ *   }
+ * }
+ */
+export async function runReconciliationHandler(
+  req: Request,
+  res: Response
+): Promise<void> {
+  try {
+    const { repair, userId } = req.body as RunReconciliationInput;
+
+    const report = await runReconciliation({ repair, userId });
+
+    res.status(200).json({
+      success: true,
+      report,
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    res.status(500).json({
+      success: false,
+      error: message,
+    });
+  }
+}
+
+/**
+ * GET /admin/reconciliation
+ * GET /admin/reconciliation/:runId
+ * The latest reconciliation run (or the one requested) with its drifts
+ *
+ * Response: { success: true, report: { ... as above } }
+ *
+ * Errors:
+ * - 404 RECONCILIATION_NOT_FOUND if no such run exists
+ */
+export async function getReconciliationHandler(
+  req: Request,
+  res: Response
+): Promise<void> {
+  try {
+    const { runId } = req.params as unknown as Partial<ReconciliationParams>;
+
+    const report = await getReconciliationReport(runId);
+    if (!report) {
+      res.status(404).json({
+        success: false,
+        error: "Reconciliation run not found",
+        code: "RECONCILIATION_NOT_FOUND",
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      report,
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    res.status(500).json({
+      success: false,
+      error: message,
+    });
+  }
+}
+
+/**
+ * GET /admin/accounts
+ * Balances of the journal's system accounts: fee revenue, the house's
+ * trading P&L (market), funding, bad debt written off, adjustments
+ *
+ * Response:
+ * {
+ *   success: true,
+ *   accounts: [
+ *     { account: 'equity', asset: 'USDC', balance: '-40000' },
+ *     { account: 'fees', asset: 'USDC', balance: '37.42' },
+ *     { account: 'market', asset: 'SOL', balance: '-12.5' }
+ *   ]
+ * }
+ */
+export async function getSystemAccountsHandler(
+  _req: Request,
+  res: Response
+): Promise<void> {
+  try {
+    const accounts = await getSystemAccountBalances();
+
+    res.status(200).json({
+      success: true,
+      accounts,
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    res.status(500).json({
+      success: false,
+      error: message,
+    });
+  }
+}
+
+/**
+ * GET /admin/users/:userId/risk-limits
+ * A user's risk limits with today's usage
+ *
+ * Response:
+ * {
+ *   success: true,
+ *   risk: {
+ *     limits: {
+ *       maxPositionSize: '10', maxOrderNotional: '1000',
+ *       maxOrdersPerDay: 20, maxDailyLoss: '50'
+ *     },                          // null when the user has no limits
+ *     ordersToday: 3,
+ *     realizedPnlToday: '-12.4',
+ *     dailyLossReached: false,
+ *     resetsAt: '...'             // Next midnight UTC
+ *   }
+ * }
+ */
+export async function getRiskLimitsHandler(
+  req: Request,
+  res: Response
+): Promise<void> {
+  try {
+    const { userId } = req.params as unknown as UserParams;
+
+    const risk = await getRiskStatus(userId);
+
+    res.status(200).json({
+      success: true,
+      risk,
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    res.status(500).json({
+      success: false,
+      error: message,
+    });
+  }
+}
+
+/**
+ * PUT /admin/users/:userId/risk-limits
+ * Set a user's risk limits (replaces the previous ones)
+ * Limits are the wallet's: given a sub-account, they are set on its wallet
+ * and apply to all its accounts
+ *
+ * Request body (each optional, null or omitted = no limit):
+ * { maxPositionSize: '10', maxOrderNotional: '1000', maxOrdersPerDay: 20, maxDailyLoss: '50' }
+ *
+ * Response: { success: true, risk: { ... as GET } }
+ *
+ * Errors:
+ * - 404 USER_NOT_FOUND if the user does not exist
+ */
+export async function setRiskLimitsHandler(
+  req: Request,
+  res: Response
+): Promise<void> {
+  try {
+    const { userId } = req.params as unknown as UserParams;
+
+    await setRiskLimits(userId, req.body as SetRiskLimitsInput);
+    const risk = await getRiskStatus(userId);
+
+    res.status(200).json({
+      success: true,
+      risk,
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+
+    // Foreign key violation: no such user
+    if ((error as any)?.code === "P2003") {
+      res.status(404).json({
+        success: false,
+        error: "User not found",
+        code: "USER_NOT_FOUND",
+      });
+      return;
+    }
+
+    res.status(400).json({
+      success: false,
+      error: message,
+    });
+  }
+}
+
+/**
+ * DELETE /admin/users/:userId/risk-limits
+ * Remove a user's risk limits
+ *
+ * Response: { success: true }
+ */
+export async function removeRiskLimitsHandler(
+  req: Request,
+  res: Response
+): Promise<void> {
+  try {
+    const { userId } = req.params as unknown as UserParams;
+
+    await removeRiskLimits(userId);
+
+    res.status(200).json({
+      success: true,
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    res.status(500).json({
+      success: false,
+      error: message,
+    });
+  }
+}
+
+/**
+ * Serialize a registry market, rules and feed included
+ */
+function toMarketResponse(market: Market) {
+  return {
+    symbol: market.symbol,
+    baseAsset: market.baseAsset,
+    quoteAsset: market.quoteAsset,
+    tickSize: market.tickSize.toString(),
+    lotSize: market.lotSize.toString(),
+    minOrderSize: market.minOrderSize.toString(),
+    maxOrderSize: market.maxOrderSize.toString(),
+    priceFeedId: market.priceFeedId,
+    minPrice: market.minPrice?.toString() ?? null,
+    maxPrice: market.maxPrice?.toString() ?? null,
+    devPrice: market.devPrice?.toString() ?? null,
+    active: market.active,
+  };
+}
+
+/**
+ * GET /admin/markets
+ * Every market in the registry, delisted ones included
+ *
+ * Response:
+ * {
+ *   success: true,
+ *   markets: [
+ *     {
+ *       symbol: 'SOL/USDC', baseAsset: 'SOL', quoteAsset: 'USDC',
+ *       tickSize: '0.01', lotSize: '0.00000001', minOrderSize: '0.001', maxOrderSize: '10000',
+ *       priceFeedId: '0xef0d...', minPrice: '0.01', maxPrice: '100000',
+ *       devPrice: '230.5', active: true
+ *     }
+ *   ]
+ * }
+ */
+export async function getAdminMarketsHandler(
+  req: Request,
+  res: Response
+): Promise<void> {
+  try {
+    const markets = await getMarkets(true);
+
+    res.status(200).json({
+      success: true,
+      markets: markets.map(toMarketResponse),
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    res.status(500).json({
+      success: false,
+      error: message,
+    });
+  }
+}
+
+/**
+ * PUT /admin/markets
+ * List a market, or update a listed one (matched by base/quote)
+ *
+ * Request body:
+ * {
+ *   baseAsset: 'JUP', quoteAsset: 'USDC',
+ *   tickSize: '0.0001', lotSize: '0.01', minOrderSize: '1', maxOrderSize: '1000000',
+ *   priceFeedId?: '0x...',     // Pyth feed the price ingestion worker fetches
+ *   minPrice?: '0.01',         // Ingested prices outside [minPrice, maxPrice] are dropped
+ *   maxPrice?: '100',
+ *   devPrice?: '0.85',         // Seeded outside production
+ *   active?: false             // Delist: no new orders, no price feed
+ * }
+ *
+ * Response: { success: true, market: { ... as GET /admin/markets } }
+ *
+ * Errors:
+ * - 400 VALIDATION_ERROR if the rules are inconsistent (e.g. min > max, minPrice >= maxPrice)
+ *   or the quote asset is not USDC (prices are keyed by base asset)
+ */
+export async function upsertMarketHandler(
+  req: Request,
+  res: Response
+): Promise<void> {
+  try {
+    const market = await upsertMarket(req.body as UpsertMarketInput);
+
+    res.status(200).json({
+      success: true,
+      market: toMarketResponse(market),
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+
+    if (message.startsWith("Invalid market")) {
+      res.status(400).json({
+        success: false,
+        error: message,
+        code: "VALIDATION_ERROR",
+      });
+      return;
+    }
+
+    res.status(500).json({
+      success: false,
+      error: message,
+    });
+  }
+}
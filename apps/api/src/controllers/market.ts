@@ -1,5 +1,49 @@
 import type { Request, Response } from "express";
-import { getPriceWithMetadata, SUPPORTED_SYMBOLS } from "@repo/pricing";
+import { getMarkets, getPriceSymbols, getPriceWithMetadata } from "@repo/pricing";
+
+/**
+ * GET /market/markets
+ * List the tradable markets and their order rules (market registry)
+ *
+ * Response:
+ * {
+ *   success: true,
+ *   markets: [
+ *     {
+ *       symbol: 'SOL/USDC', baseAsset: 'SOL', quoteAsset: 'USDC',
+ *       tickSize: '0.01',          // Limit/trigger prices are multiples of it
+ *       lotSize: '0.00000001',     // Sizes are multiples of it
+ *       minOrderSize: '0.001', maxOrderSize: '10000'
+ *     }
+ *   ]
+ * }
+ */
+export async function getMarketsHandler(req: Request, res: Response) {
+  try {
+    const markets = await getMarkets();
+
+    res.status(200).json({
+      success: true,
+      markets: markets.map((m) => ({
+        symbol: m.symbol,
+        baseAsset: m.baseAsset,
+        quoteAsset: m.quoteAsset,
+        tickSize: m.tickSize.toString(),
+        lotSize: m.lotSize.toString(),
+        minOrderSize: m.minOrderSize.toString(),
+        maxOrderSize: m.maxOrderSize.toString(),
+      })),
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+
+    res.status(500).json({
+      success: false,
+      error: message,
+      code: "INTERNAL_ERROR",
+    });
+  }
+}
 
 /**
  * GET /market/price/:symbol
@@ -9,7 +53,11 @@ import { getPriceWithMetadata, SUPPORTED_SYMBOLS } from "@repo/pricing";
  * {
  *   success: true,
  *   symbol: 'SOL',
- *   price: '230.50',
+ *   price: '230.50',        // Mid price
+ *   bid: '230.385',         // Market sells execute here (price - confidence)
+ *   ask: '230.615',         // Market buys execute here (price + confidence)
+ *   confidence: '0.115',    // Pyth confidence interval; '0' when unknown (bid = ask)
+ *   source: 'pyth',         // Provider the price came from; null for seeded prices
  *   timestamp: '2026-01-02T14:35:42.123Z',
  *   ageMs: 1234
  * }
@@ -37,11 +85,12 @@ export async function getPriceHandler(req: Request, res: Response) {
 
     const upperSymbol = symbol.toUpperCase();
 
-    // Validate supported symbol
-    if (!SUPPORTED_SYMBOLS.includes(upperSymbol as any)) {
+    // Validate supported symbol (base asset of a listed market)
+    const symbols = await getPriceSymbols();
+    if (!symbols.includes(upperSymbol)) {
       res.status(400).json({
         success: false,
-        error: `Unsupported symbol: ${upperSymbol}. Supported: ${SUPPORTED_SYMBOLS.join(", ")}`,
+        error: `Unsupported symbol: ${upperSymbol}. Supported: ${symbols.join(", ")}`,
         code: "UNSUPPORTED_SYMBOL",
       });
       return;
@@ -62,6 +111,10 @@ export async function getPriceHandler(req: Request, res: Response) {
       success: true,
       symbol: upperSymbol,
       price: metadata.price.toString(),
+      bid: metadata.bid.toString(),
+      ask: metadata.ask.toString(),
+      confidence: metadata.confidence.toString(),
+      source: metadata.source,
       timestamp: metadata.timestamp.toISOString(),
       ageMs: metadata.ageMs,
     });
@@ -78,13 +131,16 @@ export async function getPriceHandler(req: Request, res: Response) {
 
 /**
  * GET /market/prices
- * Fetch current prices for all supported symbols
+ * Fetch current prices for all supported symbols (listed markets' base assets)
  *
  * Response:
  * {
  *   success: true,
  *   prices: {
- *     SOL: { price: '230.50', timestamp: '...', ageMs: 1234, available: true }
+ *     SOL: {
+ *       price: '230.50', bid: '230.385', ask: '230.615', confidence: '0.115',
+ *       source: 'pyth', timestamp: '...', ageMs: 1234, available: true
+ *     }
  *   }
  * }
  */
@@ -92,18 +148,26 @@ export async function getAllPricesHandler(req: Request, res: Response) {
   try {
     const prices: Record<string, {
       price: string | null;
+      bid: string | null;
+      ask: string | null;
+      confidence: string | null;
+      source: string | null;
       timestamp: string | null;
       ageMs: number;
       available: boolean;
     }> = {};
 
     await Promise.all(
-      SUPPORTED_SYMBOLS.map(async (symbol) => {
+      (await getPriceSymbols()).map(async (symbol) => {
         try {
           const metadata = await getPriceWithMetadata(symbol);
           if (metadata) {
             prices[symbol] = {
               price: metadata.price.toString(),
+              bid: metadata.bid.toString(),
+              ask: metadata.ask.toString(),
+              confidence: metadata.confidence.toString(),
+              source: metadata.source,
               timestamp: metadata.timestamp.toISOString(),
               ageMs: metadata.ageMs,
               available: true,
@@ -111,6 +175,10 @@ export async function getAllPricesHandler(req: Request, res: Response) {
           } else {
             prices[symbol] = {
               price: null,
+              bid: null,
+              ask: null,
+              confidence: null,
+              source: null,
               timestamp: null,
               ageMs: -1,
               available: false,
@@ -119,6 +187,10 @@ export async function getAllPricesHandler(req: Request, res: Response) {
         } catch {
           prices[symbol] = {
             price: null,
+            bid: null,
+            ask: null,
+            confidence: null,
+            source: null,
             timestamp: null,
             ageMs: -1,
             available: false,
@@ -151,26 +223,39 @@ export async function getAllPricesHandler(req: Request, res: Response) {
  *   success: true,
  *   healthy: true,
  *   markets: [
- *     { symbol: 'SOL', available: true, ageMs: 1234 }
+ *     {
+ *       symbol: 'SOL', available: true, ageMs: 1234, source: 'pyth,binance',
+ *       aggregation: {               // Median of sources; null for seeded prices
+ *         sources: ['pyth', 'binance'],
+ *         rejected: ['jupiter'],     // Outliers beyond maxDeviation from the median
+ *         quorum: 2,                 // Sources required to agree
+ *         maxDeviation: '0.01',
+ *         deviation: '0.0007'        // Widest deviation of a kept source from the price
+ *       }
+ *     }
  *   ]
  * }
  */
 export async function getMarketStatusHandler(req: Request, res: Response) {
   try {
     const markets = await Promise.all(
-      SUPPORTED_SYMBOLS.map(async (symbol) => {
+      (await getPriceSymbols()).map(async (symbol) => {
         try {
           const metadata = await getPriceWithMetadata(symbol);
           return {
             symbol,
             available: !!metadata,
             ageMs: metadata?.ageMs ?? -1,
+            source: metadata?.source ?? null,
+            aggregation: metadata?.aggregation ?? null,
           };
         } catch {
           return {
             symbol,
             available: false,
             ageMs: -1,
+            source: null,
+            aggregation: null,
           };
         }
       })
@@ -1,66 +1,450 @@
 import type { Request, Response } from "express";
 import { Decimal } from "decimal.js";
-import { placeOrder, getOrder, getUserOrders, getPortfolio } from "@repo/trading";
-import { getPrice } from "@repo/pricing";
-import { publishOrderFilled, publishPortfolioUpdate } from "@repo/events";
+import {
+  placeOrder,
+  placeQuoteOrder,
+  previewOrder,
+  calculateSizeForQuoteWithImpact,
+  getFeeTierStatus,
+  placeLimitOrder,
+  placeTriggerOrder,
+  placeTrailingStopOrder,
+  cancelOrder,
+  getOrder,
+  getUserOrders,
+  getPortfolio,
+  getOrderByClientOrderId,
+  getOrderReservation,
+  roundToLot,
+  getTradingErrorCode,
+  TRADING_ERROR_CODE,
+  type PlaceQuoteOrderResult,
+  type RiskLimitError,
+} from "@repo/trading";
+import {
+  getMarket,
+  getQuote,
+  getPriceWithMetadata,
+  getQuoteSidePrice,
+  marketSymbol,
+  type Market,
+} from "@repo/pricing";
+import {
+  publishOrderFilled,
+  publishOrderCancelled,
+  publishPortfolioUpdate,
+} from "@repo/events";
+
+/**
+ * Publish the user's current balances and positions for WebSocket broadcast
+ */
+async function publishPortfolioSnapshot(userId: number): Promise<void> {
+  const portfolio = await getPortfolio(userId);
+  await publishPortfolioUpdate({
+    userId,
+    balances: portfolio.balances.map((b) => ({
+      asset: b.asset,
+      available: b.available,
+      locked: b.locked,
+    })),
+    positions: portfolio.positions.map((p) => ({
+      asset: p.asset,
+      size: p.size,
+      avgEntryPrice: p.avgEntryPrice,
+      realizedPnl: p.realizedPnl,
+    })),
+  });
+}
+
+/**
+ * Look up the order's market in the registry, responding 400 UNKNOWN_MARKET
+ * if the pair is not listed (checked before pricing: an unlisted asset has
+ * no price, which is not a 503)
+ */
+async function findMarketOrReject(
+  res: Response,
+  baseAsset: string,
+  quoteAsset: string
+): Promise<Market | null> {
+  const market = await getMarket(baseAsset, quoteAsset);
+  if (!market) {
+    res.status(400).json({
+      success: false,
+      error: `Unknown market: ${marketSymbol(baseAsset, quoteAsset)}`,
+      code: "UNKNOWN_MARKET",
+    });
+  }
+  return market;
+}
+
+/**
+ * Map an order placement/preview error to an HTTP response
+ */
+function sendOrderError(res: Response, error: unknown): void {
+  const message = error instanceof Error ? error.message : "Unknown error";
+
+  // Pair not listed in the market registry (or delisted)
+  if (message.startsWith("Unknown market")) {
+    res.status(400).json({
+      success: false,
+      error: message,
+      code: "UNKNOWN_MARKET",
+    });
+    return;
+  }
+
+  // Breaks the market's size (lot, min, max) or price (tick) rules
+  if (message.startsWith("Invalid order for")) {
+    res.status(400).json({
+      success: false,
+      error: message,
+      code: "VALIDATION_ERROR",
+    });
+    return;
+  }
+
+  // Rejected by the user's risk limits; reason is a RISK_LIMIT_REASON
+  const code = getTradingErrorCode(error);
+  if (code === TRADING_ERROR_CODE.RISK_LIMIT_EXCEEDED) {
+    res.status(403).json({
+      success: false,
+      error: message,
+      code,
+      reason: (error as RiskLimitError).reason,
+    });
+    return;
+  }
+
+  // Specific error for price issues
+  if (message.includes("Price not available") || message.includes("stale")) {
+    res.status(503).json({
+      success: false,
+      error: message,
+      code: "PRICE_UNAVAILABLE",
+    });
+    return;
+  }
+
+  // Trigger already crossed at the current price
+  if (message.includes("already crossed")) {
+    res.status(400).json({
+      success: false,
+      error: message,
+      code: "TRIGGER_ALREADY_CROSSED",
+    });
+    return;
+  }
+
+  // Insufficient balance or margin (margin accounts: equity below the initial
+  // margin), or an order too large for the market (price impact above
+  // SLIPPAGE_MAX_IMPACT): the trading error's code
+  if (code) {
+    res.status(400).json({
+      success: false,
+      error: message,
+      code,
+    });
+    return;
+  }
+
+  res.status(400).json({ success: false, error: message });
+}
+
+/**
+ * Respond with an order previously placed under the same clientOrderId
+ * instead of executing the request again (200, Idempotent-Replayed: true)
+ *
+ * The key must be reused for the same order: a different side, type or
+ * pair is a client bug and gets 409 IDEMPOTENCY_KEY_REUSED.
+ */
+function sendOrderReplay(
+  res: Response,
+  order: NonNullable<Awaited<ReturnType<typeof getOrderByClientOrderId>>>,
+  body: { side: string; type: string; baseAsset: string; quoteAsset: string }
+): void {
+  if (
+    order.side !== body.side ||
+    order.type !== body.type ||
+    order.baseAsset !== body.baseAsset ||
+    order.quoteAsset !== body.quoteAsset
+  ) {
+    res.status(409).json({
+      success: false,
+      error: `clientOrderId '${order.clientOrderId}' was already used for a different order (${order.id})`,
+      code: "IDEMPOTENCY_KEY_REUSED",
+    });
+    return;
+  }
+
+  const trade = order.trades[0];
+  const reservation = order.status === "pending" ? getOrderReservation(order) : null;
+
+  res.setHeader("Idempotent-Replayed", "true");
+  res.status(200).json({
+    success: true,
+    orderId: order.id,
+    clientOrderId: order.clientOrderId,
+    type: order.type,
+    status: order.status,
+    requestedSize: order.requestedSize.toString(),
+    executedSize: trade?.executedSize.toString() ?? null,
+    executedPrice: trade?.executedPrice.toString() ?? null,
+    referencePrice: trade?.referencePrice?.toString() ?? null,
+    slippage: trade?.slippage.toString() ?? null,
+    feesApplied: order.feesApplied.toString(),
+    feeTier: trade?.feeTier ?? null,
+    limitPrice: order.limitPrice?.toString() ?? null,
+    triggerPrice: order.triggerPrice?.toString() ?? null,
+    trailAmount: order.trailAmount?.toString() ?? null,
+    trailPercent: order.trailPercent?.toString() ?? null,
+    trailingPeak: order.trailingPeak?.toString() ?? null,
+    childOrderIds: order.children.map((child) => child.id),
+    ...(reservation && {
+      lockedAsset: reservation.asset,
+      lockedAmount: reservation.amount.toString(),
+    }),
+    rejectionReason: order.rejectionReason,
+  });
+}
 
 /**
  * POST /orders
- * Place and execute a market order immediately
+ * Place a market order (executes immediately), or a limit / stop_market /
+ * take_profit / trailing_stop order (rests as pending)
  *
  * Request body:
  * {
  *   side: 'buy' | 'sell',
+ *   type?: 'market' | 'limit' | 'stop_market' | 'take_profit' | 'trailing_stop', // Defaults to 'market'
  *   baseAsset: 'SOL',
- *   quoteAsset: 'USD',
- *   requestedSize: '10'        // Decimal string
+ *   quoteAsset: 'USDC',
+ *   requestedSize: '10',       // Decimal string, or
+ *   quoteSize?: '2305.00',     // Market orders: quote to spend (buy) / receive (sell), fee included
+ *   limitPrice?: '220.00',     // Required for limit orders
+ *   triggerPrice?: '200.00',   // Required for stop_market / take_profit orders
+ *   trailAmount?: '5.00',      // trailing_stop: fixed distance from the peak, or
+ *   trailPercent?: '2.5',      // trailing_stop: % distance from the peak
+ *   bracket?: {                // Market/limit entries: stop-loss + take-profit legs (OCO)
+ *     stopLossPrice: '200.00',
+ *     takeProfitPrice: '260.00'
+ *   },
+ *   clientOrderId?: 'bot-42-0001' // Or Idempotency-Key header; unique per user
  * }
  *
- * Response (on success):
+ * A repeated clientOrderId returns the original order (200) instead of
+ * placing it again, including while the first request is still in flight.
+ *
+ * Response (market order):
  * {
  *   success: true,
  *   orderId: 123,
  *   executedSize: '10',
- *   executedPrice: '230.50',
- *   feesApplied: '0.2305',
- *   status: 'filled'
+ *   executedPrice: '230.50',   // Ask (buy) / bid (sell) moved by the price impact of the size
+ *   referencePrice: '230.40',  // Ask / bid before impact
+ *   slippage: '1',             // (executedPrice - referencePrice) * size, in USDC
+ *   feesApplied: '0.2305',     // The user's taker rate * executedPrice * size
+ *   feeTier: 'standard',       // Fee tier applied (or the user's override label)
+ *   feeRate: '0.001',
+ *   status: 'filled',
+ *   childOrderIds?: [126, 127] // Bracket legs, when a bracket was given
+ *   quoteSize?: '2305.00',     // Echoed for quote-denominated orders, with
+ *   quoteAmount?: '2304.99'    // the quote actually spent/received incl. fee
+ * }
+ *
+ * Response (limit order):
+ * {
+ *   success: true,
+ *   orderId: 124,
+ *   requestedSize: '10',
+ *   limitPrice: '220.00',
+ *   lockedAsset: 'USDC',
+ *   lockedAmount: '2202.2',    // limitPrice * size + fee at limit price
+ *   status: 'pending'
+ * }
+ *
+ * Response (trailing_stop order, nothing locked):
+ * {
+ *   success: true,
+ *   orderId: 128,
+ *   requestedSize: '10',
+ *   trailAmount: '5.00',
+ *   trailPercent: null,
+ *   trailingPeak: '230.50',    // Starts at the market price
+ *   triggerPrice: '225.50',
+ *   status: 'pending'
+ * }
+ *
+ * Response (stop_market / take_profit order, nothing locked):
+ * {
+ *   success: true,
+ *   orderId: 125,
+ *   type: 'stop_market',
+ *   requestedSize: '10',
+ *   triggerPrice: '200.00',
+ *   status: 'pending'
  * }
  *
  * Response (on failure):
  * {
  *   success: false,
  *   error: "Error message",
- *   code?: "PRICE_UNAVAILABLE" | "INSUFFICIENT_BALANCE" | ...
+ *   code?: "PRICE_UNAVAILABLE" | "INSUFFICIENT_BALANCE" | "INSUFFICIENT_MARGIN" | "PRICE_IMPACT_TOO_HIGH" | ...
+ *          // UNKNOWN_MARKET: the pair is not listed; VALIDATION_ERROR: breaks
+ *          // the market's size (min, max, lot) or price (tick) rules
+ *   reason?: "MAX_ORDERS_PER_DAY" | "MAX_ORDER_NOTIONAL" | "MAX_POSITION_SIZE" | "DAILY_LOSS_LIMIT"
+ *            // With code RISK_LIMIT_EXCEEDED (403): the risk limit the order breaks
  * }
  */
 export async function placeOrderHandler(req: Request, res: Response) {
+  const userId = (req as any).userId; // Set by auth middleware
+  const clientOrderId: string | undefined = req.body.clientOrderId;
+
   try {
-    const { side, baseAsset, quoteAsset, requestedSize } = req.body;
-    const userId = (req as any).userId; // Set by auth middleware
-    
+    const {
+      side,
+      type,
+      baseAsset,
+      quoteAsset,
+      requestedSize,
+      quoteSize,
+      limitPrice,
+      triggerPrice,
+      bracket: bracketInput,
+      trailAmount,
+      trailPercent,
+    } = req.body;
+
     // Validate required fields
-    if (!side || !baseAsset || !quoteAsset || !requestedSize) {
+    if (!side || !baseAsset || !quoteAsset || (!requestedSize && !quoteSize)) {
       res.status(400).json({
         success: false,
-        error: "Missing required fields: side, baseAsset, quoteAsset, requestedSize",
+        error: "Missing required fields: side, baseAsset, quoteAsset, requestedSize or quoteSize",
       });
       return;
     }
 
-    const size = new Decimal(requestedSize);
+    // Retry of an order that already went through: replay, don't re-execute
+    if (clientOrderId) {
+      const original = await getOrderByClientOrderId(userId, clientOrderId);
+      if (original) {
+        sendOrderReplay(res, original, req.body);
+        return;
+      }
+    }
 
-    // Fetch current price from Redis (server-side only, never from client)
-    const price = await getPrice(baseAsset);
+    const size = requestedSize ? new Decimal(requestedSize) : undefined;
+    const bracket = bracketInput
+      ? {
+          stopLossPrice: new Decimal(bracketInput.stopLossPrice),
+          takeProfitPrice: new Decimal(bracketInput.takeProfitPrice),
+        }
+      : undefined;
 
-    // Place and execute market order immediately
-    const result = await placeOrder(
-      userId,
-      side,
-      baseAsset,
-      quoteAsset,
-      size,
-      price  // Execution price (market price at this moment)
-    );
+    if (!(await findMarketOrReject(res, baseAsset, quoteAsset))) {
+      return;
+    }
+
+    // Fetch current price from Redis (server-side only, never from client);
+    // resting orders use the mid price, market executions the bid/ask
+    const quote = await getQuote(baseAsset);
+    const { price } = quote;
+
+    if (type === "limit") {
+      // Reserve funds and rest the order; the matching worker fills it later
+      const result = await placeLimitOrder(
+        userId,
+        side,
+        baseAsset,
+        quoteAsset,
+        size!,
+        new Decimal(limitPrice),
+        price, // Market price at placement, recorded for reference
+        bracket,
+        clientOrderId
+      );
+
+      // Reservation moved funds into locked
+      await publishPortfolioSnapshot(userId);
+
+      res.status(201).json({
+        success: true,
+        ...result,
+        ...(clientOrderId && { clientOrderId }),
+      });
+      return;
+    }
+
+    if (type === "stop_market" || type === "take_profit") {
+      // Rest until the trigger is crossed; the matching worker executes it at market
+      const result = await placeTriggerOrder(
+        userId,
+        side,
+        type,
+        baseAsset,
+        quoteAsset,
+        size!,
+        new Decimal(triggerPrice),
+        price, // Used to reject triggers that are already crossed
+        clientOrderId
+      );
+
+      res.status(201).json({
+        success: true,
+        ...result,
+        ...(clientOrderId && { clientOrderId }),
+      });
+      return;
+    }
+
+    if (type === "trailing_stop") {
+      // Trigger starts one trail below (sell) / above (buy) the market price
+      const result = await placeTrailingStopOrder(
+        userId,
+        side,
+        baseAsset,
+        quoteAsset,
+        size!,
+        {
+          trailAmount: trailAmount ? new Decimal(trailAmount) : undefined,
+          trailPercent: trailPercent ? new Decimal(trailPercent) : undefined,
+        },
+        price,
+        clientOrderId
+      );
+
+      res.status(201).json({
+        success: true,
+        ...result,
+        ...(clientOrderId && { clientOrderId }),
+      });
+      return;
+    }
+
+    // Place and execute market order immediately at the ask (buy) / bid (sell);
+    // a quoteSize is converted to a base size at the same execution price,
+    // fee and price impact included
+    const marketPrice = getQuoteSidePrice(quote, side);
+    const result = quoteSize
+      ? await placeQuoteOrder(
+          userId,
+          side,
+          baseAsset,
+          quoteAsset,
+          new Decimal(quoteSize),
+          marketPrice,
+          bracket,
+          clientOrderId
+        )
+      : await placeOrder(
+          userId,
+          side,
+          baseAsset,
+          quoteAsset,
+          size!,
+          marketPrice, // Execution price (touch price at this moment)
+          bracket,
+          clientOrderId
+        );
 
     // Publish order filled event for WebSocket broadcast
     await publishOrderFilled({
@@ -72,51 +456,217 @@ export async function placeOrderHandler(req: Request, res: Response) {
       executedSize: result.executedSize,
       executedPrice: result.executedPrice,
       fee: result.feesApplied,
+      parentOrderId: null,
+      childOrderIds: result.childOrderIds ?? [],
     });
 
     // Publish portfolio update for WebSocket broadcast
-    const portfolio = await getPortfolio(userId);
-    await publishPortfolioUpdate({
-      userId,
-      balances: portfolio.balances.map((b) => ({
-        asset: b.asset,
-        available: b.available,
-        locked: b.locked,
-      })),
-      positions: portfolio.positions.map((p) => ({
-        asset: p.asset,
-        size: p.size,
-        avgEntryPrice: p.avgEntryPrice,
-      })),
-    });
+    await publishPortfolioSnapshot(userId);
 
     res.status(201).json({
       success: true,
       orderId: result.orderId,
       executedSize: result.executedSize,
       executedPrice: result.executedPrice,
+      referencePrice: result.referencePrice,
+      slippage: result.slippage,
       feesApplied: result.feesApplied,
+      feeTier: result.feeTier,
+      feeRate: result.feeRate,
       status: result.status,
+      ...(clientOrderId && { clientOrderId }),
+      ...(result.childOrderIds && { childOrderIds: result.childOrderIds }),
+      ...(quoteSize && {
+        quoteSize: (result as PlaceQuoteOrderResult).quoteSize,
+        quoteAmount: (result as PlaceQuoteOrderResult).quoteAmount,
+      }),
     });
   } catch (error) {
-    const message = error instanceof Error ? error.message : "Unknown error";
+    // A concurrent request with the same key committed first: replay it.
+    // Not only on the duplicate key: the retry may have waited on the balance
+    // or risk limit locks instead, then failed the checks the first order
+    // used up (INSUFFICIENT_BALANCE, MAX_ORDERS_PER_DAY...)
+    if (clientOrderId) {
+      const original = await getOrderByClientOrderId(userId, clientOrderId).catch(() => null);
+      if (original) {
+        sendOrderReplay(res, original, req.body);
+        return;
+      }
+    }
 
-    // Specific error for price issues
-    if (message.includes("Price not available") || message.includes("stale")) {
-      res.status(503).json({
-        success: false,
-        error: message,
-        code: "PRICE_UNAVAILABLE",
+    sendOrderError(res, error);
+  }
+}
+
+/**
+ * POST /orders/preview
+ * Dry-run a market order: same validation, price, fee and balance checks as
+ * POST /orders, but nothing is written
+ *
+ * Request body: same as POST /orders (market orders only, requestedSize or quoteSize)
+ *
+ * Response (on success):
+ * {
+ *   success: true,
+ *   side: 'buy',
+ *   baseAsset: 'SOL',
+ *   quoteAsset: 'USDC',
+ *   executedSize: '10',
+ *   executedPrice: '230.50',
+ *   referencePrice: '230.50',  // Ask (buy) / bid (sell) before price impact
+ *   priceImpact: '0',
+ *   slippage: '0',
+ *   cost: '2305',
+ *   fee: '2.305',
+ *   feeTier: 'standard',       // Taker rate of the user's fee tier
+ *   feeRate: '0.001',
+ *   quoteAmount: '2307.305',   // Spent (buy) / received (sell), fee included
+ *   realizedPnl: null,         // Sells: proceeds - fee - avgEntryPrice * size
+ *   balances: [
+ *     { asset: 'USDC', available: '10000', projectedAvailable: '7692.695' },
+ *     { asset: 'SOL', available: '0', projectedAvailable: '10' }
+ *   ],
+ *   position: { size: '0', avgEntryPrice: '0', projectedSize: '10', projectedAvgEntryPrice: '230.50' },
+ *   priceTimestamp: '2026-01-01T00:00:00.000Z',
+ *   priceAgeMs: 1200,
+ *   quoteSize?: '2305.00'      // Echoed for quote-denominated previews
+ * }
+ *
+ * Response (on failure): same as POST /orders
+ */
+export async function previewOrderHandler(req: Request, res: Response) {
+  try {
+    const {
+      side,
+      baseAsset,
+      quoteAsset,
+      requestedSize,
+      quoteSize,
+      bracket: bracketInput,
+    } = req.body;
+    const userId = (req as any).userId; // Set by auth middleware
+
+    const bracket = bracketInput
+      ? {
+          stopLossPrice: new Decimal(bracketInput.stopLossPrice),
+          takeProfitPrice: new Decimal(bracketInput.takeProfitPrice),
+        }
+      : undefined;
+
+    const market = await findMarketOrReject(res, baseAsset, quoteAsset);
+    if (!market) {
+      return;
+    }
+
+    // Same server-side price placeOrder would use, with its age
+    const priceData = await getPriceWithMetadata(baseAsset);
+    if (!priceData) {
+      throw new Error(`Price not available or stale for ${baseAsset}`);
+    }
+    const { timestamp, ageMs } = priceData;
+    const price = getQuoteSidePrice(priceData, side);
+
+    // Quote sizing at the user's taker rate and the lot size, as placeQuoteOrder does
+    const size = quoteSize
+      ? roundToLot(
+          market,
+          side,
+          calculateSizeForQuoteWithImpact(
+            side,
+            new Decimal(quoteSize),
+            price,
+            undefined,
+            (await getFeeTierStatus(userId)).takerRate
+          )
+        )
+      : new Decimal(requestedSize);
+
+    const preview = await previewOrder(
+      userId,
+      side,
+      baseAsset,
+      quoteAsset,
+      size,
+      price,
+      bracket
+    );
+
+    res.status(200).json({
+      success: true,
+      ...preview,
+      priceTimestamp: timestamp.toISOString(),
+      priceAgeMs: ageMs,
+      ...(quoteSize && { quoteSize: new Decimal(quoteSize).toString() }),
+    });
+  } catch (error) {
+    sendOrderError(res, error);
+  }
+}
+
+/**
+ * DELETE /orders/:orderId
+ * Cancel a pending order and release its locked funds
+ *
+ * Bracket groups cancel together: a leg takes its sibling with it, and a
+ * filled bracket entry cancels its pending legs (the entry stays filled).
+ *
+ * Response (on success):
+ * {
+ *   success: true,
+ *   orderId: 124,
+ *   releasedAsset: 'USDC',
+ *   releasedAmount: '2202.2',
+ *   status: 'cancelled',
+ *   cancelledOrderIds: [124],
+ *   parentOrderId: null
+ * }
+ *
+ * Errors:
+ * - 404 if the order does not exist or belongs to another user
+ * - 409 ORDER_NOT_CANCELLABLE if the order is already filled/rejected/cancelled
+ */
+export async function cancelOrderHandler(
+  req: Request,
+  res: Response
+): Promise<void> {
+  try {
+    const userId = (req as any).userId; // Set by auth middleware
+    const orderId = parseInt(req.params.orderId as string, 10);
+
+    const result = await cancelOrder(userId, orderId);
+
+    // Notify the owner over WebSocket, one event per cancelled order in the group
+    for (const cancelledId of result.cancelledOrderIds) {
+      const isRequested = cancelledId === result.orderId;
+      await publishOrderCancelled({
+        userId,
+        orderId: cancelledId,
+        releasedAsset: isRequested ? result.releasedAsset : null,
+        releasedAmount: isRequested ? result.releasedAmount : "0",
+        parentOrderId: result.parentOrderId,
       });
+    }
+
+    // Released funds moved from locked back to available
+    await publishPortfolioSnapshot(userId);
+
+    res.status(200).json({
+      success: true,
+      ...result,
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+
+    if (message === "Order not found") {
+      res.status(404).json({ success: false, error: message });
       return;
     }
 
-    // Insufficient balance
-    if (message.includes("Insufficient")) {
-      res.status(400).json({
+    if (message.includes("terminal state")) {
+      res.status(409).json({
         success: false,
         error: message,
-        code: "INSUFFICIENT_BALANCE",
+        code: "ORDER_NOT_CANCELLABLE",
       });
       return;
     }
@@ -127,15 +677,20 @@ export async function placeOrderHandler(req: Request, res: Response) {
 
 /**
  * GET /orders/:orderId
- * Retrieve a single order by ID
+ * Retrieve one of the authenticated user's orders by ID
+ *
+ * Includes its trades, bracket legs (children) and, for trailing stops,
+ * every trigger-level adjustment (trailingAdjustments, oldest first).
+ * Another user's order is a 404, like a missing one.
  */
 export async function getOrderHandler(
   req: Request,
   res: Response
 ): Promise<void> {
   try {
+    const userId = (req as any).userId; // Set by auth middleware
     const { orderId } = req.params;
-    const order = await getOrder(parseInt(orderId as string, 10));
+    const order = await getOrder(parseInt(orderId as string, 10), userId);
     if (!order) {
       res.status(404).json({ success: false, error: "Order not found" });
       return;
@@ -178,19 +733,36 @@ export async function getUserOrdersHandler(
       return;
     }
     // Transform database orders to match frontend Order type (id -> orderId, add executedPrice/Size)
-    const transformedOrders = orders.map((order) => ({
-      orderId: order.id,
-      side: order.side,
-      status: order.status,
-      baseAsset: order.baseAsset,
-      quoteAsset: order.quoteAsset,
-      requestedSize: order.requestedSize.toString(),
-      executedPrice: order.priceAtOrderTime.toString(),
-      executedSize: order.requestedSize.toString(), // For market orders, executed = requested
-      feesApplied: order.feesApplied.toString(),
-      createdAt: order.createdAt.toISOString(),
-      updatedAt: order.updatedAt.toISOString(),
-    }));
+    const transformedOrders = orders.map((order) => {
+      const trade = order.trades[0]; // Orders fill in a single trade
+      return {
+        orderId: order.id,
+        side: order.side,
+        type: order.type,
+        status: order.status,
+        baseAsset: order.baseAsset,
+        quoteAsset: order.quoteAsset,
+        requestedSize: order.requestedSize.toString(),
+        limitPrice: order.limitPrice?.toString() ?? null,
+        triggerPrice: order.triggerPrice?.toString() ?? null,
+        stopLossPrice: order.stopLossPrice?.toString() ?? null,
+        takeProfitPrice: order.takeProfitPrice?.toString() ?? null,
+        trailAmount: order.trailAmount?.toString() ?? null,
+        trailPercent: order.trailPercent?.toString() ?? null,
+        trailingPeak: order.trailingPeak?.toString() ?? null,
+        parentOrderId: order.parentOrderId,
+        childOrderIds: order.children.map((child) => child.id),
+        clientOrderId: order.clientOrderId,
+        executedPrice: (trade?.executedPrice ?? order.priceAtOrderTime).toString(),
+        executedSize: trade?.executedSize.toString() ?? "0", // Pending orders have not executed yet
+        slippage: trade?.slippage.toString() ?? "0",
+        feesApplied: order.feesApplied.toString(),
+        feeTier: trade?.feeTier ?? null, // Tier the fill was charged at
+        liquidity: trade?.liquidity ?? null, // 'maker' | 'taker'
+        createdAt: order.createdAt.toISOString(),
+        updatedAt: order.updatedAt.toISOString(),
+      };
+    });
     res.status(200).json({
       success: true,
       orders: transformedOrders,
@@ -0,0 +1,409 @@
+import type { Request, Response } from "express";
+import { Decimal } from "decimal.js";
+import type { Decimal as DecimalInstance } from "decimal.js";
+import {
+  getPerpMarketStatus,
+  openPerpPosition,
+  closePerpPosition,
+  adjustPerpMargin,
+  getPerpPosition,
+  getPerpTrades,
+  getFundingHistory,
+  getTradingErrorCode,
+  PERP_MARKETS,
+  TRADING_ERROR_CODE,
+  type PerpMarket,
+  type PerpTradeResult,
+  type RiskLimitError,
+} from "@repo/trading";
+import { getPriceWithMetadata } from "@repo/pricing";
+import { publishPerpPositionUpdate } from "@repo/events";
+
+/**
+ * Get the index price (spot Redis price) of a perp market's underlying
+ * Sends 503 PRICE_UNAVAILABLE and returns null if it is missing or stale
+ */
+async function getIndexPrice(
+  res: Response,
+  market: PerpMarket
+): Promise<{ price: DecimalInstance; timestamp: Date } | null> {
+  const { baseAsset } = PERP_MARKETS[market];
+  const priceData = await getPriceWithMetadata(baseAsset);
+
+  if (!priceData) {
+    res.status(503).json({
+      success: false,
+      error: `Price not available or stale for ${baseAsset}`,
+      code: "PRICE_UNAVAILABLE",
+    });
+    return null;
+  }
+  return priceData;
+}
+
+/**
+ * Publish a perp trade's position change for WebSocket broadcast
+ */
+async function publishPerpTrade(
+  userId: number,
+  result: PerpTradeResult
+): Promise<void> {
+  await publishPerpPositionUpdate({
+    userId,
+    market: result.market,
+    reason: "trade",
+    ...result.position,
+    tradeId: result.tradeId,
+    price: result.price,
+  });
+}
+
+/**
+ * Map perp errors to HTTP responses
+ */
+function sendPerpError(res: Response, error: unknown): void {
+  const message = error instanceof Error ? error.message : "Unknown error";
+
+  // Rejected by the user's risk limits; reason is a RISK_LIMIT_REASON
+  const code = getTradingErrorCode(error);
+  if (code === TRADING_ERROR_CODE.RISK_LIMIT_EXCEEDED) {
+    res.status(403).json({
+      success: false,
+      error: message,
+      code,
+      reason: (error as RiskLimitError).reason,
+    });
+    return;
+  }
+
+  // Balance does not cover margin + fee (INSUFFICIENT_BALANCE), or removing
+  // margin below the initial margin (INSUFFICIENT_MARGIN)
+  if (code) {
+    res.status(400).json({
+      success: false,
+      error: message,
+      code,
+    });
+    return;
+  }
+
+  // Close / margin change without an open position
+  if (message.includes("No open")) {
+    res.status(404).json({
+      success: false,
+      error: message,
+      code: "POSITION_NOT_FOUND",
+    });
+    return;
+  }
+
+  res.status(400).json({ success: false, error: message });
+}
+
+/**
+ * GET /perps/markets
+ * Perp markets with index and mark price, predicted funding and open interest
+ *
+ * Response:
+ * {
+ *   success: true,
+ *   markets: [
+ *     {
+ *       market: 'SOL-PERP', baseAsset: 'SOL', quoteAsset: 'USDC',
+ *       indexPrice: '100', markPrice: '100.05', fundingRate: '0.0005',
+ *       nextFundingTime: '...', fundingIntervalMs: 3600000,
+ *       openInterest: { long: '30', short: '10' }, maxLeverage: '10'
+ *     }
+ *   ]
+ * }
+ *
+ * Markets whose index price is unavailable are omitted.
+ */
+export async function getPerpMarketsHandler(
+  req: Request,
+  res: Response
+): Promise<void> {
+  try {
+    const markets = [];
+    for (const market of Object.keys(PERP_MARKETS) as PerpMarket[]) {
+      const priceData = await getPriceWithMetadata(PERP_MARKETS[market].baseAsset);
+      if (priceData) {
+        markets.push(await getPerpMarketStatus(market, priceData.price));
+      }
+    }
+
+    res.status(200).json({
+      success: true,
+      markets,
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    res.status(500).json({
+      success: false,
+      error: message,
+    });
+  }
+}
+
+/**
+ * GET /perps/positions
+ * Open perp positions with P&L, margin and liquidation price at the mark price
+ *
+ * Response:
+ * {
+ *   success: true,
+ *   positions: [
+ *     {
+ *       id: 3, market: 'SOL-PERP', side: 'long', size: '10',
+ *       entryPrice: '100', margin: '200', markPrice: '110',
+ *       notional: '1100', unrealizedPnl: '100', equity: '300', leverage: '3.67',
+ *       maintenanceMargin: '55', liquidationPrice: '84.21', liquidatable: false,
+ *       realizedPnl: '-1', fundingPnl: '-0.55'
+ *     }
+ *   ]
+ * }
+ *
+ * Errors:
+ * - 503 PRICE_UNAVAILABLE if an index price is missing or stale
+ */
+export async function getPerpPositionsHandler(
+  req: Request,
+  res: Response
+): Promise<void> {
+  try {
+    const userId = (req as any).userId; // From auth middleware
+
+    const positions = [];
+    for (const market of Object.keys(PERP_MARKETS) as PerpMarket[]) {
+      const priceData = await getIndexPrice(res, market);
+      if (!priceData) return;
+
+      const position = await getPerpPosition(userId, market, priceData.price);
+      if (position) {
+        positions.push(position);
+      }
+    }
+
+    res.status(200).json({
+      success: true,
+      positions,
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    res.status(500).json({
+      success: false,
+      error: message,
+    });
+  }
+}
+
+/**
+ * POST /perps/positions
+ * Open or add to a position at the mark price
+ *
+ * Request body: { market: 'SOL-PERP', side: 'long' | 'short', size: '10', leverage?: '5' }
+ * margin = size * markPrice / leverage, taken from USDC with the fee (the user's taker rate)
+ *
+ * Response:
+ * {
+ *   success: true,
+ *   tradeId: 12, positionId: 3, market: 'SOL-PERP', side: 'buy',
+ *   price: '100', size: '10', fee: '1', feeTier: 'standard', realizedPnl: null,
+ *   position: { size: '10', entryPrice: '100', margin: '200', realizedPnl: '-1', fundingPnl: '0' }
+ * }
+ *
+ * Errors:
+ * - 400 INSUFFICIENT_BALANCE if USDC does not cover margin + fee
+ * - 400 if leverage exceeds MAX_LEVERAGE or the other side is open
+ * - 403 RISK_LIMIT_EXCEEDED (with reason) if the user's risk limits refuse it
+ * - 503 PRICE_UNAVAILABLE
+ */
+export async function openPerpPositionHandler(
+  req: Request,
+  res: Response
+): Promise<void> {
+  try {
+    const userId = (req as any).userId; // From auth middleware
+    const { market, side, size, leverage } = req.body;
+
+    const priceData = await getIndexPrice(res, market);
+    if (!priceData) return;
+
+    const result = await openPerpPosition(
+      userId,
+      market,
+      side,
+      new Decimal(size),
+      new Decimal(leverage),
+      priceData.price
+    );
+
+    await publishPerpTrade(userId, result);
+
+    res.status(201).json({
+      success: true,
+      ...result,
+    });
+  } catch (error) {
+    sendPerpError(res, error);
+  }
+}
+
+/**
+ * POST /perps/positions/:market/close
+ * Close a position (or size of it) at the mark price
+ *
+ * Request body: { size?: '4' } (omit to close the whole position)
+ * Pays released margin + P&L - fee back to USDC
+ *
+ * Response: same shape as POST /perps/positions, with realizedPnl set
+ *
+ * Errors:
+ * - 404 POSITION_NOT_FOUND if no position is open
+ * - 400 if size exceeds the position
+ */
+export async function closePerpPositionHandler(
+  req: Request,
+  res: Response
+): Promise<void> {
+  try {
+    const userId = (req as any).userId; // From auth middleware
+    const market = req.params.market as PerpMarket;
+    const { size } = req.body;
+
+    const priceData = await getIndexPrice(res, market);
+    if (!priceData) return;
+
+    const result = await closePerpPosition(
+      userId,
+      market,
+      priceData.price,
+      size ? new Decimal(size) : undefined
+    );
+
+    await publishPerpTrade(userId, result);
+
+    res.status(200).json({
+      success: true,
+      ...result,
+    });
+  } catch (error) {
+    sendPerpError(res, error);
+  }
+}
+
+/**
+ * POST /perps/positions/:market/margin
+ * Add collateral to a position (lower liquidation price) or remove it
+ *
+ * Request body: { action: 'add' | 'remove', amount: '50' }
+ * Response: { success: true, position: { ...same as GET /perps/positions } }
+ *
+ * Errors:
+ * - 400 INSUFFICIENT_BALANCE if USDC does not cover an addition
+ * - 400 INSUFFICIENT_MARGIN if a removal leaves equity below the initial margin
+ * - 403 RISK_LIMIT_EXCEEDED (DAILY_LOSS_LIMIT) on an addition past the daily loss cap
+ * - 404 POSITION_NOT_FOUND
+ */
+export async function adjustPerpMarginHandler(
+  req: Request,
+  res: Response
+): Promise<void> {
+  try {
+    const userId = (req as any).userId; // From auth middleware
+    const market = req.params.market as PerpMarket;
+    const { action, amount } = req.body;
+
+    const priceData = await getIndexPrice(res, market);
+    if (!priceData) return;
+
+    const delta = action === "remove" ? new Decimal(amount).negated() : new Decimal(amount);
+    const position = await adjustPerpMargin(userId, market, delta, priceData.price);
+
+    await publishPerpPositionUpdate({
+      userId,
+      market,
+      reason: "margin",
+      size: position.size,
+      entryPrice: position.entryPrice,
+      margin: position.margin,
+      realizedPnl: position.realizedPnl,
+      fundingPnl: position.fundingPnl,
+    });
+
+    res.status(200).json({
+      success: true,
+      position,
+    });
+  } catch (error) {
+    sendPerpError(res, error);
+  }
+}
+
+/**
+ * GET /perps/trades?market=SOL-PERP&limit=50
+ * The user's perp trades, newest first (type 'market' or 'liquidation')
+ */
+export async function getPerpTradesHandler(
+  req: Request,
+  res: Response
+): Promise<void> {
+  try {
+    const userId = (req as any).userId; // From auth middleware
+    const market = req.query.market as string | undefined;
+    const limit = req.query.limit as unknown as number;
+
+    const trades = await getPerpTrades(userId, market, limit);
+
+    res.status(200).json({
+      success: true,
+      trades,
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    res.status(500).json({
+      success: false,
+      error: message,
+    });
+  }
+}
+
+/**
+ * GET /perps/funding?market=SOL-PERP&limit=50
+ * The user's funding payments, newest first
+ *
+ * Response:
+ * {
+ *   success: true,
+ *   payments: [
+ *     {
+ *       id: 9, positionId: 3, market: 'SOL-PERP', fundingTime: '...',
+ *       rate: '0.0005', markPrice: '100.05', positionSize: '10',
+ *       amount: '-0.500250'  // negative = paid
+ *     }
+ *   ]
+ * }
+ */
+export async function getFundingHistoryHandler(
+  req: Request,
+  res: Response
+): Promise<void> {
+  try {
+    const userId = (req as any).userId; // From auth middleware
+    const market = req.query.market as string | undefined;
+    const limit = req.query.limit as unknown as number;
+
+    const payments = await getFundingHistory(userId, market, limit);
+
+    res.status(200).json({
+      success: true,
+      payments,
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    res.status(500).json({
+      success: false,
+      error: message,
+    });
+  }
+}
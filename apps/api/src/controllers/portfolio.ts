@@ -1,5 +1,20 @@
 import type{ Request, Response } from "express";
-import { getPortfolio } from "@repo/trading";
+import { Decimal } from "decimal.js";
+import {
+  getPortfolio,
+  getTaxLots,
+  setCostBasisMethod,
+  getMarginStatus,
+  setAccountMode,
+  getJournal,
+  getRiskStatus,
+  getPerformance,
+  deposit,
+  withdraw,
+  getTradingErrorCode,
+} from "@repo/trading";
+import { getMarkets, getPriceSymbols, getPriceWithMetadata } from "@repo/pricing";
+import type { DepositInput, WithdrawInput } from "../schemas/index.js";
 
 /**
  * GET /portfolio
@@ -15,8 +30,22 @@ import { getPortfolio } from "@repo/trading";
  *       { asset: 'SOL', available: '5', locked: '0' }
  *     ],
  *     positions: [
- *       { asset: 'SOL', size: '5', avgEntryPrice: '240' }
+ *       { asset: 'SOL', size: '5', avgEntryPrice: '240', realizedPnl: '118.2' }
  *     ],
+ *     totalRealizedPnl: '118.2',  // Net of sell fees
+ *     costBasisMethod: 'fifo',
+ *     accountMode: 'cash',
+ *     feeTier: {
+ *       tier: 'silver',               // Reached by the trailing 30-day volume
+ *       appliedTier: 'silver',        // Charged: the override label when one is active
+ *       makerRate: '0.0008', takerRate: '0.0009',
+ *       volume30d: '32500',           // Spot trade value + perp notional, in USDC
+ *       override: null,               // { label, makerRate, takerRate, expiresAt }
+ *       nextTier: {
+ *         tier: 'gold', minVolume: '100000', makerRate: '0.0005', takerRate: '0.0007',
+ *         volumeRemaining: '67500', progress: '0.25'
+ *       }                             // null at the top tier
+ *     },
  *     openOrders: [
  *       { id: 1, side: 'buy', status: 'pending', ... }
  *     ]
@@ -53,3 +82,490 @@ export async function getPortfolioHandler(
     });
   }
 }
+
+/**
+ * GET /portfolio/lots?asset=SOL
+ * Tax lots (one per buy) with the realized gain of every sell that consumed them
+ *
+ * Response:
+ * {
+ *   success: true,
+ *   costBasisMethod: 'fifo',
+ *   lots: [
+ *     {
+ *       id: 7, asset: 'SOL', buyTradeId: 31, price: '100', size: '2',
+ *       remainingSize: '0.5', acquiredAt: '...',
+ *       disposals: [
+ *         { sellTradeId: 40, size: '1.5', costBasis: '150', proceeds: '179.82',
+ *           realizedPnl: '29.82', method: 'fifo', holdingPeriodDays: 3,
+ *           term: 'short', disposedAt: '...' }
+ *       ]
+ *     }
+ *   ],
+ *   summary: { realizedPnl: '29.82', shortTermPnl: '29.82', longTermPnl: '0' }
+ * }
+ */
+export async function getTaxLotsHandler(
+  req: Request,
+  res: Response
+): Promise<void> {
+  try {
+    const userId = (req as any).userId; // From auth middleware
+    const asset = req.query.asset as string | undefined;
+
+    const { costBasisMethod, lots } = await getTaxLots(userId, asset);
+
+    let shortTermPnl = new Decimal(0);
+    let longTermPnl = new Decimal(0);
+
+    const transformedLots = lots.map((lot) => ({
+      id: lot.id,
+      asset: lot.asset,
+      buyTradeId: lot.buyTradeId,
+      price: lot.price.toString(),
+      size: lot.size.toString(),
+      remainingSize: lot.remainingSize.toString(),
+      acquiredAt: lot.acquiredAt,
+      disposals: lot.disposals.map((d) => {
+        if (d.term === "long") {
+          longTermPnl = longTermPnl.plus(d.realizedPnl.toString());
+        } else {
+          shortTermPnl = shortTermPnl.plus(d.realizedPnl.toString());
+        }
+
+        return {
+          sellTradeId: d.sellTradeId,
+          size: d.size.toString(),
+          costBasis: d.costBasis.toString(),
+          proceeds: d.proceeds.toString(),
+          realizedPnl: d.realizedPnl.toString(),
+          method: d.method,
+          holdingPeriodDays: d.holdingPeriodDays,
+          term: d.term,
+          disposedAt: d.disposedAt,
+        };
+      }),
+    }));
+
+    res.status(200).json({
+      success: true,
+      costBasisMethod,
+      lots: transformedLots,
+      summary: {
+        realizedPnl: shortTermPnl.plus(longTermPnl).toString(),
+        shortTermPnl: shortTermPnl.toString(),
+        longTermPnl: longTermPnl.toString(),
+      },
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    res.status(500).json({
+      success: false,
+      error: message,
+    });
+  }
+}
+
+/**
+ * GET /portfolio/journal?asset=USDC&account=available&limit=50
+ * The user's journal entries, newest first, each with the account balance
+ * after it: the history behind every balance
+ *
+ * Response:
+ * {
+ *   success: true,
+ *   entries: [
+ *     {
+ *       entryId: 88, transactionId: 41, type: 'fee', account: 'available',
+ *       asset: 'USDC', amount: '-0.2', balance: '799.8',
+ *       orderId: 12, tradeId: 9, perpTradeId: null, description: null,
+ *       createdAt: '...'
+ *     },
+ *     {
+ *       entryId: 86, transactionId: 40, type: 'trade', account: 'available',
+ *       asset: 'USDC', amount: '-200', balance: '800', orderId: 12, tradeId: 9, ...
+ *     }
+ *   ]
+ * }
+ */
+export async function getJournalHandler(
+  req: Request,
+  res: Response
+): Promise<void> {
+  try {
+    const userId = (req as any).userId; // From auth middleware
+    const asset = req.query.asset as string | undefined;
+    const account = req.query.account as string | undefined;
+    const limit = req.query.limit as unknown as number;
+
+    const entries = await getJournal(userId, { asset, account, limit });
+
+    res.status(200).json({
+      success: true,
+      entries,
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    res.status(500).json({
+      success: false,
+      error: message,
+    });
+  }
+}
+
+/**
+ * GET /portfolio/risk
+ * The user's risk limits (set by an instructor) and today's usage
+ *
+ * Orders breaking a limit are rejected with 403 RISK_LIMIT_EXCEEDED and
+ * the limit as reason. Daily counts reset at midnight UTC.
+ *
+ * Response:
+ * {
+ *   success: true,
+ *   risk: {
+ *     limits: { maxPositionSize: '10', maxOrderNotional: '1000', maxOrdersPerDay: 20, maxDailyLoss: '50' },
+ *     ordersToday: 3,
+ *     realizedPnlToday: '-12.4',
+ *     dailyLossReached: false,   // true: only orders reducing the position are accepted
+ *     resetsAt: '...'
+ *   }
+ * }
+ */
+export async function getRiskHandler(
+  req: Request,
+  res: Response
+): Promise<void> {
+  try {
+    const userId = (req as any).userId; // From auth middleware
+
+    const risk = await getRiskStatus(userId);
+
+    res.status(200).json({
+      success: true,
+      risk,
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    res.status(500).json({
+      success: false,
+      error: message,
+    });
+  }
+}
+
+/**
+ * PUT /portfolio/cost-basis-method
+ * Choose how future sells consume tax lots (past disposals are unchanged)
+ *
+ * Request body: { method: 'fifo' | 'lifo' | 'hifo' | 'average' }
+ * Response: { success: true, costBasisMethod: 'hifo' }
+ */
+export async function setCostBasisMethodHandler(
+  req: Request,
+  res: Response
+): Promise<void> {
+  try {
+    const userId = (req as any).userId; // From auth middleware
+
+    const costBasisMethod = await setCostBasisMethod(userId, req.body.method);
+
+    res.status(200).json({
+      success: true,
+      costBasisMethod,
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    res.status(400).json({
+      success: false,
+      error: message,
+    });
+  }
+}
+
+/**
+ * GET /portfolio/margin?asset=SOL
+ * Equity and margin requirements at the current price (asset defaults to
+ * the base of the first listed market)
+ *
+ * Margin is across the account: equity = quote + base * price + the other
+ * holdings at their marks; initial margin = total notional / maxLeverage;
+ * below maintenanceMargin the liquidation worker closes every position.
+ *
+ * Response:
+ * {
+ *   success: true,
+ *   margin: {
+ *     accountMode: 'margin', maxLeverage: '10', price: '100',
+ *     balances: { quote: '-1000', base: '20' },
+ *     otherHoldings: [],           // e.g. [{ asset: 'JUP', size: '-50', price: '2' }]
+ *     equity: '1000', positionNotional: '2000', leverage: '2',
+ *     initialMargin: '200', maintenanceMargin: '100', availableMargin: '800',
+ *     liquidationPrice: '52.63157894736842', liquidatable: false
+ *   },
+ *   priceTimestamp: '...'
+ * }
+ *
+ * Errors:
+ * - 400 UNKNOWN_MARKET if no active market has the asset as its base
+ * - 503 PRICE_UNAVAILABLE if the price (or another held asset's) is missing or stale
+ */
+export async function getMarginHandler(
+  req: Request,
+  res: Response
+): Promise<void> {
+  try {
+    const userId = (req as any).userId; // From auth middleware
+    const asset = req.query.asset as string | undefined;
+
+    // The asset's market (default: the first listed one)
+    const markets = await getMarkets();
+    const market = asset ? markets.find((m) => m.baseAsset === asset) : markets[0];
+    if (!market) {
+      res.status(400).json({
+        success: false,
+        error: `No market for ${asset}`,
+        code: "UNKNOWN_MARKET",
+      });
+      return;
+    }
+    const { baseAsset, quoteAsset } = market;
+
+    const priceData = await getPriceWithMetadata(baseAsset);
+    if (!priceData) {
+      res.status(503).json({
+        success: false,
+        error: `Price not available or stale for ${baseAsset}`,
+        code: "PRICE_UNAVAILABLE",
+      });
+      return;
+    }
+
+    const margin = await getMarginStatus(userId, baseAsset, quoteAsset, priceData.price);
+
+    res.status(200).json({
+      success: true,
+      margin,
+      priceTimestamp: priceData.timestamp.toISOString(),
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+
+    // Another held asset cannot be priced
+    if (message.includes("Price not available") || message.includes("stale")) {
+      res.status(503).json({
+        success: false,
+        error: message,
+        code: "PRICE_UNAVAILABLE",
+      });
+      return;
+    }
+
+    res.status(500).json({
+      success: false,
+      error: message,
+    });
+  }
+}
+
+/**
+ * PUT /portfolio/account-mode
+ * Switch between a cash account and a margin account
+ *
+ * Margin accounts can borrow up to MAX_LEVERAGE and sell short. Switching
+ * back to cash requires no borrowing and no open short.
+ *
+ * Request body: { mode: 'cash' | 'margin' }
+ * Response: { success: true, accountMode: 'margin' }
+ */
+export async function setAccountModeHandler(
+  req: Request,
+  res: Response
+): Promise<void> {
+  try {
+    const userId = (req as any).userId; // From auth middleware
+
+    const accountMode = await setAccountMode(userId, req.body.mode);
+
+    res.status(200).json({
+      success: true,
+      accountMode,
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    res.status(400).json({
+      success: false,
+      error: message,
+    });
+  }
+}
+
+/**
+ * Map a deposit / withdrawal error to an HTTP response
+ */
+function sendCashFlowError(res: Response, error: unknown): void {
+  const message = error instanceof Error ? error.message : "Unknown error";
+
+  if (message.includes("cooldown")) {
+    res.status(429).json({ success: false, error: message, code: "CASH_FLOW_COOLDOWN" });
+    return;
+  }
+
+  if (message.includes("daily limit")) {
+    res.status(429).json({ success: false, error: message, code: "CASH_FLOW_LIMIT_EXCEEDED" });
+    return;
+  }
+
+  // INSUFFICIENT_BALANCE, or INSUFFICIENT_MARGIN (margin accounts)
+  const code = getTradingErrorCode(error);
+  if (code) {
+    res.status(400).json({ success: false, error: message, code });
+    return;
+  }
+
+  // A margin account's holdings cannot be priced for the margin check
+  if (message.includes("Price not available") || message.includes("stale")) {
+    res.status(503).json({ success: false, error: message, code: "PRICE_UNAVAILABLE" });
+    return;
+  }
+
+  res.status(400).json({ success: false, error: message });
+}
+
+/**
+ * POST /portfolio/deposit
+ * Simulated USDC deposit; without an amount, a faucet top-up of FAUCET_AMOUNT
+ *
+ * Deposits are external cash flows: they raise equity and contributions
+ * alike, so GET /portfolio/performance never counts them as profit.
+ *
+ * Request body: { amount?: '500' }
+ * Response (201):
+ * {
+ *   success: true,
+ *   deposit: {
+ *     transactionId: 311, type: 'deposit', asset: 'USDC', amount: '500',
+ *     available: '1312.4', remainingToday: '4500', createdAt: '...'
+ *   }
+ * }
+ *
+ * Errors:
+ * - 429 CASH_FLOW_COOLDOWN within DEPOSIT_COOLDOWN_SECONDS of the last deposit
+ * - 429 CASH_FLOW_LIMIT_EXCEEDED past DEPOSIT_DAILY_LIMIT (per UTC day)
+ */
+export async function depositHandler(
+  req: Request,
+  res: Response
+): Promise<void> {
+  try {
+    const userId = (req as any).userId; // From auth middleware
+    const { amount } = req.body as DepositInput;
+
+    const result = await deposit(userId, amount);
+
+    res.status(201).json({
+      success: true,
+      deposit: result,
+    });
+  } catch (error) {
+    sendCashFlowError(res, error);
+  }
+}
+
+/**
+ * POST /portfolio/withdraw
+ * Simulated USDC withdrawal from the available balance
+ *
+ * Request body: { amount: '200' }
+ * Response (201): { success: true, withdrawal: { transactionId, type: 'withdrawal', ... } }
+ *
+ * Errors:
+ * - 400 INSUFFICIENT_BALANCE above the available balance
+ * - 400 INSUFFICIENT_MARGIN if a margin account's equity would fall below
+ *   its initial margin
+ * - 429 CASH_FLOW_COOLDOWN / CASH_FLOW_LIMIT_EXCEEDED (WITHDRAWAL_* settings)
+ * - 503 PRICE_UNAVAILABLE if a margin account's holdings cannot be priced
+ */
+export async function withdrawHandler(
+  req: Request,
+  res: Response
+): Promise<void> {
+  try {
+    const userId = (req as any).userId; // From auth middleware
+    const { amount } = req.body as WithdrawInput;
+
+    const result = await withdraw(userId, amount);
+
+    res.status(201).json({
+      success: true,
+      withdrawal: result,
+    });
+  } catch (error) {
+    sendCashFlowError(res, error);
+  }
+}
+
+/**
+ * GET /portfolio/performance
+ * Total P&L and return with deposits and withdrawals as external cash flows
+ *
+ * Response:
+ * {
+ *   success: true,
+ *   performance: {
+ *     equity: '1580',             // Balances at market prices + perp margin and unrealized P&L
+ *     startingBalance: '1000',
+ *     deposited: '500', withdrawn: '0',
+ *     netContributions: '1500',   // Cash put in, net
+ *     totalPnl: '80',             // equity - netContributions
+ *     totalReturn: '0.0533...'    // totalPnl / (startingBalance + deposited)
+ *   },
+ *   priceTimestamp: '...'       // Oldest price used
+ * }
+ *
+ * Errors:
+ * - 503 PRICE_UNAVAILABLE if the price of an asset held is missing or stale
+ */
+export async function getPerformanceHandler(
+  req: Request,
+  res: Response
+): Promise<void> {
+  try {
+    const userId = (req as any).userId; // From auth middleware
+
+    // Every listed asset's price; getPerformance() only needs those held
+    const prices: Record<string, Decimal> = {};
+    let oldest: Date | null = null;
+    for (const symbol of await getPriceSymbols()) {
+      const priceData = await getPriceWithMetadata(symbol);
+      if (priceData) {
+        prices[symbol] = priceData.price;
+        if (!oldest || priceData.timestamp < oldest) {
+          oldest = priceData.timestamp;
+        }
+      }
+    }
+
+    const performance = await getPerformance(userId, prices);
+
+    res.status(200).json({
+      success: true,
+      performance,
+      priceTimestamp: oldest?.toISOString() ?? null,
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    if (message.includes("Price not available")) {
+      res.status(503).json({
+        success: false,
+        error: message,
+        code: "PRICE_UNAVAILABLE",
+      });
+      return;
+    }
+    res.status(500).json({
+      success: false,
+      error: message,
+    });
+  }
+}
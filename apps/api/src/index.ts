@@ -7,6 +7,9 @@ import authRouter from "./routes/auth.js";
 import orderRouter from "./routes/orders.js";
 import portfolioRouter from "./routes/portfolio.js";
 import marketRouter from "./routes/market.js";
+import perpsRouter from "./routes/perps.js";
+import accountsRouter from "./routes/accounts.js";
+import adminRouter from "./routes/admin.js";
 import { applySecurity } from "./middlewares/index.js";
 
 export function createApp(): Express {
@@ -57,6 +60,9 @@ export function createApp(): Express {
   app.use("/orders", orderRouter);
   app.use("/portfolio", portfolioRouter);
   app.use("/market", marketRouter);
+  app.use("/perps", perpsRouter);
+  app.use("/accounts", accountsRouter);
+  app.use("/admin", adminRouter);
 
   // 3. Centralized error handler (must be last)
   app.use(errorHandler);
@@ -0,0 +1,32 @@
+import type { Request, Response, NextFunction } from "express";
+import { timingSafeEqual } from "node:crypto";
+
+/**
+ * Admin middleware - validates the shared admin key
+ * Expects: X-Admin-Key: {ADMIN_API_KEY}
+ * Admin routes answer 403 while ADMIN_API_KEY is unset
+ */
+
+export function adminMiddleware(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void {
+  const adminKey = process.env.ADMIN_API_KEY;
+  if (!adminKey) {
+    res.status(403).json({ error: "Admin API is disabled" });
+    return;
+  }
+
+  const provided = req.headers["x-admin-key"];
+  if (
+    typeof provided !== "string" ||
+    provided.length !== adminKey.length ||
+    !timingSafeEqual(Buffer.from(provided), Buffer.from(adminKey))
+  ) {
+    res.status(401).json({ error: "Missing or invalid admin key" });
+    return;
+  }
+
+  next();
+}
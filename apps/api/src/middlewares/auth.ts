@@ -1,10 +1,14 @@
 import type { Request, Response, NextFunction } from "express";
 import { validateSession } from "@repo/auth";
+import { getDb } from "@repo/db";
+import { MAIN_ACCOUNT_NAME, resolveAccount } from "@repo/trading";
 
 /**
- * Auth middleware - validates session token
+ * Auth middleware - validates session token and selects the account
  * Expects: Authorization: Bearer {token}
- * Attaches: req.token, req.userId, req.sessionId
+ *          X-Account: {name} (optional sub-account, defaults to 'main')
+ * Attaches: req.token, req.userId (the selected account), req.ownerId
+ *           (the wallet's main account), req.accountName, req.sessionId
  */
 
 export async function authMiddleware(
@@ -30,8 +34,23 @@ export async function authMiddleware(
       return;
     }
 
+    // Trading routes act on the selected account
+    const accountName = req.get("X-Account") || MAIN_ACCOUNT_NAME;
+    const accountId = await resolveAccount(getDb(), userId!, accountName);
+
+    if (accountId === null) {
+      res.status(404).json({
+        success: false,
+        error: `Account '${accountName}' not found`,
+        code: "ACCOUNT_NOT_FOUND",
+      });
+      return;
+    }
+
     (req as any).token = token;
-    (req as any).userId = userId;
+    (req as any).userId = accountId;
+    (req as any).ownerId = userId;
+    (req as any).accountName = accountName;
     (req as any).sessionId = sessionId;
 
     next();
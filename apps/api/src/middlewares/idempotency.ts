@@ -0,0 +1,32 @@
+import type { Request, Response, NextFunction } from 'express';
+
+/**
+ * Accepts an Idempotency-Key header as an alias for body.clientOrderId
+ * Runs before body validation, so both forms go through the same schema
+ */
+export function idempotencyKeyMiddleware(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void {
+  const headerKey = req.get('idempotency-key');
+
+  if (headerKey === undefined) {
+    next();
+    return;
+  }
+
+  const body = (req.body ?? {}) as Record<string, unknown>;
+
+  if (body.clientOrderId !== undefined && body.clientOrderId !== headerKey) {
+    res.status(400).json({
+      success: false,
+      error: 'Idempotency-Key header and clientOrderId must match when both are given',
+      code: 'VALIDATION_ERROR',
+    });
+    return;
+  }
+
+  req.body = { ...body, clientOrderId: headerKey };
+  next();
+}
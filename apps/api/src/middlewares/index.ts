@@ -1,5 +1,6 @@
 export { requestIdMiddleware } from './requestId.js';
 export { errorHandler } from './errorHandler.js';
+export { idempotencyKeyMiddleware } from './idempotency.js';
 
 export {
   createRateLimiter,
@@ -93,6 +93,8 @@ export function configureCORS(app: Express): void {
         "Authorization",
         "X-Request-ID",
         "X-Requested-With",
+        "Idempotency-Key",
+        "X-Account",
       ],
 
       // Expose headers to client
@@ -101,6 +103,7 @@ export function configureCORS(app: Express): void {
         "X-RateLimit-Limit",
         "X-RateLimit-Remaining",
         "X-RateLimit-Reset",
+        "Idempotent-Replayed",
       ],
 
       // Preflight cache duration
@@ -0,0 +1,60 @@
+import { Router } from "express";
+import { authMiddleware } from "../middlewares/auth.js";
+import {
+  listAccountsHandler,
+  createAccountHandler,
+  resetAccountHandler,
+} from "../controllers/accounts.js";
+import {
+  orderRateLimiter,
+  readRateLimiter,
+  validateBody,
+  validateParams,
+  validateQuery,
+} from "../middlewares/index.js";
+import {
+  createAccountSchema,
+  accountParamsSchema,
+  listAccountsQuerySchema,
+} from "../schemas/index.js";
+
+const router: Router = Router();
+router.use(authMiddleware);
+
+/**
+ * GET /accounts
+ * List the wallet's paper accounts (protected)
+ */
+
+router.get(
+  "/",
+  readRateLimiter,
+  validateQuery(listAccountsQuerySchema),
+  listAccountsHandler
+);
+
+/**
+ * POST /accounts
+ * Create a named sub-account (protected)
+ */
+
+router.post(
+  "/",
+  orderRateLimiter,
+  validateBody(createAccountSchema),
+  createAccountHandler
+);
+
+/**
+ * POST /accounts/:name/reset
+ * Reset an account to INITIAL_BALANCE, archiving its history (protected)
+ */
+
+router.post(
+  "/:name/reset",
+  orderRateLimiter,
+  validateParams(accountParamsSchema),
+  resetAccountHandler
+);
+
+export default router;
@@ -0,0 +1,126 @@
+import { Router } from "express";
+import { adminMiddleware } from "../middlewares/admin.js";
+import {
+  getAdminMarketsHandler,
+  getReconciliationHandler,
+  getRiskLimitsHandler,
+  getSystemAccountsHandler,
+  removeRiskLimitsHandler,
+  runReconciliationHandler,
+  setRiskLimitsHandler,
+  upsertMarketHandler,
+} from "../controllers/admin.js";
+import {
+  publicRateLimiter,
+  strictRateLimiter,
+  validateBody,
+  validateParams,
+} from "../middlewares/index.js";
+import {
+  runReconciliationSchema,
+  reconciliationParamsSchema,
+  userParamsSchema,
+  setRiskLimitsSchema,
+  upsertMarketSchema,
+} from "../schemas/index.js";
+
+const router: Router = Router();
+router.use(adminMiddleware);
+
+/**
+ * GET /admin/reconciliation
+ * Latest ledger reconciliation run with its drifts (admin key)
+ */
+
+router.get("/reconciliation", publicRateLimiter, getReconciliationHandler);
+
+/**
+ * GET /admin/reconciliation/:runId
+ * A past reconciliation run with its drifts (admin key)
+ */
+
+router.get(
+  "/reconciliation/:runId",
+  publicRateLimiter,
+  validateParams(reconciliationParamsSchema),
+  getReconciliationHandler
+);
+
+/**
+ * POST /admin/reconciliation
+ * Reconcile balances and positions against the ledger now, optionally
+ * repairing drift (admin key)
+ */
+
+router.post(
+  "/reconciliation",
+  strictRateLimiter,
+  validateBody(runReconciliationSchema),
+  runReconciliationHandler
+);
+
+/**
+ * GET /admin/accounts
+ * Journal system account balances, e.g. fee revenue (admin key)
+ */
+
+router.get("/accounts", publicRateLimiter, getSystemAccountsHandler);
+
+/**
+ * GET /admin/users/:userId/risk-limits
+ * A user's risk limits and today's usage (admin key)
+ */
+
+router.get(
+  "/users/:userId/risk-limits",
+  publicRateLimiter,
+  validateParams(userParamsSchema),
+  getRiskLimitsHandler
+);
+
+/**
+ * PUT /admin/users/:userId/risk-limits
+ * Set max position, max order notional, max orders per day and daily
+ * loss cap for a user (admin key)
+ */
+
+router.put(
+  "/users/:userId/risk-limits",
+  strictRateLimiter,
+  validateParams(userParamsSchema),
+  validateBody(setRiskLimitsSchema),
+  setRiskLimitsHandler
+);
+
+/**
+ * DELETE /admin/users/:userId/risk-limits
+ * Remove a user's risk limits (admin key)
+ */
+
+router.delete(
+  "/users/:userId/risk-limits",
+  strictRateLimiter,
+  validateParams(userParamsSchema),
+  removeRiskLimitsHandler
+);
+
+/**
+ * GET /admin/markets
+ * Market registry, delisted markets included (admin key)
+ */
+
+router.get("/markets", publicRateLimiter, getAdminMarketsHandler);
+
+/**
+ * PUT /admin/markets
+ * List a market or update its rules, price feed and status (admin key)
+ */
+
+router.put(
+  "/markets",
+  strictRateLimiter,
+  validateBody(upsertMarketSchema),
+  upsertMarketHandler
+);
+
+export default router;
@@ -1,5 +1,6 @@
 import { Router } from "express";
 import {
+  getMarketsHandler,
   getPriceHandler,
   getAllPricesHandler,
   getMarketStatusHandler,
@@ -14,12 +15,16 @@ router.use(publicRateLimiter);
 /**
  * Market Data Routes
  *
+ * GET /market/markets       - List tradable markets and their order rules
  * GET /market/price/:symbol - Get price for a specific symbol (e.g., SOL)
  * GET /market/prices        - Get prices for all supported symbols
  * GET /market/status        - Get market data availability status
  * GET /market/candles       - Get historical OHLC candles for charting
  */
 
+// GET /market/markets - Market registry
+router.get("/markets", getMarketsHandler);
+
 // GET /market/price/:symbol - Single symbol price
 router.get("/price/:symbol", getPriceHandler);
 
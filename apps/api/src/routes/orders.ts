@@ -2,10 +2,13 @@ import { Router } from "express";
 import { authMiddleware } from "../middlewares/auth.js";
 import {
   placeOrderHandler,
+  previewOrderHandler,
   getOrderHandler,
   getUserOrdersHandler,
+  cancelOrderHandler,
 } from "../controllers/orders.js";
 import {
+  idempotencyKeyMiddleware,
   orderRateLimiter,
   readRateLimiter,
   validateBody,
@@ -14,6 +17,7 @@ import {
 } from "../middlewares/index.js";
 import {
   placeOrderSchema,
+  previewOrderSchema,
   getOrderParamsSchema,
   listOrdersQuerySchema,
 } from "../schemas/index.js";
@@ -25,15 +29,29 @@ router.use(authMiddleware);
 /**
  * POST /orders
  * Place a new order (protected - requires auth)
+ * Idempotency-Key header (or clientOrderId) makes retries safe
  */
 
 router.post(
   "/",
   orderRateLimiter,
+  idempotencyKeyMiddleware,
   validateBody(placeOrderSchema),
   placeOrderHandler
 );
 
+/**
+ * POST /orders/preview
+ * Project a market order's cost, fee and balances without executing (protected)
+ */
+
+router.post(
+  "/preview",
+  readRateLimiter,
+  validateBody(previewOrderSchema),
+  previewOrderHandler
+);
+
 /**
  * GET /orders/:orderId
  * Get single order by ID (protected)
@@ -46,6 +64,18 @@ router.get(
   getOrderHandler
 );
 
+/**
+ * DELETE /orders/:orderId
+ * Cancel a pending order (protected, owner only)
+ */
+
+router.delete(
+  "/:orderId",
+  orderRateLimiter,
+  validateParams(getOrderParamsSchema),
+  cancelOrderHandler
+);
+
 /**
  * GET /orders
  * List user's orders (protected)
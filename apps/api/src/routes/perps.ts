@@ -0,0 +1,108 @@
+import { Router } from "express";
+import { authMiddleware } from "../middlewares/auth.js";
+import {
+  getPerpMarketsHandler,
+  getPerpPositionsHandler,
+  openPerpPositionHandler,
+  closePerpPositionHandler,
+  adjustPerpMarginHandler,
+  getPerpTradesHandler,
+  getFundingHistoryHandler,
+} from "../controllers/perps.js";
+import {
+  orderRateLimiter,
+  publicRateLimiter,
+  readRateLimiter,
+  validateBody,
+  validateParams,
+  validateQuery,
+} from "../middlewares/index.js";
+import {
+  openPerpPositionSchema,
+  perpMarketParamsSchema,
+  closePerpPositionSchema,
+  adjustPerpMarginSchema,
+  perpHistoryQuerySchema,
+} from "../schemas/index.js";
+
+const router: Router = Router();
+
+/**
+ * GET /perps/markets
+ * Mark price, predicted funding rate and open interest per market (public)
+ */
+
+router.get("/markets", publicRateLimiter, getPerpMarketsHandler);
+
+router.use(authMiddleware);
+
+/**
+ * GET /perps/positions
+ * Get user's open perp positions (protected)
+ */
+
+router.get("/positions", readRateLimiter, getPerpPositionsHandler);
+
+/**
+ * POST /perps/positions
+ * Open or add to a long / short position (protected)
+ */
+
+router.post(
+  "/positions",
+  orderRateLimiter,
+  validateBody(openPerpPositionSchema),
+  openPerpPositionHandler
+);
+
+/**
+ * POST /perps/positions/:market/close
+ * Close all or part of a position (protected)
+ */
+
+router.post(
+  "/positions/:market/close",
+  orderRateLimiter,
+  validateParams(perpMarketParamsSchema),
+  validateBody(closePerpPositionSchema),
+  closePerpPositionHandler
+);
+
+/**
+ * POST /perps/positions/:market/margin
+ * Add or remove isolated margin (protected)
+ */
+
+router.post(
+  "/positions/:market/margin",
+  orderRateLimiter,
+  validateParams(perpMarketParamsSchema),
+  validateBody(adjustPerpMarginSchema),
+  adjustPerpMarginHandler
+);
+
+/**
+ * GET /perps/trades
+ * List user's perp trades (protected)
+ */
+
+router.get(
+  "/trades",
+  readRateLimiter,
+  validateQuery(perpHistoryQuerySchema),
+  getPerpTradesHandler
+);
+
+/**
+ * GET /perps/funding
+ * List user's funding payments (protected)
+ */
+
+router.get(
+  "/funding",
+  readRateLimiter,
+  validateQuery(perpHistoryQuerySchema),
+  getFundingHistoryHandler
+);
+
+export default router;
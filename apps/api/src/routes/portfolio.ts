@@ -1,7 +1,32 @@
 import { Router } from "express";
 import { authMiddleware } from "../middlewares/auth.js";
-import { getPortfolioHandler } from "../controllers/portfolio.js";
-import { readRateLimiter, validateQuery } from "../middlewares/index.js";
+import {
+  getPortfolioHandler,
+  getTaxLotsHandler,
+  setCostBasisMethodHandler,
+  getMarginHandler,
+  setAccountModeHandler,
+  getJournalHandler,
+  getRiskHandler,
+  depositHandler,
+  withdrawHandler,
+  getPerformanceHandler,
+} from "../controllers/portfolio.js";
+import {
+  orderRateLimiter,
+  readRateLimiter,
+  validateBody,
+  validateQuery,
+} from "../middlewares/index.js";
+import {
+  listLotsQuerySchema,
+  setCostBasisMethodSchema,
+  marginQuerySchema,
+  setAccountModeSchema,
+  journalQuerySchema,
+  depositSchema,
+  withdrawSchema,
+} from "../schemas/index.js";
 
 const router: Router = Router();
 router.use(authMiddleware);
@@ -14,4 +39,102 @@ router.use(authMiddleware);
 
 router.get("/", readRateLimiter, getPortfolioHandler);
 
+/**
+ * GET /portfolio/lots
+ * Get user's tax lots and realized gains per lot (protected)
+ */
+
+router.get(
+  "/lots",
+  readRateLimiter,
+  validateQuery(listLotsQuerySchema),
+  getTaxLotsHandler
+);
+
+/**
+ * GET /portfolio/journal
+ * Get user's journal entries with running balances (protected)
+ */
+
+router.get(
+  "/journal",
+  readRateLimiter,
+  validateQuery(journalQuerySchema),
+  getJournalHandler
+);
+
+/**
+ * GET /portfolio/risk
+ * Get user's risk limits and today's usage (protected)
+ */
+
+router.get("/risk", readRateLimiter, getRiskHandler);
+
+/**
+ * GET /portfolio/performance
+ * Get total P&L and return net of deposits and withdrawals (protected)
+ */
+
+router.get("/performance", readRateLimiter, getPerformanceHandler);
+
+/**
+ * POST /portfolio/deposit
+ * Simulated deposit or faucet top-up, within daily caps and cooldowns (protected)
+ */
+
+router.post(
+  "/deposit",
+  orderRateLimiter,
+  validateBody(depositSchema),
+  depositHandler
+);
+
+/**
+ * POST /portfolio/withdraw
+ * Simulated withdrawal from the available balance (protected)
+ */
+
+router.post(
+  "/withdraw",
+  orderRateLimiter,
+  validateBody(withdrawSchema),
+  withdrawHandler
+);
+
+/**
+ * PUT /portfolio/cost-basis-method
+ * Set how sells consume tax lots: fifo, lifo, hifo or average (protected)
+ */
+
+router.put(
+  "/cost-basis-method",
+  orderRateLimiter,
+  validateBody(setCostBasisMethodSchema),
+  setCostBasisMethodHandler
+);
+
+/**
+ * GET /portfolio/margin
+ * Get equity, margin requirements and liquidation price (protected)
+ */
+
+router.get(
+  "/margin",
+  readRateLimiter,
+  validateQuery(marginQuerySchema),
+  getMarginHandler
+);
+
+/**
+ * PUT /portfolio/account-mode
+ * Switch between cash and margin accounts (protected)
+ */
+
+router.put(
+  "/account-mode",
+  orderRateLimiter,
+  validateBody(setAccountModeSchema),
+  setAccountModeHandler
+);
+
 export default router;
@@ -0,0 +1,41 @@
+/**
+ * Account Validation Schemas
+ */
+
+import { z } from "zod";
+
+/**
+ * Sub-account name (e.g. "scalping")
+ */
+export const accountNameSchema = z
+  .string()
+  .regex(/^[a-z0-9_-]{1,32}$/, "Account name must be 1-32 lowercase letters, digits, - or _");
+
+/**
+ * POST /accounts body
+ */
+export const createAccountSchema = z.object({
+  name: accountNameSchema,
+});
+
+/**
+ * POST /accounts/:name/reset params
+ */
+export const accountParamsSchema = z.object({
+  name: accountNameSchema,
+});
+
+/**
+ * GET /accounts query
+ */
+export const listAccountsQuerySchema = z.object({
+  includeArchived: z
+    .enum(["true", "false"])
+    .transform((val) => val === "true")
+    .optional()
+    .default(false),
+});
+
+export type CreateAccountInput = z.infer<typeof createAccountSchema>;
+export type AccountParams = z.infer<typeof accountParamsSchema>;
+export type ListAccountsQuery = z.infer<typeof listAccountsQuerySchema>;
@@ -0,0 +1,75 @@
+/**
+ * Admin Validation Schemas
+ */
+
+import { z } from "zod";
+import { assetSchema, positiveDecimalSchema, positiveIntSchema } from "./common.js";
+
+/**
+ * POST /admin/reconciliation body
+ * repair resets drifted balances and positions to the ledger; userId
+ * reconciles a single user
+ */
+export const runReconciliationSchema = z
+  .object({
+    repair: z.boolean().optional().default(false),
+    userId: z.number().int().positive().optional(),
+  })
+  .default({ repair: false });
+
+/**
+ * GET /admin/reconciliation/:runId params
+ */
+export const reconciliationParamsSchema = z.object({
+  runId: positiveIntSchema,
+});
+
+/**
+ * /admin/users/:userId/... params
+ */
+export const userParamsSchema = z.object({
+  userId: positiveIntSchema,
+});
+
+/**
+ * PUT /admin/users/:userId/risk-limits body
+ * Omitted or null = no limit; replaces the user's previous limits
+ */
+export const setRiskLimitsSchema = z.object({
+  maxPositionSize: positiveDecimalSchema.nullable().optional(),
+  maxOrderNotional: positiveDecimalSchema.nullable().optional(),
+  maxOrdersPerDay: z.number().int().positive().nullable().optional(),
+  maxDailyLoss: positiveDecimalSchema.nullable().optional(),
+});
+
+/**
+ * PUT /admin/markets body
+ * Lists the pair, or updates its rules if listed; active: false delists it
+ */
+export const upsertMarketSchema = z
+  .object({
+    baseAsset: assetSchema,
+    quoteAsset: assetSchema,
+    tickSize: positiveDecimalSchema,
+    lotSize: positiveDecimalSchema,
+    minOrderSize: positiveDecimalSchema,
+    maxOrderSize: positiveDecimalSchema,
+    priceFeedId: z
+      .string()
+      .regex(/^0x[0-9a-fA-F]{64}$/, "priceFeedId must be a 0x-prefixed 32-byte hex ID")
+      .nullable()
+      .optional(),
+    minPrice: positiveDecimalSchema.nullable().optional(),
+    maxPrice: positiveDecimalSchema.nullable().optional(),
+    devPrice: positiveDecimalSchema.nullable().optional(),
+    active: z.boolean().optional(),
+  })
+  .refine((data) => data.baseAsset !== data.quoteAsset, {
+    message: "baseAsset and quoteAsset cannot be the same",
+  });
+
+export type RunReconciliationInput = z.infer<typeof runReconciliationSchema>;
+export type ReconciliationParams = z.infer<typeof reconciliationParamsSchema>;
+export type UserParams = z.infer<typeof userParamsSchema>;
+export type SetRiskLimitsInput = z.infer<typeof setRiskLimitsSchema>;
+export type UpsertMarketInput = z.infer<typeof upsertMarketSchema>;
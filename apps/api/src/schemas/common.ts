@@ -46,11 +46,12 @@ export const positiveIntSchema = z
   .refine((val) => val > 0, "Must be greater than 0");
 
 /**
- * Supported trading pairs
+ * Asset symbol (e.g. "SOL", "USDC")
+ * Only the format: whether it is listed is up to the market registry
  */
-export const assetSchema = z.enum(["SOL", "USD", "USDC"], {
-  error: "Asset must be one of: SOL, USD, USDC",
-});
+export const assetSchema = z
+  .string()
+  .regex(/^[A-Z0-9]{1,20}$/, "Asset must be 1-20 uppercase letters or digits");
 
 /**
  * Order side schema
@@ -60,13 +61,34 @@ export const orderSideSchema = z.enum(["buy", "sell"], {
 });
 
 /**
- * Token Symbol for market data
+ * Order type schema
+ */
+export const orderTypeSchema = z.enum(
+  ["market", "limit", "stop_market", "take_profit", "trailing_stop"],
+  {
+    error:
+      "Order type must be 'market', 'limit', 'stop_market', 'take_profit' or 'trailing_stop'",
+  }
+);
+
+/**
+ * Token Symbol for market data (case-insensitive)
+ * Only the format: whether it is listed is up to the market registry
  */
 export const symbolSchema = z
   .string()
   .min(1, "Token symbol too short")
-  .max(10, "Token symbol too long")
+  .max(20, "Token symbol too long")
   .transform((val) => val.toUpperCase())
-  .refine((val) => ["SOL", "BTC", "ETH", "USD", "USDC"].includes(val), {
-    message: "Unsupported token symbol",
+  .refine((val) => /^[A-Z0-9]+$/.test(val), {
+    message: "Token symbol may only contain letters and digits",
   });
+
+/**
+ * Client-supplied order id / idempotency key (unique per user)
+ */
+export const clientOrderIdSchema = z
+  .string()
+  .min(1, "clientOrderId cannot be empty")
+  .max(64, "clientOrderId must be at most 64 characters")
+  .regex(/^[A-Za-z0-9_\-:.]+$/, "clientOrderId may only contain letters, digits, _ - : .");
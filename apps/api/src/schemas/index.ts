@@ -10,7 +10,9 @@ export {
   positiveIntSchema,
   assetSchema,
   orderSideSchema,
+  orderTypeSchema,
   symbolSchema,
+  clientOrderIdSchema,
 } from "./common.js";
 
 // Auth
@@ -24,9 +26,11 @@ export {
 // Orders
 export {
   placeOrderSchema,
+  previewOrderSchema,
   getOrderParamsSchema,
   listOrdersQuerySchema,
   type PlaceOrderInput,
+  type PreviewOrderInput,
   type GetOrderParams,
   type ListOrdersQuery,
 } from "./orders.js";
@@ -35,4 +39,65 @@ export {
 export {
   getPriceParamsSchema,
   type GetPriceParams,
-} from "./market.js";
\ No newline at end of file
+} from "./market.js";
+// Portfolio
+export {
+  costBasisMethodSchema,
+  setCostBasisMethodSchema,
+  listLotsQuerySchema,
+  accountModeSchema,
+  setAccountModeSchema,
+  marginQuerySchema,
+  userJournalAccountSchema,
+  journalQuerySchema,
+  depositSchema,
+  withdrawSchema,
+  type SetCostBasisMethodInput,
+  type ListLotsQuery,
+  type SetAccountModeInput,
+  type MarginQuery,
+  type JournalQuery,
+  type DepositInput,
+  type WithdrawInput,
+} from "./portfolio.js";
+
+// Perps
+export {
+  perpMarketSchema,
+  perpSideSchema,
+  openPerpPositionSchema,
+  perpMarketParamsSchema,
+  closePerpPositionSchema,
+  adjustPerpMarginSchema,
+  perpHistoryQuerySchema,
+  type OpenPerpPositionInput,
+  type PerpMarketParams,
+  type ClosePerpPositionInput,
+  type AdjustPerpMarginInput,
+  type PerpHistoryQuery,
+} from "./perps.js";
+
+// Accounts
+export {
+  accountNameSchema,
+  createAccountSchema,
+  accountParamsSchema,
+  listAccountsQuerySchema,
+  type CreateAccountInput,
+  type AccountParams,
+  type ListAccountsQuery,
+} from "./accounts.js";
+
+// Admin
+export {
+  runReconciliationSchema,
+  reconciliationParamsSchema,
+  userParamsSchema,
+  setRiskLimitsSchema,
+  upsertMarketSchema,
+  type RunReconciliationInput,
+  type ReconciliationParams,
+  type UserParams,
+  type SetRiskLimitsInput,
+  type UpsertMarketInput,
+} from "./admin.js";
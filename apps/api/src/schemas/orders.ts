@@ -7,31 +7,107 @@ import {
   positiveDecimalSchema,
   assetSchema,
   orderSideSchema,
+  orderTypeSchema,
   positiveIntSchema,
+  clientOrderIdSchema,
 } from "./common.js";
 
+/**
+ * Bracket levels attached to a market or limit entry
+ */
+export const bracketSchema = z.object({
+  stopLossPrice: positiveDecimalSchema,
+  takeProfitPrice: positiveDecimalSchema,
+});
+
 /**
  * POST /orders body
  */
 export const placeOrderSchema = z
   .object({
     side: orderSideSchema,
+    type: orderTypeSchema.optional().default("market"),
     baseAsset: assetSchema,
     quoteAsset: assetSchema,
-    requestedSize: positiveDecimalSchema
-      .refine((val) => parseFloat(val) > 0.001, {
-        message: "requestedSize must be greater than 0.001",
+    requestedSize: positiveDecimalSchema.optional(), // Min/max/lot size: the market's rules
+    quoteSize: positiveDecimalSchema.optional(),
+    limitPrice: positiveDecimalSchema.optional(),
+    triggerPrice: positiveDecimalSchema.optional(),
+    bracket: bracketSchema.optional(),
+    trailAmount: positiveDecimalSchema.optional(),
+    trailPercent: positiveDecimalSchema
+      .refine((val) => parseFloat(val) < 100, {
+        message: "trailPercent must be less than 100",
       })
-      .refine((val) => parseFloat(val) <= 10000, {
-        message: "requestedSize must be less than or equal to 10000",
-      }),
+      .optional(),
+    clientOrderId: clientOrderIdSchema.optional(),
   })
   .refine((data) => data.baseAsset !== data.quoteAsset, {
     message: "baseAsset and quoteAsset cannot be the same",
-  });
+  })
+  .refine(
+    (data) => (data.requestedSize !== undefined) !== (data.quoteSize !== undefined),
+    {
+      message: "Exactly one of requestedSize or quoteSize is required",
+      path: ["requestedSize"],
+    }
+  )
+  .refine((data) => data.quoteSize === undefined || data.type === "market", {
+    message: "quoteSize is only allowed on market orders",
+    path: ["quoteSize"],
+  })
+  .refine(
+    (data) => (data.type === "limit") === (data.limitPrice !== undefined),
+    {
+      message: "limitPrice is required for limit orders and not allowed otherwise",
+      path: ["limitPrice"],
+    }
+  )
+  .refine(
+    (data) =>
+      (data.type === "stop_market" || data.type === "take_profit") ===
+      (data.triggerPrice !== undefined),
+    {
+      message:
+        "triggerPrice is required for stop_market/take_profit orders and not allowed otherwise",
+      path: ["triggerPrice"],
+    }
+  )
+  .refine(
+    (data) =>
+      data.bracket === undefined ||
+      data.type === "market" ||
+      data.type === "limit",
+    {
+      message: "bracket is only allowed on market or limit entries",
+      path: ["bracket"],
+    }
+  )
+  .refine(
+    (data) =>
+      data.type === "trailing_stop"
+        ? (data.trailAmount !== undefined) !== (data.trailPercent !== undefined)
+        : data.trailAmount === undefined && data.trailPercent === undefined,
+    {
+      message:
+        "trailing_stop orders need exactly one of trailAmount or trailPercent; other orders allow neither",
+      path: ["trailAmount"],
+    }
+  );
+
+/**
+ * POST /orders/preview body (same as POST /orders, market orders only)
+ */
+export const previewOrderSchema = placeOrderSchema.refine(
+  (data) => data.type === "market",
+  {
+    message: "Only market orders can be previewed",
+    path: ["type"],
+  }
+);
 
 /**
- * GET /orders/:orderId params
+ * GET/DELETE /orders/:orderId params
  */
 export const getOrderParamsSchema = z.object({
   orderId: positiveIntSchema,
@@ -58,5 +134,6 @@ export const listOrdersQuerySchema = z.object({
 });
 
 export type PlaceOrderInput = z.infer<typeof placeOrderSchema>;
+export type PreviewOrderInput = z.infer<typeof previewOrderSchema>;
 export type GetOrderParams =z.infer<typeof getOrderParamsSchema>;
 export type ListOrdersQuery = z.infer<typeof listOrdersQuerySchema>;
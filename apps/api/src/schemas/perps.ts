@@ -0,0 +1,76 @@
+/**
+ * Perpetual Futures Validation Schemas
+ */
+
+import { z } from "zod";
+import { positiveDecimalSchema } from "./common.js";
+
+/**
+ * Perp market symbol
+ */
+export const perpMarketSchema = z.enum(["SOL-PERP"], {
+  error: "Perp market must be one of: SOL-PERP",
+});
+
+/**
+ * Perp position side
+ */
+export const perpSideSchema = z.enum(["long", "short"], {
+  error: "Perp side must be 'long' or 'short'",
+});
+
+/**
+ * POST /perps/positions body
+ * Open or add to a position; leverage defaults to 1 (fully collateralized)
+ */
+export const openPerpPositionSchema = z.object({
+  market: perpMarketSchema,
+  side: perpSideSchema,
+  size: positiveDecimalSchema,
+  leverage: positiveDecimalSchema.optional().default("1"),
+});
+
+/**
+ * Perp market route param (/perps/positions/:market/...)
+ */
+export const perpMarketParamsSchema = z.object({
+  market: perpMarketSchema,
+});
+
+/**
+ * POST /perps/positions/:market/close body (omit size to close it all)
+ */
+export const closePerpPositionSchema = z
+  .object({
+    size: positiveDecimalSchema.optional(),
+  })
+  .default({});
+
+/**
+ * POST /perps/positions/:market/margin body
+ */
+export const adjustPerpMarginSchema = z.object({
+  action: z.enum(["add", "remove"], {
+    error: "Margin action must be 'add' or 'remove'",
+  }),
+  amount: positiveDecimalSchema,
+});
+
+/**
+ * GET /perps/trades and GET /perps/funding query
+ */
+export const perpHistoryQuerySchema = z.object({
+  market: perpMarketSchema.optional(),
+  limit: z
+    .string()
+    .regex(/^\d+$/)
+    .transform((val) => Math.min(parseInt(val, 10), 100))
+    .optional()
+    .default(50),
+});
+
+export type OpenPerpPositionInput = z.infer<typeof openPerpPositionSchema>;
+export type PerpMarketParams = z.infer<typeof perpMarketParamsSchema>;
+export type ClosePerpPositionInput = z.infer<typeof closePerpPositionSchema>;
+export type AdjustPerpMarginInput = z.infer<typeof adjustPerpMarginSchema>;
+export type PerpHistoryQuery = z.infer<typeof perpHistoryQuerySchema>;
@@ -0,0 +1,93 @@
+/**
+ * Portfolio Validation Schemas
+ */
+
+import { z } from "zod";
+import { assetSchema, positiveDecimalSchema } from "./common.js";
+
+/**
+ * Cost-basis method for tax lots
+ */
+export const costBasisMethodSchema = z.enum(["fifo", "lifo", "hifo", "average"], {
+  error: "Cost basis method must be one of: fifo, lifo, hifo, average",
+});
+
+/**
+ * PUT /portfolio/cost-basis-method body
+ */
+export const setCostBasisMethodSchema = z.object({
+  method: costBasisMethodSchema,
+});
+
+/**
+ * Account mode: cash (fully funded) or margin (borrowing + shorts)
+ */
+export const accountModeSchema = z.enum(["cash", "margin"], {
+  error: "Account mode must be one of: cash, margin",
+});
+
+/**
+ * PUT /portfolio/account-mode body
+ */
+export const setAccountModeSchema = z.object({
+  mode: accountModeSchema,
+});
+
+/**
+ * GET /portfolio/margin query (base asset, defaults to the first listed market's)
+ */
+export const marginQuerySchema = z.object({
+  asset: assetSchema.optional(),
+});
+
+/**
+ * GET /portfolio/lots query (optional filters)
+ */
+export const listLotsQuerySchema = z.object({
+  asset: assetSchema.optional(),
+});
+
+/**
+ * Journal accounts a user holds
+ */
+export const userJournalAccountSchema = z.enum(["available", "locked", "perp_margin"], {
+  error: "Account must be one of: available, locked, perp_margin",
+});
+
+/**
+ * GET /portfolio/journal query (optional filters)
+ */
+export const journalQuerySchema = z.object({
+  asset: assetSchema.optional(),
+  account: userJournalAccountSchema.optional(),
+  limit: z
+    .string()
+    .regex(/^\d+$/)
+    .transform((val) => Math.min(parseInt(val, 10), 100))
+    .optional()
+    .default(50),
+});
+
+/**
+ * POST /portfolio/deposit body (no amount: a faucet top-up of FAUCET_AMOUNT)
+ */
+export const depositSchema = z
+  .object({
+    amount: positiveDecimalSchema.optional(),
+  })
+  .default({});
+
+/**
+ * POST /portfolio/withdraw body
+ */
+export const withdrawSchema = z.object({
+  amount: positiveDecimalSchema,
+});
+
+export type SetCostBasisMethodInput = z.infer<typeof setCostBasisMethodSchema>;
+export type ListLotsQuery = z.infer<typeof listLotsQuerySchema>;
+export type SetAccountModeInput = z.infer<typeof setAccountModeSchema>;
+export type MarginQuery = z.infer<typeof marginQuerySchema>;
+export type JournalQuery = z.infer<typeof journalQuerySchema>;
+export type DepositInput = z.infer<typeof depositSchema>;
+export type WithdrawInput = z.infer<typeof withdrawSchema>;
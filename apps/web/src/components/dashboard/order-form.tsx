@@ -49,6 +49,7 @@ export function OrderForm() {
       return;
     }
 
+    // Estimate only; USDC orders are sized by the server at its own price
     let solAmount = numericSize;
     if (currency === 'USDC') {
       solAmount = numericSize / solPrice;
@@ -65,7 +66,9 @@ export function OrderForm() {
         side,
         baseAsset: 'SOL',
         quoteAsset: 'USDC',
-        requestedSize: solAmount.toString(),
+        ...(currency === 'USDC'
+          ? { quoteSize: numericSize.toString() }
+          : { requestedSize: numericSize.toString() }),
       });
 
       addOrder(order);
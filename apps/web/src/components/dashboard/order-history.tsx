@@ -42,6 +42,12 @@ function OrderRow({ order, isBuy }: OrderRowProps) {
           <span>Fee:</span>
           <span className='text-foreground'>-${formatNumber(order.feesApplied, 2)}</span>
         </div>
+        {Number(order.slippage) > 0 && (
+          <div className='flex justify-between'>
+            <span>Slippage:</span>
+            <span className='text-foreground'>-${formatNumber(order.slippage, 2)}</span>
+          </div>
+        )}
       </div>
     </div>
   );
@@ -45,6 +45,9 @@ export function PortfolioSummary({
   const unrealizedPnLPercent =
     entryValue > 0 ? (unrealizedPnL / entryValue) * 100 : 0;
 
+  // Realized P&L is tracked server-side on every sell
+  const realizedPnL = solPosition ? parseFloat(solPosition.realizedPnl || '0') : 0;
+
   return (
     <DashboardWrapper name="Portfolio Overview" className={className}>
       <Card className="h-full border-0 shadow-none overflow-hidden">
@@ -71,6 +74,15 @@ export function PortfolioSummary({
                   </Value>
               </div>
             </Card2>
+            {/* Realized P&L */}
+            <Card2>
+              <Description>Realized P&L</Description>
+              <div className='ml-auto text-right'>
+                <Value className={`${realizedPnL >= 0 ? 'text-green-500' : 'text-red-500'}`}>
+                  {realizedPnL >= 0 ? '+' : ''}{formatCurrency(realizedPnL)}
+                </Value>
+              </div>
+            </Card2>
             {/* USDC Balance */}
             <Card2>
               <Description>USDC Balance</Description>
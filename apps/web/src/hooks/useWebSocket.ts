@@ -5,11 +5,15 @@ import {
   WSMessage,
   WSPriceMessage,
   WSOrderFilledMessage,
+  WSOrderCancelledMessage,
   WSPortfolioMessage,
+  WSLiquidationMessage,
+  WSPerpPositionMessage,
+  WSFundingPaymentMessage,
 } from '@/types';
 import { toast } from 'sonner';
 
-type WSChannel = 'prices' | 'orders' | 'portfolio';
+type WSChannel = 'prices' | 'orders' | 'portfolio' | 'perps';
 
 interface UseWebSocketProps {
   token?: string | null;
@@ -48,6 +52,8 @@ export function useWebSocket({ token, enabled = true }: UseWebSocketProps) {
             tradingStore.setPrice(priceMsg.symbol, {
               symbol: priceMsg.symbol,
               price: priceMsg.price,
+              bid: priceMsg.bid,
+              ask: priceMsg.ask,
               updatedAt: priceMsg.timestamp,
             });
             break;
@@ -63,12 +69,39 @@ export function useWebSocket({ token, enabled = true }: UseWebSocketProps) {
             toast.success(`Order ${orderMsg.orderId} filled!`);
             break;
 
+          case 'order_cancelled':
+            const cancelMsg = message as unknown as WSOrderCancelledMessage;
+            tradingStore.updateOrder(cancelMsg.orderId, { status: 'cancelled' });
+            toast.info(`Order ${cancelMsg.orderId} cancelled`);
+            break;
+
           case 'portfolio':
             const portfolioMsg = message as unknown as WSPortfolioMessage;
             tradingStore.setBalances(portfolioMsg.balances);
             tradingStore.setPositions(portfolioMsg.positions);
             break;
 
+          case 'liquidation':
+            const liquidationMsg = message as unknown as WSLiquidationMessage;
+            toast.error(
+              `Position liquidated: ${liquidationMsg.side} ${liquidationMsg.executedSize} @ ${liquidationMsg.executedPrice}`
+            );
+            break;
+
+          case 'perp_position':
+            const perpMsg = message as unknown as WSPerpPositionMessage;
+            if (perpMsg.reason === 'liquidation') {
+              toast.error(`${perpMsg.market} position liquidated @ ${perpMsg.price}`);
+            }
+            break;
+
+          case 'funding_payment':
+            const fundingMsg = message as unknown as WSFundingPaymentMessage;
+            toast.info(
+              `${fundingMsg.market} funding ${fundingMsg.amount.startsWith('-') ? 'paid' : 'received'}: ${fundingMsg.amount.replace('-', '')}`
+            );
+            break;
+
           case 'subscribed':
             console.log(`Subscribed to ${(message as any).channel}`);
             break;
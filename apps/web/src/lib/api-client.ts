@@ -7,8 +7,21 @@ import {
   AuthLoginRequest,
   AuthLoginResponse,
   PlaceOrderRequest,
+  OrderPreview,
   Order,
+  OrderStatus,
   Portfolio,
+  CostBasisMethod,
+  TaxLotsResponse,
+  AccountMode,
+  MarginStatus,
+  PerpMarket,
+  PerpMarketStatus,
+  PerpPosition,
+  OpenPerpPositionRequest,
+  PerpTradeResult,
+  PerpTrade,
+  FundingPayment,
   PriceData,
   MarketStatus,
 } from '../types';
@@ -81,9 +94,16 @@ class ApiClient {
     const response = await this.client.post<{ 
       success: boolean; 
       orderId: number; 
-      executedSize: string; 
-      executedPrice: string; 
-      feesApplied: string; 
+      executedSize?: string; 
+      executedPrice?: string; 
+      slippage?: string;
+      feesApplied?: string; 
+      limitPrice?: string;
+      triggerPrice?: string;
+      childOrderIds?: number[];
+      trailAmount?: string | null;
+      trailPercent?: string | null;
+      trailingPeak?: string;
       status: string;
       createdAt?: string;
       updatedAt?: string;
@@ -96,13 +116,27 @@ class ApiClient {
     const order: Order = {
       orderId: apiOrderData.orderId,
       side: request.side,
-      status: apiOrderData.status as 'pending' | 'filled' | 'rejected',
+      type: request.type ?? 'market',
+      status: apiOrderData.status as OrderStatus,
       baseAsset: request.baseAsset,
       quoteAsset: request.quoteAsset,
-      requestedSize: request.requestedSize,
-      executedPrice: apiOrderData.executedPrice,
-      executedSize: apiOrderData.executedSize,
-      feesApplied: apiOrderData.feesApplied,
+      // Quote-denominated orders are sized by the server
+      requestedSize: request.requestedSize ?? apiOrderData.executedSize ?? '0',
+      limitPrice: apiOrderData.limitPrice ?? null,
+      triggerPrice: apiOrderData.triggerPrice ?? null,
+      stopLossPrice: request.bracket?.stopLossPrice ?? null,
+      takeProfitPrice: request.bracket?.takeProfitPrice ?? null,
+      trailAmount: apiOrderData.trailAmount ?? null,
+      trailPercent: apiOrderData.trailPercent ?? null,
+      trailingPeak: apiOrderData.trailingPeak ?? null,
+      parentOrderId: null,
+      childOrderIds: apiOrderData.childOrderIds ?? [],
+      clientOrderId: request.clientOrderId ?? null,
+      // Limit and trigger orders rest as pending, so nothing has executed yet
+      executedPrice: apiOrderData.executedPrice ?? '0',
+      executedSize: apiOrderData.executedSize ?? '0',
+      slippage: apiOrderData.slippage ?? '0',
+      feesApplied: apiOrderData.feesApplied ?? '0',
       createdAt: apiOrderData.createdAt || new Date().toISOString(),
       updatedAt: apiOrderData.updatedAt || new Date().toISOString(),
     };
@@ -110,6 +144,16 @@ class ApiClient {
     return order;
   }
 
+  async previewOrder(request: PlaceOrderRequest): Promise<OrderPreview> {
+    const { data } = await this.client.post<{ success: boolean } & OrderPreview>('/orders/preview', request);
+    const { success, ...preview } = data;
+    return preview;
+  }
+
+  async cancelOrder(orderId: number): Promise<void> {
+    await this.client.delete(`/orders/${orderId}`);
+  }
+
   async getOrders(): Promise<Order[]> {
     const response = await this.client.get<{ success: boolean; orders: Order[] }>('/orders');
     return response.data.orders;
@@ -126,6 +170,85 @@ class ApiClient {
     return response.data.portfolio;
   }
 
+  async getTaxLots(asset?: string): Promise<TaxLotsResponse> {
+    const response = await this.client.get<{ success: boolean } & TaxLotsResponse>('/portfolio/lots', {
+      params: asset ? { asset } : undefined,
+    });
+    const { success, ...lots } = response.data;
+    return lots;
+  }
+
+  async setCostBasisMethod(method: CostBasisMethod): Promise<CostBasisMethod> {
+    const response = await this.client.put<{ success: boolean; costBasisMethod: CostBasisMethod }>(
+      '/portfolio/cost-basis-method',
+      { method }
+    );
+    return response.data.costBasisMethod;
+  }
+
+  async getMargin(asset?: string): Promise<MarginStatus> {
+    const response = await this.client.get<{ success: boolean; margin: MarginStatus }>('/portfolio/margin', {
+      params: asset ? { asset } : undefined,
+    });
+    return response.data.margin;
+  }
+
+  async setAccountMode(mode: AccountMode): Promise<AccountMode> {
+    const response = await this.client.put<{ success: boolean; accountMode: AccountMode }>(
+      '/portfolio/account-mode',
+      { mode }
+    );
+    return response.data.accountMode;
+  }
+
+  // Perp endpoints
+  async getPerpMarkets(): Promise<PerpMarketStatus[]> {
+    const response = await this.client.get<{ success: boolean; markets: PerpMarketStatus[] }>('/perps/markets');
+    return response.data.markets;
+  }
+
+  async getPerpPositions(): Promise<PerpPosition[]> {
+    const response = await this.client.get<{ success: boolean; positions: PerpPosition[] }>('/perps/positions');
+    return response.data.positions;
+  }
+
+  async openPerpPosition(request: OpenPerpPositionRequest): Promise<PerpTradeResult> {
+    const response = await this.client.post<{ success: boolean } & PerpTradeResult>('/perps/positions', request);
+    const { success, ...trade } = response.data;
+    return trade;
+  }
+
+  async closePerpPosition(market: PerpMarket, size?: string): Promise<PerpTradeResult> {
+    const response = await this.client.post<{ success: boolean } & PerpTradeResult>(
+      `/perps/positions/${market}/close`,
+      size ? { size } : {}
+    );
+    const { success, ...trade } = response.data;
+    return trade;
+  }
+
+  async adjustPerpMargin(market: PerpMarket, action: 'add' | 'remove', amount: string): Promise<PerpPosition> {
+    const response = await this.client.post<{ success: boolean; position: PerpPosition }>(
+      `/perps/positions/${market}/margin`,
+      { action, amount }
+    );
+    return response.data.position;
+  }
+
+  async getPerpTrades(market?: PerpMarket): Promise<PerpTrade[]> {
+    const response = await this.client.get<{ success: boolean; trades: PerpTrade[] }>('/perps/trades', {
+      params: market ? { market } : undefined,
+    });
+    return response.data.trades;
+  }
+
+  async getFundingHistory(market?: PerpMarket): Promise<FundingPayment[]> {
+    const response = await this.client.get<{ success: boolean; payments: FundingPayment[] }>('/perps/funding', {
+      params: market ? { market } : undefined,
+    });
+    return response.data.payments;
+  }
+
   // Market endpoints
   async getPrice(symbol: string): Promise<PriceData> {
     const response = await this.client.get<PriceData>(`/market/price/${symbol}`);
@@ -24,24 +24,78 @@ export interface AuthLoginResponse {
 
 // Order Types
 export type OrderSide = 'buy' | 'sell';
-export type OrderStatus = 'pending' | 'filled' | 'rejected';
+export type OrderType = 'market' | 'limit' | 'stop_market' | 'take_profit' | 'trailing_stop' | 'liquidation';
+export type OrderStatus = 'pending' | 'filled' | 'rejected' | 'cancelled';
 
 export interface PlaceOrderRequest {
   side: OrderSide;
+  type?: OrderType;
   baseAsset: string;
   quoteAsset: string;
-  requestedSize: string;
+  requestedSize?: string;
+  quoteSize?: string; // Market orders: quote amount incl. fee, sized server-side
+  limitPrice?: string;
+  triggerPrice?: string;
+  bracket?: {
+    stopLossPrice: string;
+    takeProfitPrice: string;
+  };
+  trailAmount?: string;
+  trailPercent?: string;
+  clientOrderId?: string; // Idempotency key: retries return the original order
+}
+
+// Projected outcome of a market order (POST /orders/preview), nothing executed
+export interface OrderPreview {
+  side: OrderSide;
+  baseAsset: string;
+  quoteAsset: string;
+  executedSize: string;
+  executedPrice: string; // Market price moved by the size's price impact
+  referencePrice: string; // Market price before impact
+  priceImpact: string;
+  slippage: string; // (executedPrice - referencePrice) * size, in the quote asset
+  cost: string;
+  fee: string;
+  quoteAmount: string; // Spent (buy) / received (sell), fee included
+  realizedPnl: string | null; // Sells only
+  balances: {
+    asset: string;
+    available: string;
+    projectedAvailable: string;
+  }[];
+  position: {
+    size: string;
+    avgEntryPrice: string;
+    projectedSize: string;
+    projectedAvgEntryPrice: string;
+  };
+  priceTimestamp: string;
+  priceAgeMs: number;
+  quoteSize?: string;
 }
 
 export interface Order {
   orderId: number;
   side: OrderSide;
+  type: OrderType;
   status: OrderStatus;
   baseAsset: string;
   quoteAsset: string;
   requestedSize: string;
+  limitPrice: string | null;
+  triggerPrice: string | null;
+  stopLossPrice: string | null;
+  takeProfitPrice: string | null;
+  trailAmount: string | null;
+  trailPercent: string | null;
+  trailingPeak: string | null; // High (sell) / low (buy) water mark for trailing stops
+  parentOrderId: number | null; // Bracket entry, for stop-loss/take-profit legs
+  childOrderIds: number[]; // Bracket legs, for filled bracket entries
+  clientOrderId: string | null;
   executedPrice: string;
   executedSize: string;
+  slippage: string; // Price impact cost of a market fill, in the quote asset
   feesApplied: string;
   createdAt: string;
   updatedAt: string;
@@ -56,19 +110,183 @@ export interface Balance {
 
 export interface Position {
   asset: string;
-  size: string;
+  size: string; // Negative for a short (margin accounts)
   avgEntryPrice: string;
+  realizedPnl: string; // Cumulative over all closing trades, net of their fees
 }
 
 export interface Portfolio {
   balances: Balance[];
   positions: Position[];
+  totalRealizedPnl: string;
+  costBasisMethod: CostBasisMethod;
+  accountMode: AccountMode;
+  feeTier?: FeeTierStatus;
+}
+
+// Fee tier (GET /portfolio): trailing 30-day volume sets maker/taker rates
+export interface FeeTierStatus {
+  tier: string;
+  appliedTier: string; // Override label when one is active
+  makerRate: string;
+  takerRate: string;
+  volume30d: string;
+  override: { label: string; makerRate: string; takerRate: string; expiresAt: string | null } | null;
+  nextTier: {
+    tier: string;
+    minVolume: string;
+    makerRate: string;
+    takerRate: string;
+    volumeRemaining: string;
+    progress: string;
+  } | null;
+}
+
+// Margin types (GET /portfolio/margin)
+export type AccountMode = 'cash' | 'margin';
+
+export interface MarginStatus {
+  accountMode: AccountMode;
+  maxLeverage: string;
+  price: string;
+  balances: { quote: string; base: string }; // Negative when borrowed / short
+  equity: string;
+  positionNotional: string;
+  leverage: string | null;
+  initialMargin: string;
+  maintenanceMargin: string;
+  availableMargin: string;
+  liquidationPrice: string | null;
+  liquidatable: boolean;
+}
+
+// Perp types (/perps)
+export type PerpMarket = 'SOL-PERP';
+export type PerpSide = 'long' | 'short';
+
+export interface PerpMarketStatus {
+  market: PerpMarket;
+  baseAsset: string;
+  quoteAsset: string;
+  indexPrice: string;
+  markPrice: string;
+  fundingRate: string; // Per interval, > 0: longs pay shorts
+  nextFundingTime: string;
+  fundingIntervalMs: number;
+  openInterest: { long: string; short: string };
+  maxLeverage: string;
+}
+
+export interface PerpPosition {
+  id: number;
+  market: PerpMarket;
+  side: PerpSide;
+  size: string; // Negative for a short
+  entryPrice: string;
+  margin: string; // Isolated collateral
+  markPrice: string;
+  notional: string;
+  unrealizedPnl: string;
+  equity: string;
+  leverage: string | null;
+  maintenanceMargin: string;
+  liquidationPrice: string | null;
+  liquidatable: boolean;
+  realizedPnl: string; // Net of trading fees
+  fundingPnl: string; // Negative = paid
+}
+
+export interface OpenPerpPositionRequest {
+  market: PerpMarket;
+  side: PerpSide;
+  size: string;
+  leverage?: string;
+}
+
+export interface PerpTrade {
+  id: number;
+  positionId: number;
+  market: PerpMarket;
+  side: OrderSide;
+  type: 'market' | 'liquidation';
+  price: string;
+  size: string;
+  fee: string;
+  realizedPnl: string | null;
+  createdAt: string;
+}
+
+export interface PerpTradeResult {
+  tradeId: number;
+  positionId: number;
+  market: PerpMarket;
+  side: OrderSide;
+  price: string;
+  size: string;
+  fee: string;
+  realizedPnl: string | null;
+  position: {
+    size: string;
+    entryPrice: string;
+    margin: string;
+    realizedPnl: string;
+    fundingPnl: string;
+  };
+}
+
+export interface FundingPayment {
+  id: number;
+  positionId: number;
+  market: PerpMarket;
+  fundingTime: string;
+  rate: string;
+  markPrice: string;
+  positionSize: string;
+  amount: string; // Negative = paid
+}
+
+// Tax lot types (GET /portfolio/lots)
+export type CostBasisMethod = 'fifo' | 'lifo' | 'hifo' | 'average';
+
+export interface LotDisposal {
+  sellTradeId: number;
+  size: string;
+  costBasis: string;
+  proceeds: string; // Net of the lot's share of the sell fee
+  realizedPnl: string;
+  method: CostBasisMethod;
+  holdingPeriodDays: number;
+  term: 'short' | 'long';
+  disposedAt: string;
+}
+
+export interface TaxLot {
+  id: number;
+  asset: string;
+  buyTradeId: number | null;
+  price: string;
+  size: string;
+  remainingSize: string;
+  acquiredAt: string;
+  disposals: LotDisposal[];
+}
+
+export interface TaxLotsResponse {
+  costBasisMethod: CostBasisMethod;
+  lots: TaxLot[];
+  summary: {
+    realizedPnl: string;
+    shortTermPnl: string;
+    longTermPnl: string;
+  };
 }
 
 // Market Types
 export interface PriceData {
   symbol: string;
   price: string;
+  bid?: string; // Market sells execute here
+  ask?: string; // Market buys execute here
   updatedAt: string;
 }
 
@@ -92,7 +310,11 @@ export type WSMessageType =
   | 'unsubscribed'
   | 'price'
   | 'order_filled'
-  | 'portfolio';
+  | 'order_cancelled'
+  | 'portfolio'
+  | 'liquidation'
+  | 'perp_position'
+  | 'funding_payment';
 
 export interface WSMessage {
   type: WSMessageType;
@@ -103,6 +325,8 @@ export interface WSPriceMessage {
   type: 'price';
   symbol: string;
   price: string;
+  bid: string;
+  ask: string;
   timestamp: string;
 }
 
@@ -113,6 +337,16 @@ export interface WSOrderFilledMessage {
   executedPrice: string;
   executedSize: string;
   fee: string;
+  parentOrderId: number | null;
+  childOrderIds: number[];
+}
+
+export interface WSOrderCancelledMessage {
+  type: 'order_cancelled';
+  orderId: number;
+  releasedAsset: string | null;
+  releasedAmount: string;
+  parentOrderId: number | null;
 }
 
 export interface WSPortfolioMessage {
@@ -121,6 +355,43 @@ export interface WSPortfolioMessage {
   positions: Position[];
 }
 
+export interface WSLiquidationMessage {
+  type: 'liquidation';
+  orderId: number;
+  side: OrderSide;
+  executedPrice: string;
+  executedSize: string;
+  equity: string;
+  maintenanceMargin: string;
+  badDebt: string;
+}
+
+export interface WSPerpPositionMessage {
+  type: 'perp_position';
+  market: PerpMarket;
+  reason: 'trade' | 'margin' | 'liquidation';
+  size: string;
+  entryPrice: string;
+  margin: string;
+  realizedPnl: string;
+  fundingPnl: string;
+  tradeId: number | null;
+  price: string | null;
+  badDebt: string | null;
+}
+
+export interface WSFundingPaymentMessage {
+  type: 'funding_payment';
+  market: PerpMarket;
+  positionId: number;
+  fundingTime: string;
+  rate: string;
+  markPrice: string;
+  positionSize: string;
+  amount: string;
+  margin: string;
+}
+
 // User State
 export interface User {
   id: number;
@@ -51,10 +51,10 @@ export async function handleMessage(
       await handleAuth(ws, message.token);
       break;
     case "subscribe":
-      handleSubscribe(ws, message.channel);
+      await handleSubscribe(ws, message.channel, message.account);
       break;
     case "unsubscribe":
-      handleUnsubscribe(ws, message.channel);
+      await handleUnsubscribe(ws, message.channel, message.account);
       break;
     case "ping":
       sendMessage(ws, { type: "pong" });
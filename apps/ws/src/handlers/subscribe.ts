@@ -2,18 +2,39 @@
  * Subscription Handler
  */
 
+import { getDb } from "@repo/db";
+import { MAIN_ACCOUNT_NAME, resolveAccount } from "@repo/trading";
 import type { AuthenticatedWebSocket, SubscriptionChannel } from "../types.js";
 import { sendMessage, isAuthenticated } from "./auth.js";
-import { SUBSCRIPTION_CHANNELS } from "../types.js";
+import { SUBSCRIPTION_CHANNELS, accountSubscription } from "../types.js";
+
+/**
+ * Subscription key for a channel: orders, portfolio and perps follow one
+ * of the wallet's accounts ('main' unless named)
+ * @returns null if the wallet has no such account
+ */
+async function getSubscriptionKey(
+  ws: AuthenticatedWebSocket,
+  channel: SubscriptionChannel,
+  account?: string
+): Promise<string | null> {
+  if (channel === SUBSCRIPTION_CHANNELS.PRICES) {
+    return channel;
+  }
+
+  const accountId = await resolveAccount(getDb(), ws.userId, account);
+  return accountId === null ? null : accountSubscription(channel, accountId);
+}
 
 /**
  * Handle subscribe request
  */
 
-export function handleSubscribe(
+export async function handleSubscribe(
   ws: AuthenticatedWebSocket,
-  channel: SubscriptionChannel
-): void {
+  channel: SubscriptionChannel,
+  account?: string
+): Promise<void> {
   // Validate channel
   const validChannels = Object.values(SUBSCRIPTION_CHANNELS);
   if (!validChannels.includes(channel)) {
@@ -24,10 +45,11 @@ export function handleSubscribe(
     return;
   }
 
-  // Orders and portfolio require authentication
+  // Orders, portfolio and perps require authentication
   if (
     (channel === SUBSCRIPTION_CHANNELS.ORDERS ||
-      channel === SUBSCRIPTION_CHANNELS.PORTFOLIO) &&
+      channel === SUBSCRIPTION_CHANNELS.PORTFOLIO ||
+      channel === SUBSCRIPTION_CHANNELS.PERPS) &&
     !isAuthenticated(ws)
   ) {
     sendMessage(ws, {
@@ -36,20 +58,32 @@ export function handleSubscribe(
     });
     return;
   }
-  ws.subscriptions.add(channel);
+
+  const key = await getSubscriptionKey(ws, channel, account);
+  if (!key) {
+    sendMessage(ws, {
+      type: "error",
+      message: `Account '${account}' not found`,
+    });
+    return;
+  }
+
+  ws.subscriptions.add(key);
   sendMessage(ws, {
     type: "subscribed",
     channel,
+    ...(channel !== SUBSCRIPTION_CHANNELS.PRICES && { account: account ?? MAIN_ACCOUNT_NAME }),
   });
 }
 
 /**
  * Handle unsubscribe request
  */
-export function handleUnsubscribe(
+export async function handleUnsubscribe(
   ws: AuthenticatedWebSocket,
-  channel: SubscriptionChannel
-): void {
+  channel: SubscriptionChannel,
+  account?: string
+): Promise<void> {
   // Validate channel
   const validChannels = Object.values(SUBSCRIPTION_CHANNELS);
   if (!validChannels.includes(channel)) {
@@ -59,11 +93,19 @@ export function handleUnsubscribe(
     });
     return;
   }
-  if (ws.subscriptions.has(channel)) {
-    ws.subscriptions.delete(channel);
+
+  // Never subscribed without authentication
+  if (channel !== SUBSCRIPTION_CHANNELS.PRICES && !isAuthenticated(ws)) {
+    return;
+  }
+
+  const key = await getSubscriptionKey(ws, channel, account);
+  if (key && ws.subscriptions.has(key)) {
+    ws.subscriptions.delete(key);
     sendMessage(ws, {
       type: "unsubscribed",
       channel,
+      ...(channel !== SUBSCRIPTION_CHANNELS.PRICES && { account: account ?? MAIN_ACCOUNT_NAME }),
     });
   }
 }
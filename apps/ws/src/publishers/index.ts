@@ -3,4 +3,5 @@
  */
 
 export { startPricePublisher } from "./prices.js";
-export { startOrderPublisher } from "./orders.js";
\ No newline at end of file
+export { startOrderPublisher } from "./orders.js";
+export { startPerpPublisher } from "./perps.js";
\ No newline at end of file
@@ -5,14 +5,19 @@
  */
 
 import { client, client as redis } from "@repo/redis";
-import type { OrderFilledEvent, PortfolioUpdateEvent } from "@repo/events";
+import type {
+  OrderFilledEvent,
+  OrderCancelledEvent,
+  PortfolioUpdateEvent,
+  LiquidationEvent,
+} from "@repo/events";
 import { redisKeys } from "@repo/redis";
-import type { AuthenticatedWebSocket } from "../types.js";
+import { accountSubscription, type AuthenticatedWebSocket } from "../types.js";
 import { sendMessage } from "../handlers/auth.js";
 import type { WebSocketServer } from "ws";
 
 /**
- * Start listening for order and portfolio updates
+ * Start listening for order, portfolio and liquidation updates
  */
 export async function startOrderPublisher(wss: WebSocketServer): Promise<void> {
   const subscriber = redis.duplicate();
@@ -28,6 +33,16 @@ export async function startOrderPublisher(wss: WebSocketServer): Promise<void> {
     }
   });
 
+  // Subscribe to order cancelled events
+  await subscriber.subscribe(redisKeys.CHANNELS.orderCancelled(), (message) => {
+    try {
+      const event: OrderCancelledEvent = JSON.parse(message);
+      broadcastOrderCancelled(wss, event);
+    } catch (error) {
+      console.error("[WS] Failed to parse order cancelled event:", error);
+    }
+  });
+
   // Subscribe to portfolio updates
   await subscriber.subscribe(
     redisKeys.CHANNELS.portfolioUpdate(),
@@ -40,6 +55,16 @@ export async function startOrderPublisher(wss: WebSocketServer): Promise<void> {
       }
     }
   );
+
+  // Subscribe to liquidations (margin accounts force-closed)
+  await subscriber.subscribe(redisKeys.CHANNELS.liquidation(), (message) => {
+    try {
+      const event: LiquidationEvent = JSON.parse(message);
+      broadcastLiquidation(wss, event);
+    } catch (error) {
+      console.error("[WS] Failed to parse liquidation event:", error);
+    }
+  });
   
 }
 function broadcastOrderFilled(
@@ -50,14 +75,37 @@ function broadcastOrderFilled(
     const ws = client as AuthenticatedWebSocket;
     
     if (ws.readyState === ws.OPEN && 
-        ws.userId === event.userId && 
-        ws.subscriptions?.has("orders")) {
+        ws.subscriptions?.has(accountSubscription("orders", event.userId))) {
       sendMessage(ws, {
         type: "order_filled",
+        accountId: event.userId,
         orderId: event.orderId,
         executedPrice: event.executedPrice,
         executedSize: event.executedSize,
         fee: event.fee,
+        parentOrderId: event.parentOrderId ?? null,
+        childOrderIds: event.childOrderIds ?? [],
+      });
+    }
+  });
+}
+
+function broadcastOrderCancelled(
+  wss: WebSocketServer,
+  event: OrderCancelledEvent
+): void {
+  wss.clients.forEach((client) => {
+    const ws = client as AuthenticatedWebSocket;
+
+    if (ws.readyState === ws.OPEN &&
+        ws.subscriptions?.has(accountSubscription("orders", event.userId))) {
+      sendMessage(ws, {
+        type: "order_cancelled",
+        accountId: event.userId,
+        orderId: event.orderId,
+        releasedAsset: event.releasedAsset,
+        releasedAmount: event.releasedAmount,
+        parentOrderId: event.parentOrderId ?? null,
       });
     }
   });
@@ -71,13 +119,37 @@ function broadcastPortfolioUpdate(
     const ws = client as AuthenticatedWebSocket;
     
     if (ws.readyState === ws.OPEN && 
-        ws.userId === event.userId && 
-        ws.subscriptions?.has("portfolio")) {
+        ws.subscriptions?.has(accountSubscription("portfolio", event.userId))) {
       sendMessage(ws, {
         type: "portfolio",
+        accountId: event.userId,
         balances: event.balances,
         positions: event.positions,
       });
     }
   });
 }
+
+function broadcastLiquidation(
+  wss: WebSocketServer,
+  event: LiquidationEvent
+): void {
+  wss.clients.forEach((client) => {
+    const ws = client as AuthenticatedWebSocket;
+
+    if (ws.readyState === ws.OPEN &&
+        ws.subscriptions?.has(accountSubscription("portfolio", event.userId))) {
+      sendMessage(ws, {
+        type: "liquidation",
+        accountId: event.userId,
+        orderId: event.orderId,
+        side: event.side,
+        executedPrice: event.executedPrice,
+        executedSize: event.executedSize,
+        equity: event.equity,
+        maintenanceMargin: event.maintenanceMargin,
+        badDebt: event.badDebt,
+      });
+    }
+  });
+}
@@ -0,0 +1,98 @@
+/**
+ * Perp Publisher
+ *
+ * Subscribes to Redis perp position and funding events and broadcasts
+ * them to the owning user's "perps" subscriptions.
+ */
+
+import { client as redis, redisKeys } from "@repo/redis";
+import type {
+  PerpPositionUpdateEvent,
+  FundingPaymentEvent,
+} from "@repo/events";
+import { accountSubscription, type AuthenticatedWebSocket } from "../types.js";
+import { sendMessage } from "../handlers/auth.js";
+import type { WebSocketServer } from "ws";
+
+/**
+ * Start listening for perp position updates and funding payments
+ */
+export async function startPerpPublisher(wss: WebSocketServer): Promise<void> {
+  const subscriber = redis.duplicate();
+  await subscriber.connect();
+
+  // Subscribe to perp position updates (trades, margin changes, liquidations)
+  await subscriber.subscribe(
+    redisKeys.CHANNELS.perpPositionUpdate(),
+    (message) => {
+      try {
+        const event: PerpPositionUpdateEvent = JSON.parse(message);
+        broadcastPerpPosition(wss, event);
+      } catch (error) {
+        console.error("[WS] Failed to parse perp position event:", error);
+      }
+    }
+  );
+
+  // Subscribe to funding payments
+  await subscriber.subscribe(redisKeys.CHANNELS.fundingPayment(), (message) => {
+    try {
+      const event: FundingPaymentEvent = JSON.parse(message);
+      broadcastFundingPayment(wss, event);
+    } catch (error) {
+      console.error("[WS] Failed to parse funding payment event:", error);
+    }
+  });
+}
+
+function broadcastPerpPosition(
+  wss: WebSocketServer,
+  event: PerpPositionUpdateEvent
+): void {
+  wss.clients.forEach((client) => {
+    const ws = client as AuthenticatedWebSocket;
+
+    if (ws.readyState === ws.OPEN &&
+        ws.subscriptions?.has(accountSubscription("perps", event.userId))) {
+      sendMessage(ws, {
+        type: "perp_position",
+        accountId: event.userId,
+        market: event.market,
+        reason: event.reason,
+        size: event.size,
+        entryPrice: event.entryPrice,
+        margin: event.margin,
+        realizedPnl: event.realizedPnl,
+        fundingPnl: event.fundingPnl,
+        tradeId: event.tradeId ?? null,
+        price: event.price ?? null,
+        badDebt: event.badDebt ?? null,
+      });
+    }
+  });
+}
+
+function broadcastFundingPayment(
+  wss: WebSocketServer,
+  event: FundingPaymentEvent
+): void {
+  wss.clients.forEach((client) => {
+    const ws = client as AuthenticatedWebSocket;
+
+    if (ws.readyState === ws.OPEN &&
+        ws.subscriptions?.has(accountSubscription("perps", event.userId))) {
+      sendMessage(ws, {
+        type: "funding_payment",
+        accountId: event.userId,
+        market: event.market,
+        positionId: event.positionId,
+        fundingTime: event.fundingTime,
+        rate: event.rate,
+        markPrice: event.markPrice,
+        positionSize: event.positionSize,
+        amount: event.amount,
+        margin: event.margin,
+      });
+    }
+  });
+}
@@ -43,6 +43,8 @@ function broadcastPrice(wss:WebSocketServer,event:PriceUpdateEvent){
                 type:"price",
                 symbol:event.symbol,
                 price:event.price,
+                bid:event.bid,
+                ask:event.ask,
                 timestamp:event.timestamp
             })
         }
@@ -10,6 +10,7 @@ import { handleConnection } from "./handlers/index.js";
 import {
   startPricePublisher,
   startOrderPublisher,
+  startPerpPublisher,
 } from "./publishers/index.js";
 
 const HEARTBEAT_INTERVAL = 30000; // 30 seconds
@@ -55,5 +56,9 @@ export function createWebSocketServer(port: number): WebSocketServer {
  * Start all Redis subscribers (publishers)
  */
 export async function startPublishers(wss: WebSocketServer): Promise<void> {
-  await Promise.all([startOrderPublisher(wss), startPricePublisher(wss)]);
+  await Promise.all([
+    startOrderPublisher(wss),
+    startPricePublisher(wss),
+    startPerpPublisher(wss),
+  ]);
 }
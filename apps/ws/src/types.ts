@@ -6,27 +6,31 @@ import { types } from "util";
 import type { WebSocket } from "ws";
 
 export interface AuthenticatedWebSocket extends WebSocket {
-    userId:number;
+    userId:number; // The wallet's main account
     walletAddress:string;
     isAlive:boolean;
-    subscriptions:Set<string>;
+    subscriptions:Set<string>; // "prices", or accountSubscription() keys
 }
 
 // Client → Server messages
 export type ClientMessage = 
     | {type : "auth",token : string}
-    | {type : "subscribe",channel : "prices" | "orders" | "portfolio"}
-    | {type : "unsubscribe",channel : "prices" | "orders" | "portfolio"}
+    | {type : "subscribe",channel : "prices" | "orders" | "portfolio" | "perps", account?: string}
+    | {type : "unsubscribe",channel : "prices" | "orders" | "portfolio" | "perps", account?: string}
     | {type : "ping"};
 
 // Server → Client messages
 export type ServerMessage =
   | { type: "auth"; success: boolean; error?: string }
-  | { type: "subscribed"; channel: string }
-  | { type: "unsubscribed"; channel: string }
-  | { type: "price"; symbol: string; price: string; timestamp: string }
-  | { type: "order_filled"; orderId: number; executedPrice: string; executedSize: string; fee: string }
-  | { type: "portfolio"; balances: any[]; positions: any[] }
+  | { type: "subscribed"; channel: string; account?: string }
+  | { type: "unsubscribed"; channel: string; account?: string }
+  | { type: "price"; symbol: string; price: string; bid: string; ask: string; timestamp: string }
+  | { type: "order_filled"; accountId: number; orderId: number; executedPrice: string; executedSize: string; fee: string; parentOrderId: number | null; childOrderIds: number[] }
+  | { type: "order_cancelled"; accountId: number; orderId: number; releasedAsset: string | null; releasedAmount: string; parentOrderId: number | null }
+  | { type: "portfolio"; accountId: number; balances: any[]; positions: any[] }
+  | { type: "liquidation"; accountId: number; orderId: number; side: string; executedPrice: string; executedSize: string; equity: string; maintenanceMargin: string; badDebt: string }
+  | { type: "perp_position"; accountId: number; market: string; reason: string; size: string; entryPrice: string; margin: string; realizedPnl: string; fundingPnl: string; tradeId: number | null; price: string | null; badDebt: string | null }
+  | { type: "funding_payment"; accountId: number; market: string; positionId: number; fundingTime: string; rate: string; markPrice: string; positionSize: string; amount: string; margin: string }
   | { type: "error"; message: string }
   | { type: "pong" };
 
@@ -35,6 +39,15 @@ export const SUBSCRIPTION_CHANNELS = {
   PRICES: "prices",
   ORDERS: "orders",
   PORTFOLIO: "portfolio",
+  PERPS: "perps",
 } as const;
 
-export type SubscriptionChannel = (typeof SUBSCRIPTION_CHANNELS)[keyof typeof SUBSCRIPTION_CHANNELS];
\ No newline at end of file
+export type SubscriptionChannel = (typeof SUBSCRIPTION_CHANNELS)[keyof typeof SUBSCRIPTION_CHANNELS];
+
+/**
+ * Subscription key of an account-scoped channel (orders, portfolio, perps)
+ * Events carry the account's userId, so one socket can follow several accounts
+ */
+export function accountSubscription(channel: SubscriptionChannel, accountId: number): string {
+  return `${channel}:${accountId}`;
+}
@@ -53,6 +53,24 @@ export const wsEnvSchema = z.object({
 export const tradingEnvSchema = z.object({
   MAX_LEVERAGE: z.coerce.number().default(10),
   MIN_POSITION_SIZE: z.coerce.number().default(0.01),
+  // Market order price impact (see packages/trading/src/slippage.ts)
+  SLIPPAGE_MODEL: z.enum(['none', 'linear', 'sqrt', 'curve']).default('none'),
+  SLIPPAGE_IMPACT_FACTOR: z.coerce.number().default(0.01),
+  SLIPPAGE_DEPTH: z.coerce.number().default(1000),
+  SLIPPAGE_MAX_IMPACT: z.coerce.number().default(0.1),
+  // Fee schedule as JSON: [{ name, minVolume, makerRate, takerRate }, ...]
+  // (see packages/trading/src/feeTiers.ts); unset uses DEFAULT_FEE_TIERS
+  FEE_TIERS: z.string().optional(),
+  // Ledger reconciliation (see packages/trading/src/reconciliation.ts): stored
+  // values within the tolerance of the ledger are not drift
+  RECONCILIATION_TOLERANCE: z.coerce.number().default(0.0001),
+  // Simulated deposits / withdrawals in USDC (see packages/trading/src/cashFlows.ts):
+  // caps per UTC day and the minimum wait between two of a kind
+  FAUCET_AMOUNT: z.coerce.number().default(1000),
+  DEPOSIT_DAILY_LIMIT: z.coerce.number().default(5000),
+  DEPOSIT_COOLDOWN_SECONDS: z.coerce.number().default(3600),
+  WITHDRAWAL_DAILY_LIMIT: z.coerce.number().default(5000),
+  WITHDRAWAL_COOLDOWN_SECONDS: z.coerce.number().default(0),
 });
 
 /**
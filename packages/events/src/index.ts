@@ -12,7 +12,11 @@ export type {
   PriceUpdateEvent,
   OrderFilledEvent,
   OrderRejectedEvent,
+  OrderCancelledEvent,
   PortfolioUpdateEvent,
+  LiquidationEvent,
+  PerpPositionUpdateEvent,
+  FundingPaymentEvent,
   CandleUpdateEvent,
   EventPayload,
 } from "./types.js";
@@ -22,6 +26,10 @@ export {
   publishPriceUpdate,
   publishOrderFilled,
   publishOrderRejected,
+  publishOrderCancelled,
   publishPortfolioUpdate,
+  publishLiquidation,
+  publishPerpPositionUpdate,
+  publishFundingPayment,
   publishCandleUpdate,
 } from "./publish.js";
\ No newline at end of file
@@ -10,7 +10,11 @@ import type {
   PriceUpdateEvent,
   OrderFilledEvent,
   OrderRejectedEvent,
+  OrderCancelledEvent,
   PortfolioUpdateEvent,
+  LiquidationEvent,
+  PerpPositionUpdateEvent,
+  FundingPaymentEvent,
   CandleUpdateEvent,
 } from "./types.js";
 
@@ -25,11 +29,21 @@ export async function publish<T>(channel: string, payload: T): Promise<void> {
 /**
  * Publish price update event
  * Called by price-ingestion worker after updating Redis cache
+ * Without a quote, bid = ask = price
  */
-export async function publishPriceUpdate(symbol:string, price: string): Promise<void> {
+export async function publishPriceUpdate(
+  symbol:string,
+  price: string,
+  quote?: { bid: string; ask: string; confidence: string },
+  source?: string
+): Promise<void> {
   const event : PriceUpdateEvent={
     symbol,
     price,
+    bid: quote?.bid ?? price,
+    ask: quote?.ask ?? price,
+    confidence: quote?.confidence ?? "0",
+    source: source ?? null,
     timestamp: new Date().toISOString(),
   };
   await publish(redisKeys.CHANNELS.priceUpdate(), event);
@@ -59,6 +73,20 @@ export async function publishOrderRejected(data: Omit<OrderRejectedEvent, "times
   await publish(redisKeys.CHANNELS.orderRejected(), event);
 }
 
+/**
+ * Publish order cancelled event
+ * Called by API after a pending order is cancelled by its owner
+ */
+export async function publishOrderCancelled(
+  data: Omit<OrderCancelledEvent, "timestamp">
+): Promise<void> {
+  const event: OrderCancelledEvent = {
+    ...data,
+    timestamp: new Date().toISOString(),
+  };
+  await publish(redisKeys.CHANNELS.orderCancelled(), event);
+}
+
 /**
  * Publish portfolio update event
  * Called by API after balance/position changes
@@ -73,6 +101,48 @@ export async function publishPortfolioUpdate(
   await publish(redisKeys.CHANNELS.portfolioUpdate(), event);
 }
 
+/**
+ * Publish liquidation event
+ * Called by liquidation worker after force-closing a margin account
+ */
+export async function publishLiquidation(
+  data: Omit<LiquidationEvent, "timestamp">
+): Promise<void> {
+  const event: LiquidationEvent = {
+    ...data,
+    timestamp: new Date().toISOString(),
+  };
+  await publish(redisKeys.CHANNELS.liquidation(), event);
+}
+
+/**
+ * Publish perp position update event
+ * Called by API after perp trades / margin changes, and by the liquidation worker
+ */
+export async function publishPerpPositionUpdate(
+  data: Omit<PerpPositionUpdateEvent, "timestamp">
+): Promise<void> {
+  const event: PerpPositionUpdateEvent = {
+    ...data,
+    timestamp: new Date().toISOString(),
+  };
+  await publish(redisKeys.CHANNELS.perpPositionUpdate(), event);
+}
+
+/**
+ * Publish funding payment event
+ * Called by funding worker for every position settled
+ */
+export async function publishFundingPayment(
+  data: Omit<FundingPaymentEvent, "timestamp">
+): Promise<void> {
+  const event: FundingPaymentEvent = {
+    ...data,
+    timestamp: new Date().toISOString(),
+  };
+  await publish(redisKeys.CHANNELS.fundingPayment(), event);
+}
+
 /**
  * Publish candle update event
  * Called by candle aggregation worker after candle update/close
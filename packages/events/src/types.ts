@@ -6,7 +6,11 @@
 
 export interface PriceUpdateEvent {
   symbol: string;
-  price: string; // Decimal string
+  price: string; // Decimal string, mid price
+  bid: string; // Decimal string, sells execute here
+  ask: string; // Decimal string, buys execute here
+  confidence: string; // Decimal string, oracle confidence interval ("0" when unknown)
+  source: string | null; // Provider the price came from (e.g. "pyth")
   timestamp: string; // Unix timestamp in milliseconds
 }
 
@@ -19,6 +23,8 @@ export interface OrderFilledEvent {
   executedPrice: string; // Decimal string
   executedSize: string; // Decimal string
   fee: string; // Decimal string
+  parentOrderId?: number | null; // Set when a bracket leg filled
+  childOrderIds?: number[]; // Bracket legs activated by this fill
   timestamp: string;
 }
 
@@ -29,6 +35,15 @@ export interface OrderRejectedEvent {
   timestamp:string;
 }
 
+export interface OrderCancelledEvent {
+  userId: number;
+  orderId: number;
+  releasedAsset: string | null; // null when the order held no reservation
+  releasedAmount: string; // Decimal string
+  parentOrderId?: number | null; // Bracket entry, when a leg was cancelled
+  timestamp: string;
+}
+
 export interface PortfolioUpdateEvent {
   userId: number;
   balances: {
@@ -40,10 +55,53 @@ export interface PortfolioUpdateEvent {
     asset: string;
     size: string; // Decimal string
     avgEntryPrice: string; // Decimal string
+    realizedPnl: string; // Decimal string
   }[];
   timestamp: string;
 }
 
+export interface LiquidationEvent {
+  userId: number;
+  orderId: number; // The liquidation order that closed the position
+  side: string;
+  baseAsset: string;
+  quoteAsset: string;
+  executedPrice: string; // Decimal string
+  executedSize: string; // Decimal string
+  equity: string; // Decimal string, when liquidated
+  maintenanceMargin: string; // Decimal string
+  badDebt: string; // Decimal string, quote deficit written off
+  timestamp: string;
+}
+
+export interface PerpPositionUpdateEvent {
+  userId: number;
+  market: string; // e.g. 'SOL-PERP'
+  reason: string; // 'trade' | 'margin' | 'liquidation'
+  size: string; // Decimal string, negative for a short, 0 once closed
+  entryPrice: string; // Decimal string
+  margin: string; // Decimal string
+  realizedPnl: string; // Decimal string
+  fundingPnl: string; // Decimal string
+  tradeId?: number | null; // The trade that changed the position, if any
+  price?: string | null; // Decimal string, mark price of that trade
+  badDebt?: string | null; // Decimal string, liquidations only
+  timestamp: string;
+}
+
+export interface FundingPaymentEvent {
+  userId: number;
+  market: string;
+  positionId: number;
+  fundingTime: string; // ISO timestamp of the settled interval boundary
+  rate: string; // Decimal string, > 0: longs pay shorts
+  markPrice: string; // Decimal string
+  positionSize: string; // Decimal string
+  amount: string; // Decimal string, negative = paid
+  margin: string; // Decimal string, position margin after the payment
+  timestamp: string;
+}
+
 export interface CandleUpdateEvent {
   asset: string;
   timeframe: string;
@@ -61,6 +119,10 @@ export type EventPayload =
     | PriceUpdateEvent  
     | OrderFilledEvent
     | OrderRejectedEvent
+    | OrderCancelledEvent
     | PortfolioUpdateEvent
+    | LiquidationEvent
+    | PerpPositionUpdateEvent
+    | FundingPaymentEvent
     | CandleUpdateEvent;
     
\ No newline at end of file
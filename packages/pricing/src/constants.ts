@@ -1,17 +1,18 @@
 /**
  * Pricing Constants
- * Thresholds and development values
- * Just using SOL
+ * Thresholds and cache settings
+ * (markets, their dev prices and feeds live in the Markets table: see markets.ts)
  */
 
 // Price staleness threshold (5 minutes in milliseconds)
 export const PRICE_STALE_THRESHOLD_MS = 5 * 60 * 1000;
 
-// Development seed prices (used when NODE_ENV !== 'production')
-export const DEV_PRICES: Record<string, string> = {
-  SOL: '230.50',
-};
+// Half the bid/ask spread, as a multiple of the oracle confidence interval
+export const CONFIDENCE_SPREAD_MULTIPLIER = '1';
 
-// Supported symbols (for validation)
-export const SUPPORTED_SYMBOLS = ['SOL'] as const;
-export type SupportedSymbol = (typeof SUPPORTED_SYMBOLS)[number];
\ No newline at end of file
+// The one quote asset markets can be listed in: prices are keyed by base
+// asset, and trading (margin, cash flows, fees) settles in it
+export const MARKET_QUOTE_ASSET = 'USDC';
+
+// How long a process reuses the market registry before reading it again
+export const MARKETS_CACHE_TTL_MS = 60 * 1000;
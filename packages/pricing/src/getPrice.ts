@@ -6,11 +6,24 @@
 import { Decimal } from 'decimal.js';
 import { client as redis, redisKeys } from '@repo/redis';
 import { PRICE_STALE_THRESHOLD_MS } from './constants.js';
+import { calculateQuote, type PriceQuote } from './spread.js';
 
-interface PriceWithMetadata {
-    price: Decimal;
+/**
+ * How an ingested price was aggregated from its sources (median of sources)
+ */
+export interface PriceAggregation {
+    sources: string[];    // Sources the price is the median of
+    rejected: string[];   // Outliers: answered, but beyond maxDeviation from the median
+    quorum: number;       // Sources required to agree
+    maxDeviation: string; // Outlier threshold, as a fraction of the median (e.g. '0.01')
+    deviation: string;    // Widest deviation of a kept source from the price
+}
+
+export interface PriceWithMetadata extends PriceQuote {
     timestamp: Date;
     ageMs: number;
+    source: string | null; // Provider(s) the price came from (null: seeded/test price)
+    aggregation: PriceAggregation | null; // null: seeded or test price
 }
 
 
@@ -54,21 +67,47 @@ export async function getPrice(symbol:string) : Promise<Decimal> {
     return new Decimal(priceStr);
 }
 
+/**
+ * Get the bid/ask quote for a symbol (market executions)
+ *
+ * @param symbol Token symbol (e.g., 'SOL')
+ * @throws Error if price not found or stale
+ * @returns Mid price, confidence, bid and ask
+ */
+
+export async function getQuote(symbol:string) : Promise<PriceQuote> {
+    const upperSymbol = symbol.toUpperCase();
+    const confidenceKey = `${redisKeys.PRICE.tokenPrice(upperSymbol)}:conf`;
+
+    const [price, confidenceStr] = await Promise.all([
+        getPrice(upperSymbol),
+        redis.get(confidenceKey),
+    ]);
+
+    return calculateQuote(price, new Decimal(confidenceStr ?? 0));
+}
+
 /**
  * Get price with metadata (for debugging/display)
  * 
  * @param symbol Token symbol
- * @returns Price, timestamp, and age; null if unavailable or stale
+ * @returns Price, bid/ask quote, timestamp, age, source and aggregation; null if unavailable or stale
  */
 
-export async function getPriceWithMetadata(symbol:string) {
+export async function getPriceWithMetadata(symbol:string) : Promise<PriceWithMetadata | null> {
     const upperSymbol =  symbol.toUpperCase();
     const priceKey =  redisKeys.PRICE.tokenPrice(upperSymbol);
     const timestampKey =  `${priceKey}:ts`;
+    const confidenceKey = `${priceKey}:conf`;
+    const sourceKey = `${priceKey}:src`;
+    const aggregationKey = `${priceKey}:agg`;
 
-    const [priceStr, timestampStr]=  await Promise.all([
+    const [priceStr, timestampStr, confidenceStr, source, aggregationStr]=  await Promise.all([
         redis.get(priceKey),
         redis.get(timestampKey),
+        redis.get(confidenceKey),
+        redis.get(sourceKey),
+        redis.get(aggregationKey),
     ]);
 
     if(!priceStr){
@@ -84,9 +123,11 @@ export async function getPriceWithMetadata(symbol:string) {
     }
 
     return{
-        price : new Decimal(priceStr),
+        ...calculateQuote(new Decimal(priceStr), new Decimal(confidenceStr ?? 0)),
         timestamp,
-        ageMs
+        ageMs,
+        source,
+        aggregation: aggregationStr ? JSON.parse(aggregationStr) as PriceAggregation : null
     }
 }
 
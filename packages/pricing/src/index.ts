@@ -12,18 +12,41 @@
 // Constants
 export { 
   PRICE_STALE_THRESHOLD_MS, 
-  DEV_PRICES, 
-  SUPPORTED_SYMBOLS,
-  type SupportedSymbol,
+  CONFIDENCE_SPREAD_MULTIPLIER,
+  MARKETS_CACHE_TTL_MS,
+  MARKET_QUOTE_ASSET,
 } from './constants.js';
 
+// Market registry (tradable pairs, their rules and price feeds)
+export {
+  marketSymbol,
+  getMarkets,
+  getMarket,
+  getPriceSymbols,
+  getMarketAssets,
+  upsertMarket,
+  invalidateMarkets,
+  type Market,
+  type MarketInput,
+} from './markets.js';
+
 // Read operations
 export { 
   getPrice, 
+  getQuote,
   getPriceWithMetadata, 
   hasPriceAvailable,
+  type PriceWithMetadata,
+  type PriceAggregation,
 } from './getPrice.js';
 
+// Bid/ask quotes (spread from the oracle confidence interval)
+export {
+  calculateQuote,
+  getQuoteSidePrice,
+  type PriceQuote,
+} from './spread.js';
+
 // Write operations
 export { 
   setPrice, 
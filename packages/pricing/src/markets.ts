@@ -0,0 +1,223 @@
+/**
+ * Market Registry
+ * Tradable spot markets, read from the Markets table
+ *
+ * The registry is the single source of what can be traded and priced:
+ * - API: which assets and symbols are accepted
+ * - Trading: size (lot, min, max) and price (tick) rules of each order
+ * - Price ingestion: which oracle feeds to fetch (priceFeedId)
+ * - Portfolios: which balance and position rows an account holds
+ * Listing a market (e.g. JUP/USDC) is an upsertMarket() call, not a deploy.
+ *
+ * Prices are keyed by base asset, so every market quotes in
+ * MARKET_QUOTE_ASSET: a second quote (e.g. SOL/USDT) would share SOL/USDC's
+ * price, and is refused.
+ * Markets are cached in-process for MARKETS_CACHE_TTL_MS; upsertMarket()
+ * refreshes this process at once, other processes within the TTL.
+ */
+
+import { Decimal } from 'decimal.js';
+import { getDb } from '@repo/db';
+import { MARKETS_CACHE_TTL_MS, MARKET_QUOTE_ASSET } from './constants.js';
+
+export interface Market {
+  id: number;
+  symbol: string;            // 'BASE/QUOTE', e.g. 'SOL/USDC'
+  baseAsset: string;
+  quoteAsset: string;
+  tickSize: Decimal;         // Prices are multiples of it
+  lotSize: Decimal;          // Sizes are multiples of it
+  minOrderSize: Decimal;     // In the base asset
+  maxOrderSize: Decimal;
+  priceFeedId: string | null; // Pyth price feed ID
+  minPrice: Decimal | null;   // Sanity bounds on ingested prices (null = unbounded)
+  maxPrice: Decimal | null;
+  devPrice: Decimal | null;   // Seeded outside production
+  active: boolean;
+}
+
+export interface MarketInput {
+  baseAsset: string;
+  quoteAsset: string;
+  tickSize: Decimal.Value;
+  lotSize: Decimal.Value;
+  minOrderSize: Decimal.Value;
+  maxOrderSize: Decimal.Value;
+  priceFeedId?: string | null;
+  minPrice?: Decimal.Value | null;
+  maxPrice?: Decimal.Value | null;
+  devPrice?: Decimal.Value | null;
+  active?: boolean;
+}
+
+let cache: { markets: Market[]; loadedAt: number } | null = null;
+
+/**
+ * Symbol of a market, e.g. marketSymbol('SOL', 'USDC') = 'SOL/USDC'
+ */
+export function marketSymbol(baseAsset: string, quoteAsset: string): string {
+  return `${baseAsset.toUpperCase()}/${quoteAsset.toUpperCase()}`;
+}
+
+const toDecimalOrNull = (value: { toString(): string } | null) =>
+  value === null ? null : new Decimal(value.toString());
+
+function toMarket(row: any): Market {
+  return {
+    id: row.id,
+    symbol: row.symbol,
+    baseAsset: row.baseAsset,
+    quoteAsset: row.quoteAsset,
+    tickSize: new Decimal(row.tickSize.toString()),
+    lotSize: new Decimal(row.lotSize.toString()),
+    minOrderSize: new Decimal(row.minOrderSize.toString()),
+    maxOrderSize: new Decimal(row.maxOrderSize.toString()),
+    priceFeedId: row.priceFeedId,
+    minPrice: toDecimalOrNull(row.minPrice),
+    maxPrice: toDecimalOrNull(row.maxPrice),
+    devPrice: toDecimalOrNull(row.devPrice),
+    active: row.active,
+  };
+}
+
+/**
+ * Load every market, active or not (cached)
+ */
+async function loadMarkets(): Promise<Market[]> {
+  if (cache && Date.now() - cache.loadedAt < MARKETS_CACHE_TTL_MS) {
+    return cache.markets;
+  }
+
+  const db = getDb();
+  const rows = await db.markets.findMany({ orderBy: { id: 'asc' } });
+  cache = { markets: rows.map(toMarket), loadedAt: Date.now() };
+  return cache.markets;
+}
+
+/**
+ * Drop the cached registry; the next read goes to the database
+ */
+export function invalidateMarkets(): void {
+  cache = null;
+}
+
+/**
+ * Get the markets, in listing order
+ *
+ * @param includeInactive Also return delisted markets
+ */
+export async function getMarkets(includeInactive: boolean = false): Promise<Market[]> {
+  const markets = await loadMarkets();
+  return includeInactive ? markets : markets.filter((m) => m.active);
+}
+
+/**
+ * Get the active market for a pair
+ *
+ * @returns The market, or null if the pair is not listed or inactive
+ */
+export async function getMarket(baseAsset: string, quoteAsset: string): Promise<Market | null> {
+  const symbol = marketSymbol(baseAsset, quoteAsset);
+  const markets = await getMarkets();
+  return markets.find((m) => m.symbol === symbol) ?? null;
+}
+
+/**
+ * Symbols with a price: the base assets of the active markets (e.g. ['SOL'])
+ */
+export async function getPriceSymbols(): Promise<string[]> {
+  const markets = await getMarkets();
+  return [...new Set(markets.map((m) => m.baseAsset))];
+}
+
+/**
+ * Every asset of the active markets, base and quote (e.g. ['SOL', 'USDC'])
+ */
+export async function getMarketAssets(): Promise<string[]> {
+  const markets = await getMarkets();
+  return [...new Set(markets.flatMap((m) => [m.baseAsset, m.quoteAsset]))];
+}
+
+/**
+ * Validate a market's rules
+ * @throws Error if the quote asset is not MARKET_QUOTE_ASSET, a size or
+ *         price rule is not a positive number, or min > max
+ */
+function validateMarketInput(input: MarketInput): void {
+  const symbol = marketSymbol(input.baseAsset, input.quoteAsset);
+
+  if (input.quoteAsset.toUpperCase() !== MARKET_QUOTE_ASSET) {
+    throw new Error(`Invalid market ${symbol}: markets must quote in ${MARKET_QUOTE_ASSET}`);
+  }
+
+  if (input.baseAsset.toUpperCase() === input.quoteAsset.toUpperCase()) {
+    throw new Error(`Invalid market ${symbol}: base and quote assets cannot be the same`);
+  }
+
+  for (const field of ['tickSize', 'lotSize', 'minOrderSize', 'maxOrderSize'] as const) {
+    const value = new Decimal(input[field]);
+    if (!value.isFinite() || value.lte(0)) {
+      throw new Error(`Invalid market ${symbol}: ${field} must be > 0`);
+    }
+  }
+
+  if (new Decimal(input.minOrderSize).gt(input.maxOrderSize)) {
+    throw new Error(`Invalid market ${symbol}: minOrderSize cannot exceed maxOrderSize`);
+  }
+
+  for (const field of ['minPrice', 'maxPrice', 'devPrice'] as const) {
+    const value = input[field];
+    if (value !== undefined && value !== null && !new Decimal(value).gt(0)) {
+      throw new Error(`Invalid market ${symbol}: ${field} must be > 0`);
+    }
+  }
+
+  if (input.minPrice && input.maxPrice && new Decimal(input.minPrice).gte(input.maxPrice)) {
+    throw new Error(`Invalid market ${symbol}: minPrice must be below maxPrice`);
+  }
+}
+
+/**
+ * Column update for an optional price: omitted = unchanged, null = cleared
+ */
+function optionalPrice(field: string, value: Decimal.Value | null | undefined) {
+  if (value === undefined) {
+    return {};
+  }
+  return { [field]: value === null ? null : new Decimal(value).toString() };
+}
+
+/**
+ * List a market, or update an existing one (matched by symbol)
+ * Setting active: false delists it: no new orders, no price feed
+ *
+ * @throws Error if the rules are invalid (see validateMarketInput)
+ */
+export async function upsertMarket(input: MarketInput): Promise<Market> {
+  validateMarketInput(input);
+
+  const baseAsset = input.baseAsset.toUpperCase();
+  const quoteAsset = input.quoteAsset.toUpperCase();
+  const data = {
+    tickSize: new Decimal(input.tickSize).toString(),
+    lotSize: new Decimal(input.lotSize).toString(),
+    minOrderSize: new Decimal(input.minOrderSize).toString(),
+    maxOrderSize: new Decimal(input.maxOrderSize).toString(),
+    ...(input.priceFeedId !== undefined && { priceFeedId: input.priceFeedId }),
+    ...optionalPrice('minPrice', input.minPrice),
+    ...optionalPrice('maxPrice', input.maxPrice),
+    ...optionalPrice('devPrice', input.devPrice),
+    ...(input.active !== undefined && { active: input.active }),
+  };
+
+  const db = getDb();
+  const symbol = marketSymbol(baseAsset, quoteAsset);
+  const row = await db.markets.upsert({
+    where: { symbol },
+    create: { symbol, baseAsset, quoteAsset, ...data },
+    update: data,
+  });
+
+  invalidateMarkets();
+  return toMarket(row);
+}
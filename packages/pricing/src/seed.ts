@@ -6,11 +6,11 @@
  */
 
 import { Decimal } from 'decimal.js';
-import { DEV_PRICES } from './constants.js';
+import { getMarkets } from './markets.js';
 import { setPrice } from './setPrice.js';
 
 /**
- * Seed development prices
+ * Seed development prices (each active market's devPrice)
  * Called on API startup in non-production environments
  */
 export async function seedDevelopmentPrices(): Promise<void> {
@@ -19,11 +19,15 @@ export async function seedDevelopmentPrices(): Promise<void> {
     return;
   }
 
-  for (const [symbol, priceStr] of Object.entries(DEV_PRICES)) {
-    await setPrice(symbol, new Decimal(priceStr));
+  const seeded: Record<string, string> = {};
+  for (const market of await getMarkets()) {
+    if (market.devPrice && !(market.baseAsset in seeded)) {
+      await setPrice(market.baseAsset, new Decimal(market.devPrice));
+      seeded[market.baseAsset] = market.devPrice.toString();
+    }
   }
 
-  console.log('✓ Seeded development prices:', DEV_PRICES);
+  console.log('✓ Seeded development prices:', seeded);
 }
 
 /**
@@ -5,23 +5,33 @@
 
 import { Decimal } from "decimal.js";
 import { client as redis, redisKeys } from "@repo/redis";
+import { calculateQuote } from "./spread.js";
+import type { PriceAggregation } from "./getPrice.js";
 
 /**
  * Set price for a symbol (called by price ingestion worker)
  *
  * @param symbol Token symbol (e.g., 'SOL')
- * @param price Current price as Decimal
+ * @param price Current (mid) price as Decimal
  * @param timestamp Server timestamp (defaults to now)
+ * @param confidence Oracle confidence interval, the bid/ask spread source;
+ *   omitted: any previous one is cleared and bid = ask = price
+ * @param source Provider the price came from (e.g. 'pyth'); omitted: cleared
  */
 
 export async function setPrice(
   symbol: string,
   price: Decimal,
-  timestamp: Date = new Date()
+  timestamp: Date = new Date(),
+  confidence?: Decimal,
+  source?: string
 ): Promise<void> {
   const upperSymbol = symbol.toUpperCase();
   const priceKey = redisKeys.PRICE.tokenPrice(upperSymbol);
   const timestampKey = `${priceKey}:ts`;
+  const confidenceKey = `${priceKey}:conf`;
+  const sourceKey = `${priceKey}:src`;
+  const aggregationKey = `${priceKey}:agg`;
 
   if (price.lte(0)) {
     throw new Error(`Invalid price for ${upperSymbol}: ${price}. Must be > 0`);
@@ -33,23 +43,52 @@ export async function setPrice(
     );
   }
 
-  await redis
+  // Rejects a confidence the bid/ask could not be built from
+  if (confidence) {
+    calculateQuote(price, confidence);
+  }
+
+  const pipeline = redis
     .multi()
     .set(priceKey, price.toString())
-    .set(timestampKey, timestamp.toISOString())
-    .exec();
+    .set(timestampKey, timestamp.toISOString());
+
+  if (confidence) {
+    pipeline.set(confidenceKey, confidence.toString());
+  } else {
+    pipeline.del(confidenceKey);
+  }
+
+  if (source) {
+    pipeline.set(sourceKey, source);
+  } else {
+    pipeline.del(sourceKey);
+  }
+  pipeline.del(aggregationKey); // Single price: not an aggregate
+
+  await pipeline.exec();
 }
 
 /**
  * Set multiple prices atomically (for batch updates)
+ * Every price is validated first: one bad price writes none of them
  *
  * @param prices Map of symbol → price
  * @param timestamp Server timestamp (same for all)
+ * @param confidences Map of symbol → oracle confidence; a symbol without
+ *   one has any previous confidence cleared (bid = ask = price)
+ * @param sources Map of symbol → provider(s) the price came from; a symbol
+ *   without one has any previous source cleared
+ * @param aggregations Map of symbol → how the price was aggregated from its
+ *   sources (median); a symbol without one has any previous one cleared
  */
 
 export async function setPrices(
   prices: Record<string, Decimal>,
-  timestamp: Date = new Date()
+  timestamp: Date = new Date(),
+  confidences: Record<string, Decimal> = {},
+  sources: Record<string, string> = {},
+  aggregations: Record<string, PriceAggregation> = {}
 ): Promise<void> {
   const pipeline = redis.multi();
 
@@ -57,14 +96,42 @@ export async function setPrices(
     const upperSymbol = symbol.toUpperCase();
     const priceKey = redisKeys.PRICE.tokenPrice(upperSymbol);
     const timestampKey = `${priceKey}:ts`;
+    const confidenceKey = `${priceKey}:conf`;
+    const sourceKey = `${priceKey}:src`;
+    const aggregationKey = `${priceKey}:agg`;
+    const confidence = confidences[symbol];
+    const source = sources[symbol];
+    const aggregation = aggregations[symbol];
 
-    
     if (price.lte(0) || !price.isFinite()) {
       throw new Error(`Invalid price for ${upperSymbol}: ${price}`);
     }
 
+    // Rejects a confidence the bid/ask could not be built from
+    if (confidence) {
+      calculateQuote(price, confidence);
+    }
+
     pipeline.set(priceKey, price.toString());
     pipeline.set(timestampKey, timestamp.toISOString());
+
+    if (confidence) {
+      pipeline.set(confidenceKey, confidence.toString());
+    } else {
+      pipeline.del(confidenceKey);
+    }
+
+    if (source) {
+      pipeline.set(sourceKey, source);
+    } else {
+      pipeline.del(sourceKey);
+    }
+
+    if (aggregation) {
+      pipeline.set(aggregationKey, JSON.stringify(aggregation));
+    } else {
+      pipeline.del(aggregationKey);
+    }
   }
   await pipeline.exec();
 }
@@ -0,0 +1,57 @@
+/**
+ * Bid/Ask Spread
+ * Synthetic quotes around the mid price from the oracle confidence interval
+ *
+ * Pyth publishes a confidence interval with every price: the range the
+ * publishers' prices spread over. A wider interval means a thinner, more
+ * uncertain market, so the quote widens with it:
+ *   halfSpread = confidence * CONFIDENCE_SPREAD_MULTIPLIER
+ *   bid        = price - halfSpread   (sells execute here)
+ *   ask        = price + halfSpread   (buys execute here)
+ *
+ * Prices stored without a confidence (seeded or test prices) quote
+ * bid = ask = price.
+ */
+
+import { Decimal } from 'decimal.js';
+import { CONFIDENCE_SPREAD_MULTIPLIER } from './constants.js';
+
+export interface PriceQuote {
+    price: Decimal; // Mid price
+    confidence: Decimal; // Oracle confidence interval (0 when unknown)
+    bid: Decimal;
+    ask: Decimal;
+}
+
+/**
+ * Build a bid/ask quote around a mid price
+ * @throws Error if the confidence is negative or the bid would not be > 0
+ */
+export function calculateQuote(price: Decimal, confidence: Decimal = new Decimal(0)): PriceQuote {
+    if (confidence.isNegative()) {
+        throw new Error(`Invalid confidence: ${confidence.toString()}. Must be >= 0`);
+    }
+
+    const halfSpread = confidence.times(CONFIDENCE_SPREAD_MULTIPLIER);
+    const bid = price.minus(halfSpread);
+
+    if (bid.lte(0)) {
+        throw new Error(
+            `Invalid confidence: ${confidence.toString()} leaves no bid below ${price.toString()}`
+        );
+    }
+
+    return {
+        price,
+        confidence,
+        bid,
+        ask: price.plus(halfSpread),
+    };
+}
+
+/**
+ * Price a market execution takes: the ask for buys, the bid for sells
+ */
+export function getQuoteSidePrice(quote: { bid: Decimal; ask: Decimal }, side: string): Decimal {
+    return side === 'buy' ? quote.ask : quote.bid;
+}
@@ -69,9 +69,19 @@ const CHANNELS = {
   // Order events (published by API after order execution)
   orderFilled: () => `${APP}:events:order:filled`,
   orderRejected: () => `${APP}:events:order:rejected`,
+  orderCancelled: () => `${APP}:events:order:cancelled`,
   
   // Portfolio updates (published after balance/position changes)
   portfolioUpdate: () => `${APP}:events:portfolio:update`,
+
+  // Liquidations (published by liquidation worker)
+  liquidation: () => `${APP}:events:account:liquidation`,
+
+  // Perp position changes (published by API, liquidation worker, funding worker)
+  perpPositionUpdate: () => `${APP}:events:perp:position`,
+
+  // Funding payments (published by funding worker at each settlement)
+  fundingPayment: () => `${APP}:events:perp:funding`,
   
   // Candle updates (published by candle aggregation worker)
   candleUpdate: () => `${APP}:events:candle:update`,
@@ -0,0 +1,260 @@
+/**
+ * Paper Accounts
+ * Named sub-accounts per wallet, and resetting an account to INITIAL_BALANCE
+ *
+ * Every trading table is keyed by userId, so an account is a Users row:
+ * the wallet's own row is its "main" account, a sub-account is a row with
+ * ownerId = the main account and no wallet. Each has its own Balances,
+ * Positions, Orders, journal and fee tier volume; sessions belong to the
+ * wallet, which picks the account per request (X-Account). Risk limits are
+ * the wallet's, shared by all its accounts (see riskLimits.ts).
+ *
+ * A reset keeps the account's id (sessions and fee override stay) and moves
+ * its history to a new archived row: orders, trades, lots, positions,
+ * balances, perps and journal, so the archive still reconciles. The account
+ * then gets a fresh INITIAL_BALANCE grant. Archives still count toward
+ * today's risk usage and cash-flow caps, so a reset clears neither.
+ * Archived accounts are read-only: they cannot be selected and are never
+ * liquidated.
+ */
+
+import { getDb } from "@repo/db";
+import { grantInitialPortfolio } from "./portfolio.js";
+import { getOrderReservation, releaseReservation } from "./reservations.js";
+import { MAIN_ACCOUNT_NAME, MAX_SUB_ACCOUNTS, ORDER_STATUS } from "./constants.js";
+
+export interface AccountSummary {
+  accountId: number; // userId of the account's rows
+  name: string;
+  createdAt: Date;
+  archivedAt: Date | null; // Set on the archive a reset leaves behind
+  balances: Array<{ asset: string; available: string; locked: string }>;
+}
+
+export interface ResetAccountResult {
+  account: AccountSummary;
+  archivedAccountId: number; // Where the account's history now lives
+  cancelledOrderIds: number[]; // Pending orders cancelled by the reset
+}
+
+const ACCOUNT_NAME_PATTERN = /^[a-z0-9_-]{1,32}$/;
+
+/**
+ * Validate a sub-account name
+ * @throws Error if the name is malformed
+ */
+export function validateAccountName(name: string): void {
+  if (!ACCOUNT_NAME_PATTERN.test(name)) {
+    throw new Error(
+      `Invalid account name: '${name}'. Use 1-32 lowercase letters, digits, - or _`
+    );
+  }
+}
+
+/**
+ * Resolve a wallet's account by name (the main account when no name is given)
+ * @param client Prisma client or transaction context
+ * @param ownerId The wallet's user id (from its session)
+ * @returns The account's userId, or null if the wallet has no such account
+ */
+export async function resolveAccount(
+  client: any,
+  ownerId: number,
+  name?: string
+): Promise<number | null> {
+  if (!name || name === MAIN_ACCOUNT_NAME) {
+    return ownerId;
+  }
+
+  const account = await client.users.findFirst({
+    where: { ownerId, name, archivedAt: null },
+    select: { id: true },
+  });
+  return account?.id ?? null;
+}
+
+function toAccountSummary(row: any): AccountSummary {
+  return {
+    accountId: row.id,
+    name: row.name,
+    createdAt: row.createdAt,
+    archivedAt: row.archivedAt,
+    balances: row.balances.map((balance: any) => ({
+      asset: balance.asset,
+      available: balance.available.toString(),
+      locked: balance.locked.toString(),
+    })),
+  };
+}
+
+/**
+ * List a wallet's accounts, main first
+ * @param includeArchived Also list the archives left by resets
+ */
+export async function listAccounts(
+  ownerId: number,
+  includeArchived: boolean = false
+): Promise<AccountSummary[]> {
+  const db = getDb();
+
+  const rows = await db.users.findMany({
+    where: {
+      OR: [
+        { id: ownerId },
+        { ownerId, ...(!includeArchived && { archivedAt: null }) },
+      ],
+    },
+    include: { balances: { orderBy: { asset: "asc" } } },
+    orderBy: { id: "asc" },
+  });
+
+  return rows.map(toAccountSummary);
+}
+
+/**
+ * Create a named sub-account with INITIAL_BALANCE
+ * @throws Error if the name is invalid or taken, or the wallet already has
+ *         MAX_SUB_ACCOUNTS sub-accounts
+ */
+export async function createAccount(ownerId: number, name: string): Promise<AccountSummary> {
+  validateAccountName(name);
+  if (name === MAIN_ACCOUNT_NAME) {
+    throw new Error(`Account '${name}' already exists`);
+  }
+
+  const db = getDb();
+
+  return await db.$transaction(async (tx) => {
+    // Lock the wallet's row so concurrent creations see each other
+    const owners: Array<{ ownerId: number | null }> = await tx.$queryRaw`
+      SELECT "ownerId" FROM users WHERE id = ${ownerId} FOR UPDATE
+    `;
+    if (owners.length === 0 || owners[0]!.ownerId !== null) {
+      throw new Error("Sub-accounts can only be created by a wallet's main account");
+    }
+
+    const existing = await tx.users.findMany({
+      where: { ownerId, archivedAt: null },
+      select: { name: true },
+    });
+    if (existing.some((account) => account.name === name)) {
+      throw new Error(`Account '${name}' already exists`);
+    }
+    if (existing.length >= MAX_SUB_ACCOUNTS) {
+      throw new Error(`Account limit reached: at most ${MAX_SUB_ACCOUNTS} sub-accounts per wallet`);
+    }
+
+    const account = await tx.users.create({ data: { ownerId, name } });
+    await grantInitialPortfolio(tx, account.id);
+
+    const row = await tx.users.findUniqueOrThrow({
+      where: { id: account.id },
+      include: { balances: { orderBy: { asset: "asc" } } },
+    });
+    return toAccountSummary(row);
+  });
+}
+
+/**
+ * Reset an account to INITIAL_BALANCE, archiving its history
+ *
+ * Flow (one transaction):
+ * 1. Lock the account's pending orders, then its balances
+ * 2. Refuse while a perp position is open (its margin would be orphaned)
+ * 3. Cancel pending orders, releasing reservations
+ * 4. Create the archive row and move every userId-keyed row to it
+ * 5. Grant INITIAL_BALANCE to the (now empty) account
+ *
+ * @throws Error if the account does not exist or has an open perp position
+ */
+export async function resetAccount(
+  ownerId: number,
+  name: string = MAIN_ACCOUNT_NAME
+): Promise<ResetAccountResult> {
+  const db = getDb();
+  const accountId = await resolveAccount(db, ownerId, name);
+  if (accountId === null) {
+    throw new Error(`Account '${name}' not found`);
+  }
+
+  return await db.$transaction(async (tx) => {
+    // 1. Same lock order as liquidateAccount(): orders, then balances
+    const pendingRows: Array<{ id: number }> = await tx.$queryRaw`
+      SELECT id FROM orders
+      WHERE "userId" = ${accountId} AND status = ${ORDER_STATUS.PENDING}
+      ORDER BY id
+      FOR UPDATE
+    `;
+    await tx.$queryRaw`
+      SELECT id FROM balances
+      WHERE "userId" = ${accountId}
+      ORDER BY asset DESC
+      FOR UPDATE
+    `;
+
+    // 2. Perp margin lives outside Balances: close positions first
+    const openPerp = await tx.perpPositions.findFirst({
+      where: { userId: accountId, size: { not: 0 } },
+    });
+    if (openPerp) {
+      throw new Error(
+        `Cannot reset account '${name}' with an open ${openPerp.market} position. Close it first`
+      );
+    }
+
+    // 3. Cancel pending orders so the archive holds nothing locked
+    const pendingOrders = await tx.orders.findMany({
+      where: { id: { in: pendingRows.map((row) => row.id) } },
+      orderBy: { id: "asc" },
+    });
+    for (const order of pendingOrders) {
+      await tx.orders.update({
+        where: { id: order.id },
+        data: { status: ORDER_STATUS.CANCELLED },
+      });
+
+      const reservation = getOrderReservation(order);
+      if (reservation) {
+        await releaseReservation(tx, accountId, reservation, order.id);
+      }
+    }
+
+    // 4. Archive: the same name under the wallet, with the history moved to it
+    const current = await tx.users.findUniqueOrThrow({ where: { id: accountId } });
+    const archive = await tx.users.create({
+      data: {
+        ownerId,
+        name: current.name,
+        costBasisMethod: current.costBasisMethod,
+        accountMode: current.accountMode,
+        archivedAt: new Date(),
+      },
+    });
+
+    const moved = { where: { userId: accountId }, data: { userId: archive.id } };
+    await tx.orders.updateMany(moved);
+    await tx.trades.updateMany(moved);
+    await tx.taxLots.updateMany(moved);
+    await tx.positions.updateMany(moved);
+    await tx.balances.updateMany(moved);
+    await tx.perpPositions.updateMany(moved);
+    await tx.perpTrades.updateMany(moved);
+    await tx.fundingPayments.updateMany(moved);
+    await tx.journalTransactions.updateMany(moved);
+    await tx.journalEntries.updateMany(moved);
+
+    // 5. Start over
+    await grantInitialPortfolio(tx, accountId);
+
+    const row = await tx.users.findUniqueOrThrow({
+      where: { id: accountId },
+      include: { balances: { orderBy: { asset: "asc" } } },
+    });
+
+    return {
+      account: toAccountSummary(row),
+      archivedAccountId: archive.id,
+      cancelledOrderIds: pendingOrders.map((order) => order.id),
+    };
+  });
+}
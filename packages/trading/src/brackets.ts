@@ -0,0 +1,150 @@
+/**
+ * Bracket Orders (OCO)
+ * An entry order that, once filled, activates a linked stop-loss and
+ * take-profit pair. When one leg fills, the other is cancelled.
+ *
+ * Group shape: the entry is the parent; both legs point at it via
+ * parentOrderId. Legs are trigger orders and hold no reservation.
+ */
+
+import { Decimal } from "decimal.js";
+import type { Decimal as DecimalInstance } from "decimal.js";
+import { ORDER_SIDE, ORDER_STATUS, ORDER_TYPE } from "./constants.js";
+
+export interface BracketParams {
+  stopLossPrice: DecimalInstance;
+  takeProfitPrice: DecimalInstance;
+}
+
+/**
+ * Validate bracket levels against the entry's reference price
+ *
+ * BUY entry:  stopLossPrice < reference < takeProfitPrice
+ * SELL entry: takeProfitPrice < reference < stopLossPrice
+ *
+ * @param referencePrice Limit price for limit entries, market price for market entries
+ * @throws Error if the levels are on the wrong side of the entry
+ */
+export function validateBracket(
+  side: string,
+  referencePrice: DecimalInstance,
+  bracket: BracketParams
+): void {
+  const reference = new Decimal(referencePrice);
+  const stopLoss = new Decimal(bracket.stopLossPrice);
+  const takeProfit = new Decimal(bracket.takeProfitPrice);
+
+  if (stopLoss.lte(0) || takeProfit.lte(0)) {
+    throw new Error("Invalid bracket: stopLossPrice and takeProfitPrice must be > 0");
+  }
+
+  const valid =
+    side === ORDER_SIDE.BUY
+      ? stopLoss.lt(reference) && takeProfit.gt(reference)
+      : stopLoss.gt(reference) && takeProfit.lt(reference);
+
+  if (!valid) {
+    const [below, above] =
+      side === ORDER_SIDE.BUY
+        ? ["stopLossPrice", "takeProfitPrice"]
+        : ["takeProfitPrice", "stopLossPrice"];
+    throw new Error(
+      `Invalid bracket: for a ${side} entry at ${reference.toString()}, ` +
+        `${below} must be below and ${above} above the entry price`
+    );
+  }
+}
+
+/**
+ * Create the stop-loss and take-profit legs for a filled bracket entry
+ * (called within db.$transaction(), right after the entry fills)
+ *
+ * Legs close the entry: opposite side, same executed size.
+ * No-op for entries without bracket levels.
+ *
+ * @param tx Prisma transaction context (NOT db!)
+ * @returns IDs of the legs created
+ */
+export async function activateBracketLegs(
+  tx: any, // Prisma transaction context for atomicity
+  entry: {
+    id: number;
+    userId: number;
+    side: string;
+    baseAsset: string;
+    quoteAsset: string;
+    stopLossPrice: Decimal.Value | null;
+    takeProfitPrice: Decimal.Value | null;
+  },
+  executedSize: DecimalInstance,
+  executedPrice: DecimalInstance
+): Promise<number[]> {
+  if (entry.stopLossPrice === null || entry.takeProfitPrice === null) {
+    return [];
+  }
+
+  const legSide = entry.side === ORDER_SIDE.BUY ? ORDER_SIDE.SELL : ORDER_SIDE.BUY;
+  const legs = [
+    { type: ORDER_TYPE.STOP_MARKET, triggerPrice: entry.stopLossPrice },
+    { type: ORDER_TYPE.TAKE_PROFIT, triggerPrice: entry.takeProfitPrice },
+  ];
+
+  const legIds: number[] = [];
+  for (const leg of legs) {
+    const created = await tx.orders.create({
+      data: {
+        userId: entry.userId,
+        side: legSide,
+        type: leg.type,
+        baseAsset: entry.baseAsset,
+        quoteAsset: entry.quoteAsset,
+        requestedSize: new Decimal(executedSize).toString(),
+        priceAtOrderTime: new Decimal(executedPrice).toString(),
+        triggerPrice: new Decimal(leg.triggerPrice).toString(),
+        status: ORDER_STATUS.PENDING,
+        parentOrderId: entry.id,
+      },
+    });
+    legIds.push(created.id);
+  }
+
+  return legIds;
+}
+
+/**
+ * Cancel the pending orders of a bracket group, except one
+ * (called within db.$transaction())
+ *
+ * Used for one-cancels-other when a leg fills, and for group-aware
+ * cancellation. Legs are trigger orders, so nothing is released.
+ *
+ * @param tx Prisma transaction context (NOT db!)
+ * @param parentOrderId The bracket entry whose legs to cancel
+ * @param exceptOrderId Leg to leave untouched (the one that filled)
+ * @returns IDs of the legs cancelled
+ */
+export async function cancelBracketLegs(
+  tx: any, // Prisma transaction context for atomicity
+  parentOrderId: number,
+  exceptOrderId?: number
+): Promise<number[]> {
+  // Lock pending legs so a concurrent trigger can't fill one we cancel
+  const rows: Array<{ id: number }> = await tx.$queryRaw`
+    SELECT id FROM orders
+    WHERE "parentOrderId" = ${parentOrderId}
+      AND status = ${ORDER_STATUS.PENDING}
+      AND id <> ${exceptOrderId ?? 0}
+    ORDER BY id
+    FOR UPDATE
+  `;
+
+  const ids = rows.map((row) => row.id);
+  if (ids.length > 0) {
+    await tx.orders.updateMany({
+      where: { id: { in: ids } },
+      data: { status: ORDER_STATUS.CANCELLED },
+    });
+  }
+
+  return ids;
+}
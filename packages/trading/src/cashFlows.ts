@@ -0,0 +1,324 @@
+/**
+ * Cash Flows
+ * Simulated deposits, withdrawals and faucet top-ups
+ *
+ * Money entering or leaving an account from outside trading is journaled
+ * against the external system account:
+ *   deposit     external -> available (a deposit without an amount is a
+ *               faucet top-up of FAUCET_AMOUNT)
+ *   withdrawal  available -> external (only what is available; from a
+ *               margin account, only what keeps equity >= initial margin)
+ * in CASH_FLOW_ASSET. The journal is the record: caps and cooldowns are
+ * read back from it, reconciliation adds it to the ledger, and performance
+ * (getPerformance()) subtracts it so a top-up is never counted as profit.
+ *
+ * Limits per kind (DEPOSIT_* / WITHDRAWAL_* in tradingEnvSchema):
+ *   dailyLimit  total amount per UTC day
+ *   cooldown    minimum wait after the previous one of the kind
+ * Both are checked with the account's CASH_FLOW_ASSET balance locked, so a
+ * user's concurrent requests are counted one at a time. They count the
+ * archives the account's resets left behind too: a reset moves the journal,
+ * and must not clear today's caps.
+ */
+
+import { Decimal } from "decimal.js";
+import type { Decimal as DecimalInstance } from "decimal.js";
+import { getDb } from "@repo/db";
+import { parseEnv, tradingEnvSchema } from "@repo/env";
+import { postJournal, systemAccount, transfer, userAccount } from "./journal.js";
+import { getTradingDayStart } from "./riskLimits.js";
+import { tradingError } from "./errors.js";
+import {
+  getAccountMode,
+  getMaxLeverage,
+  getOtherHoldings,
+  validateMarginWithdrawal,
+} from "./margin.js";
+import {
+  ACCOUNT_MODE,
+  CASH_FLOW_ASSET,
+  JOURNAL_ACCOUNT,
+  JOURNAL_TYPE,
+  SIZE_DECIMALS,
+  TRADING_ERROR_CODE,
+} from "./constants.js";
+
+export type CashFlowType = typeof JOURNAL_TYPE.DEPOSIT | typeof JOURNAL_TYPE.WITHDRAWAL;
+
+export interface CashFlowLimit {
+  dailyLimit: DecimalInstance; // Total per UTC day
+  cooldownMs: number; // Minimum wait after the previous one
+}
+
+export interface CashFlowLimits {
+  faucetAmount: DecimalInstance; // Deposit without an amount
+  deposit: CashFlowLimit;
+  withdrawal: CashFlowLimit;
+}
+
+export interface CashFlowTotals {
+  deposited: DecimalInstance;
+  withdrawn: DecimalInstance;
+}
+
+export interface CashFlowResult {
+  transactionId: number; // Journal transaction
+  type: CashFlowType;
+  asset: string;
+  amount: string;
+  available: string; // Available balance afterwards
+  remainingToday: string; // Left of the daily limit for this kind
+  createdAt: Date;
+}
+
+let configuredLimits: CashFlowLimits | null = null;
+
+/**
+ * Get the cash flow limits (FAUCET_AMOUNT, DEPOSIT_* and WITHDRAWAL_*)
+ * Limits set with setCashFlowLimits() win over the environment.
+ * @throws Error if a setting is negative (or the faucet amount is not positive)
+ */
+export function getCashFlowLimits(): CashFlowLimits {
+  if (!configuredLimits) {
+    const env = parseEnv(tradingEnvSchema);
+
+    const nonNegative = (value: number, name: string) => {
+      if (!Number.isFinite(value) || value < 0) {
+        throw new Error(`Invalid ${name}: ${value}. Must be >= 0`);
+      }
+      return value;
+    };
+    if (!(env.FAUCET_AMOUNT > 0)) {
+      throw new Error(`Invalid FAUCET_AMOUNT: ${env.FAUCET_AMOUNT}. Must be > 0`);
+    }
+
+    configuredLimits = {
+      faucetAmount: new Decimal(env.FAUCET_AMOUNT),
+      deposit: {
+        dailyLimit: new Decimal(nonNegative(env.DEPOSIT_DAILY_LIMIT, "DEPOSIT_DAILY_LIMIT")),
+        cooldownMs:
+          nonNegative(env.DEPOSIT_COOLDOWN_SECONDS, "DEPOSIT_COOLDOWN_SECONDS") * 1000,
+      },
+      withdrawal: {
+        dailyLimit: new Decimal(nonNegative(env.WITHDRAWAL_DAILY_LIMIT, "WITHDRAWAL_DAILY_LIMIT")),
+        cooldownMs:
+          nonNegative(env.WITHDRAWAL_COOLDOWN_SECONDS, "WITHDRAWAL_COOLDOWN_SECONDS") * 1000,
+      },
+    };
+  }
+  return configuredLimits;
+}
+
+/**
+ * Replace the cash flow limits; null goes back to the environment
+ */
+export function setCashFlowLimits(limits: CashFlowLimits | null): void {
+  configuredLimits = limits;
+}
+
+/**
+ * Sum a user's deposits and withdrawals (in CASH_FLOW_ASSET)
+ * @param client Prisma client or transaction context
+ * @param userId The account, or several (e.g. with its archives)
+ * @param since Only count cash flows from this time on
+ */
+export async function getCashFlowTotals(
+  client: any,
+  userId: number | number[],
+  since?: Date
+): Promise<CashFlowTotals> {
+  const sumOf = async (type: CashFlowType) => {
+    const result = await client.journalEntries.aggregate({
+      where: {
+        userId: Array.isArray(userId) ? { in: userId } : userId,
+        account: JOURNAL_ACCOUNT.AVAILABLE,
+        asset: CASH_FLOW_ASSET,
+        transaction: { type },
+        ...(since && { createdAt: { gte: since } }),
+      },
+      _sum: { amount: true },
+    });
+    return new Decimal(result._sum.amount?.toString() ?? 0).abs();
+  };
+
+  const [deposited, withdrawn] = await Promise.all([
+    sumOf(JOURNAL_TYPE.DEPOSIT),
+    sumOf(JOURNAL_TYPE.WITHDRAWAL),
+  ]);
+  return { deposited, withdrawn };
+}
+
+/**
+ * An account and the archives its resets left behind (same wallet and name)
+ * @param client Prisma client or transaction context
+ */
+async function getAccountHistoryIds(client: any, userId: number): Promise<number[]> {
+  const account = await client.users.findUniqueOrThrow({
+    where: { id: userId },
+    select: { ownerId: true, name: true },
+  });
+  const archives: Array<{ id: number }> = await client.users.findMany({
+    where: { ownerId: account.ownerId ?? userId, name: account.name, archivedAt: { not: null } },
+    select: { id: true },
+  });
+  return [userId, ...archives.map((archive) => archive.id)];
+}
+
+/**
+ * Validate a cash flow amount
+ * @throws Error if not a positive number with at most SIZE_DECIMALS places
+ */
+function parseAmount(amount: Decimal.Value): DecimalInstance {
+  let value: DecimalInstance;
+  try {
+    value = new Decimal(amount);
+  } catch {
+    throw new Error(`Invalid amount: '${amount}'`);
+  }
+  if (!value.isFinite() || value.lte(0) || value.decimalPlaces() > SIZE_DECIMALS) {
+    throw new Error(
+      `Invalid amount: '${amount}'. Must be > 0 with at most ${SIZE_DECIMALS} decimal places`
+    );
+  }
+  return value;
+}
+
+/**
+ * Post a deposit or withdrawal after checking its limits
+ *
+ * Flow (one transaction):
+ * 1. Lock the account's CASH_FLOW_ASSET balance
+ * 2. Check the cooldown since the previous one of the kind
+ * 3. Check the daily limit
+ *    (both over the account and its archives)
+ * 4. Withdrawals: check the available balance, and the initial margin of
+ *    a margin account (see validateMarginWithdrawal)
+ * 5. Journal external <-> available
+ *
+ * @throws Error "... cooldown ..." / "... daily limit ..." / "Insufficient balance ..." /
+ *         "Insufficient margin ..."
+ */
+async function postCashFlow(
+  userId: number,
+  type: CashFlowType,
+  amount: DecimalInstance,
+  now: Date = new Date()
+): Promise<CashFlowResult> {
+  const limits = getCashFlowLimits();
+  const limit = type === JOURNAL_TYPE.DEPOSIT ? limits.deposit : limits.withdrawal;
+  const label = type === JOURNAL_TYPE.DEPOSIT ? "Deposit" : "Withdrawal";
+  const db = getDb();
+
+  return await db.$transaction(async (tx) => {
+    // 1. Serialize with trades and other cash flows of the account
+    const balances: Array<{ available: string }> = await tx.$queryRaw`
+      SELECT available::text FROM balances
+      WHERE "userId" = ${userId} AND asset = ${CASH_FLOW_ASSET}
+      FOR UPDATE
+    `;
+    if (balances.length === 0) {
+      throw new Error(`Balance not found for ${CASH_FLOW_ASSET}`);
+    }
+
+    // 2. Cooldown (a reset moved the earlier ones to its archive)
+    const historyIds = await getAccountHistoryIds(tx, userId);
+    if (limit.cooldownMs > 0) {
+      const previous = await tx.journalTransactions.findFirst({
+        where: { userId: { in: historyIds }, type },
+        orderBy: { createdAt: "desc" },
+        select: { createdAt: true },
+      });
+      const nextAllowedAt = previous && new Date(previous.createdAt.getTime() + limit.cooldownMs);
+      if (nextAllowedAt && nextAllowedAt > now) {
+        throw new Error(
+          `${label} cooldown: the next ${label.toLowerCase()} is allowed at ${nextAllowedAt.toISOString()}`
+        );
+      }
+    }
+
+    // 3. Daily limit
+    const today = await getCashFlowTotals(tx, historyIds, getTradingDayStart(now));
+    const usedToday = type === JOURNAL_TYPE.DEPOSIT ? today.deposited : today.withdrawn;
+    const remaining = Decimal.max(limit.dailyLimit.minus(usedToday), 0);
+    if (amount.gt(remaining)) {
+      throw new Error(
+        `${label} daily limit exceeded: ${remaining.toString()} ${CASH_FLOW_ASSET} of ` +
+          `${limit.dailyLimit.toString()} left today`
+      );
+    }
+
+    // 4. Only what is available can leave
+    const available = new Decimal(balances[0]!.available);
+    if (type === JOURNAL_TYPE.WITHDRAWAL && available.lt(amount)) {
+      throw tradingError(
+        TRADING_ERROR_CODE.INSUFFICIENT_BALANCE,
+        `Insufficient balance. Need ${amount.toString()} ${CASH_FLOW_ASSET}, ` +
+          `have ${available.toString()}`
+      );
+    }
+
+    // ...and from a margin account, only what its positions do not need
+    if (
+      type === JOURNAL_TYPE.WITHDRAWAL &&
+      (await getAccountMode(tx, userId)) === ACCOUNT_MODE.MARGIN
+    ) {
+      const rows = await tx.balances.findMany({ where: { userId } });
+      const cash = rows.find((row) => row.asset === CASH_FLOW_ASSET)!;
+      validateMarginWithdrawal(
+        {
+          quote: new Decimal(cash.available.toString()).plus(cash.locked.toString()).minus(amount),
+          base: new Decimal(0),
+          others: await getOtherHoldings(rows, [CASH_FLOW_ASSET]),
+        },
+        amount,
+        getMaxLeverage(),
+        CASH_FLOW_ASSET
+      );
+    }
+
+    // 5. Journal (updates Balances)
+    const external = systemAccount(JOURNAL_ACCOUNT.EXTERNAL);
+    const account = userAccount(userId, JOURNAL_ACCOUNT.AVAILABLE);
+    const transactionId = await postJournal(tx, {
+      type,
+      userId,
+      entries:
+        type === JOURNAL_TYPE.DEPOSIT
+          ? transfer(external, account, CASH_FLOW_ASSET, amount)
+          : transfer(account, external, CASH_FLOW_ASSET, amount),
+    });
+
+    const availableAfter =
+      type === JOURNAL_TYPE.DEPOSIT ? available.plus(amount) : available.minus(amount);
+    const posted = await tx.journalTransactions.findUniqueOrThrow({
+      where: { id: transactionId! },
+      select: { createdAt: true },
+    });
+
+    return {
+      transactionId: transactionId!,
+      type,
+      asset: CASH_FLOW_ASSET,
+      amount: amount.toString(),
+      available: availableAfter.toString(),
+      remainingToday: remaining.minus(amount).toString(),
+      createdAt: posted.createdAt,
+    };
+  });
+}
+
+/**
+ * Deposit into an account's available balance
+ * @param amount Omitted for a faucet top-up of FAUCET_AMOUNT
+ */
+export async function deposit(userId: number, amount?: Decimal.Value): Promise<CashFlowResult> {
+  const value = amount === undefined ? getCashFlowLimits().faucetAmount : parseAmount(amount);
+  return postCashFlow(userId, JOURNAL_TYPE.DEPOSIT, value);
+}
+
+/**
+ * Withdraw from an account's available balance
+ */
+export async function withdraw(userId: number, amount: Decimal.Value): Promise<CashFlowResult> {
+  return postCashFlow(userId, JOURNAL_TYPE.WITHDRAWAL, parseAmount(amount));
+}
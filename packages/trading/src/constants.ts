@@ -3,11 +3,14 @@
  * Centralized values for validation and state management
  */
 
-// Order statuses -> filled, pending, rejected
+import { MARKET_QUOTE_ASSET } from "@repo/pricing";
+
+// Order statuses -> filled, pending, rejected, cancelled
 export const ORDER_STATUS = {
     PENDING: "pending",
     FILLED: "filled",
     REJECTED: "rejected",
+    CANCELLED: "cancelled",
 } as const;
 
 
@@ -18,25 +21,199 @@ export const ORDER_SIDE= {
 } as const;
 
 
-// Order types -> market (only market orders for now)
+// Order types -> market (fill immediately), limit (rest until price crosses),
+// stop_market / take_profit (rest until trigger price crosses, then execute at market),
+// trailing_stop (stop whose trigger follows the price peak),
+// liquidation (placed by the liquidation worker to force-close a margin account)
 export const ORDER_TYPE = {
     MARKET: "market",
+    LIMIT: "limit",
+    STOP_MARKET: "stop_market",
+    TAKE_PROFIT: "take_profit",
+    TRAILING_STOP: "trailing_stop",
+    LIQUIDATION: "liquidation",
+} as const;
+
+// Order types that wait for a fixed trigger price before executing at market
+export const TRIGGER_ORDER_TYPES = [ORDER_TYPE.STOP_MARKET, ORDER_TYPE.TAKE_PROFIT] as const;
+
+// Cost-basis methods -> which tax lots a sell consumes
+// fifo (oldest first), lifo (newest first), hifo (highest price first),
+// average (oldest first, but every lot is costed at the position's avgEntryPrice)
+export const COST_BASIS_METHOD = {
+    FIFO: "fifo",
+    LIFO: "lifo",
+    HIFO: "hifo",
+    AVERAGE: "average",
+} as const;
+
+export const DEFAULT_COST_BASIS_METHOD = COST_BASIS_METHOD.FIFO;
+
+// Lots held longer than this are long-term when sold
+export const LONG_TERM_HOLDING_DAYS = 365;
+
+// Account modes -> cash (fully funded, no shorts),
+// margin (borrow up to MAX_LEVERAGE, negative balances and short positions allowed)
+export const ACCOUNT_MODE = {
+    CASH: "cash",
+    MARGIN: "margin",
 } as const;
 
-// Supported trading assets
-export const ASSETS={
-    SOL: "SOL",
-    USDC: "USDC",
+export const DEFAULT_ACCOUNT_MODE = ACCOUNT_MODE.CASH;
+
+// Paper sub-accounts: every wallet has its "main" account plus up to
+// MAX_SUB_ACCOUNTS named ones (lowercase letters, digits, - and _)
+export const MAIN_ACCOUNT_NAME = "main";
+export const MAX_SUB_ACCOUNTS = 5;
+
+// Price impact models for market orders (SLIPPAGE_MODEL), impact as a fraction of the price
+// none (fill at the market price), linear (factor * size / depth),
+// sqrt (factor * sqrt(size / depth)), curve (constant-product pool holding depth base units)
+export const SLIPPAGE_MODEL = {
+    NONE: "none",
+    LINEAR: "linear",
+    SQRT: "sqrt",
+    CURVE: "curve",
+} as const;
 
+// Maintenance margin as a fraction of the initial margin (1 / MAX_LEVERAGE of notional)
+// e.g. 10x leverage: 10% initial, 5% maintenance
+export const MAINTENANCE_MARGIN_RATIO = '0.5' as const;
+
+// Perpetual futures markets -> underlying (its Redis price is the index price)
+// and settlement asset. Positions use isolated margin: each holds its own collateral.
+// Kept here, not in the market registry: a registry market is a spot pair with
+// order rules (tick, lot, size bounds), while a perp also needs funding and
+// margin parameters the registry does not have. The underlying must be listed there
+export const PERP_MARKETS = {
+    "SOL-PERP": { baseAsset: "SOL", quoteAsset: "USDC" },
 } as const;
 
-// Trading fee rate (e.g., 0.1% fee per trade)
+// Perp position sides -> long (positive size), short (negative size)
+export const PERP_SIDE = {
+    LONG: "long",
+    SHORT: "short",
+} as const;
+
+// Perp trade types -> market (opened/closed by the user), liquidation (closed by the liquidation worker)
+export const PERP_TRADE_TYPE = {
+    MARKET: "market",
+    LIQUIDATION: "liquidation",
+} as const;
+
+// Funding is settled on every position once per interval, on interval boundaries
+export const FUNDING_INTERVAL_MS = 60 * 60 * 1000; // 1 hour
+
+// Interest part of the funding rate per interval (0.01% per 8 hours)
+export const FUNDING_INTEREST_RATE = '0.0000125' as const;
+
+// Funding rate cap per interval, either direction
+export const MAX_FUNDING_RATE = '0.0005' as const;
+
+// Mark premium over the index when all open interest is on one side:
+// mark = index * (1 + PERP_PREMIUM_FACTOR * (longOI - shortOI) / (longOI + shortOI))
+export const PERP_PREMIUM_FACTOR = '0.001' as const;
+
+// Account currency: initial grant, cash flows and perp collateral, and the
+// quote of every market (tradable assets come from the market registry, see @repo/pricing)
+export const CASH_ASSET = MARKET_QUOTE_ASSET;
+
+// Decimal places stored for sizes and prices (Decimal(20, 8) columns)
+export const SIZE_DECIMALS = 8;
+
+// Journal accounts. User accounts (per user and asset):
+//   available, locked  projected into Balances
+//   perp_margin        collateral held by open perp positions
+// System accounts (one per asset):
+//   equity      source of initial grants (and pre-journal opening balances)
+//   market      the house: counterparty to spot fills and perp P&L
+//   fees        fee revenue
+//   funding     counterparty to funding payments
+//   bad_debt    deficits written off after liquidations
+//   adjustment  corrections posted by reconciliation repairs
+//   external    the outside world: simulated deposits and withdrawals
+export const JOURNAL_ACCOUNT = {
+    AVAILABLE: "available",
+    LOCKED: "locked",
+    PERP_MARGIN: "perp_margin",
+    EQUITY: "equity",
+    MARKET: "market",
+    FEES: "fees",
+    FUNDING: "funding",
+    BAD_DEBT: "bad_debt",
+    ADJUSTMENT: "adjustment",
+    EXTERNAL: "external",
+} as const;
+
+// Journal transaction types (what moved the money)
+export const JOURNAL_TYPE = {
+    OPENING_BALANCE: "opening_balance", // Balances carried over when the journal started
+    GRANT: "grant", // INITIAL_BALANCE
+    TRADE: "trade", // Spot fill: base for quote with the market
+    FEE: "fee",
+    RESERVE: "reserve", // Pending order: available -> locked
+    RELEASE: "release", // Cancelled / rejected / filled order: locked -> available
+    PERP_MARGIN: "perp_margin", // Margin posted or withdrawn
+    PERP_SETTLEMENT: "perp_settlement", // Margin released with the P&L of a close
+    FUNDING: "funding",
+    BAD_DEBT: "bad_debt",
+    ADJUSTMENT: "adjustment",
+    DEPOSIT: "deposit", // Simulated deposit / faucet top-up: external -> available
+    WITHDRAWAL: "withdrawal", // Simulated withdrawal: available -> external
+} as const;
+
+// Asset that deposits and withdrawals move (external cash flows)
+export const CASH_FLOW_ASSET = CASH_ASSET;
+
+// Reconciliation drift kinds -> balance (Balances row), position (Positions row)
+export const RECONCILIATION_KIND = {
+    BALANCE: "balance",
+    POSITION: "position",
+} as const;
+
+// Risk limit rejection reasons (returned as the API error's reason)
+export const RISK_LIMIT_REASON = {
+    MAX_ORDERS_PER_DAY: "MAX_ORDERS_PER_DAY", // Orders placed this UTC day
+    MAX_ORDER_NOTIONAL: "MAX_ORDER_NOTIONAL", // size * price of one order
+    MAX_POSITION_SIZE: "MAX_POSITION_SIZE", // |position| if the order fills
+    DAILY_LOSS_LIMIT: "DAILY_LOSS_LIMIT", // Realized loss this UTC day
+} as const;
+
+// Codes of the trading errors callers branch on (a trigger order is rejected,
+// the API picks a status); set on the thrown Error as `code`, see errors.ts
+export const TRADING_ERROR_CODE = {
+    INSUFFICIENT_BALANCE: "INSUFFICIENT_BALANCE", // Not enough available to pay or deliver
+    INSUFFICIENT_MARGIN: "INSUFFICIENT_MARGIN", // Equity below the initial margin
+    PRICE_IMPACT_TOO_HIGH: "PRICE_IMPACT_TOO_HIGH", // Above SLIPPAGE_MAX_IMPACT
+    RISK_LIMIT_EXCEEDED: "RISK_LIMIT_EXCEEDED", // Breaks a risk limit; the error's reason says which
+} as const;
+
+// Base trading fee rate (0.1% per trade): the entry tier's rate, and the
+// cap on every tier / override rate (limit buys reserve their fee at it)
 export const FEE_RATE = '0.001' as const; // 0.1% fee per trade
 
+// Trade liquidity roles -> maker (a resting limit order filled), taker (filled on arrival)
+export const FEE_LIQUIDITY = {
+    MAKER: "maker",
+    TAKER: "taker",
+} as const;
+
+// Trailing window of traded volume that sets a user's fee tier (30 days)
+export const FEE_VOLUME_WINDOW_MS = 30 * 24 * 60 * 60 * 1000;
+
+// Default fee schedule (FEE_TIERS overrides it): trailing 30-day volume in
+// the quote asset -> maker / taker rate. The highest tier reached applies
+export const DEFAULT_FEE_TIERS = [
+    { name: "standard", minVolume: "0", makerRate: "0.001", takerRate: "0.001" },
+    { name: "silver", minVolume: "10000", makerRate: "0.0008", takerRate: "0.0009" },
+    { name: "gold", minVolume: "100000", makerRate: "0.0005", takerRate: "0.0007" },
+    { name: "platinum", minVolume: "1000000", makerRate: "0.0002", takerRate: "0.0005" },
+] as const;
+
 
+// Granted to every new (or reset) account; every other market asset starts at 0
 export const INITIAL_BALANCE = {
-    [ASSETS.SOL]: 0, // 0 SOL starting balance
-    [ASSETS.USDC]: 1000, // 1000 USDC starting balance
+    [CASH_ASSET]: 1000, // 1000 USDC starting balance
 } as const;
 
 
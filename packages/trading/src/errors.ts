@@ -0,0 +1,38 @@
+/**
+ * Trading Errors
+ * Failures callers act on carry a TRADING_ERROR_CODE next to their message,
+ * so rewording a message does not change how it is handled
+ */
+
+import { TRADING_ERROR_CODE } from "./constants.js";
+import type { RiskLimitReason } from "./riskLimits.js";
+
+export type TradingErrorCode = (typeof TRADING_ERROR_CODE)[keyof typeof TRADING_ERROR_CODE];
+
+export type TradingError = Error & { code: TradingErrorCode };
+
+export type RiskLimitError = TradingError & { reason: RiskLimitReason };
+
+/**
+ * Create an Error carrying a trading error code
+ */
+export function tradingError(code: TradingErrorCode, message: string): TradingError {
+  return Object.assign(new Error(message), { code });
+}
+
+/**
+ * Create a RISK_LIMIT_EXCEEDED error naming the limit broken
+ */
+export function riskLimitError(reason: RiskLimitReason, message: string): RiskLimitError {
+  return Object.assign(tradingError(TRADING_ERROR_CODE.RISK_LIMIT_EXCEEDED, message), { reason });
+}
+
+/**
+ * Code of a trading error, or null for any other error
+ */
+export function getTradingErrorCode(error: unknown): TradingErrorCode | null {
+  const code = (error as { code?: unknown } | null)?.code;
+  return Object.values(TRADING_ERROR_CODE).includes(code as TradingErrorCode)
+    ? (code as TradingErrorCode)
+    : null;
+}
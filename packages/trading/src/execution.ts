@@ -0,0 +1,416 @@
+/**
+ * Market Execution
+ * The single atomic trade path shared by market and triggered orders
+ */
+
+import { Decimal } from "decimal.js";
+import type { Decimal as DecimalInstance } from "decimal.js";
+import { calculateFee } from "./fees.js";
+import { calculatePositionChange } from "./positions.js";
+import { recordTradeCostBasis } from "./lots.js";
+import {
+  addsExposure,
+  getAccountMode,
+  getMaxLeverage,
+  getOtherHoldings,
+  validateMarginTrade,
+  type MarginHolding,
+} from "./margin.js";
+import { applyPriceImpact } from "./slippage.js";
+import { getUserFeeTier } from "./feeTiers.js";
+import { postTrade } from "./journal.js";
+import { tradingError } from "./errors.js";
+import {
+  ACCOUNT_MODE,
+  FEE_LIQUIDITY,
+  FEE_RATE,
+  ORDER_STATUS,
+  TRADING_ERROR_CODE,
+} from "./constants.js";
+
+export interface PlaceOrderResult {
+  orderId: number;
+  executedSize: string;
+  executedPrice: string;
+  referencePrice: string; // Market price before price impact
+  slippage: string; // |executedPrice - referencePrice| * size, in the quote asset
+  feesApplied: string;
+  feeTier: string; // Tier applied (volume tier, or the user's override label)
+  feeRate: string; // Taker rate charged
+  status: string;
+  childOrderIds?: number[]; // Bracket legs activated by this fill
+}
+
+export interface MarketTradeProjection {
+  cost: DecimalInstance;
+  fee: DecimalInstance;
+  quoteAvailable: DecimalInstance; // Quote balance after the trade
+  baseAvailable: DecimalInstance; // Base balance after the trade
+  positionSize: DecimalInstance; // Signed: negative for a short
+  avgEntryPrice: DecimalInstance;
+}
+
+export interface MarginParams {
+  leverage: DecimalInstance; // MAX_LEVERAGE
+  quoteLocked: DecimalInstance;
+  baseLocked: DecimalInstance;
+  others: MarginHolding[]; // The account's other base assets (see getMarginParams)
+}
+
+/**
+ * Margin inputs for a trade of a margin account: its locked balances and,
+ * when the trade adds exposure, its other holdings at their marks (a trade
+ * that only reduces is not checked, so it never waits on another price)
+ * @param client Prisma client or transaction context
+ * @throws Error "Price not available ..." if another held asset has no fresh price
+ */
+export async function getMarginParams(
+  client: any,
+  userId: number,
+  side: string,
+  baseAsset: string,
+  quoteAsset: string,
+  size: DecimalInstance,
+  balances: { quoteLocked: DecimalInstance; baseAvailable: DecimalInstance; baseLocked: DecimalInstance }
+): Promise<MarginParams> {
+  const baseBefore = balances.baseAvailable.plus(balances.baseLocked);
+  const baseAfter = side === "buy" ? baseBefore.plus(size) : baseBefore.minus(size);
+
+  const others = addsExposure(baseBefore, baseAfter)
+    ? await getOtherHoldings(
+        await client.balances.findMany({ where: { userId } }),
+        [quoteAsset, baseAsset]
+      )
+    : [];
+
+  return {
+    leverage: getMaxLeverage(),
+    quoteLocked: balances.quoteLocked,
+    baseLocked: balances.baseLocked,
+    others,
+  };
+}
+
+/**
+ * Project the outcome of a market trade against the current balances and
+ * position, without writing anything
+ *
+ * Shared by executeMarketTrade() and previewOrder() so both apply exactly
+ * the same fee, balance checks and average entry price math. Realized P&L
+ * depends on the user's tax lots (see recordTradeCostBasis / previewTradeCostBasis).
+ *
+ * Cash accounts (no margin): buys need the quote balance, sells the base balance.
+ * Margin accounts: balances may go negative, checked by validateMarginTrade().
+ * @throws Error if the balance (or margin) does not cover the trade
+ */
+export function projectMarketTrade(
+  side: string,
+  baseAsset: string,
+  quoteAsset: string,
+  size: DecimalInstance,
+  price: DecimalInstance,
+  current: {
+    quoteAvailable: DecimalInstance;
+    baseAvailable: DecimalInstance;
+    positionSize: DecimalInstance;
+    avgEntryPrice: DecimalInstance;
+  },
+  margin?: MarginParams,
+  feeRate: Decimal.Value = FEE_RATE
+): MarketTradeProjection {
+  const cost = size.times(price);
+  const fee = calculateFee(price, size, feeRate);
+  const { quoteAvailable, baseAvailable } = current;
+  const position = calculatePositionChange(
+    current.positionSize,
+    current.avgEntryPrice,
+    side,
+    price,
+    size
+  );
+
+  let newQuoteAvailable: Decimal;
+  let newBaseAvailable: Decimal;
+
+  if (side === "buy") {
+    // BUY: Deduct cost + fee from USDC, add SOL
+    newQuoteAvailable = quoteAvailable.minus(cost).minus(fee);
+    newBaseAvailable = baseAvailable.plus(size);
+  } else {
+    // SELL: Deduct SOL, add proceeds (price * size - fee) to USDC
+    newQuoteAvailable = quoteAvailable.plus(cost).minus(fee);
+    newBaseAvailable = baseAvailable.minus(size);
+  }
+
+  if (margin) {
+    validateMarginTrade(
+      {
+        quote: quoteAvailable.plus(margin.quoteLocked),
+        base: baseAvailable.plus(margin.baseLocked),
+      },
+      {
+        quote: newQuoteAvailable.plus(margin.quoteLocked),
+        base: newBaseAvailable.plus(margin.baseLocked),
+        others: margin.others,
+      },
+      price,
+      margin.leverage,
+      baseAsset,
+      quoteAsset
+    );
+  } else if (side === "buy") {
+    // BUY: Check USDC balance for cost + fee
+    const totalNeeded = cost.plus(fee);
+    if (quoteAvailable.lt(totalNeeded)) {
+      throw tradingError(
+        TRADING_ERROR_CODE.INSUFFICIENT_BALANCE,
+        `Insufficient balance. Need ${totalNeeded.toString()} ${quoteAsset} ` +
+          `(cost: ${cost.toString()} + fee: ${fee.toString()}), ` +
+          `but have ${quoteAvailable.toString()}`
+      );
+    }
+  } else if (baseAvailable.lt(size)) {
+    // SELL: Check SOL balance for sell amount
+    throw tradingError(
+      TRADING_ERROR_CODE.INSUFFICIENT_BALANCE,
+      `Insufficient ${baseAsset} to sell. Have ${baseAvailable.toString()}, need ${size.toString()}`
+    );
+  }
+
+  return {
+    cost,
+    fee,
+    quoteAvailable: newQuoteAvailable,
+    baseAvailable: newBaseAvailable,
+    positionSize: position.size,
+    avgEntryPrice: position.avgEntryPrice,
+  };
+}
+
+/**
+ * Execute a market trade inside an existing transaction
+ * (called within db.$transaction())
+ *
+ * Shared by placeOrder() (creates a new FILLED order) and triggered
+ * stop/take-profit orders (pendingOrderId: marks that order FILLED).
+ * A clientOrderId is stored on the new order; a duplicate for the same
+ * user fails the insert (see isDuplicateClientOrderId).
+ *
+ * Locks quote then base balance rows, checks funds (margin accounts:
+ * the initial margin), creates the trade, journals it (updating balances)
+ * and updates the position.
+ * The trade fills at the market price moved by the configured price impact
+ * (see applyPriceImpact); the slippage is recorded on the trade. The fee is
+ * the user's taker rate (see getUserFeeTier), recorded with its tier.
+ * @param tx Prisma transaction context (NOT db!)
+ * @param price Market price, before price impact
+ * @param capImpact Fill beyond SLIPPAGE_MAX_IMPACT at the capped impact (liquidations)
+ */
+export async function executeMarketTrade(
+  tx: any, // Prisma transaction context for atomicity
+  userId: number,
+  side: string,
+  baseAsset: string,
+  quoteAsset: string,
+  size: DecimalInstance,
+  price: DecimalInstance,
+  pendingOrderId?: number,
+  clientOrderId?: string,
+  capImpact: boolean = false
+): Promise<PlaceOrderResult> {
+  // Lock BOTH balance rows upfront to ensure consistent ordering and prevent deadlocks
+  // For BUY: need to check USDC (quote), update both USDC and SOL (base)
+  // For SELL: need to check SOL (base), update both SOL and USDC
+  
+  // Lock quote asset (USDC) balance
+  const quoteBalanceRows: Array<{ id: number; available: string; locked: string }> = await tx.$queryRaw`
+    SELECT id, available::text, locked::text 
+    FROM balances 
+    WHERE "userId" = ${userId} AND asset = ${quoteAsset}
+    FOR UPDATE
+  `;
+
+  if (!quoteBalanceRows || quoteBalanceRows.length === 0) {
+    throw new Error(`No ${quoteAsset} balance found for user ${userId}`);
+  }
+
+  const quoteBalance = quoteBalanceRows[0]!;
+  const quoteAvailable = new Decimal(quoteBalance.available);
+  const quoteLocked = new Decimal(quoteBalance.locked);
+
+  // Lock base asset (SOL) balance
+  const baseBalanceRows: Array<{ id: number; available: string; locked: string }> = await tx.$queryRaw`
+    SELECT id, available::text, locked::text 
+    FROM balances 
+    WHERE "userId" = ${userId} AND asset = ${baseAsset}
+    FOR UPDATE
+  `;
+
+  let baseAvailable: Decimal;
+  let baseLocked: Decimal;
+
+  if (baseBalanceRows.length === 0) {
+    // Initialize base asset balance if not exists (needed for first buy)
+    await tx.balances.create({
+      data: {
+        userId,
+        asset: baseAsset,
+        available: "0",
+        locked: "0",
+      },
+    });
+    baseAvailable = new Decimal(0);
+    baseLocked = new Decimal(0);
+  } else {
+    baseAvailable = new Decimal(baseBalanceRows[0]?.available!);
+    baseLocked = new Decimal(baseBalanceRows[0]?.locked!);
+  }
+
+  let position = await tx.positions.findUnique({
+    where: {
+      userId_asset: { userId, asset: baseAsset },
+    },
+  });
+
+  if (!position) {
+    // Initialize position
+    position = await tx.positions.create({
+      data: {
+        userId,
+        asset: baseAsset,
+        size: "0",
+        avgEntryPrice: "0",
+      },
+    });
+  }
+
+  // Size-dependent price impact: the fill price the checks below run at
+  const execution = applyPriceImpact(side, size, price, capImpact);
+  const executedPrice = execution.executedPrice;
+
+  // Market executions take liquidity: the user's taker rate
+  const feeTier = await getUserFeeTier(tx, userId);
+  const feeRate = feeTier.takerRate;
+
+  // Validate balance (or margin, for margin accounts) BEFORE any updates
+  const accountMode = await getAccountMode(tx, userId);
+  const projection = projectMarketTrade(
+    side,
+    baseAsset,
+    quoteAsset,
+    size,
+    executedPrice,
+    {
+      quoteAvailable,
+      baseAvailable,
+      positionSize: new Decimal(position.size),
+      avgEntryPrice: new Decimal(position.avgEntryPrice),
+    },
+    accountMode === ACCOUNT_MODE.MARGIN
+      ? await getMarginParams(tx, userId, side, baseAsset, quoteAsset, size, {
+          quoteLocked,
+          baseAvailable,
+          baseLocked,
+        })
+      : undefined,
+    feeRate
+  );
+  const { fee } = projection;
+
+  // 1. Create order with FILLED status (market orders execute immediately),
+  //    or mark the triggered pending order as FILLED
+  const order = pendingOrderId
+    ? await tx.orders.update({
+        where: { id: pendingOrderId },
+        data: {
+          status: ORDER_STATUS.FILLED,
+          feesApplied: fee.toString(),
+        },
+      })
+    : await tx.orders.create({
+        data: {
+          userId,
+          side,
+          type: "market",
+          baseAsset,
+          quoteAsset,
+          requestedSize: size.toString(),
+          priceAtOrderTime: price.toString(),
+          status: ORDER_STATUS.FILLED,  // Market orders filled immediately
+          feesApplied: fee.toString(),
+          clientOrderId: clientOrderId ?? null,
+        },
+      });
+
+  // 2. Create trade record
+  const trade = await tx.trades.create({
+    data: {
+      orderId: order.id,
+      userId,
+      side,
+      executedPrice: executedPrice.toString(),
+      executedSize: size.toString(),
+      fee: fee.toString(),
+      referencePrice: execution.referencePrice.toString(),
+      slippage: execution.slippage.toString(),
+      feeTier: feeTier.appliedTier,
+      feeRate: feeRate.toString(),
+      liquidity: FEE_LIQUIDITY.TAKER,
+    },
+  });
+
+  // Open / consume tax lots (records realized P&L on the trade)
+  const realized = await recordTradeCostBasis(
+    tx,
+    userId,
+    baseAsset,
+    trade.id,
+    side,
+    executedPrice,
+    size,
+    fee,
+    new Decimal(position.size),
+    new Decimal(position.avgEntryPrice)
+  );
+
+  // 3. Journal the trade and its fee (Balances moves to the projection)
+  await postTrade(tx, {
+    userId,
+    orderId: order.id,
+    tradeId: trade.id,
+    side,
+    baseAsset,
+    quoteAsset,
+    price: executedPrice,
+    size,
+    fee,
+  });
+
+  // 4. Update position
+  await tx.positions.update({
+    where: {
+      userId_asset: { userId, asset: baseAsset },
+    },
+    data: {
+      size: projection.positionSize.toString(),
+      avgEntryPrice: projection.avgEntryPrice.toString(),
+      ...(realized && {
+        realizedPnl: new Decimal(position.realizedPnl)
+          .plus(realized.realizedPnl)
+          .toString(),
+      }),
+    },
+  });
+
+  return {
+    orderId: order.id,
+    executedSize: size.toString(),
+    executedPrice: executedPrice.toString(),
+    referencePrice: execution.referencePrice.toString(),
+    slippage: execution.slippage.toString(),
+    feesApplied: fee.toString(),
+    feeTier: feeTier.appliedTier,
+    feeRate: feeRate.toString(),
+    status: ORDER_STATUS.FILLED,
+  };
+}
@@ -0,0 +1,337 @@
+/**
+ * Fee Tiers
+ * Volume-tiered maker/taker fee schedule with per-user overrides
+ *
+ * A user's rates come from their traded volume over the trailing
+ * FEE_VOLUME_WINDOW_MS (30 days): spot trade value plus perp notional, in the
+ * quote asset. The highest tier whose minVolume is reached applies:
+ *   maker  limit orders filled by the matching worker (they rested)
+ *   taker  market, triggered and liquidation fills, and every perp trade
+ *
+ * An active FeeOverrides row (promo, zero-fee cohort) replaces the tier's
+ * rates until it expires. The tier applied (override label, else the tier
+ * name) and its rate are recorded on every trade.
+ *
+ * No rate may exceed FEE_RATE: a limit buy reserves its fee at FEE_RATE
+ * when placed, before the rate at fill time is known.
+ *
+ * The tier table comes from FEE_TIERS (tradingEnvSchema, JSON), default
+ * DEFAULT_FEE_TIERS.
+ */
+
+import { Decimal } from "decimal.js";
+import type { Decimal as DecimalInstance } from "decimal.js";
+import { getDb } from "@repo/db";
+import { parseEnv, tradingEnvSchema } from "@repo/env";
+import {
+  DEFAULT_FEE_TIERS,
+  FEE_LIQUIDITY,
+  FEE_RATE,
+  FEE_VOLUME_WINDOW_MS,
+} from "./constants.js";
+
+export type FeeLiquidity = (typeof FEE_LIQUIDITY)[keyof typeof FEE_LIQUIDITY];
+
+export interface FeeTierConfig {
+  name: string;
+  minVolume: Decimal.Value; // Trailing 30-day volume (quote asset) to reach the tier
+  makerRate: Decimal.Value;
+  takerRate: Decimal.Value;
+}
+
+export interface FeeTier {
+  name: string;
+  minVolume: DecimalInstance;
+  makerRate: DecimalInstance;
+  takerRate: DecimalInstance;
+}
+
+export interface FeeOverride {
+  label: string; // Recorded as the trade's fee tier
+  makerRate: DecimalInstance;
+  takerRate: DecimalInstance;
+  expiresAt: Date | null;
+}
+
+export interface UserFeeTier {
+  volume: DecimalInstance; // Trailing 30-day traded volume
+  tier: FeeTier; // Highest tier the volume reaches
+  nextTier: FeeTier | null;
+  override: FeeOverride | null; // Active override, if any
+  appliedTier: string; // override.label, else tier.name
+  makerRate: DecimalInstance;
+  takerRate: DecimalInstance;
+}
+
+export interface FeeTierStatus {
+  tier: string;
+  appliedTier: string;
+  makerRate: string;
+  takerRate: string;
+  volume30d: string;
+  override: { label: string; makerRate: string; takerRate: string; expiresAt: Date | null } | null;
+  nextTier: {
+    tier: string;
+    minVolume: string;
+    makerRate: string;
+    takerRate: string;
+    volumeRemaining: string;
+    progress: string; // Fraction of the way from the current tier's minVolume
+  } | null;
+}
+
+let configuredTiers: FeeTier[] | null = null;
+
+/**
+ * Validate a fee rate
+ * @throws Error if the rate is negative or above FEE_RATE
+ */
+export function validateFeeRate(rate: DecimalInstance, label: string): void {
+  if (!rate.isFinite() || rate.lt(0) || rate.gt(FEE_RATE)) {
+    throw new Error(
+      `Invalid ${label}: ${rate.toString()}. Must be >= 0 and <= ${FEE_RATE}`
+    );
+  }
+}
+
+/**
+ * Build and validate a fee schedule
+ * @throws Error unless tiers are named uniquely, start at volume 0, ascend
+ *         strictly by minVolume and every rate is within [0, FEE_RATE]
+ */
+export function createFeeTiers(configs: readonly FeeTierConfig[]): FeeTier[] {
+  if (configs.length === 0) {
+    throw new Error("Invalid fee tiers: at least one tier is required");
+  }
+
+  const tiers = configs.map((config) => ({
+    name: config.name,
+    minVolume: new Decimal(config.minVolume),
+    makerRate: new Decimal(config.makerRate),
+    takerRate: new Decimal(config.takerRate),
+  }));
+
+  if (!tiers[0]!.minVolume.isZero()) {
+    throw new Error("Invalid fee tiers: the first tier must start at volume 0");
+  }
+
+  const names = new Set<string>();
+  tiers.forEach((tier, i) => {
+    if (!tier.name || names.has(tier.name)) {
+      throw new Error(`Invalid fee tiers: tier names must be unique and non-empty (${tier.name})`);
+    }
+    names.add(tier.name);
+
+    if (i > 0 && !tier.minVolume.gt(tiers[i - 1]!.minVolume)) {
+      throw new Error(
+        `Invalid fee tiers: minVolume must ascend (${tier.name}: ${tier.minVolume.toString()})`
+      );
+    }
+
+    validateFeeRate(tier.makerRate, `${tier.name} maker rate`);
+    validateFeeRate(tier.takerRate, `${tier.name} taker rate`);
+  });
+
+  return tiers;
+}
+
+/**
+ * Get the fee schedule
+ * A schedule set with setFeeTiers() wins over FEE_TIERS.
+ * @throws Error if FEE_TIERS is not a valid JSON schedule
+ */
+export function getFeeTiers(): FeeTier[] {
+  if (!configuredTiers) {
+    const env = parseEnv(tradingEnvSchema);
+    let configs: FeeTierConfig[] = [...DEFAULT_FEE_TIERS];
+
+    if (env.FEE_TIERS) {
+      try {
+        configs = JSON.parse(env.FEE_TIERS);
+      } catch {
+        throw new Error("Invalid FEE_TIERS: must be a JSON array of tiers");
+      }
+    }
+
+    configuredTiers = createFeeTiers(configs);
+  }
+  return configuredTiers;
+}
+
+/**
+ * Replace the fee schedule; null goes back to FEE_TIERS
+ */
+export function setFeeTiers(configs: readonly FeeTierConfig[] | null): void {
+  configuredTiers = configs ? createFeeTiers(configs) : null;
+}
+
+/**
+ * Find the tier a trailing volume reaches, and the one after it
+ */
+export function getFeeTierForVolume(
+  volume: DecimalInstance,
+  tiers: FeeTier[] = getFeeTiers()
+): { tier: FeeTier; nextTier: FeeTier | null } {
+  let index = 0;
+  while (index + 1 < tiers.length && volume.gte(tiers[index + 1]!.minVolume)) {
+    index++;
+  }
+  return { tier: tiers[index]!, nextTier: tiers[index + 1] ?? null };
+}
+
+/**
+ * Trailing FEE_VOLUME_WINDOW_MS traded volume: spot trade value plus perp notional
+ * @param client Prisma client or transaction context
+ */
+export async function getTrailingVolume(
+  client: any,
+  userId: number,
+  now: Date = new Date()
+): Promise<DecimalInstance> {
+  const since = new Date(now.getTime() - FEE_VOLUME_WINDOW_MS);
+
+  const rows: Array<{ volume: string }> = await client.$queryRaw`
+    SELECT COALESCE(SUM(notional), 0)::text AS volume
+    FROM (
+      SELECT "executedPrice" * "executedSize" AS notional
+      FROM trades
+      WHERE "userId" = ${userId} AND "createdAt" >= ${since}
+      UNION ALL
+      SELECT price * size AS notional
+      FROM perp_trades
+      WHERE "userId" = ${userId} AND "createdAt" >= ${since}
+    ) AS volume
+  `;
+
+  return new Decimal(rows[0]?.volume ?? 0);
+}
+
+/**
+ * Get the user's fee override, if one is active at `now`
+ * @param client Prisma client or transaction context
+ */
+export async function getActiveFeeOverride(
+  client: any,
+  userId: number,
+  now: Date = new Date()
+): Promise<FeeOverride | null> {
+  const row = await client.feeOverrides.findUnique({ where: { userId } });
+
+  if (!row || (row.expiresAt && row.expiresAt <= now)) {
+    return null;
+  }
+
+  return {
+    label: row.label,
+    makerRate: new Decimal(row.makerRate),
+    takerRate: new Decimal(row.takerRate),
+    expiresAt: row.expiresAt,
+  };
+}
+
+/**
+ * Resolve the user's fee tier and the maker/taker rates that apply now
+ * @param client Prisma client or transaction context
+ */
+export async function getUserFeeTier(
+  client: any,
+  userId: number,
+  now: Date = new Date()
+): Promise<UserFeeTier> {
+  const [volume, override] = await Promise.all([
+    getTrailingVolume(client, userId, now),
+    getActiveFeeOverride(client, userId, now),
+  ]);
+  const { tier, nextTier } = getFeeTierForVolume(volume);
+
+  return {
+    volume,
+    tier,
+    nextTier,
+    override,
+    appliedTier: override?.label ?? tier.name,
+    makerRate: override?.makerRate ?? tier.makerRate,
+    takerRate: override?.takerRate ?? tier.takerRate,
+  };
+}
+
+/**
+ * Get the user's fee tier with progress toward the next one (GET /portfolio)
+ */
+export async function getFeeTierStatus(userId: number): Promise<FeeTierStatus> {
+  const feeTier = await getUserFeeTier(getDb(), userId);
+  const { volume, tier, nextTier, override } = feeTier;
+
+  return {
+    tier: tier.name,
+    appliedTier: feeTier.appliedTier,
+    makerRate: feeTier.makerRate.toString(),
+    takerRate: feeTier.takerRate.toString(),
+    volume30d: volume.toString(),
+    override: override && {
+      label: override.label,
+      makerRate: override.makerRate.toString(),
+      takerRate: override.takerRate.toString(),
+      expiresAt: override.expiresAt,
+    },
+    nextTier: nextTier && {
+      tier: nextTier.name,
+      minVolume: nextTier.minVolume.toString(),
+      makerRate: nextTier.makerRate.toString(),
+      takerRate: nextTier.takerRate.toString(),
+      volumeRemaining: nextTier.minVolume.minus(volume).toString(),
+      progress: volume
+        .minus(tier.minVolume)
+        .dividedBy(nextTier.minVolume.minus(tier.minVolume))
+        .toDecimalPlaces(4, Decimal.ROUND_DOWN)
+        .toString(),
+    },
+  };
+}
+
+/**
+ * Give a user fixed maker/taker rates (replaces any previous override)
+ * @throws Error if a rate is out of range or the label is empty
+ */
+export async function setFeeOverride(
+  userId: number,
+  override: {
+    label: string;
+    makerRate: Decimal.Value;
+    takerRate: Decimal.Value;
+    expiresAt?: Date | null;
+  }
+): Promise<FeeOverride> {
+  const makerRate = new Decimal(override.makerRate);
+  const takerRate = new Decimal(override.takerRate);
+
+  if (!override.label) {
+    throw new Error("Invalid fee override: a label is required");
+  }
+  validateFeeRate(makerRate, "override maker rate");
+  validateFeeRate(takerRate, "override taker rate");
+
+  const data = {
+    label: override.label,
+    makerRate: makerRate.toString(),
+    takerRate: takerRate.toString(),
+    expiresAt: override.expiresAt ?? null,
+  };
+
+  const db = getDb();
+  await db.feeOverrides.upsert({
+    where: { userId },
+    create: { userId, ...data },
+    update: data,
+  });
+
+  return { ...data, makerRate, takerRate };
+}
+
+/**
+ * Remove a user's fee override (back to their volume tier)
+ */
+export async function removeFeeOverride(userId: number): Promise<void> {
+  const db = getDb();
+  await db.feeOverrides.deleteMany({ where: { userId } });
+}
@@ -1,23 +1,27 @@
 /**
  * Fee Calculation
- * Handles fee computation and validation (0.1% per trade)
+ * Handles fee computation and validation (the user's tier rate, 0.1% by default;
+ * see feeTiers.ts)
  */
+import { Decimal } from "decimal.js";
 import type { Decimal as DecimalInstance } from "decimal.js";
-import { FEE_RATE } from './constants.js';
+import { FEE_RATE, ORDER_SIDE, SIZE_DECIMALS } from './constants.js';
 
 /**
- * Calculate trading fee: 0.1% of trade value
- * fee = executedPrice * executedSize * 0.001
+ * Calculate trading fee: rate of trade value
+ * fee = executedPrice * executedSize * rate
+ * @param rate The user's maker / taker rate (default FEE_RATE, 0.1%)
  * @returns Fee amount as Decimal
  */
 
 
 export function calculateFee(
     executedPrice: DecimalInstance,
-    executedSize: DecimalInstance
+    executedSize: DecimalInstance,
+    rate: Decimal.Value = FEE_RATE
 ): DecimalInstance {
-    // Fee invariant: fee == 0.1% * executedPrice * executedSize (exactly)
-    return executedPrice.mul(executedSize).mul(FEE_RATE) as DecimalInstance;
+    // Fee invariant: fee == rate * executedPrice * executedSize (exactly)
+    return executedPrice.mul(executedSize).mul(rate) as DecimalInstance;
 }
 
 /**
@@ -36,4 +40,32 @@ export function validateFee(
             `provided ${providedFee.toString()}`
         );
     }
-}
\ No newline at end of file
+}
+
+/**
+ * Calculate the base size for a quote-denominated order, fee included
+ * BUY:  size * price * (1 + rate) = quoteAmount (total spent)
+ * SELL: size * price * (1 - rate) = quoteAmount (net proceeds)
+ *
+ * Rounded to SIZE_DECIMALS: down for buys (never spend more than
+ * quoteAmount), up for sells (never receive less than quoteAmount).
+ * @param feeRate The user's taker rate (default FEE_RATE)
+ */
+export function calculateSizeForQuote(
+    side: string,
+    quoteAmount: DecimalInstance,
+    price: DecimalInstance,
+    feeRate: Decimal.Value = FEE_RATE
+): DecimalInstance {
+    const rate = new Decimal(feeRate);
+    const perUnit = side === ORDER_SIDE.BUY
+        ? new Decimal(price).times(rate.plus(1))
+        : new Decimal(price).times(new Decimal(1).minus(rate));
+
+    return new Decimal(quoteAmount)
+        .dividedBy(perUnit)
+        .toDecimalPlaces(
+            SIZE_DECIMALS,
+            side === ORDER_SIDE.BUY ? Decimal.ROUND_DOWN : Decimal.ROUND_UP
+        );
+}
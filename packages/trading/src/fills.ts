@@ -1,11 +1,10 @@
 /**
  * Trade Execution
- * Filling orders, executing trades, updating balances and positions
- * 
- * @deprecated This module is deprecated. Market orders now execute directly
- *             in placeOrder() with no pending state (orders go straight to FILLED).
- *             Kept for potential future limit order support where orders may
- *             need a pending → filled workflow.
+ * Filling pending orders, executing trades, updating balances and positions
+ *
+ * Market orders execute directly in placeOrder() with no pending state.
+ * Limit orders rest as pending (funds reserved in Balances.locked) and are
+ * settled here by the order-matching worker once the price crosses.
  */
 
 import { Decimal}  from "decimal.js";
@@ -14,68 +13,97 @@ import { getDb } from "@repo/db";
 import {
   validateTradeExecution,
   validateStatusTransition,
+  validateBalance,
 } from "./validation.js";
-import { calculateFee, validateFee } from "./fees.js";
-import { ORDER_STATUS } from "./constants.js";
+import { calculateFee } from "./fees.js";
+import { getOrderReservation, releaseReservation } from "./reservations.js";
+import { updatePosition } from "./positions.js";
+import { recordTradeCostBasis } from "./lots.js";
+import { getAccountMode } from "./margin.js";
+import { activateBracketLegs } from "./brackets.js";
+import { getUserFeeTier } from "./feeTiers.js";
+import { postTrade } from "./journal.js";
+import { ACCOUNT_MODE, FEE_LIQUIDITY, ORDER_STATUS } from "./constants.js";
+
+export interface FillOrderResult {
+  orderId: number;
+  userId: number;
+  side: string;
+  baseAsset: string;
+  quoteAsset: string;
+  executedPrice: string;
+  executedSize: string;
+  feesApplied: string;
+  feeTier: string; // Tier applied (volume tier, or the user's override label)
+  feeRate: string; // Maker rate (resting limit fills) or taker rate (triggered fills)
+  status: string;
+  parentOrderId: number | null; // Set when a bracket leg filled
+  childOrderIds: number[]; // Bracket legs activated by this fill
+  cancelledOrderIds: number[]; // Bracket legs cancelled by this fill (OCO)
+}
 
 /**
- * Fill an order: create trade, update balances and positions
- * 
+ * Fill a pending order: create trade, settle reservation, update position
+ *
  * CRITICAL: All changes (trade, balance, position) in ONE transaction
  * This ensures ledger consistency and prevents double-spending.
  *
  * Flow:
  * 1. Validate execution parameters
- * 2. Validate status transition (pending → filled)
- * 3. Calculate fee (0.1% of trade value)
+ * 2. Lock order row, validate status transition (pending → filled)
+ * 3. Calculate fee (the user's maker rate: the order rested on the book)
  * 4. Atomic transaction:
  *    - Update order status + record applied fee
- *    - Create trade record
- *    - Update balance (move from locked, deduct fee)
- *    - Update position (size, avg entry price)
- * 5. Publish to Redis for WebSocket broadcast
+ *    - Release the reservation, check the balances the fill leaves
+ *    - Create trade record, journal the fill and fee (Balances follows)
+ *    - Record cost basis (tax lots / short covers)
+ *    - Update position (size, avg entry price, realized P&L)
+ *    - Activate bracket legs (bracket entries only)
  *
  * Invariants enforced:
  * - executedSize <= requestedSize
- * - fee = 0.1% * price * size (exactly)
- * - available + locked = total (unchanged)
- * - position size >= 0 (no short selling)
- *
- * This ensures ledger consistency and prevents fraud or errors.
+ * - fee = makerRate * price * size (exactly), makerRate <= FEE_RATE (the reserved rate)
+ * - available >= 0, locked >= 0 after settlement (cash accounts)
+ * - position size >= 0 for cash accounts (shorts need a margin account)
  */
 
 export async function fillOrder(
   orderId: number,
   executedPrice: DecimalInstance,
   executedSize: DecimalInstance
-): Promise<void> {
+): Promise<FillOrderResult> {
   validateTradeExecution(executedPrice, executedSize);
   const price = new Decimal(executedPrice);
   const size = new Decimal(executedSize);
 
   const db = getDb();
 
-  // Get order first (outside transaction)
-  const order = await db.orders.findUniqueOrThrow({
-    where: { id: orderId },
-  });
+  // ATOMIC TRANSACTION: Trade + Balance + Position all at once
+  return await db.$transaction(async (tx) => {
+    // Lock the order row so a concurrent fill or reject sees the final status
+    await tx.$queryRaw`SELECT id FROM orders WHERE id = ${orderId} FOR UPDATE`;
+
+    const order = await tx.orders.findUniqueOrThrow({
+      where: { id: orderId },
+    });
 
-  // Check status transition is valid
-  validateStatusTransition(order.status, ORDER_STATUS.FILLED);
+    // Check status transition is valid
+    validateStatusTransition(order.status, ORDER_STATUS.FILLED);
 
-  // Validate execution size <= requested size (prevents overspend)
-  const requestedSize = new Decimal(order.requestedSize);
-  if (size.gt(requestedSize)) {
-    throw new Error(
-      `Execution size ${size} cannot exceed requested size ${requestedSize}`
-    );
-  }
+    // Validate execution size <= requested size (prevents overspend)
+    const requestedSize = new Decimal(order.requestedSize);
+    if (size.gt(requestedSize)) {
+      throw new Error(
+        `Execution size ${size} cannot exceed requested size ${requestedSize}`
+      );
+    }
 
-  // ATOMIC TRANSACTION: Trade + Balance + Position all at once
-  await db.$transaction(async (tx) => {
-    // CRITICAL: Calculate and validate fee INSIDE transaction for read consistency
-    const fee = calculateFee(price, size);
-    validateFee(fee, fee);  // Sanity check: fee must be valid Decimal
+    const { userId, side, baseAsset, quoteAsset } = order;
+    const reservation = getOrderReservation(order);
+
+    const cost = price.times(size);
+    const feeTier = await getUserFeeTier(tx, userId);
+    const fee = calculateFee(price, size, feeTier.makerRate);
 
     // 1. Update order status and record applied fee
     await tx.orders.update({
@@ -86,240 +114,175 @@ export async function fillOrder(
       },
     });
 
-    // 2. Create trade record
+    // 2. Settle balances: release the whole reservation, then apply the trade
+    if (reservation) {
+      await releaseReservation(tx, userId, reservation, orderId);
+    }
+
+    // Lock quote then base (same ordering as placeOrder to avoid deadlocks)
+    const quoteRows = await tx.$queryRaw<Array<{ available: string; locked: string }>>`
+      SELECT available::text, locked::text
+      FROM balances
+      WHERE "userId" = ${userId} AND asset = ${quoteAsset}
+      FOR UPDATE
+    `;
+    const baseRows = await tx.$queryRaw<Array<{ available: string; locked: string }>>`
+      SELECT available::text, locked::text
+      FROM balances
+      WHERE "userId" = ${userId} AND asset = ${baseAsset}
+      FOR UPDATE
+    `;
+
+    if (quoteRows.length === 0) {
+      throw new Error(`No ${quoteAsset} balance found for user ${userId}`);
+    }
+
+    const quoteAvailable = new Decimal(quoteRows[0]!.available);
+    const quoteLocked = new Decimal(quoteRows[0]!.locked);
+    const baseAvailable = new Decimal(baseRows[0]?.available ?? 0);
+    const baseLocked = new Decimal(baseRows[0]?.locked ?? 0);
+
+    let newQuoteAvailable: Decimal;
+    let newBaseAvailable: Decimal;
+
+    if (side === "buy") {
+      // BUY: Pay cost + fee in quote, receive base
+      newQuoteAvailable = quoteAvailable.minus(cost).minus(fee);
+      newBaseAvailable = baseAvailable.plus(size);
+    } else {
+      // SELL: Give up base, receive proceeds (cost - fee) in quote
+      newQuoteAvailable = quoteAvailable.plus(cost).minus(fee);
+      newBaseAvailable = baseAvailable.minus(size);
+    }
+
+    // CRITICAL: The reservation must always cover the execution.
+    // Margin accounts may already carry negative available balances
+    // (borrowed / short); the reservation still pays for this fill.
+    if ((await getAccountMode(tx, userId)) === ACCOUNT_MODE.CASH) {
+      validateBalance(newQuoteAvailable, quoteLocked);
+      validateBalance(newBaseAvailable, baseLocked);
+    }
+
+    // 3. Create trade record
     const trade = await tx.trades.create({
       data: {
         orderId,
-        userId: order.userId,
-        side: order.side,
+        userId,
+        side,
         executedPrice: price.toString(),
         executedSize: size.toString(),
         fee: fee.toString(),
+        feeTier: feeTier.appliedTier,
+        feeRate: feeTier.makerRate.toString(),
+        liquidity: FEE_LIQUIDITY.MAKER,
       },
     });
 
-    // 3. Update balance
-    const quoteAsset = order.quoteAsset;
-    const baseAsset = order.baseAsset;
-
-    const balance = await tx.balances.findUniqueOrThrow({
-      where: {
-        userId_asset: { userId: order.userId, asset: quoteAsset },
-      },
+    // Journal the fill and its fee (updates the balances checked above)
+    await postTrade(tx, {
+      userId,
+      orderId,
+      tradeId: trade.id,
+      side,
+      baseAsset,
+      quoteAsset,
+      price,
+      size,
+      fee,
     });
 
-    const currentAvailable = new Decimal(balance.available);
-    const currentLocked = new Decimal(balance.locked);
-
-    if (order.side === "buy") {
-      // BUY: Refund unexecuted portion, deduct executed fee
-      const priceAtOrder = new Decimal(order.priceAtOrderTime);
-
-      // Cost locked at order time
-      const totalLocked = priceAtOrder.times(requestedSize);
-      
-      // Unexecuted portion refund
-      const unexecutedSize = requestedSize.minus(size);
-      const costForUnexecuted = priceAtOrder.times(unexecutedSize);
-      
-      // Simple: unlock everything, deduct only the executed fee
-      const newLocked = currentLocked.minus(totalLocked);  // All unlocked
-      const newAvailable = currentAvailable
-        .plus(costForUnexecuted)
-        .minus(fee);  // ← Only deduct executed fee
-
-      await tx.balances.update({
-        where: {
-          userId_asset: { userId: order.userId, asset: quoteAsset },
-        },
-        data: {
-          available: newAvailable.toString(),
-          locked: newLocked.toString(),
-        },
-      });
-    } else {
-      // SELL: User receives proceeds (cost × size - fee)
-      const proceeds = price.times(size).minus(fee);
-      
-      // Unlock the sold amount
-      const costForExecuted = price.times(size);
-      const newLocked = currentLocked.minus(costForExecuted);
-      const newAvailable = currentAvailable.plus(proceeds);
-
-      await tx.balances.update({
-        where: {
-          userId_asset: { userId: order.userId, asset: quoteAsset },
-        },
-        data: {
-          available: newAvailable.toString(),
-          locked: newLocked.toString(),
-        },
-      });
-    }
-
-    // Update base asset balance (for sell side only)
-    if (order.side === "sell") {
-      const baseBalance = await tx.balances.findUniqueOrThrow({
-        where: {
-          userId_asset: { userId: order.userId, asset: baseAsset },
-        },
-      });
-      
-      const baseAvailable = new Decimal(baseBalance.available);
-      
-      // CRITICAL: Invariant - must have the base asset to sell
-      if (baseAvailable.lt(size)) {
-        throw new Error(
-          `Base asset mismatch: trying to sell ${size} ${baseAsset} ` +
-          `but balance shows only ${baseAvailable}. ` +
-          `This indicates position and balance are out of sync`
-        );
-      }
-      
-      await tx.balances.update({
-        where: {
-          userId_asset: { userId: order.userId, asset: baseAsset },
-        },
-        data: {
-          available: baseAvailable.minus(size).toString(),
-        },
-      });
-    }
-    // 4. Update position (size and average entry price)
-    const position = await tx.positions.findUniqueOrThrow({
-      where: { userId_asset: { userId: order.userId, asset: baseAsset } },
+    // Open / consume tax lots (records realized P&L on the trade)
+    const position = await tx.positions.upsert({
+      where: { userId_asset: { userId, asset: baseAsset } },
+      create: { userId, asset: baseAsset, size: "0", avgEntryPrice: "0" },
+      update: {},
     });
+    const realized = await recordTradeCostBasis(
+      tx,
+      userId,
+      baseAsset,
+      trade.id,
+      side,
+      price,
+      size,
+      fee,
+      new Decimal(position.size),
+      new Decimal(position.avgEntryPrice)
+    );
 
-    const currentSize = new Decimal(position.size);
-    const currentAvg = new Decimal(position.avgEntryPrice);
-
-    let newSize: Decimal;
-    let newAvg: Decimal;
-
-    if (order.side === "buy") {
-      // BUY: Increase position, recalculate weighted average entry price
-      newSize = currentSize.plus(size);
-      
-      // Sanity check: size must be positive after buy
-      if (newSize.lte(0)) {
-        throw new Error(
-          `Invalid position size after buy fill: ${newSize}. ` +
-          `This indicates a bug in the trading engine`
-        );
-      }
-      
-      if (currentSize.isZero()) {
-        // First buy: cost basis = execution price
-        newAvg = price;
-      } else {
-        // Pyramid: newAvg = (oldAvg × oldSize + price × newSize) / (oldSize + newSize)
-        newAvg = currentAvg
-          .times(currentSize)
-          .plus(price.times(size))
-          .dividedBy(newSize);
-      }
-    } else {
-      // SELL: Decrease position, keep average (for P&L tracking on future buys)
-      newSize = currentSize.minus(size);
-      
-      // Enforce invariant: cannot sell more than owned
-      if (newSize.isNegative()) {
-        throw new Error(
-          `Position update error: selling ${size} but only own ${currentSize} ` +
-          `for user ${order.userId} asset ${baseAsset}`
-        );
-      }
-      
-      // FIX: Reset avgEntryPrice to 0 if position fully closed
-      if (newSize.isZero()) {
-        newAvg = new Decimal('0');  // Clear cost basis on full close
-      } else {
-        newAvg = currentAvg;  // Keep avg for partial close (P&L tracking)
-      }
-    }
+    // 4. Update position (size, average entry price, realized P&L)
+    await updatePosition(
+      tx,
+      userId,
+      baseAsset,
+      side as "buy" | "sell",
+      price,
+      size,
+      realized?.realizedPnl
+    );
 
-    // Update position in database
-    await tx.positions.update({
-      where: { userId_asset: { userId: order.userId, asset: baseAsset } },
-      data: {
-        size: newSize.toString(),
-        avgEntryPrice: newAvg.toString(),
-      },
-    });
+    // 5. Activate bracket legs (if the order is a bracket entry)
+    const childOrderIds = await activateBracketLegs(tx, order, size, price);
+
+    return {
+      orderId,
+      userId,
+      side,
+      baseAsset,
+      quoteAsset,
+      executedPrice: price.toString(),
+      executedSize: size.toString(),
+      feesApplied: fee.toString(),
+      feeTier: feeTier.appliedTier,
+      feeRate: feeTier.makerRate.toString(),
+      status: ORDER_STATUS.FILLED,
+      parentOrderId: order.parentOrderId,
+      childOrderIds,
+      cancelledOrderIds: [],
+    };
   });
-
-
 }
 
 /**
- * Reject an order and refund reserved balance
- * 
+ * Reject a pending order and release its reservation
+ *
  * Flow:
- * 1. Validate status transition (pending → rejected)
- * 2. Update order status
- * 3. Refund reserved balance from locked → available
- *    For buy orders: refund locked amount back to available
- * 4. Publish to Redis for WebSocket broadcast
- * 
+ * 1. Lock order row, validate status transition (pending → rejected)
+ * 2. Update order status + reason
+ * 3. Release reserved balance from locked → available (limit orders only)
+ *
  * Fee policy: Fees are only deducted on FILL, not on placement.
  * Therefore, reject does NOT refund fees.
  */
 export async function rejectOrder(
   orderId: number,
+  reason?: string
 ): Promise<void> {
   const db = getDb();
 
-  const order = await db.orders.findUniqueOrThrow({
-    where: { id: orderId },
-  });
+  await db.$transaction(async (tx) => {
+    await tx.$queryRaw`SELECT id FROM orders WHERE id = ${orderId} FOR UPDATE`;
 
-  // Validate status transition: pending → rejected
-  validateStatusTransition(order.status, ORDER_STATUS.REJECTED);
+    const order = await tx.orders.findUniqueOrThrow({
+      where: { id: orderId },
+    });
+
+    // Validate status transition: pending → rejected
+    validateStatusTransition(order.status, ORDER_STATUS.REJECTED);
 
-  await db.$transaction(async (tx) => {
     // 1. Update order status
     await tx.orders.update({
       where: { id: orderId },
       data: {
         status: ORDER_STATUS.REJECTED,
+        rejectionReason: reason ?? null,
       },
     });
 
-    // 2. Refund locked balance
-    if (order.side === "buy") {
-      // BUY orders lock quote asset (USD) at placement
-      const balance = await tx.balances.findUniqueOrThrow({
-        where: {
-          userId_asset: { userId: order.userId, asset: order.quoteAsset },
-        },
-      });
-
-      const requestedSize = new Decimal(order.requestedSize);
-      const priceAtOrder = new Decimal(order.priceAtOrderTime);
-
-      // Amount that was locked at placement
-      const lockedAmount = priceAtOrder.times(requestedSize);
-
-      // Refund locked back to available (no fee refund—fees deducted on fill)
-      const newAvailable = new Decimal(balance.available).plus(lockedAmount);
-      const newLocked = new Decimal(balance.locked).minus(lockedAmount);
-
-      await tx.balances.update({
-        where: {
-          userId_asset: { userId: order.userId, asset: order.quoteAsset },
-        },
-        data: {
-          available: newAvailable.toString(),
-          locked: newLocked.toString(),
-        },
-      });
-    } else if (order.side === "sell") {
-      // SELL orders: Currently no locking at placement
-      // (position is already held in Positions table)
-      // Nothing to refund—seller keeps their SOL
-      // This is a no-op, but explicit for clarity
+    // 2. Release reservation (if any) back to available
+    const reservation = getOrderReservation(order);
+    if (reservation) {
+      await releaseReservation(tx, order.userId, reservation, orderId);
     }
-});
-
+  });
 }
-
@@ -0,0 +1,309 @@
+/**
+ * Perp Mark Price and Funding
+ * Keeps perpetual futures anchored to the spot index price
+ *
+ * There is no perp order book: the mark price is the index (Redis price)
+ * plus a premium that grows with the open-interest skew, so a crowded side
+ * trades at a worse price and pays funding to the other one:
+ *   premium = PERP_PREMIUM_FACTOR * (longOI - shortOI) / (longOI + shortOI)
+ *   mark    = index * (1 + premium)
+ *   rate    = clamp(premium + FUNDING_INTEREST_RATE, ±MAX_FUNDING_RATE)
+ *
+ * The funding worker settles every open position once per
+ * FUNDING_INTERVAL_MS: payment = -size * mark * rate (rate > 0: longs pay
+ * shorts), credited to or taken from the position's margin and journaled
+ * against the system funding account.
+ */
+
+import { Decimal } from "decimal.js";
+import type { Decimal as DecimalInstance } from "decimal.js";
+import { getDb } from "@repo/db";
+import { postJournal, systemAccount, transfer, userAccount } from "./journal.js";
+import type { PerpMarket } from "./perps.js";
+import {
+  FUNDING_INTEREST_RATE,
+  FUNDING_INTERVAL_MS,
+  JOURNAL_ACCOUNT,
+  JOURNAL_TYPE,
+  MAX_FUNDING_RATE,
+  PERP_MARKETS,
+  PERP_PREMIUM_FACTOR,
+  SIZE_DECIMALS,
+} from "./constants.js";
+
+export interface OpenInterest {
+  long: DecimalInstance; // Sum of long sizes
+  short: DecimalInstance; // Sum of short sizes (positive)
+}
+
+export interface FundingSettlement {
+  fundingRateId: number;
+  market: string;
+  fundingTime: Date;
+  indexPrice: string;
+  markPrice: string;
+  rate: string;
+  payments: Array<{
+    userId: number;
+    positionId: number;
+    positionSize: string;
+    amount: string; // Negative = paid
+    margin: string; // Position margin after the payment
+  }>;
+}
+
+/**
+ * Calculate the mark price from the index price and open interest
+ * Rounded to SIZE_DECIMALS (the precision prices are stored at)
+ */
+export function calculateMarkPrice(
+  indexPrice: DecimalInstance,
+  openInterest: OpenInterest
+): DecimalInstance {
+  const total = openInterest.long.plus(openInterest.short);
+  const skew = total.isZero()
+    ? new Decimal(0)
+    : openInterest.long.minus(openInterest.short).dividedBy(total);
+
+  return new Decimal(indexPrice)
+    .times(skew.times(PERP_PREMIUM_FACTOR).plus(1))
+    .toDecimalPlaces(SIZE_DECIMALS);
+}
+
+/**
+ * Calculate the funding rate for one interval
+ * rate > 0: longs pay shorts; rate < 0: shorts pay longs
+ */
+export function calculateFundingRate(
+  indexPrice: DecimalInstance,
+  markPrice: DecimalInstance
+): DecimalInstance {
+  const premium = new Decimal(markPrice).minus(indexPrice).dividedBy(indexPrice);
+  const rate = premium.plus(FUNDING_INTEREST_RATE);
+
+  return Decimal.min(
+    Decimal.max(rate, new Decimal(MAX_FUNDING_RATE).negated()),
+    MAX_FUNDING_RATE
+  ).toDecimalPlaces(10);
+}
+
+/**
+ * Calculate what a position receives at a funding settlement (negative = pays)
+ */
+export function calculateFundingPayment(
+  positionSize: DecimalInstance,
+  markPrice: DecimalInstance,
+  rate: DecimalInstance
+): DecimalInstance {
+  return new Decimal(positionSize)
+    .times(markPrice)
+    .times(rate)
+    .negated()
+    .toDecimalPlaces(SIZE_DECIMALS);
+}
+
+/**
+ * Get the next funding settlement time (the next interval boundary)
+ */
+export function getNextFundingTime(now: Date = new Date()): Date {
+  return new Date(
+    Math.floor(now.getTime() / FUNDING_INTERVAL_MS) * FUNDING_INTERVAL_MS +
+      FUNDING_INTERVAL_MS
+  );
+}
+
+/**
+ * Get the open interest of a perp market
+ * @param client Prisma client or transaction context
+ */
+export async function getPerpOpenInterest(
+  client: any,
+  market: string
+): Promise<OpenInterest> {
+  const rows: Array<{ long: string; short: string }> = await client.$queryRaw`
+    SELECT
+      COALESCE(SUM(size) FILTER (WHERE size > 0), 0)::text AS long,
+      COALESCE(-SUM(size) FILTER (WHERE size < 0), 0)::text AS short
+    FROM perp_positions
+    WHERE market = ${market}
+  `;
+
+  return {
+    long: new Decimal(rows[0]?.long ?? 0),
+    short: new Decimal(rows[0]?.short ?? 0),
+  };
+}
+
+/**
+ * Get the mark price of a perp market at an index price
+ * @param client Prisma client or transaction context
+ */
+export async function getMarkPrice(
+  client: any,
+  market: string,
+  indexPrice: DecimalInstance
+): Promise<DecimalInstance> {
+  const openInterest = await getPerpOpenInterest(client, market);
+  return calculateMarkPrice(indexPrice, openInterest);
+}
+
+/**
+ * Settle funding for every open position of a market
+ *
+ * Flow (one transaction):
+ * 1. Lock the market's open positions
+ * 2. Skip if this fundingTime was already settled (worker restart / retry)
+ * 3. Record the rate, then one payment per position against its margin
+ *
+ * A payment can leave a position below maintenance margin; the liquidation
+ * worker closes it on the next price update.
+ * @returns null if the interval was already settled
+ */
+export async function settleFunding(
+  market: string,
+  indexPrice: DecimalInstance,
+  fundingTime: Date
+): Promise<FundingSettlement | null> {
+  const db = getDb();
+
+  return await db.$transaction(async (tx) => {
+    // 1. Lock open positions (ordered, so concurrent settlements cannot deadlock)
+    const positions: Array<{
+      id: number;
+      userId: number;
+      size: string;
+      margin: string;
+      fundingPnl: string;
+    }> = await tx.$queryRaw`
+      SELECT id, "userId", size::text, margin::text, "fundingPnl"::text
+      FROM perp_positions
+      WHERE market = ${market} AND size <> 0
+      ORDER BY id
+      FOR UPDATE
+    `;
+
+    // 2. Idempotency: one settlement per market per interval
+    const existing = await tx.fundingRates.findUnique({
+      where: { market_fundingTime: { market, fundingTime } },
+    });
+    if (existing) {
+      return null;
+    }
+
+    // 3. Rate from the locked positions' open interest
+    const openInterest: OpenInterest = {
+      long: new Decimal(0),
+      short: new Decimal(0),
+    };
+    for (const position of positions) {
+      const size = new Decimal(position.size);
+      if (size.isNegative()) {
+        openInterest.short = openInterest.short.plus(size.abs());
+      } else {
+        openInterest.long = openInterest.long.plus(size);
+      }
+    }
+
+    const markPrice = calculateMarkPrice(indexPrice, openInterest);
+    const rate = calculateFundingRate(indexPrice, markPrice);
+
+    const fundingRate = await tx.fundingRates.create({
+      data: {
+        market,
+        fundingTime,
+        indexPrice: new Decimal(indexPrice).toString(),
+        markPrice: markPrice.toString(),
+        rate: rate.toString(),
+        longOpenInterest: openInterest.long.toString(),
+        shortOpenInterest: openInterest.short.toString(),
+      },
+    });
+
+    const payments: FundingSettlement["payments"] = [];
+    for (const position of positions) {
+      const amount = calculateFundingPayment(new Decimal(position.size), markPrice, rate);
+      const margin = new Decimal(position.margin).plus(amount);
+
+      await tx.fundingPayments.create({
+        data: {
+          fundingRateId: fundingRate.id,
+          positionId: position.id,
+          userId: position.userId,
+          positionSize: position.size,
+          amount: amount.toString(),
+        },
+      });
+
+      await tx.perpPositions.update({
+        where: { id: position.id },
+        data: {
+          margin: margin.toString(),
+          fundingPnl: new Decimal(position.fundingPnl).plus(amount).toString(),
+        },
+      });
+
+      await postJournal(tx, {
+        type: JOURNAL_TYPE.FUNDING,
+        userId: position.userId,
+        description: `${market} funding ${fundingTime.toISOString()}`,
+        entries: transfer(
+          systemAccount(JOURNAL_ACCOUNT.FUNDING),
+          userAccount(position.userId, JOURNAL_ACCOUNT.PERP_MARGIN),
+          PERP_MARKETS[market as PerpMarket].quoteAsset,
+          amount
+        ),
+      });
+
+      payments.push({
+        userId: position.userId,
+        positionId: position.id,
+        positionSize: position.size,
+        amount: amount.toString(),
+        margin: margin.toString(),
+      });
+    }
+
+    return {
+      fundingRateId: fundingRate.id,
+      market,
+      fundingTime,
+      indexPrice: new Decimal(indexPrice).toString(),
+      markPrice: markPrice.toString(),
+      rate: rate.toString(),
+      payments,
+    };
+  });
+}
+
+/**
+ * Get a user's funding payments, newest first
+ */
+export async function getFundingHistory(
+  userId: number,
+  market?: string,
+  limit: number = 50
+) {
+  const db = getDb();
+
+  const payments = await db.fundingPayments.findMany({
+    where: {
+      userId,
+      ...(market && { fundingRate: { market } }),
+    },
+    include: { fundingRate: true },
+    orderBy: { id: "desc" },
+    take: limit,
+  });
+
+  return payments.map((payment) => ({
+    id: payment.id,
+    positionId: payment.positionId,
+    market: payment.fundingRate.market,
+    fundingTime: payment.fundingRate.fundingTime,
+    rate: payment.fundingRate.rate.toString(),
+    markPrice: payment.fundingRate.markPrice.toString(),
+    positionSize: payment.positionSize.toString(),
+    amount: payment.amount.toString(),
+  }));
+}
+
@@ -0,0 +1,45 @@
+/**
+ * Idempotent Order Placement
+ * Client-supplied order ids (Idempotency-Key header / clientOrderId),
+ * stored on the order and unique per user
+ *
+ * The unique index on (userId, clientOrderId) is the guard: a retry that
+ * arrives while the first request is still in flight cannot create a second
+ * order. It blocks until that transaction commits, on the index or earlier
+ * on the balance or risk limit row locks, then fails: with a duplicate key,
+ * or with the funds or limit the first order used up. Whatever the error,
+ * the caller then looks the key up and replays the original order if there
+ * is one instead of executing again.
+ */
+
+import { getDb } from "@repo/db";
+
+/**
+ * Find the order a user previously placed with this clientOrderId
+ */
+export async function getOrderByClientOrderId(
+  userId: number,
+  clientOrderId: string
+) {
+  const db = getDb();
+  return await db.orders.findUnique({
+    where: {
+      userId_clientOrderId: { userId, clientOrderId },
+    },
+    include: {
+      trades: true,
+      children: true, // Bracket legs
+    },
+  });
+}
+
+/**
+ * Check if an error is the (userId, clientOrderId) unique violation
+ */
+export function isDuplicateClientOrderId(error: unknown): boolean {
+  const { code, meta } = (error ?? {}) as {
+    code?: string;
+    meta?: { target?: unknown };
+  };
+  return code === "P2002" && String(meta?.target ?? "").includes("clientOrderId");
+}
@@ -4,26 +4,347 @@
  */
 
 // Constants
-export { ORDER_STATUS, ORDER_SIDE, ORDER_TYPE, ASSETS, FEE_RATE, INITIAL_BALANCE } from './constants.js';
+export {
+  ORDER_STATUS,
+  ORDER_SIDE,
+  ORDER_TYPE,
+  TRIGGER_ORDER_TYPES,
+  CASH_ASSET,
+  FEE_RATE,
+  FEE_LIQUIDITY,
+  FEE_VOLUME_WINDOW_MS,
+  DEFAULT_FEE_TIERS,
+  SIZE_DECIMALS,
+  JOURNAL_ACCOUNT,
+  JOURNAL_TYPE,
+  RECONCILIATION_KIND,
+  RISK_LIMIT_REASON,
+  TRADING_ERROR_CODE,
+  INITIAL_BALANCE,
+  CASH_FLOW_ASSET,
+  COST_BASIS_METHOD,
+  DEFAULT_COST_BASIS_METHOD,
+  LONG_TERM_HOLDING_DAYS,
+  ACCOUNT_MODE,
+  DEFAULT_ACCOUNT_MODE,
+  MAIN_ACCOUNT_NAME,
+  MAX_SUB_ACCOUNTS,
+  MAINTENANCE_MARGIN_RATIO,
+  PERP_MARKETS,
+  PERP_SIDE,
+  PERP_TRADE_TYPE,
+  FUNDING_INTERVAL_MS,
+  FUNDING_INTEREST_RATE,
+  MAX_FUNDING_RATE,
+  PERP_PREMIUM_FACTOR,
+  SLIPPAGE_MODEL,
+} from './constants.js';
+
+// Errors (coded failures callers branch on)
+export {
+  tradingError,
+  riskLimitError,
+  getTradingErrorCode,
+  type TradingErrorCode,
+  type TradingError,
+  type RiskLimitError,
+} from './errors.js';
 
 // Validation
 export {
   validateOrderInput,
   validateTradeExecution,
   validateBalance,
+  requireMarket,
+  validateMarketRules,
+  roundToLot,
 } from './validation.js';
 
 // Fees
-export { calculateFee, validateFee } from './fees.js';
+export { calculateFee, validateFee, calculateSizeForQuote } from './fees.js';
+
+// Fee tiers (trailing-volume maker/taker schedule, per-user overrides)
+export {
+  validateFeeRate,
+  createFeeTiers,
+  getFeeTiers,
+  setFeeTiers,
+  getFeeTierForVolume,
+  getTrailingVolume,
+  getActiveFeeOverride,
+  getUserFeeTier,
+  getFeeTierStatus,
+  setFeeOverride,
+  removeFeeOverride,
+  type FeeLiquidity,
+  type FeeTierConfig,
+  type FeeTier,
+  type FeeOverride,
+  type UserFeeTier,
+  type FeeTierStatus,
+} from './feeTiers.js';
+
+// Risk limits (per-user order rules checked at placement)
+export {
+  getTradingDayStart,
+  getRiskLimits,
+  getRiskUsage,
+  checkRiskLimits,
+  enforceRiskLimits,
+  enforcePerpRiskLimits,
+  getRiskStatus,
+  setRiskLimits,
+  removeRiskLimits,
+  type RiskLimitReason,
+  type RiskLimits,
+  type RiskUsage,
+  type RiskOrder,
+  type RiskViolation,
+  type RiskStatus,
+} from './riskLimits.js';
+
+// Slippage (size-dependent price impact on market executions)
+export {
+  validateSlippageModel,
+  createPriceImpactModel,
+  getPriceImpactModel,
+  setPriceImpactModel,
+  applyPriceImpact,
+  calculateSizeForQuoteWithImpact,
+  type SlippageModelName,
+  type PriceImpactModel,
+  type PriceImpactParams,
+  type MarketExecution,
+} from './slippage.js';
 
 // Positions
-export { initPosition, updatePosition } from './positions.js';
+export {
+  initPosition,
+  updatePosition,
+  calculateRealizedPnl,
+  calculateShortRealizedPnl,
+  calculatePositionChange,
+  type RealizedPnl,
+  type PositionChange,
+} from './positions.js';
+
+// Tax lots (per-buy lots consumed by sells via FIFO / LIFO / HIFO / average cost)
+export {
+  validateCostBasisMethod,
+  sortLotsForMethod,
+  planLotDisposals,
+  getCostBasisMethod,
+  setCostBasisMethod,
+  openLot,
+  consumeLots,
+  previewLotConsumption,
+  recordTradeCostBasis,
+  previewTradeCostBasis,
+  getTaxLots,
+  type CostBasisMethod,
+  type OpenLot,
+  type LotDisposal,
+  type LotConsumption,
+} from './lots.js';
+
+// Margin (cash vs margin accounts, borrowing and shorts up to MAX_LEVERAGE)
+export {
+  getMaxLeverage,
+  validateAccountMode,
+  calculateMargin,
+  getOtherHoldings,
+  addsExposure,
+  isLiquidatable,
+  validateMarginTrade,
+  validateMarginWithdrawal,
+  getAccountMode,
+  setAccountMode,
+  getMarginStatus,
+  type AccountMode,
+  type MarginBalances,
+  type MarginHolding,
+  type MarginSnapshot,
+  type MarginStatus,
+} from './margin.js';
+
+// Liquidation (force-close margin accounts below maintenance margin)
+export {
+  getLiquidatableAccounts,
+  liquidateAccount,
+  type LiquidationClose,
+  type LiquidationResult,
+} from './liquidation.js';
+
+// Perpetual futures (isolated-margin long/short contracts at the mark price)
+export {
+  validatePerpMarket,
+  validatePerpLeverage,
+  calculatePerpPosition,
+  getPerpMarketStatus,
+  openPerpPosition,
+  closePerpPosition,
+  adjustPerpMargin,
+  getPerpPosition,
+  getPerpTrades,
+  getLiquidatablePerpPositions,
+  liquidatePerpPosition,
+  type PerpMarket,
+  type PerpSide,
+  type PerpPositionSnapshot,
+  type PerpPositionStatus,
+  type PerpMarketStatus,
+  type PerpTradeResult,
+  type PerpLiquidationResult,
+} from './perps.js';
+
+// Funding (mark price premium and periodic funding payments for perps)
+export {
+  calculateMarkPrice,
+  calculateFundingRate,
+  calculateFundingPayment,
+  getNextFundingTime,
+  getPerpOpenInterest,
+  getMarkPrice,
+  settleFunding,
+  getFundingHistory,
+  type OpenInterest,
+  type FundingSettlement,
+} from './funding.js';
+
+// Orders (market orders execute immediately; limit and trigger orders rest as pending until filled or cancelled)
+export {
+  placeOrder,
+  placeQuoteOrder,
+  placeLimitOrder,
+  placeTriggerOrder,
+  placeTrailingStopOrder,
+  cancelOrder,
+  getOrder,
+  getUserOrders,
+  type PlaceQuoteOrderResult,
+} from './orders.js';
 
-// Orders (market orders execute immediately, no pending state)
-export { placeOrder, getOrder, getUserOrders } from './orders.js';
+// Idempotency (clientOrderId unique per user, replay instead of re-executing)
+export {
+  getOrderByClientOrderId,
+  isDuplicateClientOrderId,
+} from './idempotency.js';
+
+// Execution (atomic market trade path shared by market and triggered orders)
+export {
+  executeMarketTrade,
+  projectMarketTrade,
+  getMarginParams,
+  type MarketTradeProjection,
+  type MarginParams,
+} from './execution.js';
+
+// Preview (dry-run of a market order, nothing written)
+export {
+  previewOrder,
+  type OrderPreview,
+  type BalancePreview,
+} from './preview.js';
+
+// Reservations (funds locked by pending orders)
+export {
+  calculateReservation,
+  getOrderReservation,
+  releaseReservation,
+  type Reservation,
+} from './reservations.js';
+
+// Fills (settle pending orders)
+export { fillOrder, rejectOrder, type FillOrderResult } from './fills.js';
+
+// Matching (limit orders crossed by the price stream)
+export { getCrossedLimitOrders, matchLimitOrders } from './matching.js';
+
+// Triggers (stop_market / take_profit / trailing_stop orders crossed by the price stream)
+export {
+  isTriggerCrossed,
+  getCrossedTriggerOrders,
+  executeTriggerOrder,
+  matchTriggerOrders,
+  type TriggerMatchResult,
+} from './triggers.js';
+
+// Trailing stops (trigger follows the price peak, state persisted on the order)
+export {
+  validateTrail,
+  calculateTrailingTrigger,
+  updateTrailingStops,
+  type TrailParams,
+  type TrailingStopAdjustment,
+} from './trailing.js';
+
+// Brackets (entry + stop-loss/take-profit legs, one-cancels-other)
+export {
+  validateBracket,
+  activateBracketLegs,
+  cancelBracketLegs,
+  type BracketParams,
+} from './brackets.js';
 
 // Portfolio
-export { initPortfolio, getPortfolio } from './portfolio.js';
+export { initPortfolio, grantInitialPortfolio, getPortfolio, getPerformance } from './portfolio.js';
+
+// Cash flows (simulated deposits, withdrawals and faucet top-ups)
+export {
+  getCashFlowLimits,
+  setCashFlowLimits,
+  getCashFlowTotals,
+  deposit,
+  withdraw,
+  type CashFlowType,
+  type CashFlowLimit,
+  type CashFlowLimits,
+  type CashFlowTotals,
+  type CashFlowResult,
+} from './cashFlows.js';
 
-// NOTE: fills.ts is deprecated. Market orders now execute directly in placeOrder().
-// Kept for potential future limit order support.
\ No newline at end of file
+// Accounts (named sub-accounts per wallet, reset to INITIAL_BALANCE)
+export {
+  validateAccountName,
+  resolveAccount,
+  listAccounts,
+  createAccount,
+  resetAccount,
+  type AccountSummary,
+  type ResetAccountResult,
+} from './accounts.js';
+
+// Journal (double-entry; Balances is its projection)
+export {
+  postJournal,
+  postTrade,
+  postReservation,
+  transfer,
+  userAccount,
+  systemAccount,
+  getJournalBalances,
+  getJournal,
+  getSystemAccountBalances,
+  type JournalAccount,
+  type JournalType,
+  type AccountRef,
+  type JournalEntryInput,
+  type JournalPosting,
+  type JournalLine,
+  type SystemAccountBalance,
+} from './journal.js';
+
+// Reconciliation (balances and positions recomputed from the trade ledger)
+export {
+  getReconciliationTolerance,
+  computeExpectedLedger,
+  reconcileUser,
+  runReconciliation,
+  getReconciliationReport,
+  type ReconciliationKind,
+  type LedgerBalance,
+  type LedgerPosition,
+  type ExpectedLedger,
+  type LedgerDrift,
+  type ReconciliationReport,
+} from './reconciliation.js';
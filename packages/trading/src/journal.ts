@@ -0,0 +1,379 @@
+/**
+ * Journal
+ * Append-only double-entry journal: the source of truth for every balance
+ *
+ * Every movement of an asset (initial grant, trade, fee, reservation, perp
+ * margin, funding, write-off, adjustment) is one JournalTransactions row
+ * with balanced JournalEntries: amounts > 0 debit (increase) an account,
+ * < 0 credit (decrease) it, and each transaction's entries sum to zero per
+ * asset. Accounts are JOURNAL_ACCOUNT: a user's available / locked /
+ * perp_margin, or a system account (market, fees, ...).
+ *
+ * Balances is a materialized projection of the available and locked
+ * accounts, updated by postJournal() in the same transaction as the
+ * entries. Amounts are rounded to SIZE_DECIMALS as posted, so a balance
+ * always equals the sum of its entries.
+ */
+
+import { Decimal } from "decimal.js";
+import type { Decimal as DecimalInstance } from "decimal.js";
+import { getDb } from "@repo/db";
+import {
+  JOURNAL_ACCOUNT,
+  JOURNAL_TYPE,
+  ORDER_SIDE,
+  SIZE_DECIMALS,
+} from "./constants.js";
+import type { Reservation } from "./reservations.js";
+
+export type JournalAccount = (typeof JOURNAL_ACCOUNT)[keyof typeof JOURNAL_ACCOUNT];
+export type JournalType = (typeof JOURNAL_TYPE)[keyof typeof JOURNAL_TYPE];
+
+export interface AccountRef {
+  userId: number | null; // null for system accounts
+  account: JournalAccount;
+}
+
+export interface JournalEntryInput extends AccountRef {
+  asset: string;
+  amount: DecimalInstance; // > 0 debit, < 0 credit
+}
+
+export interface JournalPosting {
+  type: JournalType;
+  userId?: number | null; // User the movement belongs to
+  orderId?: number | null;
+  tradeId?: number | null;
+  perpTradeId?: number | null;
+  description?: string | null;
+  entries: JournalEntryInput[];
+}
+
+export interface JournalLine {
+  entryId: number;
+  transactionId: number;
+  type: string;
+  account: string;
+  asset: string;
+  amount: string;
+  balance: string; // Account balance after this entry
+  orderId: number | null;
+  tradeId: number | null;
+  perpTradeId: number | null;
+  description: string | null;
+  createdAt: Date;
+}
+
+export interface SystemAccountBalance {
+  account: string;
+  asset: string;
+  balance: string;
+}
+
+// Accounts projected into Balances
+const PROJECTED_ACCOUNTS: readonly string[] = [
+  JOURNAL_ACCOUNT.AVAILABLE,
+  JOURNAL_ACCOUNT.LOCKED,
+];
+
+export function userAccount(userId: number, account: JournalAccount): AccountRef {
+  return { userId, account };
+}
+
+export function systemAccount(account: JournalAccount): AccountRef {
+  return { userId: null, account };
+}
+
+/**
+ * Entries moving an amount of an asset from one account to another
+ */
+export function transfer(
+  from: AccountRef,
+  to: AccountRef,
+  asset: string,
+  amount: Decimal.Value
+): JournalEntryInput[] {
+  const value = new Decimal(amount);
+  return [
+    { ...from, asset, amount: value.negated() },
+    { ...to, asset, amount: value },
+  ];
+}
+
+/**
+ * Post a journal transaction and update the Balances projection
+ * (called within db.$transaction(), after the caller's balance checks)
+ *
+ * Zero entries are dropped; a posting with none left writes nothing.
+ *
+ * @param tx Prisma transaction context (NOT db!)
+ * @returns The journal transaction id, or null if nothing was posted
+ * @throws Error if the entries do not sum to zero per asset
+ */
+export async function postJournal(
+  tx: any,
+  posting: JournalPosting
+): Promise<number | null> {
+  const entries = posting.entries
+    .map((entry) => ({
+      ...entry,
+      amount: new Decimal(entry.amount).toDecimalPlaces(SIZE_DECIMALS, Decimal.ROUND_HALF_UP),
+    }))
+    .filter((entry) => !entry.amount.isZero());
+
+  if (entries.length === 0) {
+    return null;
+  }
+
+  const sums = new Map<string, DecimalInstance>();
+  for (const entry of entries) {
+    sums.set(entry.asset, (sums.get(entry.asset) ?? new Decimal(0)).plus(entry.amount));
+  }
+  for (const [asset, sum] of sums) {
+    if (!sum.isZero()) {
+      throw new Error(
+        `Unbalanced journal transaction (${posting.type}): ${asset} entries sum to ${sum.toString()}`
+      );
+    }
+  }
+
+  const transaction = await tx.journalTransactions.create({
+    data: {
+      type: posting.type,
+      userId: posting.userId ?? null,
+      orderId: posting.orderId ?? null,
+      tradeId: posting.tradeId ?? null,
+      perpTradeId: posting.perpTradeId ?? null,
+      description: posting.description ?? null,
+    },
+  });
+
+  await tx.journalEntries.createMany({
+    data: entries.map((entry) => ({
+      transactionId: transaction.id,
+      userId: entry.userId,
+      account: entry.account,
+      asset: entry.asset,
+      amount: entry.amount.toString(),
+    })),
+  });
+
+  // Project available / locked movements into Balances, one row per user asset
+  const projections = new Map<
+    string,
+    { userId: number; asset: string; available: DecimalInstance; locked: DecimalInstance }
+  >();
+  for (const entry of entries) {
+    if (entry.userId === null || !PROJECTED_ACCOUNTS.includes(entry.account)) {
+      continue;
+    }
+
+    const key = `${entry.userId}:${entry.asset}`;
+    const projection = projections.get(key) ?? {
+      userId: entry.userId,
+      asset: entry.asset,
+      available: new Decimal(0),
+      locked: new Decimal(0),
+    };
+    if (entry.account === JOURNAL_ACCOUNT.AVAILABLE) {
+      projection.available = projection.available.plus(entry.amount);
+    } else {
+      projection.locked = projection.locked.plus(entry.amount);
+    }
+    projections.set(key, projection);
+  }
+
+  for (const { userId, asset, available, locked } of projections.values()) {
+    await tx.balances.upsert({
+      where: { userId_asset: { userId, asset } },
+      create: { userId, asset, available: available.toString(), locked: locked.toString() },
+      update: {
+        available: { increment: available.toString() },
+        locked: { increment: locked.toString() },
+      },
+    });
+  }
+
+  return transaction.id;
+}
+
+/**
+ * Post a spot fill: the trade with the market, then its fee
+ * BUY:  base from the market, quote to it; SELL: the reverse
+ * @param tx Prisma transaction context (NOT db!)
+ */
+export async function postTrade(
+  tx: any,
+  trade: {
+    userId: number;
+    orderId: number;
+    tradeId: number;
+    side: string;
+    baseAsset: string;
+    quoteAsset: string;
+    price: DecimalInstance;
+    size: DecimalInstance;
+    fee: DecimalInstance;
+  }
+): Promise<void> {
+  const { userId, orderId, tradeId, baseAsset, quoteAsset } = trade;
+  const available = userAccount(userId, JOURNAL_ACCOUNT.AVAILABLE);
+  const market = systemAccount(JOURNAL_ACCOUNT.MARKET);
+  const cost = new Decimal(trade.price).times(trade.size);
+
+  const entries =
+    trade.side === ORDER_SIDE.BUY
+      ? [
+          ...transfer(market, available, baseAsset, trade.size),
+          ...transfer(available, market, quoteAsset, cost),
+        ]
+      : [
+          ...transfer(available, market, baseAsset, trade.size),
+          ...transfer(market, available, quoteAsset, cost),
+        ];
+
+  await postJournal(tx, { type: JOURNAL_TYPE.TRADE, userId, orderId, tradeId, entries });
+  await postJournal(tx, {
+    type: JOURNAL_TYPE.FEE,
+    userId,
+    orderId,
+    tradeId,
+    entries: transfer(available, systemAccount(JOURNAL_ACCOUNT.FEES), quoteAsset, trade.fee),
+  });
+}
+
+/**
+ * Post a pending order's reservation (available -> locked), or its release
+ * @param tx Prisma transaction context (NOT db!)
+ */
+export async function postReservation(
+  tx: any,
+  userId: number,
+  reservation: Reservation,
+  release: boolean,
+  orderId?: number
+): Promise<void> {
+  const available = userAccount(userId, JOURNAL_ACCOUNT.AVAILABLE);
+  const locked = userAccount(userId, JOURNAL_ACCOUNT.LOCKED);
+
+  await postJournal(tx, {
+    type: release ? JOURNAL_TYPE.RELEASE : JOURNAL_TYPE.RESERVE,
+    userId,
+    orderId: orderId ?? null,
+    entries: release
+      ? transfer(locked, available, reservation.asset, reservation.amount)
+      : transfer(available, locked, reservation.asset, reservation.amount),
+  });
+}
+
+/**
+ * Sum a user's available and locked accounts per asset (what Balances projects)
+ * @param client Prisma client or transaction context
+ */
+export async function getJournalBalances(
+  client: any,
+  userId: number
+): Promise<Map<string, { available: DecimalInstance; locked: DecimalInstance }>> {
+  const rows: Array<{ account: string; asset: string; balance: string }> = await client.$queryRaw`
+    SELECT account, asset, SUM(amount)::text AS balance
+    FROM journal_entries
+    WHERE "userId" = ${userId}
+      AND account IN (${JOURNAL_ACCOUNT.AVAILABLE}, ${JOURNAL_ACCOUNT.LOCKED})
+    GROUP BY account, asset
+  `;
+
+  const balances = new Map<string, { available: DecimalInstance; locked: DecimalInstance }>();
+  for (const row of rows) {
+    const balance = balances.get(row.asset) ?? {
+      available: new Decimal(0),
+      locked: new Decimal(0),
+    };
+    if (row.account === JOURNAL_ACCOUNT.AVAILABLE) {
+      balance.available = new Decimal(row.balance);
+    } else {
+      balance.locked = new Decimal(row.balance);
+    }
+    balances.set(row.asset, balance);
+  }
+
+  return balances;
+}
+
+/**
+ * A user's journal lines, newest first, each with the account balance after it
+ * (GET /portfolio/journal: "why is my balance X")
+ */
+export async function getJournal(
+  userId: number,
+  filters: { asset?: string; account?: string; limit?: number } = {}
+): Promise<JournalLine[]> {
+  const db = getDb();
+  const limit = filters.limit ?? 50;
+
+  const rows: Array<{
+    entryId: number;
+    transactionId: number;
+    type: string;
+    account: string;
+    asset: string;
+    amount: string;
+    balance: string;
+    orderId: number | null;
+    tradeId: number | null;
+    perpTradeId: number | null;
+    description: string | null;
+    createdAt: Date;
+  }> = await db.$queryRaw`
+    SELECT * FROM (
+      SELECT
+        e.id AS "entryId",
+        e."transactionId",
+        t.type,
+        e.account,
+        e.asset,
+        e.amount::text AS amount,
+        SUM(e.amount) OVER (
+          PARTITION BY e.account, e.asset ORDER BY e.id
+        )::text AS balance,
+        t."orderId",
+        t."tradeId",
+        t."perpTradeId",
+        t.description,
+        t."createdAt"
+      FROM journal_entries e
+      JOIN journal_transactions t ON t.id = e."transactionId"
+      WHERE e."userId" = ${userId}
+    ) AS lines
+    WHERE (${filters.asset ?? null}::text IS NULL OR asset = ${filters.asset ?? null})
+      AND (${filters.account ?? null}::text IS NULL OR account = ${filters.account ?? null})
+    ORDER BY "entryId" DESC
+    LIMIT ${limit}
+  `;
+
+  return rows.map((row) => ({
+    ...row,
+    amount: new Decimal(row.amount).toString(),
+    balance: new Decimal(row.balance).toString(),
+  }));
+}
+
+/**
+ * Balances of the system accounts per asset (fee revenue, house P&L, ...)
+ */
+export async function getSystemAccountBalances(): Promise<SystemAccountBalance[]> {
+  const db = getDb();
+
+  const rows: Array<{ account: string; asset: string; balance: string }> = await db.$queryRaw`
+    SELECT account, asset, SUM(amount)::text AS balance
+    FROM journal_entries
+    WHERE "userId" IS NULL
+    GROUP BY account, asset
+    ORDER BY account, asset
+  `;
+
+  return rows.map((row) => ({
+    account: row.account,
+    asset: row.asset,
+    balance: new Decimal(row.balance).toString(),
+  }));
+}
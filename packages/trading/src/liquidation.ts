@@ -0,0 +1,302 @@
+/**
+ * Liquidation
+ * Force-close margin accounts whose equity fell below the maintenance margin
+ *
+ * Driven by the liquidation worker on each price update: the accounts
+ * holding the asset that ticked are checked across all their holdings (see
+ * margin.ts), the others at their current marks. A liquidation cancels the
+ * account's pending orders (releasing their reservations) and closes every
+ * position at market with a 'liquidation' order each, through the same
+ * executeMarketTrade() path as any other market order.
+ */
+
+import { Decimal } from "decimal.js";
+import type { Decimal as DecimalInstance } from "decimal.js";
+import { getDb } from "@repo/db";
+import { executeMarketTrade } from "./execution.js";
+import { getOrderReservation, releaseReservation } from "./reservations.js";
+import {
+  calculateMargin,
+  getMaxLeverage,
+  getOtherHoldings,
+  isLiquidatable,
+  type MarginHolding,
+} from "./margin.js";
+import { postJournal, systemAccount, transfer, userAccount } from "./journal.js";
+import {
+  ACCOUNT_MODE,
+  JOURNAL_ACCOUNT,
+  JOURNAL_TYPE,
+  ORDER_SIDE,
+  ORDER_STATUS,
+  ORDER_TYPE,
+} from "./constants.js";
+
+export interface LiquidationClose {
+  orderId: number;
+  side: string;
+  baseAsset: string;
+  executedPrice: string;
+  executedSize: string;
+  slippage: string; // Price impact cost of the forced close (quote)
+  feesApplied: string;
+}
+
+export interface LiquidationResult {
+  userId: number;
+  quoteAsset: string;
+  closes: LiquidationClose[]; // One per position, the ticked asset first
+  equity: string; // Equity when liquidated
+  maintenanceMargin: string; // Requirement it fell below
+  badDebt: string; // Quote deficit left after the closes, written off
+  cancelledOrders: Array<{
+    orderId: number;
+    releasedAsset: string | null;
+    releasedAmount: string;
+    parentOrderId: number | null;
+  }>;
+}
+
+/**
+ * Get margin accounts holding a position in baseAsset that are below the
+ * maintenance margin, baseAsset at the given price and their other holdings
+ * at current marks
+ *
+ * An account holding an asset without a fresh price cannot be valued and is
+ * skipped: the next tick retries it.
+ */
+export async function getLiquidatableAccounts(
+  baseAsset: string,
+  quoteAsset: string,
+  price: DecimalInstance
+): Promise<number[]> {
+  const db = getDb();
+  const leverage = getMaxLeverage();
+
+  const users = await db.users.findMany({
+    where: {
+      accountMode: ACCOUNT_MODE.MARGIN,
+      archivedAt: null, // Archives left by a reset are read-only
+      positions: { some: { asset: baseAsset, size: { not: 0 } } },
+    },
+    select: { id: true, balances: true },
+  });
+
+  const marks = new Map<string, DecimalInstance>(); // Read once per scan
+  const liquidatable: number[] = [];
+  for (const user of users) {
+    const totalOf = (asset: string) => {
+      const balance = user.balances.find((b) => b.asset === asset);
+      return balance
+        ? new Decimal(balance.available.toString()).plus(balance.locked.toString())
+        : new Decimal(0);
+    };
+
+    let others: MarginHolding[];
+    try {
+      others = await getOtherHoldings(user.balances, [quoteAsset, baseAsset], marks);
+    } catch {
+      continue;
+    }
+
+    const snapshot = calculateMargin(
+      { quote: totalOf(quoteAsset), base: totalOf(baseAsset), others },
+      price,
+      leverage
+    );
+    if (isLiquidatable(snapshot)) {
+      liquidatable.push(user.id);
+    }
+  }
+  return liquidatable;
+}
+
+/**
+ * Liquidate a margin account at the given price
+ *
+ * Flow (one transaction):
+ * 1. Lock the account's pending orders
+ * 2. Lock balances (quote first), re-check equity < maintenance margin
+ *    across all holdings (the account may have de-risked since it was
+ *    selected)
+ * 3. Cancel every pending order, releasing reservations
+ * 4. Close every position with a 'liquidation' order at market: baseAsset
+ *    at the given price, the others at their marks
+ * 5. Write off a negative quote balance left by the closes (bad debt)
+ *
+ * @throws Error "Price not available ..." if another held asset has no fresh price
+ * @returns null if the account no longer needs liquidating
+ */
+export async function liquidateAccount(
+  userId: number,
+  baseAsset: string,
+  quoteAsset: string,
+  price: DecimalInstance
+): Promise<LiquidationResult | null> {
+  const db = getDb();
+  const executionPrice = new Decimal(price);
+  const leverage = getMaxLeverage();
+
+  return await db.$transaction(async (tx) => {
+    // 1. Lock pending orders first (same order as fillOrder: orders, then balances)
+    const pendingRows: Array<{ id: number }> = await tx.$queryRaw`
+      SELECT id FROM orders
+      WHERE "userId" = ${userId} AND status = ${ORDER_STATUS.PENDING}
+      ORDER BY id
+      FOR UPDATE
+    `;
+
+    // 2. Re-check under lock (quote then the base assets: executeMarketTrade
+    //    locks quote first too). Reservations count towards the totals, so
+    //    releasing them changes nothing here
+    const quoteRows: Array<{ available: string; locked: string }> = await tx.$queryRaw`
+      SELECT available::text, locked::text
+      FROM balances
+      WHERE "userId" = ${userId} AND asset = ${quoteAsset}
+      FOR UPDATE
+    `;
+    const baseRows: Array<{ asset: string; available: string; locked: string }> = await tx.$queryRaw`
+      SELECT asset, available::text, locked::text
+      FROM balances
+      WHERE "userId" = ${userId} AND asset <> ${quoteAsset}
+      ORDER BY asset
+      FOR UPDATE
+    `;
+
+    const quoteTotal = new Decimal(quoteRows[0]?.available ?? 0).plus(
+      quoteRows[0]?.locked ?? 0
+    );
+    const baseRow = baseRows.find((row) => row.asset === baseAsset);
+    const baseTotal = new Decimal(baseRow?.available ?? 0).plus(baseRow?.locked ?? 0);
+    const others = await getOtherHoldings(baseRows, [quoteAsset, baseAsset]);
+
+    const snapshot = calculateMargin(
+      { quote: quoteTotal, base: baseTotal, others },
+      executionPrice,
+      leverage
+    );
+    if (!isLiquidatable(snapshot)) {
+      return null;
+    }
+
+    // 3. Cancel pending orders (reservations back to available)
+    const pendingOrders = await tx.orders.findMany({
+      where: { id: { in: pendingRows.map((row) => row.id) } },
+      orderBy: { id: "asc" },
+    });
+
+    const cancelledOrders: LiquidationResult["cancelledOrders"] = [];
+    for (const order of pendingOrders) {
+      await tx.orders.update({
+        where: { id: order.id },
+        data: { status: ORDER_STATUS.CANCELLED },
+      });
+
+      const reservation = getOrderReservation(order);
+      if (reservation) {
+        await releaseReservation(tx, userId, reservation, order.id);
+      }
+
+      cancelledOrders.push({
+        orderId: order.id,
+        releasedAsset: reservation?.asset ?? null,
+        releasedAmount: reservation?.amount.toString() ?? "0",
+        parentOrderId: order.parentOrderId,
+      });
+    }
+
+    // 4. Close every position with a liquidation order, the ticked asset first
+    const marks = new Map<string, DecimalInstance>([[baseAsset, executionPrice]]);
+    for (const holding of others) {
+      marks.set(holding.asset, holding.price);
+    }
+    const positions = await tx.positions.findMany({
+      where: { userId, asset: { in: [...marks.keys()] }, size: { not: 0 } },
+    });
+    positions.sort((a, b) => Number(b.asset === baseAsset) - Number(a.asset === baseAsset));
+
+    const closes: LiquidationClose[] = [];
+    for (const position of positions) {
+      const positionSize = new Decimal(position.size);
+      const side = positionSize.isNegative() ? ORDER_SIDE.BUY : ORDER_SIDE.SELL;
+      const size = positionSize.abs();
+      const markPrice = marks.get(position.asset)!;
+
+      const order = await tx.orders.create({
+        data: {
+          userId,
+          side,
+          type: ORDER_TYPE.LIQUIDATION,
+          baseAsset: position.asset,
+          quoteAsset,
+          requestedSize: size.toString(),
+          priceAtOrderTime: markPrice.toString(),
+          status: ORDER_STATUS.PENDING,
+        },
+      });
+
+      const result = await executeMarketTrade(
+        tx,
+        userId,
+        side,
+        position.asset,
+        quoteAsset,
+        size,
+        markPrice,
+        order.id,
+        undefined,
+        true // A forced close fills even past SLIPPAGE_MAX_IMPACT
+      );
+
+      closes.push({
+        orderId: result.orderId,
+        side,
+        baseAsset: position.asset,
+        executedPrice: result.executedPrice,
+        executedSize: result.executedSize,
+        slippage: result.slippage,
+        feesApplied: result.feesApplied,
+      });
+    }
+
+    // 5. Write off what the closes could not cover
+    const quoteAfter = await tx.balances.findUniqueOrThrow({
+      where: { userId_asset: { userId, asset: quoteAsset } },
+    });
+    const quoteAvailable = new Decimal(quoteAfter.available.toString());
+    const badDebt = quoteAvailable.isNegative()
+      ? quoteAvailable.negated()
+      : new Decimal(0);
+
+    if (badDebt.gt(0)) {
+      const lastOrderId = closes[closes.length - 1]!.orderId;
+      await postJournal(tx, {
+        type: JOURNAL_TYPE.BAD_DEBT,
+        userId,
+        orderId: lastOrderId,
+        entries: transfer(
+          systemAccount(JOURNAL_ACCOUNT.BAD_DEBT),
+          userAccount(userId, JOURNAL_ACCOUNT.AVAILABLE),
+          quoteAsset,
+          badDebt
+        ),
+      });
+
+      // Kept on the last closing trade so the ledger still balances (reconciliation)
+      await tx.trades.updateMany({
+        where: { orderId: lastOrderId },
+        data: { badDebt: badDebt.toString() },
+      });
+    }
+
+    return {
+      userId,
+      quoteAsset,
+      closes,
+      equity: snapshot.equity.toString(),
+      maintenanceMargin: snapshot.maintenanceMargin.toString(),
+      badDebt: badDebt.toString(),
+      cancelledOrders,
+    };
+  });
+}
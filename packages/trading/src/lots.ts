@@ -0,0 +1,516 @@
+/**
+ * Tax Lots
+ * Lot-level cost basis: every buy opens a lot, every sell consumes open lots
+ * in the order given by the user's cost-basis method (Users.costBasisMethod)
+ *
+ * The position keeps its weighted avgEntryPrice; the lots decide which
+ * cost basis a sell realizes and for how long each unit was held.
+ * Lots track long holdings only: shorts (margin accounts) are costed at
+ * the position's avgEntryPrice when covered.
+ */
+
+import { Decimal } from "decimal.js";
+import type { Decimal as DecimalInstance } from "decimal.js";
+import { getDb } from "@repo/db";
+import {
+  calculateRealizedPnl,
+  calculateShortRealizedPnl,
+  calculatePositionChange,
+  type RealizedPnl,
+} from "./positions.js";
+import {
+  COST_BASIS_METHOD,
+  DEFAULT_COST_BASIS_METHOD,
+  LONG_TERM_HOLDING_DAYS,
+  ORDER_SIDE,
+  SIZE_DECIMALS,
+} from "./constants.js";
+
+export type CostBasisMethod =
+  (typeof COST_BASIS_METHOD)[keyof typeof COST_BASIS_METHOD];
+
+export interface OpenLot {
+  id: number;
+  price: DecimalInstance;
+  remainingSize: DecimalInstance;
+  acquiredAt: Date;
+}
+
+export interface LotDisposal {
+  lotId: number;
+  size: DecimalInstance;
+  costBasis: DecimalInstance;
+  proceeds: DecimalInstance; // Net of the lot's share of the sell fee
+  realizedPnl: DecimalInstance;
+  acquiredAt: Date;
+  holdingPeriodDays: number;
+  term: "short" | "long";
+}
+
+export interface LotConsumption extends RealizedPnl {
+  method: CostBasisMethod;
+  disposals: LotDisposal[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Validate a cost-basis method name
+ * @throws Error if method is not one of COST_BASIS_METHOD
+ */
+export function validateCostBasisMethod(method: string): CostBasisMethod {
+  if (!Object.values(COST_BASIS_METHOD).includes(method as any)) {
+    throw new Error(
+      `Invalid cost basis method: ${method}. ` +
+        `Must be one of ${Object.values(COST_BASIS_METHOD).join(", ")}`
+    );
+  }
+  return method as CostBasisMethod;
+}
+
+/**
+ * Order open lots in the sequence a sell consumes them
+ * FIFO / AVERAGE: oldest first
+ * LIFO: newest first
+ * HIFO: highest price first (oldest first on ties)
+ */
+export function sortLotsForMethod(
+  lots: OpenLot[],
+  method: CostBasisMethod
+): OpenLot[] {
+  const byAge = (a: OpenLot, b: OpenLot) =>
+    a.acquiredAt.getTime() - b.acquiredAt.getTime() || a.id - b.id;
+
+  switch (method) {
+    case COST_BASIS_METHOD.LIFO:
+      return [...lots].sort((a, b) => byAge(b, a));
+    case COST_BASIS_METHOD.HIFO:
+      return [...lots].sort(
+        (a, b) => new Decimal(b.price).comparedTo(a.price) || byAge(a, b)
+      );
+    default:
+      return [...lots].sort(byAge);
+  }
+}
+
+/**
+ * Plan which lots a sell consumes and what each one realizes
+ *
+ * The sell fee is split across lots pro rata by size (rounded to
+ * SIZE_DECIMALS, the last lot takes the remainder so shares sum to the fee).
+ * Under AVERAGE every lot is costed at avgEntryPrice, so the totals match
+ * calculateRealizedPnl() on the whole sell.
+ *
+ * @throws Error if the open lots do not cover the sell size
+ */
+export function planLotDisposals(
+  lots: OpenLot[],
+  method: CostBasisMethod,
+  executedPrice: DecimalInstance,
+  executedSize: DecimalInstance,
+  fee: DecimalInstance,
+  avgEntryPrice: DecimalInstance,
+  disposedAt: Date = new Date()
+): LotConsumption {
+  const size = new Decimal(executedSize);
+  const totalFee = new Decimal(fee);
+
+  const disposals: LotDisposal[] = [];
+  let remaining = size;
+  let feeAllocated = new Decimal(0);
+
+  for (const lot of sortLotsForMethod(lots, method)) {
+    if (remaining.lte(0)) break;
+
+    const lotSize = Decimal.min(lot.remainingSize, remaining);
+    remaining = remaining.minus(lotSize);
+
+    const feeShare = remaining.isZero()
+      ? totalFee.minus(feeAllocated)
+      : totalFee
+          .times(lotSize)
+          .dividedBy(size)
+          .toDecimalPlaces(SIZE_DECIMALS, Decimal.ROUND_DOWN);
+    feeAllocated = feeAllocated.plus(feeShare);
+
+    const costPrice =
+      method === COST_BASIS_METHOD.AVERAGE ? avgEntryPrice : lot.price;
+    const { costBasis, realizedPnl } = calculateRealizedPnl(
+      costPrice,
+      executedPrice,
+      lotSize,
+      feeShare
+    );
+
+    const holdingPeriodDays = Math.floor(
+      (disposedAt.getTime() - lot.acquiredAt.getTime()) / DAY_MS
+    );
+
+    disposals.push({
+      lotId: lot.id,
+      size: lotSize,
+      costBasis,
+      proceeds: costBasis.plus(realizedPnl),
+      realizedPnl,
+      acquiredAt: lot.acquiredAt,
+      holdingPeriodDays,
+      term: holdingPeriodDays > LONG_TERM_HOLDING_DAYS ? "long" : "short",
+    });
+  }
+
+  if (remaining.gt(0)) {
+    throw new Error(
+      `Open lots cover ${size.minus(remaining).toString()}, cannot sell ${size.toString()}`
+    );
+  }
+
+  return {
+    method,
+    disposals,
+    costBasis: disposals.reduce((sum, d) => sum.plus(d.costBasis), new Decimal(0)),
+    realizedPnl: disposals.reduce((sum, d) => sum.plus(d.realizedPnl), new Decimal(0)),
+  };
+}
+
+/**
+ * Get the user's cost-basis method
+ * @param client Prisma client or transaction context
+ */
+export async function getCostBasisMethod(
+  client: any,
+  userId: number
+): Promise<CostBasisMethod> {
+  const user = await client.users.findUnique({
+    where: { id: userId },
+    select: { costBasisMethod: true },
+  });
+  return (user?.costBasisMethod ?? DEFAULT_COST_BASIS_METHOD) as CostBasisMethod;
+}
+
+/**
+ * Set the user's cost-basis method (applies to future sells only)
+ */
+export async function setCostBasisMethod(
+  userId: number,
+  method: string
+): Promise<CostBasisMethod> {
+  const validMethod = validateCostBasisMethod(method);
+  const db = getDb();
+  await db.users.update({
+    where: { id: userId },
+    data: { costBasisMethod: validMethod },
+  });
+  return validMethod;
+}
+
+/**
+ * Open a lot for a buy trade (called within db.$transaction())
+ * @param tx Prisma transaction context (NOT db!)
+ */
+export async function openLot(
+  tx: any,
+  userId: number,
+  asset: string,
+  buyTradeId: number,
+  executedPrice: DecimalInstance,
+  executedSize: DecimalInstance
+): Promise<void> {
+  await tx.taxLots.create({
+    data: {
+      userId,
+      asset,
+      buyTradeId,
+      price: new Decimal(executedPrice).toString(),
+      size: new Decimal(executedSize).toString(),
+      remainingSize: new Decimal(executedSize).toString(),
+      acquiredAt: new Date(),
+    },
+  });
+}
+
+/**
+ * Consume lots for a sell trade (called within db.$transaction())
+ *
+ * Must run before the position update: AVERAGE uses the avgEntryPrice
+ * the sell is made against.
+ *
+ * Flow:
+ * 1. Lock the user's open lots (FOR UPDATE)
+ * 2. Plan disposals per the user's cost-basis method
+ * 3. Reduce each lot's remainingSize, record one disposal per lot
+ * 4. Record the totals on the sell trade (costBasis, realizedPnl)
+ * @param tx Prisma transaction context (NOT db!)
+ */
+export async function consumeLots(
+  tx: any,
+  userId: number,
+  asset: string,
+  sellTradeId: number,
+  executedPrice: DecimalInstance,
+  executedSize: DecimalInstance,
+  fee: DecimalInstance
+): Promise<LotConsumption> {
+  const lotRows: Array<{
+    id: number;
+    price: string;
+    remainingSize: string;
+    acquiredAt: Date;
+  }> = await tx.$queryRaw`
+    SELECT id, price::text, "remainingSize"::text, "acquiredAt"
+    FROM tax_lots
+    WHERE "userId" = ${userId} AND asset = ${asset} AND "remainingSize" > 0
+    ORDER BY "acquiredAt", id
+    FOR UPDATE
+  `;
+
+  const [method, position] = await Promise.all([
+    getCostBasisMethod(tx, userId),
+    tx.positions.findUnique({
+      where: { userId_asset: { userId, asset } },
+    }),
+  ]);
+
+  const consumption = planLotDisposals(
+    lotRows.map(toOpenLot),
+    method,
+    executedPrice,
+    executedSize,
+    fee,
+    new Decimal(position?.avgEntryPrice ?? 0)
+  );
+
+  for (const disposal of consumption.disposals) {
+    const lot = lotRows.find((row) => row.id === disposal.lotId)!;
+    await tx.taxLots.update({
+      where: { id: disposal.lotId },
+      data: {
+        remainingSize: new Decimal(lot.remainingSize).minus(disposal.size).toString(),
+      },
+    });
+
+    await tx.lotDisposals.create({
+      data: {
+        lotId: disposal.lotId,
+        sellTradeId,
+        size: disposal.size.toString(),
+        costBasis: disposal.costBasis.toString(),
+        proceeds: disposal.proceeds.toString(),
+        realizedPnl: disposal.realizedPnl.toString(),
+        method,
+        holdingPeriodDays: disposal.holdingPeriodDays,
+        term: disposal.term,
+      },
+    });
+  }
+
+  await tx.trades.update({
+    where: { id: sellTradeId },
+    data: {
+      costBasis: consumption.costBasis.toString(),
+      realizedPnl: consumption.realizedPnl.toString(),
+    },
+  });
+
+  return consumption;
+}
+
+/**
+ * Plan a sell against the user's current lots without writing anything
+ * (used by previewOrder())
+ */
+export async function previewLotConsumption(
+  userId: number,
+  asset: string,
+  executedPrice: DecimalInstance,
+  executedSize: DecimalInstance,
+  fee: DecimalInstance,
+  avgEntryPrice: DecimalInstance
+): Promise<LotConsumption> {
+  const db = getDb();
+  const [lots, method] = await Promise.all([
+    db.taxLots.findMany({
+      where: { userId, asset, remainingSize: { gt: 0 } },
+    }),
+    getCostBasisMethod(db, userId),
+  ]);
+
+  return planLotDisposals(
+    lots.map(toOpenLot),
+    method,
+    executedPrice,
+    executedSize,
+    fee,
+    avgEntryPrice
+  );
+}
+
+/**
+ * Split a trade into the part that closes the current position and the
+ * part that opens (or adds to) one, with the closing part's share of the fee
+ */
+function splitTrade(
+  positionSize: DecimalInstance,
+  avgEntryPrice: DecimalInstance,
+  side: string,
+  executedPrice: DecimalInstance,
+  executedSize: DecimalInstance,
+  fee: DecimalInstance
+) {
+  const size = new Decimal(executedSize);
+  const { closedSize } = calculatePositionChange(
+    positionSize,
+    avgEntryPrice,
+    side,
+    executedPrice,
+    size
+  );
+
+  const closeFee = closedSize.eq(size)
+    ? new Decimal(fee)
+    : new Decimal(fee)
+        .times(closedSize)
+        .dividedBy(size)
+        .toDecimalPlaces(SIZE_DECIMALS, Decimal.ROUND_DOWN);
+
+  return { closedSize, closeFee, openSize: size.minus(closedSize) };
+}
+
+/**
+ * Record a trade's cost basis (called within db.$transaction(), after the
+ * trade is created and before the position update)
+ *
+ * - Buy opening or adding to a long: opens a lot for that part
+ * - Sell closing a long: consumes lots (consumeLots)
+ * - Buy covering a short: realized at the short's avgEntryPrice
+ * - Sell opening a short: nothing to record
+ * A trade that flips sides does both parts, the fee shared pro rata.
+ * The closing part's costBasis / realizedPnl are stored on the trade.
+ *
+ * @param tx Prisma transaction context (NOT db!)
+ * @returns P&L realized by the closing part, or null if nothing was closed
+ */
+export async function recordTradeCostBasis(
+  tx: any,
+  userId: number,
+  asset: string,
+  tradeId: number,
+  side: string,
+  executedPrice: DecimalInstance,
+  executedSize: DecimalInstance,
+  fee: DecimalInstance,
+  positionSize: DecimalInstance,
+  avgEntryPrice: DecimalInstance
+): Promise<RealizedPnl | null> {
+  const { closedSize, closeFee, openSize } = splitTrade(
+    positionSize,
+    avgEntryPrice,
+    side,
+    executedPrice,
+    executedSize,
+    fee
+  );
+
+  if (side === ORDER_SIDE.BUY && openSize.gt(0)) {
+    await openLot(tx, userId, asset, tradeId, executedPrice, openSize);
+  }
+
+  if (closedSize.isZero()) {
+    return null;
+  }
+
+  if (side === ORDER_SIDE.SELL) {
+    return await consumeLots(tx, userId, asset, tradeId, executedPrice, closedSize, closeFee);
+  }
+
+  const realized = calculateShortRealizedPnl(
+    avgEntryPrice,
+    executedPrice,
+    closedSize,
+    closeFee
+  );
+  await tx.trades.update({
+    where: { id: tradeId },
+    data: {
+      costBasis: realized.costBasis.toString(),
+      realizedPnl: realized.realizedPnl.toString(),
+    },
+  });
+  return realized;
+}
+
+/**
+ * Realized P&L a trade would record, without writing anything
+ * (used by previewOrder(); same split as recordTradeCostBasis)
+ */
+export async function previewTradeCostBasis(
+  userId: number,
+  asset: string,
+  side: string,
+  executedPrice: DecimalInstance,
+  executedSize: DecimalInstance,
+  fee: DecimalInstance,
+  positionSize: DecimalInstance,
+  avgEntryPrice: DecimalInstance
+): Promise<RealizedPnl | null> {
+  const { closedSize, closeFee } = splitTrade(
+    positionSize,
+    avgEntryPrice,
+    side,
+    executedPrice,
+    executedSize,
+    fee
+  );
+
+  if (closedSize.isZero()) {
+    return null;
+  }
+
+  if (side === ORDER_SIDE.SELL) {
+    return await previewLotConsumption(
+      userId,
+      asset,
+      executedPrice,
+      closedSize,
+      closeFee,
+      avgEntryPrice
+    );
+  }
+
+  return calculateShortRealizedPnl(avgEntryPrice, executedPrice, closedSize, closeFee);
+}
+
+/**
+ * Get a user's cost-basis method and lots (open and closed) with their
+ * disposals, oldest first
+ */
+export async function getTaxLots(userId: number, asset?: string) {
+  const db = getDb();
+  const [costBasisMethod, lots] = await Promise.all([
+    getCostBasisMethod(db, userId),
+    db.taxLots.findMany({
+      where: { userId, ...(asset && { asset }) },
+      include: {
+        disposals: {
+          orderBy: { disposedAt: "asc" },
+        },
+      },
+      orderBy: [{ acquiredAt: "asc" }, { id: "asc" }],
+    }),
+  ]);
+
+  return { costBasisMethod, lots };
+}
+
+function toOpenLot(row: {
+  id: number;
+  price: { toString(): string };
+  remainingSize: { toString(): string };
+  acquiredAt: Date;
+}): OpenLot {
+  return {
+    id: row.id,
+    price: new Decimal(row.price.toString()),
+    remainingSize: new Decimal(row.remainingSize.toString()),
+    acquiredAt: new Date(row.acquiredAt),
+  };
+}
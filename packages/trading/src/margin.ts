@@ -0,0 +1,386 @@
+/**
+ * Margin Accounts
+ * Borrowed buying power and short selling up to MAX_LEVERAGE
+ *
+ * A margin account may carry negative balances: a negative quote balance
+ * is borrowed cash (leveraged long), a negative base balance is borrowed
+ * base asset (short). Margin is across the whole account: every market
+ * quotes in the cash asset, so the quote balance is shared, and equity counts
+ * every base asset held at its mark price:
+ *   equity            = quote + sum(base * price)
+ *   positionNotional  = sum(|base| * price)
+ *   initialMargin     = positionNotional / MAX_LEVERAGE
+ *   maintenanceMargin = initialMargin * MAINTENANCE_MARGIN_RATIO
+ *
+ * Trades that add exposure need equity >= initialMargin afterwards; trades
+ * that only reduce it are always allowed. When equity falls below the
+ * maintenance margin the liquidation worker force-closes the account.
+ *
+ * The functions below take one base asset (the one traded or priced) and
+ * the account's other holdings at their marks (see getOtherHoldings).
+ */
+
+import { Decimal } from "decimal.js";
+import type { Decimal as DecimalInstance } from "decimal.js";
+import { getDb } from "@repo/db";
+import { parseEnv, tradingEnvSchema } from "@repo/env";
+import { getPrice } from "@repo/pricing";
+import {
+  ACCOUNT_MODE,
+  DEFAULT_ACCOUNT_MODE,
+  MAINTENANCE_MARGIN_RATIO,
+  TRADING_ERROR_CODE,
+} from "./constants.js";
+import { tradingError } from "./errors.js";
+
+export type AccountMode = (typeof ACCOUNT_MODE)[keyof typeof ACCOUNT_MODE];
+
+export interface MarginHolding {
+  asset: string;
+  size: DecimalInstance; // available + locked, negative when short
+  price: DecimalInstance; // Mark price
+}
+
+export interface MarginBalances {
+  quote: DecimalInstance; // available + locked, negative when borrowed
+  base: DecimalInstance; // available + locked, negative when short
+  others?: MarginHolding[]; // The account's other base assets (none if omitted)
+}
+
+export interface MarginSnapshot {
+  equity: DecimalInstance;
+  positionNotional: DecimalInstance;
+  initialMargin: DecimalInstance;
+  maintenanceMargin: DecimalInstance;
+  availableMargin: DecimalInstance; // equity - initialMargin: room for new exposure
+  liquidationPrice: DecimalInstance | null; // null when the position cannot be liquidated
+}
+
+export interface MarginStatus {
+  accountMode: AccountMode;
+  maxLeverage: string;
+  price: string;
+  balances: { quote: string; base: string };
+  otherHoldings: Array<{ asset: string; size: string; price: string }>; // Counted in equity and margin
+  equity: string;
+  positionNotional: string;
+  leverage: string | null; // positionNotional / equity, null when equity <= 0
+  initialMargin: string;
+  maintenanceMargin: string;
+  availableMargin: string;
+  liquidationPrice: string | null;
+  liquidatable: boolean;
+}
+
+let maxLeverage: Decimal | null = null;
+
+/**
+ * Get MAX_LEVERAGE from the environment (tradingEnvSchema, default 10)
+ * @throws Error if MAX_LEVERAGE < 1
+ */
+export function getMaxLeverage(): DecimalInstance {
+  if (!maxLeverage) {
+    const env = parseEnv(tradingEnvSchema);
+    const leverage = new Decimal(env.MAX_LEVERAGE);
+    if (leverage.lt(1)) {
+      throw new Error(`Invalid MAX_LEVERAGE: ${leverage}. Must be >= 1`);
+    }
+    maxLeverage = leverage;
+  }
+  return maxLeverage;
+}
+
+/**
+ * Validate an account mode name
+ * @throws Error if mode is not one of ACCOUNT_MODE
+ */
+export function validateAccountMode(mode: string): AccountMode {
+  if (!Object.values(ACCOUNT_MODE).includes(mode as any)) {
+    throw new Error(
+      `Invalid account mode: ${mode}. ` +
+        `Must be one of ${Object.values(ACCOUNT_MODE).join(", ")}`
+    );
+  }
+  return mode as AccountMode;
+}
+
+/**
+ * Calculate equity and margin requirements, the base asset at a mark price
+ * and the other holdings at theirs
+ *
+ * liquidationPrice is the base asset's price at which equity(p) =
+ * maintenanceMargin(p), the other holdings' marks unchanged:
+ *   p = (quote + othersValue - othersNotional * maintenanceRate)
+ *       / (|base| * maintenanceRate - base)
+ * A long without borrowed cash or a short without cash cannot reach it (null).
+ */
+export function calculateMargin(
+  balances: MarginBalances,
+  price: DecimalInstance,
+  leverage: DecimalInstance
+): MarginSnapshot {
+  const quote = new Decimal(balances.quote);
+  const base = new Decimal(balances.base);
+  const markPrice = new Decimal(price);
+
+  const maintenanceRate = new Decimal(MAINTENANCE_MARGIN_RATIO).dividedBy(leverage);
+
+  let othersValue = new Decimal(0);
+  let othersNotional = new Decimal(0);
+  for (const holding of balances.others ?? []) {
+    const value = new Decimal(holding.size).times(holding.price);
+    othersValue = othersValue.plus(value);
+    othersNotional = othersNotional.plus(value.abs());
+  }
+
+  const equity = quote.plus(base.times(markPrice)).plus(othersValue);
+  const positionNotional = base.abs().times(markPrice).plus(othersNotional);
+  const initialMargin = positionNotional.dividedBy(leverage);
+  const maintenanceMargin = initialMargin.times(MAINTENANCE_MARGIN_RATIO);
+
+  let liquidationPrice: Decimal | null = null;
+  if (!base.isZero()) {
+    const p = quote
+      .plus(othersValue)
+      .minus(othersNotional.times(maintenanceRate))
+      .dividedBy(base.abs().times(maintenanceRate).minus(base));
+    liquidationPrice = p.gt(0) ? p : null;
+  }
+
+  return {
+    equity,
+    positionNotional,
+    initialMargin,
+    maintenanceMargin,
+    availableMargin: equity.minus(initialMargin),
+    liquidationPrice,
+  };
+}
+
+/**
+ * Price an account's base holdings other than `exclude` (the quote asset and
+ * the asset traded or priced separately) at their marks
+ * @param balances The account's balance rows (available + locked count)
+ * @param marks Mark prices already read, by asset; the rest are read with
+ *              getPrice() and added, so a caller can share them across accounts
+ * @throws Error "Price not available ..." if a held asset has no fresh price
+ */
+export async function getOtherHoldings(
+  balances: Array<{ asset: string; available: { toString(): string }; locked: { toString(): string } }>,
+  exclude: string[],
+  marks: Map<string, DecimalInstance> = new Map()
+): Promise<MarginHolding[]> {
+  const holdings: MarginHolding[] = [];
+  for (const balance of balances) {
+    const size = new Decimal(balance.available.toString()).plus(balance.locked.toString());
+    if (exclude.includes(balance.asset) || size.isZero()) {
+      continue;
+    }
+
+    let price = marks.get(balance.asset);
+    if (!price) {
+      price = await getPrice(balance.asset);
+      marks.set(balance.asset, price);
+    }
+    holdings.push({ asset: balance.asset, size, price });
+  }
+  return holdings;
+}
+
+/**
+ * Whether a change of the base balance adds exposure: a bigger position,
+ * or a flip to the other side
+ */
+export function addsExposure(before: DecimalInstance, after: DecimalInstance): boolean {
+  const oldBase = new Decimal(before);
+  const newBase = new Decimal(after);
+  return !(
+    newBase.abs().lte(oldBase.abs()) &&
+    (newBase.isZero() || newBase.isNegative() === oldBase.isNegative())
+  );
+}
+
+/**
+ * Whether an account is below its maintenance margin
+ */
+export function isLiquidatable(snapshot: MarginSnapshot): boolean {
+  return (
+    snapshot.positionNotional.gt(0) &&
+    snapshot.equity.lt(snapshot.maintenanceMargin)
+  );
+}
+
+/**
+ * Check a margin trade against the initial margin
+ *
+ * Only trades that add exposure are checked (see addsExposure); reducing or
+ * closing is always allowed so an account can de-risk even when
+ * under-margined. `after.others` should hold the account's other holdings:
+ * equity and the initial margin are across the whole account.
+ * @throws Error "Insufficient margin ..." if equity after the trade is below the initial margin
+ */
+export function validateMarginTrade(
+  before: MarginBalances,
+  after: MarginBalances,
+  price: DecimalInstance,
+  leverage: DecimalInstance,
+  baseAsset: string,
+  quoteAsset: string
+): void {
+  const newBase = new Decimal(after.base);
+  if (!addsExposure(before.base, after.base)) {
+    return;
+  }
+
+  const margin = calculateMargin(after, price, leverage);
+  if (margin.equity.lt(margin.initialMargin)) {
+    throw tradingError(
+      TRADING_ERROR_CODE.INSUFFICIENT_MARGIN,
+      `Insufficient margin. Need ${margin.initialMargin.toString()} ${quoteAsset} equity ` +
+        `for a ${newBase.abs().toString()} ${baseAsset} position at ${leverage.toString()}x, ` +
+        `but equity would be ${margin.equity.toString()}`
+    );
+  }
+}
+
+/**
+ * Check a withdrawal from a margin account against the initial margin: cash
+ * leaving (short-sale proceeds, collateral) cannot take equity below it
+ * @param after Balances after the withdrawal, every base holding in `others`
+ * @throws Error "Insufficient margin ..." if equity after is below the initial margin
+ */
+export function validateMarginWithdrawal(
+  after: MarginBalances,
+  amount: DecimalInstance,
+  leverage: DecimalInstance,
+  quoteAsset: string
+): void {
+  const margin = calculateMargin(after, new Decimal(0), leverage);
+  if (margin.positionNotional.gt(0) && margin.equity.lt(margin.initialMargin)) {
+    throw tradingError(
+      TRADING_ERROR_CODE.INSUFFICIENT_MARGIN,
+      `Insufficient margin. Withdrawing ${amount.toString()} ${quoteAsset} would leave equity ` +
+        `${margin.equity.toString()}, below the initial margin of ${margin.initialMargin.toString()}`
+    );
+  }
+}
+
+/**
+ * Get the user's account mode
+ * @param client Prisma client or transaction context
+ */
+export async function getAccountMode(
+  client: any,
+  userId: number
+): Promise<AccountMode> {
+  const user = await client.users.findUnique({
+    where: { id: userId },
+    select: { accountMode: true },
+  });
+  return (user?.accountMode ?? DEFAULT_ACCOUNT_MODE) as AccountMode;
+}
+
+/**
+ * Set the user's account mode
+ *
+ * Switching back to cash needs every balance >= 0 (nothing borrowed, no
+ * short open): cash accounts assume fully funded balances.
+ * @throws Error if switching to cash with a negative balance
+ */
+export async function setAccountMode(
+  userId: number,
+  mode: string
+): Promise<AccountMode> {
+  const validMode = validateAccountMode(mode);
+  const db = getDb();
+
+  return await db.$transaction(async (tx) => {
+    // Lock balances so a concurrent margin trade cannot borrow mid-switch
+    const balanceRows: Array<{ asset: string; available: string }> = await tx.$queryRaw`
+      SELECT asset, available::text
+      FROM balances
+      WHERE "userId" = ${userId}
+      ORDER BY asset
+      FOR UPDATE
+    `;
+
+    if (validMode === ACCOUNT_MODE.CASH) {
+      const negative = balanceRows.find((row) =>
+        new Decimal(row.available).isNegative()
+      );
+      if (negative) {
+        throw new Error(
+          `Cannot switch to cash mode with a negative ${negative.asset} balance ` +
+            `(${negative.available}). Repay borrowing and close shorts first`
+        );
+      }
+    }
+
+    await tx.users.update({
+      where: { id: userId },
+      data: { accountMode: validMode },
+    });
+
+    return validMode;
+  });
+}
+
+/**
+ * Get a user's margin status for a pair at a mark price, the account's
+ * other holdings at their current marks
+ * Works for cash accounts too (no borrowing, so never liquidatable)
+ * @throws Error "Price not available ..." if another held asset has no fresh price
+ */
+export async function getMarginStatus(
+  userId: number,
+  baseAsset: string,
+  quoteAsset: string,
+  price: DecimalInstance
+): Promise<MarginStatus> {
+  const db = getDb();
+  const [accountMode, balances] = await Promise.all([
+    getAccountMode(db, userId),
+    db.balances.findMany({ where: { userId } }),
+  ]);
+
+  const totalOf = (asset: string) => {
+    const balance = balances.find((b) => b.asset === asset);
+    return balance
+      ? new Decimal(balance.available.toString()).plus(balance.locked.toString())
+      : new Decimal(0);
+  };
+
+  const marginBalances = {
+    quote: totalOf(quoteAsset),
+    base: totalOf(baseAsset),
+    others: await getOtherHoldings(balances, [quoteAsset, baseAsset]),
+  };
+  const leverage = getMaxLeverage();
+  const snapshot = calculateMargin(marginBalances, price, leverage);
+
+  return {
+    accountMode,
+    maxLeverage: leverage.toString(),
+    price: new Decimal(price).toString(),
+    balances: {
+      quote: marginBalances.quote.toString(),
+      base: marginBalances.base.toString(),
+    },
+    otherHoldings: marginBalances.others.map((holding) => ({
+      asset: holding.asset,
+      size: holding.size.toString(),
+      price: holding.price.toString(),
+    })),
+    equity: snapshot.equity.toString(),
+    positionNotional: snapshot.positionNotional.toString(),
+    leverage: snapshot.equity.gt(0)
+      ? snapshot.positionNotional.dividedBy(snapshot.equity).toString()
+      : null,
+    initialMargin: snapshot.initialMargin.toString(),
+    maintenanceMargin: snapshot.maintenanceMargin.toString(),
+    availableMargin: snapshot.availableMargin.toString(),
+    liquidationPrice: snapshot.liquidationPrice?.toString() ?? null,
+    liquidatable:
+      accountMode === ACCOUNT_MODE.MARGIN && isLiquidatable(snapshot),
+  };
+}
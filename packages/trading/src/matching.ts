@@ -0,0 +1,72 @@
+/**
+ * Limit Order Matching
+ * Finds pending limit orders crossed by a new price and fills them
+ */
+
+import { Decimal } from "decimal.js";
+import type { Decimal as DecimalInstance } from "decimal.js";
+import { getDb } from "@repo/db";
+import { fillOrder, type FillOrderResult } from "./fills.js";
+import { ORDER_SIDE, ORDER_STATUS, ORDER_TYPE } from "./constants.js";
+
+/**
+ * Get pending limit orders whose limit is crossed by the given quote
+ *
+ * BUY:  ask <= limitPrice
+ * SELL: bid >= limitPrice
+ *
+ * A mid price past the limit is not enough: the touch must cross it.
+ * Oldest first, so earlier orders are filled first (time priority)
+ */
+export async function getCrossedLimitOrders(
+  baseAsset: string,
+  quote: { bid: DecimalInstance; ask: DecimalInstance }
+) {
+  const db = getDb();
+
+  return await db.orders.findMany({
+    where: {
+      status: ORDER_STATUS.PENDING,
+      type: ORDER_TYPE.LIMIT,
+      baseAsset,
+      OR: [
+        { side: ORDER_SIDE.BUY, limitPrice: { gte: new Decimal(quote.ask).toString() } },
+        { side: ORDER_SIDE.SELL, limitPrice: { lte: new Decimal(quote.bid).toString() } },
+      ],
+    },
+    orderBy: { createdAt: "asc" },
+  });
+}
+
+/**
+ * Fill every pending limit order crossed by a new price
+ * Called by the order-matching worker on each price update
+ *
+ * Buys execute at the ask and sells at the bid, which is always at or
+ * better than their limit. Without a bid/ask quote, both are the price.
+ * A failed fill (e.g. the order was rejected concurrently) is logged and
+ * skipped so one bad order can't block the book.
+ *
+ * @returns Fill results for the orders that executed
+ */
+export async function matchLimitOrders(
+  baseAsset: string,
+  price: DecimalInstance,
+  quote: { bid: DecimalInstance; ask: DecimalInstance } = { bid: price, ask: price }
+): Promise<FillOrderResult[]> {
+  const orders = await getCrossedLimitOrders(baseAsset, quote);
+  const fills: FillOrderResult[] = [];
+
+  for (const order of orders) {
+    const executionPrice = order.side === ORDER_SIDE.BUY ? quote.ask : quote.bid;
+    try {
+      fills.push(
+        await fillOrder(order.id, new Decimal(executionPrice), new Decimal(order.requestedSize))
+      );
+    } catch (error) {
+      console.error(`[MATCHING] Failed to fill order ${order.id}:`, error);
+    }
+  }
+
+  return fills;
+}
@@ -6,29 +6,97 @@
 import { Decimal } from "decimal.js";
 import type { Decimal as DecimalInstance } from "decimal.js";
 import { getDb } from "@repo/db";
-import { validateOrderInput } from "./validation.js";
-import { calculateFee } from "./fees.js";
-import { ORDER_STATUS } from "./constants.js";
+import {
+  validateOrderInput,
+  validateStatusTransition,
+  requireMarket,
+  validateMarketRules,
+  roundToLot,
+} from "./validation.js";
+import { executeMarketTrade, type PlaceOrderResult } from "./execution.js";
+import { calculateSizeForQuoteWithImpact } from "./slippage.js";
+import { getUserFeeTier } from "./feeTiers.js";
+import { postReservation } from "./journal.js";
+import { enforceRiskLimits } from "./riskLimits.js";
+import {
+  calculateReservation,
+  getOrderReservation,
+  releaseReservation,
+} from "./reservations.js";
+import { isTriggerCrossed } from "./triggers.js";
+import {
+  validateTrail,
+  calculateTrailingTrigger,
+  type TrailParams,
+} from "./trailing.js";
+import {
+  validateBracket,
+  activateBracketLegs,
+  cancelBracketLegs,
+  type BracketParams,
+} from "./brackets.js";
+import {
+  ORDER_SIDE,
+  ORDER_STATUS,
+  ORDER_TYPE,
+  TRADING_ERROR_CODE,
+  TRIGGER_ORDER_TYPES,
+} from "./constants.js";
+import { tradingError } from "./errors.js";
 
-interface PlaceOrderResult {
+export interface PlaceQuoteOrderResult extends PlaceOrderResult {
+  quoteSize: string; // Requested quote amount
+  quoteAmount: string; // Actual quote spent (buy) or received (sell), fee included
+}
+
+interface PlaceLimitOrderResult {
+  orderId: number;
+  requestedSize: string;
+  limitPrice: string;
+  lockedAsset: string;
+  lockedAmount: string;
+  status: string;
+}
+
+interface PlaceTriggerOrderResult {
   orderId: number;
-  executedSize: string;
-  executedPrice: string;
-  feesApplied: string;
+  type: string;
+  requestedSize: string;
+  triggerPrice: string;
   status: string;
 }
 
+interface PlaceTrailingStopOrderResult {
+  orderId: number;
+  requestedSize: string;
+  trailAmount: string | null;
+  trailPercent: string | null;
+  trailingPeak: string;
+  triggerPrice: string;
+  status: string;
+}
+
+interface CancelOrderResult {
+  orderId: number;
+  releasedAsset: string | null; // null when the order held no reservation
+  releasedAmount: string;
+  status: string; // 'filled' when cancelling the legs of a filled bracket entry
+  cancelledOrderIds: number[]; // Every order cancelled, including bracket legs
+  parentOrderId: number | null; // Bracket entry of the group, if any
+}
+
 /**
  * Place and execute a market order immediately
  * 
  * Market orders execute instantly at market price. No pending state.
  * 
  * Flow:
- * 1. Validate input
- * 2. Lock balance for order cost
- * 3. Create order (status: FILLED)
+ * 1. Validate input and the market's rules
+ * 2. Enforce the user's risk limits
+ * 3. Lock balance for order cost, create order (status: FILLED)
  * 4. Execute trade (create trade record, update balances + positions)
- * 5. Return execution details
+ * 5. Activate bracket legs (if bracket given)
+ * 6. Return execution details
  * 
  * CRITICAL: Entire flow is atomic via Prisma transaction.
  * Prevents race conditions and ensures ledger consistency.
@@ -40,7 +108,9 @@ export async function placeOrder(
   baseAsset: string,
   quoteAsset: string,
   requestedSize: DecimalInstance,
-  executionPrice: DecimalInstance
+  executionPrice: DecimalInstance,
+  bracket?: BracketParams,
+  clientOrderId?: string
 ): Promise<PlaceOrderResult> {
   validateOrderInput(side, "market", baseAsset, quoteAsset, requestedSize);
 
@@ -52,226 +122,487 @@ export async function placeOrder(
     throw new Error("Price must be > 0");
   }
 
-  const cost = size.times(price);
-  const fee = calculateFee(price, size);
+  const market = await requireMarket(baseAsset, quoteAsset);
+  validateMarketRules(market, size, {
+    stopLossPrice: bracket && new Decimal(bracket.stopLossPrice),
+    takeProfitPrice: bracket && new Decimal(bracket.takeProfitPrice),
+  });
+
+  if (bracket) {
+    validateBracket(side, price, bracket);
+  }
 
   const db = getDb();
 
   // ATOMIC TRANSACTION: Create order + execute trade all at once
   // Use row-level locking (FOR UPDATE) to prevent double-spend
-  const result = await db.$transaction(async (tx) => {
-    // Lock BOTH balance rows upfront to ensure consistent ordering and prevent deadlocks
-    // For BUY: need to check USDC (quote), update both USDC and SOL (base)
-    // For SELL: need to check SOL (base), update both SOL and USDC
-    
-    // Lock quote asset (USDC) balance
-    const quoteBalanceRows = await tx.$queryRaw<Array<{ id: number; available: string; locked: string }>>`
-      SELECT id, available::text, locked::text 
-      FROM balances 
-      WHERE "userId" = ${userId} AND asset = ${quoteAsset}
-      FOR UPDATE
-    `;
+  return await db.$transaction(async (tx) => {
+    await enforceRiskLimits(tx, userId, { side, baseAsset, size, price });
 
-    if (!quoteBalanceRows || quoteBalanceRows.length === 0) {
-      throw new Error(`No ${quoteAsset} balance found for user ${userId}`);
+    const result = await executeMarketTrade(
+      tx,
+      userId,
+      side,
+      baseAsset,
+      quoteAsset,
+      size,
+      price,
+      undefined,
+      clientOrderId
+    );
+
+    if (!bracket) {
+      return result;
     }
 
-    const quoteBalance = quoteBalanceRows[0]!;
-    const quoteAvailable = new Decimal(quoteBalance.available);
-    const quoteLocked = new Decimal(quoteBalance.locked);
+    // Entry filled: record the bracket levels and activate both legs
+    const entry = await tx.orders.update({
+      where: { id: result.orderId },
+      data: {
+        stopLossPrice: new Decimal(bracket.stopLossPrice).toString(),
+        takeProfitPrice: new Decimal(bracket.takeProfitPrice).toString(),
+      },
+    });
+    const childOrderIds = await activateBracketLegs(
+      tx,
+      entry,
+      size,
+      new Decimal(result.executedPrice)
+    );
+
+    return { ...result, childOrderIds };
+  });
+}
+
+/**
+ * Place a market order sized in the quote asset ("spend 100 USDC")
+ *
+ * The base size is derived from the execution price with the fee and price
+ * impact included (see calculateSizeForQuoteWithImpact), so a buy spends
+ * quoteSize in total and a sell nets quoteSize, to within SIZE_DECIMALS
+ * rounding in the user's favour (sells with price impact: approximately).
+ * The size is then rounded to the market's lot size (buys down, sells up)
+ * and executes exactly like placeOrder() at that same price.
+ */
+export async function placeQuoteOrder(
+  userId: number,
+  side: string,
+  baseAsset: string,
+  quoteAsset: string,
+  quoteSize: DecimalInstance,
+  executionPrice: DecimalInstance,
+  bracket?: BracketParams,
+  clientOrderId?: string
+): Promise<PlaceQuoteOrderResult> {
+  const quote = new Decimal(quoteSize);
+  const price = new Decimal(executionPrice);
+
+  if (quote.lte(0)) {
+    throw new Error(`Invalid quote size: ${quote.toString()}`);
+  }
+  if (price.lte(0)) {
+    throw new Error("Price must be > 0");
+  }
+
+  // Sized at the user's taker rate, the rate placeOrder() will charge
+  const market = await requireMarket(baseAsset, quoteAsset);
+  const { takerRate } = await getUserFeeTier(getDb(), userId);
+  const size = roundToLot(
+    market,
+    side,
+    calculateSizeForQuoteWithImpact(side, quote, price, undefined, takerRate)
+  );
+  if (size.lte(0)) {
+    throw new Error(
+      `Quote size ${quote.toString()} ${quoteAsset} is too small to buy any ${baseAsset}`
+    );
+  }
+
+  const result = await placeOrder(
+    userId,
+    side,
+    baseAsset,
+    quoteAsset,
+    size,
+    price,
+    bracket,
+    clientOrderId
+  );
 
-    // Lock base asset (SOL) balance
-    const baseBalanceRows = await tx.$queryRaw<Array<{ id: number; available: string; locked: string }>>`
-      SELECT id, available::text, locked::text 
-      FROM balances 
-      WHERE "userId" = ${userId} AND asset = ${baseAsset}
+  const cost = new Decimal(result.executedPrice).times(result.executedSize);
+  const fee = new Decimal(result.feesApplied);
+
+  return {
+    ...result,
+    quoteSize: quote.toString(),
+    quoteAmount: (side === ORDER_SIDE.BUY ? cost.plus(fee) : cost.minus(fee)).toString(),
+  };
+}
+
+/**
+ * Place a limit order (rests as pending until the price crosses)
+ *
+ * Flow:
+ * 1. Validate input and the market's rules
+ * 2. Enforce the user's risk limits (notional at the limit price)
+ * 3. Lock the reserved balance row (FOR UPDATE)
+ * 4. Create order (status: PENDING)
+ * 5. Journal the reservation from available → locked
+ *
+ * The order-matching worker fills it later via fillOrder() once the
+ * market price reaches limitPrice (buy: price <= limit, sell: price >= limit).
+ * With a bracket, the levels are stored now and the legs activate on fill.
+ *
+ * @param marketPrice Current market price, recorded as priceAtOrderTime for audit
+ */
+export async function placeLimitOrder(
+  userId: number,
+  side: string,
+  baseAsset: string,
+  quoteAsset: string,
+  requestedSize: DecimalInstance,
+  limitPrice: DecimalInstance,
+  marketPrice: DecimalInstance,
+  bracket?: BracketParams,
+  clientOrderId?: string
+): Promise<PlaceLimitOrderResult> {
+  validateOrderInput(side, ORDER_TYPE.LIMIT, baseAsset, quoteAsset, requestedSize);
+
+  const size = new Decimal(requestedSize);
+  const limit = new Decimal(limitPrice);
+
+  if (limit.lte(0)) {
+    throw new Error("Limit price must be > 0");
+  }
+
+  const market = await requireMarket(baseAsset, quoteAsset);
+  validateMarketRules(market, size, {
+    limitPrice: limit,
+    stopLossPrice: bracket && new Decimal(bracket.stopLossPrice),
+    takeProfitPrice: bracket && new Decimal(bracket.takeProfitPrice),
+  });
+
+  if (bracket) {
+    validateBracket(side, limit, bracket);
+  }
+
+  const reservation = calculateReservation(side, baseAsset, quoteAsset, size, limit);
+
+  const db = getDb();
+
+  return await db.$transaction(async (tx) => {
+    await enforceRiskLimits(tx, userId, { side, baseAsset, size, price: limit });
+
+    const balanceRows = await tx.$queryRaw<Array<{ available: string; locked: string }>>`
+      SELECT available::text, locked::text
+      FROM balances
+      WHERE "userId" = ${userId} AND asset = ${reservation.asset}
       FOR UPDATE
     `;
 
-    let baseAvailable: Decimal;
-    let baseLocked: Decimal;
-
-    if (baseBalanceRows.length === 0) {
-      // Initialize base asset balance if not exists (needed for first buy)
-      await tx.balances.create({
-        data: {
-          userId,
-          asset: baseAsset,
-          available: "0",
-          locked: "0",
-        },
-      });
-      baseAvailable = new Decimal(0);
-      baseLocked = new Decimal(0);
-    } else {
-      baseAvailable = new Decimal(baseBalanceRows[0]?.available!);
-      baseLocked = new Decimal(baseBalanceRows[0]?.locked!);
-    }
+    const available = new Decimal(balanceRows[0]?.available ?? 0);
 
-    // Validate balance BEFORE any updates
-    if (side === "buy") {
-      // BUY: Check USDC balance for cost + fee
-      const totalNeeded = cost.plus(fee);
-      if (quoteAvailable.lt(totalNeeded)) {
-        throw new Error(
-          `Insufficient balance. Need ${totalNeeded.toString()} ${quoteAsset} ` +
-            `(cost: ${cost.toString()} + fee: ${fee.toString()}), ` +
-            `but have ${quoteAvailable.toString()}`
-        );
-      }
-    } else {
-      // SELL: Check SOL balance for sell amount
-      if (baseAvailable.lt(size)) {
-        throw new Error(
-          `Insufficient ${baseAsset} to sell. Have ${baseAvailable.toString()}, need ${size.toString()}`
-        );
-      }
+    if (available.lt(reservation.amount)) {
+      throw tradingError(
+        TRADING_ERROR_CODE.INSUFFICIENT_BALANCE,
+        `Insufficient ${reservation.asset} balance. Need ${reservation.amount.toString()} ` +
+          `to reserve for limit order, but have ${available.toString()}`
+      );
     }
 
-    // 1. Create order with FILLED status (market orders execute immediately)
     const order = await tx.orders.create({
       data: {
         userId,
         side,
-        type: "market",
+        type: ORDER_TYPE.LIMIT,
         baseAsset,
         quoteAsset,
         requestedSize: size.toString(),
-        priceAtOrderTime: price.toString(),
-        status: ORDER_STATUS.FILLED,  // Market orders filled immediately
-        feesApplied: fee.toString(),
+        priceAtOrderTime: new Decimal(marketPrice).toString(),
+        limitPrice: limit.toString(),
+        stopLossPrice: bracket ? new Decimal(bracket.stopLossPrice).toString() : null,
+        takeProfitPrice: bracket ? new Decimal(bracket.takeProfitPrice).toString() : null,
+        status: ORDER_STATUS.PENDING,
+        clientOrderId: clientOrderId ?? null,
       },
     });
 
-    // 2. Create trade record
-    await tx.trades.create({
+    await postReservation(tx, userId, reservation, false, order.id);
+
+    return {
+      orderId: order.id,
+      requestedSize: size.toString(),
+      limitPrice: limit.toString(),
+      lockedAsset: reservation.asset,
+      lockedAmount: reservation.amount.toString(),
+      status: ORDER_STATUS.PENDING,
+    };
+  });
+}
+
+/**
+ * Place a stop_market or take_profit order (rests as pending until triggered)
+ *
+ * Flow:
+ * 1. Validate input, the market's rules and that the trigger is not already crossed
+ * 2. Enforce the user's risk limits (notional at the trigger price)
+ * 3. Create order (status: PENDING)
+ *
+ * No funds are reserved. When the price crosses triggerPrice the
+ * order-matching worker executes it at market via executeTriggerOrder(),
+ * which checks balances at that moment and rejects the order if short.
+ *
+ * @param marketPrice Current market price, recorded as priceAtOrderTime for audit
+ */
+export async function placeTriggerOrder(
+  userId: number,
+  side: string,
+  type: string,
+  baseAsset: string,
+  quoteAsset: string,
+  requestedSize: DecimalInstance,
+  triggerPrice: DecimalInstance,
+  marketPrice: DecimalInstance,
+  clientOrderId?: string
+): Promise<PlaceTriggerOrderResult> {
+  validateOrderInput(side, type, baseAsset, quoteAsset, requestedSize);
+
+  if (!TRIGGER_ORDER_TYPES.includes(type as any)) {
+    throw new Error(`Invalid trigger order type: ${type}`);
+  }
+
+  const size = new Decimal(requestedSize);
+  const trigger = new Decimal(triggerPrice);
+  const market = new Decimal(marketPrice);
+
+  if (trigger.lte(0)) {
+    throw new Error("Trigger price must be > 0");
+  }
+
+  validateMarketRules(await requireMarket(baseAsset, quoteAsset), size, {
+    triggerPrice: trigger,
+  });
+
+  // An already-crossed trigger would execute on the next tick; that's a market order
+  if (isTriggerCrossed(type, side, trigger, market)) {
+    throw new Error(
+      `Trigger price ${trigger.toString()} is already crossed at market price ` +
+        `${market.toString()}. Place a market order instead`
+    );
+  }
+
+  const db = getDb();
+  const order = await db.$transaction(async (tx) => {
+    await enforceRiskLimits(tx, userId, { side, baseAsset, size, price: trigger });
+
+    return await tx.orders.create({
       data: {
-        orderId: order.id,
         userId,
         side,
-        executedPrice: price.toString(),
-        executedSize: size.toString(),
-        fee: fee.toString(),
+        type,
+        baseAsset,
+        quoteAsset,
+        requestedSize: size.toString(),
+        priceAtOrderTime: market.toString(),
+        triggerPrice: trigger.toString(),
+        status: ORDER_STATUS.PENDING,
+        clientOrderId: clientOrderId ?? null,
       },
     });
+  });
 
-    // 3. Update balances
-    if (side === "buy") {
-      // BUY: Deduct cost + fee from USDC, add SOL
-      const newQuoteAvailable = quoteAvailable.minus(cost).minus(fee);
-      await tx.balances.update({
-        where: {
-          userId_asset: { userId, asset: quoteAsset },
-        },
-        data: {
-          available: newQuoteAvailable.toString(),
-          locked: quoteLocked.toString(),
-        },
-      });
-      
-      const newBaseAvailable = baseAvailable.plus(size);
-      await tx.balances.update({
-        where: {
-          userId_asset: { userId, asset: baseAsset },
-        },
-        data: {
-          available: newBaseAvailable.toString(),
-          locked: baseLocked.toString(),
-        },
-      });
-    } else {
-      // SELL: Deduct SOL, add proceeds (price * size - fee) to USDC
-      const newBaseAvailable = baseAvailable.minus(size);
-      await tx.balances.update({
-        where: {
-          userId_asset: { userId, asset: baseAsset },
-        },
-        data: {
-          available: newBaseAvailable.toString(),
-          locked: baseLocked.toString(),
-        },
-      });
-      
-      const proceeds = price.times(size).minus(fee);
-      const newQuoteAvailable = quoteAvailable.plus(proceeds);
-      await tx.balances.update({
-        where: {
-          userId_asset: { userId, asset: quoteAsset },
-        },
-        data: {
-          available: newQuoteAvailable.toString(),
-          locked: quoteLocked.toString(),
-        },
-      });
-    }
+  return {
+    orderId: order.id,
+    type,
+    requestedSize: size.toString(),
+    triggerPrice: trigger.toString(),
+    status: ORDER_STATUS.PENDING,
+  };
+}
 
-    // 5. Update position
-    let position = await tx.positions.findUnique({
-      where: {
-        userId_asset: { userId, asset: baseAsset },
-      },
-    });
+/**
+ * Place a trailing stop order (rests as pending, trigger follows the peak)
+ *
+ * Flow:
+ * 1. Validate input, the market's size rules and trail (exactly one of amount / percent)
+ * 2. Start the peak at the current market price, derive the trigger
+ * 3. Enforce the user's risk limits (notional at the trigger price)
+ * 4. Create order (status: PENDING) + first trigger adjustment
+ *
+ * Like stop_market, no funds are reserved. The order-matching worker moves
+ * the trigger via updateTrailingStops() and executes it at market via
+ * matchTriggerOrders() once the price retraces through it.
+ *
+ * @param marketPrice Current market price: initial peak and priceAtOrderTime
+ */
+export async function placeTrailingStopOrder(
+  userId: number,
+  side: string,
+  baseAsset: string,
+  quoteAsset: string,
+  requestedSize: DecimalInstance,
+  trail: TrailParams,
+  marketPrice: DecimalInstance,
+  clientOrderId?: string
+): Promise<PlaceTrailingStopOrderResult> {
+  validateOrderInput(side, ORDER_TYPE.TRAILING_STOP, baseAsset, quoteAsset, requestedSize);
 
-    if (!position) {
-      // Initialize position
-      position = await tx.positions.create({
-        data: {
-          userId,
-          asset: baseAsset,
-          size: "0",
-          avgEntryPrice: "0",
-        },
-      });
-    }
+  const size = new Decimal(requestedSize);
+  const peak = new Decimal(marketPrice);
 
-    const posSize = new Decimal(position.size);
-    const posAvg = new Decimal(position.avgEntryPrice);
-
-    let newSize: DecimalInstance;
-    let newAvg: DecimalInstance;
-
-    if (side === "buy") {
-      newSize = posSize.plus(size);
-      // Update average entry price
-      newAvg = posSize.isZero()
-        ? price
-        : posSize.times(posAvg).plus(price.times(size)).dividedBy(newSize);
-    } else {
-      newSize = posSize.minus(size);
-      // Reset avg entry price if position closed
-      newAvg = newSize.isZero() ? new Decimal(0) : posAvg;
-    }
+  validateMarketRules(await requireMarket(baseAsset, quoteAsset), size);
+  validateTrail(side, peak, trail);
+  const trigger = calculateTrailingTrigger(side, peak, trail);
+
+  const trailAmount =
+    trail.trailAmount !== undefined ? new Decimal(trail.trailAmount).toString() : null;
+  const trailPercent =
+    trail.trailPercent !== undefined ? new Decimal(trail.trailPercent).toString() : null;
+
+  const db = getDb();
+
+  return await db.$transaction(async (tx) => {
+    await enforceRiskLimits(tx, userId, { side, baseAsset, size, price: trigger });
 
-    await tx.positions.update({
-      where: {
-        userId_asset: { userId, asset: baseAsset },
+    const order = await tx.orders.create({
+      data: {
+        userId,
+        side,
+        type: ORDER_TYPE.TRAILING_STOP,
+        baseAsset,
+        quoteAsset,
+        requestedSize: size.toString(),
+        priceAtOrderTime: peak.toString(),
+        triggerPrice: trigger.toString(),
+        trailAmount,
+        trailPercent,
+        trailingPeak: peak.toString(),
+        status: ORDER_STATUS.PENDING,
+        clientOrderId: clientOrderId ?? null,
       },
+    });
+
+    // Initial trigger level, so the history starts at placement
+    await tx.trailingStopAdjustments.create({
       data: {
-        size: newSize.toString(),
-        avgEntryPrice: newAvg.toString(),
+        orderId: order.id,
+        peakPrice: peak.toString(),
+        triggerPrice: trigger.toString(),
       },
     });
 
     return {
       orderId: order.id,
-      executedSize: size.toString(),
-      executedPrice: price.toString(),
-      feesApplied: fee.toString(),
-      status: ORDER_STATUS.FILLED,
+      requestedSize: size.toString(),
+      trailAmount,
+      trailPercent,
+      trailingPeak: peak.toString(),
+      triggerPrice: trigger.toString(),
+      status: ORDER_STATUS.PENDING,
     };
   });
+}
 
-  return result;
+/**
+ * Cancel a pending order and release its reservation
+ *
+ * Flow:
+ * 1. Lock order row, verify ownership
+ * 2. Validate status transition (pending → cancelled)
+ * 3. Update order status
+ * 4. Release reserved balance from locked → available (limit orders only)
+ *
+ * Bracket groups are cancelled as a whole:
+ * - Cancelling a leg also cancels its sibling (OCO)
+ * - Cancelling a filled bracket entry cancels its pending legs
+ *   (the entry itself stays filled)
+ *
+ * CRITICAL: Lock + status check + release in ONE transaction, so a
+ * concurrent fill can never settle an order whose funds were released.
+ */
+export async function cancelOrder(
+  userId: number,
+  orderId: number
+): Promise<CancelOrderResult> {
+  const db = getDb();
+
+  return await db.$transaction(async (tx) => {
+    await tx.$queryRaw`SELECT id FROM orders WHERE id = ${orderId} FOR UPDATE`;
+
+    const order = await tx.orders.findUnique({
+      where: { id: orderId },
+    });
+
+    // Same error for missing and foreign orders (don't leak existence)
+    if (!order || order.userId !== userId) {
+      throw new Error("Order not found");
+    }
+
+    // Filled bracket entry: withdraw whatever legs are still pending
+    if (order.status === ORDER_STATUS.FILLED && order.stopLossPrice !== null) {
+      const cancelledOrderIds = await cancelBracketLegs(tx, orderId);
+      if (cancelledOrderIds.length === 0) {
+        throw new Error(
+          `Cannot transition from terminal state '${order.status}'. ` +
+            `Bracket legs already filled or cancelled`
+        );
+      }
+
+      return {
+        orderId,
+        releasedAsset: null,
+        releasedAmount: "0",
+        status: order.status,
+        cancelledOrderIds,
+        parentOrderId: orderId,
+      };
+    }
+
+    validateStatusTransition(order.status, ORDER_STATUS.CANCELLED);
+
+    await tx.orders.update({
+      where: { id: orderId },
+      data: { status: ORDER_STATUS.CANCELLED },
+    });
+
+    const reservation = getOrderReservation(order);
+    if (reservation) {
+      await releaseReservation(tx, userId, reservation, orderId);
+    }
+
+    // Bracket leg: one-cancels-other applies to manual cancels too
+    const siblingIds = order.parentOrderId
+      ? await cancelBracketLegs(tx, order.parentOrderId, orderId)
+      : [];
+
+    return {
+      orderId,
+      releasedAsset: reservation?.asset ?? null,
+      releasedAmount: reservation?.amount.toString() ?? "0",
+      status: ORDER_STATUS.CANCELLED,
+      cancelledOrderIds: [orderId, ...siblingIds],
+      parentOrderId: order.parentOrderId,
+    };
+  });
 }
 
 /**
- * Get single order by ID
+ * Get one of a user's orders by ID
+ * Another user's order is not found (null), as in cancelOrder()
  */
-export async function getOrder(orderId: number) {
+export async function getOrder(orderId: number, userId: number) {
   const db = getDb();
-  return await db.orders.findUnique({
+  return await db.orders.findFirst({
     where: {
       id: orderId,
+      userId,
+    },
+    include: {
+      trades: true,
+      children: true, // Bracket legs
+      trailingAdjustments: {
+        orderBy: { createdAt: "asc" },
+      },
     },
   });
 }
@@ -285,6 +616,10 @@ export async function getUserOrders(userId: number) {
     where: {
       userId,
     },
+    include: {
+      trades: true,
+      children: true, // Bracket legs
+    },
     orderBy: {
       createdAt: "desc",
     },
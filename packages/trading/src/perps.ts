@@ -0,0 +1,850 @@
+/**
+ * Perpetual Futures
+ * Isolated-margin long/short contracts on the spot index price
+ *
+ * A perp position never holds the underlying. Opening one moves collateral
+ * (notional / leverage) plus the fee out of the USDC balance into the
+ * position's margin; closing pays margin + P&L - fee back. Trades execute at
+ * the mark price (see funding.ts). For a position of signed size s:
+ *   unrealizedPnl     = s * (mark - entryPrice)
+ *   equity            = margin + unrealizedPnl
+ *   maintenanceMargin = |s| * mark * MAINTENANCE_MARGIN_RATIO / MAX_LEVERAGE
+ * Below the maintenance margin the liquidation worker closes the position.
+ * A loss never reaches past the position's margin (isolated): any deficit
+ * left by a close is written off.
+ *
+ * Lock order: risk limits (as for spot orders), quote balance, then the
+ * position (funding locks positions only).
+ */
+
+import { Decimal } from "decimal.js";
+import type { Decimal as DecimalInstance } from "decimal.js";
+import { getDb } from "@repo/db";
+import { calculateFee } from "./fees.js";
+import { getMaxLeverage } from "./margin.js";
+import { getUserFeeTier } from "./feeTiers.js";
+import {
+  calculateFundingRate,
+  calculateMarkPrice,
+  getMarkPrice,
+  getNextFundingTime,
+  getPerpOpenInterest,
+} from "./funding.js";
+import { postJournal, systemAccount, transfer, userAccount } from "./journal.js";
+import { tradingError } from "./errors.js";
+import { enforcePerpRiskLimits } from "./riskLimits.js";
+import {
+  FUNDING_INTERVAL_MS,
+  JOURNAL_ACCOUNT,
+  JOURNAL_TYPE,
+  MAINTENANCE_MARGIN_RATIO,
+  ORDER_SIDE,
+  PERP_MARKETS,
+  PERP_SIDE,
+  PERP_TRADE_TYPE,
+  SIZE_DECIMALS,
+  TRADING_ERROR_CODE,
+} from "./constants.js";
+
+export type PerpMarket = keyof typeof PERP_MARKETS;
+export type PerpSide = (typeof PERP_SIDE)[keyof typeof PERP_SIDE];
+
+export interface PerpPositionSnapshot {
+  notional: DecimalInstance;
+  unrealizedPnl: DecimalInstance;
+  equity: DecimalInstance;
+  maintenanceMargin: DecimalInstance;
+  liquidationPrice: DecimalInstance | null; // null when flat or out of reach
+}
+
+export interface PerpPositionStatus {
+  id: number;
+  market: string;
+  side: PerpSide;
+  size: string; // Signed: negative for a short
+  entryPrice: string;
+  margin: string;
+  markPrice: string;
+  notional: string;
+  unrealizedPnl: string;
+  equity: string;
+  leverage: string | null; // notional / equity, null when equity <= 0
+  maintenanceMargin: string;
+  liquidationPrice: string | null;
+  liquidatable: boolean;
+  realizedPnl: string;
+  fundingPnl: string;
+}
+
+export interface PerpTradeResult {
+  tradeId: number;
+  positionId: number;
+  market: string;
+  side: string; // 'buy' | 'sell'
+  price: string; // Mark price
+  size: string;
+  fee: string;
+  feeTier: string; // Tier applied (volume tier, or the user's override label); taker rate
+  realizedPnl: string | null; // Reducing trades only, net of fee
+  position: {
+    size: string;
+    entryPrice: string;
+    margin: string;
+    realizedPnl: string;
+    fundingPnl: string;
+  };
+}
+
+export interface PerpLiquidationResult extends PerpTradeResult {
+  userId: number;
+  equity: string; // Equity when liquidated
+  maintenanceMargin: string; // Requirement it fell below
+  badDebt: string; // Loss beyond the position's margin, written off
+}
+
+export interface PerpMarketStatus {
+  market: string;
+  baseAsset: string;
+  quoteAsset: string;
+  indexPrice: string;
+  markPrice: string;
+  fundingRate: string; // Rate the next settlement would apply at current open interest
+  nextFundingTime: Date;
+  fundingIntervalMs: number;
+  openInterest: { long: string; short: string };
+  maxLeverage: string;
+}
+
+interface LockedPerpPosition {
+  id: number;
+  userId: number;
+  market: string;
+  size: string;
+  entryPrice: string;
+  margin: string;
+  realizedPnl: string;
+  fundingPnl: string;
+}
+
+/**
+ * Validate a perp market symbol
+ * @throws Error if market is not one of PERP_MARKETS
+ */
+export function validatePerpMarket(market: string): PerpMarket {
+  if (!Object.prototype.hasOwnProperty.call(PERP_MARKETS, market)) {
+    throw new Error(
+      `Unsupported perp market: ${market}. ` +
+        `Supported: ${Object.keys(PERP_MARKETS).join(", ")}`
+    );
+  }
+  return market as PerpMarket;
+}
+
+/**
+ * Get a perp market's mark price, predicted funding rate and open interest
+ */
+export async function getPerpMarketStatus(
+  market: string,
+  indexPrice: DecimalInstance
+): Promise<PerpMarketStatus> {
+  const validMarket = validatePerpMarket(market);
+  const { baseAsset, quoteAsset } = PERP_MARKETS[validMarket];
+  const db = getDb();
+
+  const openInterest = await getPerpOpenInterest(db, validMarket);
+  const markPrice = calculateMarkPrice(indexPrice, openInterest);
+
+  return {
+    market: validMarket,
+    baseAsset,
+    quoteAsset,
+    indexPrice: new Decimal(indexPrice).toString(),
+    markPrice: markPrice.toString(),
+    fundingRate: calculateFundingRate(indexPrice, markPrice).toString(),
+    nextFundingTime: getNextFundingTime(),
+    fundingIntervalMs: FUNDING_INTERVAL_MS,
+    openInterest: {
+      long: openInterest.long.toString(),
+      short: openInterest.short.toString(),
+    },
+    maxLeverage: getMaxLeverage().toString(),
+  };
+}
+
+/**
+ * Validate a position leverage
+ * @throws Error if leverage is not between 1 and MAX_LEVERAGE
+ */
+export function validatePerpLeverage(
+  leverage: DecimalInstance,
+  maxLeverage: DecimalInstance
+): void {
+  if (leverage.lt(1) || leverage.gt(maxLeverage)) {
+    throw new Error(
+      `Invalid leverage: ${leverage.toString()}. Must be between 1 and ${maxLeverage.toString()}`
+    );
+  }
+}
+
+/**
+ * Calculate a position's P&L, equity and liquidation price at a mark price
+ *
+ * liquidationPrice solves margin + s * (p - entry) = |s| * p * maintenanceRate:
+ *   p = (s * entry - margin) / (s - |s| * maintenanceRate)
+ */
+export function calculatePerpPosition(
+  size: DecimalInstance,
+  entryPrice: DecimalInstance,
+  margin: DecimalInstance,
+  markPrice: DecimalInstance,
+  leverage: DecimalInstance
+): PerpPositionSnapshot {
+  const s = new Decimal(size);
+  const maintenanceRate = new Decimal(MAINTENANCE_MARGIN_RATIO).dividedBy(leverage);
+
+  const notional = s.abs().times(markPrice);
+  const unrealizedPnl = s.times(new Decimal(markPrice).minus(entryPrice));
+  const equity = new Decimal(margin).plus(unrealizedPnl);
+  const maintenanceMargin = notional.times(maintenanceRate);
+
+  let liquidationPrice: Decimal | null = null;
+  if (!s.isZero()) {
+    const p = s
+      .times(entryPrice)
+      .minus(margin)
+      .dividedBy(s.minus(s.abs().times(maintenanceRate)));
+    liquidationPrice = p.gt(0) ? p : null;
+  }
+
+  return { notional, unrealizedPnl, equity, maintenanceMargin, liquidationPrice };
+}
+
+/**
+ * Lock the user's quote balance (FOR UPDATE)
+ */
+async function lockQuoteBalance(
+  tx: any,
+  userId: number,
+  quoteAsset: string
+): Promise<DecimalInstance> {
+  const rows: Array<{ available: string }> = await tx.$queryRaw`
+    SELECT available::text
+    FROM balances
+    WHERE "userId" = ${userId} AND asset = ${quoteAsset}
+    FOR UPDATE
+  `;
+  if (rows.length === 0) {
+    throw new Error(`${quoteAsset} balance not found`);
+  }
+  return new Decimal(rows[0]!.available);
+}
+
+/**
+ * Lock the user's position in a market (FOR UPDATE), creating a flat one if missing
+ */
+async function lockPerpPosition(
+  tx: any,
+  userId: number,
+  market: string
+): Promise<LockedPerpPosition> {
+  await tx.perpPositions.upsert({
+    where: { userId_market: { userId, market } },
+    create: { userId, market, size: "0", entryPrice: "0", margin: "0" },
+    update: {},
+  });
+
+  const rows: LockedPerpPosition[] = await tx.$queryRaw`
+    SELECT id, "userId", market, size::text, "entryPrice"::text, margin::text,
+           "realizedPnl"::text, "fundingPnl"::text
+    FROM perp_positions
+    WHERE "userId" = ${userId} AND market = ${market}
+    FOR UPDATE
+  `;
+  return rows[0]!;
+}
+
+/**
+ * Close (part of) a locked position at the mark price
+ *
+ * Pays released margin + P&L - fee back to the quote balance. A negative
+ * settlement (loss beyond the margin) is floored at zero and reported as
+ * bad debt.
+ */
+async function closeLockedPosition(
+  tx: any,
+  position: LockedPerpPosition,
+  quoteAsset: string,
+  closeSize: DecimalInstance,
+  markPrice: DecimalInstance,
+  type: string
+): Promise<PerpTradeResult & { badDebt: DecimalInstance }> {
+  const currentSize = new Decimal(position.size);
+  const absSize = currentSize.abs();
+  const direction = currentSize.isNegative() ? -1 : 1;
+  const margin = new Decimal(position.margin);
+
+  const pnl = closeSize
+    .times(new Decimal(markPrice).minus(position.entryPrice))
+    .times(direction);
+  const feeTier = await getUserFeeTier(tx, position.userId);
+  const fee = calculateFee(markPrice, closeSize, feeTier.takerRate).toDecimalPlaces(SIZE_DECIMALS);
+  const releasedMargin = closeSize.eq(absSize)
+    ? margin
+    : margin.times(closeSize).dividedBy(absSize).toDecimalPlaces(SIZE_DECIMALS, Decimal.ROUND_DOWN);
+
+  const settlement = releasedMargin.plus(pnl).minus(fee);
+  const payout = Decimal.max(settlement, 0);
+  const badDebt = payout.minus(settlement);
+  const realizedPnl = payout.minus(releasedMargin);
+
+  const newSize = currentSize.minus(closeSize.times(direction));
+  const side = direction === 1 ? ORDER_SIDE.SELL : ORDER_SIDE.BUY;
+
+  const trade = await tx.perpTrades.create({
+    data: {
+      positionId: position.id,
+      userId: position.userId,
+      market: position.market,
+      side,
+      type,
+      price: markPrice.toString(),
+      size: closeSize.toString(),
+      fee: fee.toString(),
+      feeTier: feeTier.appliedTier,
+      feeRate: feeTier.takerRate.toString(),
+      realizedPnl: realizedPnl.toString(),
+    },
+  });
+
+  const available = userAccount(position.userId, JOURNAL_ACCOUNT.AVAILABLE);
+  await postJournal(tx, {
+    type: JOURNAL_TYPE.PERP_SETTLEMENT,
+    userId: position.userId,
+    perpTradeId: trade.id,
+    entries: [
+      ...transfer(
+        userAccount(position.userId, JOURNAL_ACCOUNT.PERP_MARGIN),
+        available,
+        quoteAsset,
+        releasedMargin
+      ),
+      ...transfer(systemAccount(JOURNAL_ACCOUNT.MARKET), available, quoteAsset, pnl),
+    ],
+  });
+  await postJournal(tx, {
+    type: JOURNAL_TYPE.FEE,
+    userId: position.userId,
+    perpTradeId: trade.id,
+    entries: transfer(available, systemAccount(JOURNAL_ACCOUNT.FEES), quoteAsset, fee),
+  });
+  if (badDebt.gt(0)) {
+    await postJournal(tx, {
+      type: JOURNAL_TYPE.BAD_DEBT,
+      userId: position.userId,
+      perpTradeId: trade.id,
+      entries: transfer(systemAccount(JOURNAL_ACCOUNT.BAD_DEBT), available, quoteAsset, badDebt),
+    });
+  }
+
+  const updated = {
+    size: newSize.toString(),
+    entryPrice: newSize.isZero() ? "0" : position.entryPrice,
+    margin: margin.minus(releasedMargin).toString(),
+    realizedPnl: new Decimal(position.realizedPnl).plus(realizedPnl).toString(),
+    fundingPnl: position.fundingPnl,
+  };
+
+  await tx.perpPositions.update({
+    where: { id: position.id },
+    data: {
+      size: updated.size,
+      entryPrice: updated.entryPrice,
+      margin: updated.margin,
+      realizedPnl: updated.realizedPnl,
+    },
+  });
+
+  return {
+    tradeId: trade.id,
+    positionId: position.id,
+    market: position.market,
+    side,
+    price: markPrice.toString(),
+    size: closeSize.toString(),
+    fee: fee.toString(),
+    feeTier: feeTier.appliedTier,
+    realizedPnl: realizedPnl.toString(),
+    position: updated,
+    badDebt,
+  };
+}
+
+/**
+ * Open or add to a perp position at the mark price
+ *
+ * Moves notional / leverage into the position's margin and charges the
+ * fee, both from the quote balance. Adding to a position averages the
+ * entry price; a position on the other side must be closed first.
+ * The user's risk limits apply (notional, position size, daily loss).
+ * @throws Error if leverage is out of range, the opposite side is open,
+ *         a risk limit is exceeded, or the balance does not cover margin + fee
+ */
+export async function openPerpPosition(
+  userId: number,
+  market: string,
+  side: string,
+  size: DecimalInstance,
+  leverage: DecimalInstance,
+  indexPrice: DecimalInstance
+): Promise<PerpTradeResult> {
+  const validMarket = validatePerpMarket(market);
+  const { quoteAsset } = PERP_MARKETS[validMarket];
+  validatePerpLeverage(leverage, getMaxLeverage());
+
+  if (side !== PERP_SIDE.LONG && side !== PERP_SIDE.SHORT) {
+    throw new Error(`Invalid perp side: ${side}. Must be long or short`);
+  }
+
+  const db = getDb();
+
+  return await db.$transaction(async (tx) => {
+    const markPrice = await getMarkPrice(tx, validMarket, indexPrice);
+    await enforcePerpRiskLimits(tx, userId, validMarket, {
+      side: side === PERP_SIDE.LONG ? ORDER_SIDE.BUY : ORDER_SIDE.SELL,
+      size,
+      price: markPrice,
+    });
+
+    const quoteAvailable = await lockQuoteBalance(tx, userId, quoteAsset);
+    const position = await lockPerpPosition(tx, userId, validMarket);
+
+    const currentSize = new Decimal(position.size);
+    const signedSize = side === PERP_SIDE.LONG ? size : size.negated();
+    if (!currentSize.isZero() && currentSize.isNegative() !== signedSize.isNegative()) {
+      const openSide = currentSize.isNegative() ? PERP_SIDE.SHORT : PERP_SIDE.LONG;
+      throw new Error(
+        `Cannot open a ${side} while a ${openSide} ${validMarket} position is open. Close it first`
+      );
+    }
+
+    const notional = size.times(markPrice);
+    const initialMargin = notional
+      .dividedBy(leverage)
+      .toDecimalPlaces(SIZE_DECIMALS, Decimal.ROUND_UP);
+    const feeTier = await getUserFeeTier(tx, userId);
+    const fee = calculateFee(markPrice, size, feeTier.takerRate).toDecimalPlaces(SIZE_DECIMALS);
+    const required = initialMargin.plus(fee);
+
+    if (quoteAvailable.lt(required)) {
+      throw tradingError(
+        TRADING_ERROR_CODE.INSUFFICIENT_BALANCE,
+        `Insufficient ${quoteAsset} balance. Need ${required.toString()} ` +
+          `(margin ${initialMargin.toString()} + fee ${fee.toString()}), ` +
+          `have ${quoteAvailable.toString()}`
+      );
+    }
+
+    const newSize = currentSize.plus(signedSize);
+    const entryPrice = currentSize.isZero()
+      ? markPrice
+      : currentSize
+          .abs()
+          .times(position.entryPrice)
+          .plus(notional)
+          .dividedBy(newSize.abs())
+          .toDecimalPlaces(SIZE_DECIMALS);
+    const tradeSide = side === PERP_SIDE.LONG ? ORDER_SIDE.BUY : ORDER_SIDE.SELL;
+
+    const trade = await tx.perpTrades.create({
+      data: {
+        positionId: position.id,
+        userId,
+        market: validMarket,
+        side: tradeSide,
+        type: PERP_TRADE_TYPE.MARKET,
+        price: markPrice.toString(),
+        size: size.toString(),
+        fee: fee.toString(),
+        feeTier: feeTier.appliedTier,
+        feeRate: feeTier.takerRate.toString(),
+      },
+    });
+
+    const available = userAccount(userId, JOURNAL_ACCOUNT.AVAILABLE);
+    await postJournal(tx, {
+      type: JOURNAL_TYPE.PERP_MARGIN,
+      userId,
+      perpTradeId: trade.id,
+      entries: transfer(
+        available,
+        userAccount(userId, JOURNAL_ACCOUNT.PERP_MARGIN),
+        quoteAsset,
+        initialMargin
+      ),
+    });
+    await postJournal(tx, {
+      type: JOURNAL_TYPE.FEE,
+      userId,
+      perpTradeId: trade.id,
+      entries: transfer(available, systemAccount(JOURNAL_ACCOUNT.FEES), quoteAsset, fee),
+    });
+
+    const updated = {
+      size: newSize.toString(),
+      entryPrice: entryPrice.toString(),
+      margin: new Decimal(position.margin).plus(initialMargin).toString(),
+      realizedPnl: new Decimal(position.realizedPnl).minus(fee).toString(),
+      fundingPnl: position.fundingPnl,
+    };
+
+    await tx.perpPositions.update({
+      where: { id: position.id },
+      data: {
+        size: updated.size,
+        entryPrice: updated.entryPrice,
+        margin: updated.margin,
+        realizedPnl: updated.realizedPnl,
+      },
+    });
+
+    return {
+      tradeId: trade.id,
+      positionId: position.id,
+      market: validMarket,
+      side: tradeSide,
+      price: markPrice.toString(),
+      size: size.toString(),
+      fee: fee.toString(),
+      feeTier: feeTier.appliedTier,
+      realizedPnl: null,
+      position: updated,
+    };
+  });
+}
+
+/**
+ * Close a perp position (all of it, or size of it) at the mark price
+ * @throws Error if no position is open or size exceeds it
+ */
+export async function closePerpPosition(
+  userId: number,
+  market: string,
+  indexPrice: DecimalInstance,
+  size?: DecimalInstance
+): Promise<PerpTradeResult> {
+  const validMarket = validatePerpMarket(market);
+  const { quoteAsset } = PERP_MARKETS[validMarket];
+  const db = getDb();
+
+  return await db.$transaction(async (tx) => {
+    await lockQuoteBalance(tx, userId, quoteAsset);
+    const position = await lockPerpPosition(tx, userId, validMarket);
+
+    const absSize = new Decimal(position.size).abs();
+    if (absSize.isZero()) {
+      throw new Error(`No open ${validMarket} position`);
+    }
+    if (size && size.gt(absSize)) {
+      throw new Error(
+        `Close size ${size.toString()} exceeds the ${validMarket} position size ${absSize.toString()}`
+      );
+    }
+
+    const markPrice = await getMarkPrice(tx, validMarket, indexPrice);
+    const { badDebt, ...result } = await closeLockedPosition(
+      tx,
+      position,
+      quoteAsset,
+      size ?? absSize,
+      markPrice,
+      PERP_TRADE_TYPE.MARKET
+    );
+    return result;
+  });
+}
+
+/**
+ * Add collateral to an open position, or remove it
+ *
+ * Removing is limited to what keeps equity at or above the initial margin
+ * at MAX_LEVERAGE (the same bar as opening the position at full leverage).
+ * Adding is refused once the user's daily loss limit is reached.
+ * @throws Error if no position is open, the balance does not cover an
+ *         addition, a risk limit is exceeded, or a removal would leave too
+ *         little margin
+ */
+export async function adjustPerpMargin(
+  userId: number,
+  market: string,
+  amount: DecimalInstance,
+  indexPrice: DecimalInstance
+): Promise<PerpPositionStatus> {
+  const validMarket = validatePerpMarket(market);
+  const { quoteAsset } = PERP_MARKETS[validMarket];
+  const maxLeverage = getMaxLeverage();
+  const db = getDb();
+
+  return await db.$transaction(async (tx) => {
+    if (amount.isPositive()) {
+      await enforcePerpRiskLimits(tx, userId, validMarket, null);
+    }
+
+    const quoteAvailable = await lockQuoteBalance(tx, userId, quoteAsset);
+    const position = await lockPerpPosition(tx, userId, validMarket);
+
+    const size = new Decimal(position.size);
+    if (size.isZero()) {
+      throw new Error(`No open ${validMarket} position`);
+    }
+
+    const markPrice = await getMarkPrice(tx, validMarket, indexPrice);
+    const margin = new Decimal(position.margin).plus(amount);
+
+    if (amount.isPositive() && quoteAvailable.lt(amount)) {
+      throw tradingError(
+        TRADING_ERROR_CODE.INSUFFICIENT_BALANCE,
+        `Insufficient ${quoteAsset} balance. Need ${amount.toString()}, have ${quoteAvailable.toString()}`
+      );
+    }
+
+    if (amount.isNegative()) {
+      const snapshot = calculatePerpPosition(
+        size,
+        new Decimal(position.entryPrice),
+        margin,
+        markPrice,
+        maxLeverage
+      );
+      const initialMargin = snapshot.notional.dividedBy(maxLeverage);
+      if (snapshot.equity.lt(initialMargin)) {
+        throw tradingError(
+          TRADING_ERROR_CODE.INSUFFICIENT_MARGIN,
+          `Insufficient margin. Removing ${amount.abs().toString()} ${quoteAsset} would leave ` +
+            `equity ${snapshot.equity.toString()}, below the initial margin ` +
+            `${initialMargin.toString()} at ${maxLeverage.toString()}x`
+        );
+      }
+    }
+
+    await postJournal(tx, {
+      type: JOURNAL_TYPE.PERP_MARGIN,
+      userId,
+      entries: transfer(
+        userAccount(userId, JOURNAL_ACCOUNT.AVAILABLE),
+        userAccount(userId, JOURNAL_ACCOUNT.PERP_MARGIN),
+        quoteAsset,
+        amount
+      ),
+    });
+
+    await tx.perpPositions.update({
+      where: { id: position.id },
+      data: { margin: margin.toString() },
+    });
+
+    return toPositionStatus({ ...position, margin: margin.toString() }, markPrice, maxLeverage);
+  });
+}
+
+/**
+ * Build the API view of a position at a mark price
+ */
+function toPositionStatus(
+  position: Omit<LockedPerpPosition, "userId">,
+  markPrice: DecimalInstance,
+  maxLeverage: DecimalInstance
+): PerpPositionStatus {
+  const size = new Decimal(position.size);
+  const snapshot = calculatePerpPosition(
+    size,
+    new Decimal(position.entryPrice),
+    new Decimal(position.margin),
+    markPrice,
+    maxLeverage
+  );
+
+  return {
+    id: position.id,
+    market: position.market,
+    side: size.isNegative() ? PERP_SIDE.SHORT : PERP_SIDE.LONG,
+    size: size.toString(),
+    entryPrice: new Decimal(position.entryPrice).toString(),
+    margin: new Decimal(position.margin).toString(),
+    markPrice: markPrice.toString(),
+    notional: snapshot.notional.toString(),
+    unrealizedPnl: snapshot.unrealizedPnl.toString(),
+    equity: snapshot.equity.toString(),
+    leverage: snapshot.equity.gt(0)
+      ? snapshot.notional.dividedBy(snapshot.equity).toString()
+      : null,
+    maintenanceMargin: snapshot.maintenanceMargin.toString(),
+    liquidationPrice: snapshot.liquidationPrice?.toString() ?? null,
+    liquidatable: snapshot.equity.lt(snapshot.maintenanceMargin),
+    realizedPnl: new Decimal(position.realizedPnl).toString(),
+    fundingPnl: new Decimal(position.fundingPnl).toString(),
+  };
+}
+
+/**
+ * Get a user's open position in a market at the current index price
+ * @returns null if the user has no open position there
+ */
+export async function getPerpPosition(
+  userId: number,
+  market: string,
+  indexPrice: DecimalInstance
+): Promise<PerpPositionStatus | null> {
+  const validMarket = validatePerpMarket(market);
+  const db = getDb();
+
+  const position = await db.perpPositions.findUnique({
+    where: { userId_market: { userId, market: validMarket } },
+  });
+  if (!position || new Decimal(position.size.toString()).isZero()) {
+    return null;
+  }
+
+  const markPrice = await getMarkPrice(db, validMarket, indexPrice);
+  return toPositionStatus(
+    {
+      id: position.id,
+      market: position.market,
+      size: position.size.toString(),
+      entryPrice: position.entryPrice.toString(),
+      margin: position.margin.toString(),
+      realizedPnl: position.realizedPnl.toString(),
+      fundingPnl: position.fundingPnl.toString(),
+    },
+    markPrice,
+    getMaxLeverage()
+  );
+}
+
+/**
+ * Get a user's perp trades, newest first
+ */
+export async function getPerpTrades(
+  userId: number,
+  market?: string,
+  limit: number = 50
+) {
+  const db = getDb();
+
+  const trades = await db.perpTrades.findMany({
+    where: { userId, ...(market && { market }) },
+    orderBy: { id: "desc" },
+    take: limit,
+  });
+
+  return trades.map((trade) => ({
+    id: trade.id,
+    positionId: trade.positionId,
+    market: trade.market,
+    side: trade.side,
+    type: trade.type,
+    price: trade.price.toString(),
+    size: trade.size.toString(),
+    fee: trade.fee.toString(),
+    feeTier: trade.feeTier,
+    realizedPnl: trade.realizedPnl?.toString() ?? null,
+    createdAt: trade.createdAt,
+  }));
+}
+
+/**
+ * Get the open positions of a market below maintenance margin at an index price
+ */
+export async function getLiquidatablePerpPositions(
+  market: string,
+  indexPrice: DecimalInstance
+): Promise<number[]> {
+  const db = getDb();
+  const leverage = getMaxLeverage();
+
+  const positions = await db.perpPositions.findMany({
+    where: { market, size: { not: 0 } },
+  });
+
+  const openInterest = await getPerpOpenInterest(db, market);
+  const markPrice = calculateMarkPrice(indexPrice, openInterest);
+
+  return positions
+    .filter((position) => {
+      const snapshot = calculatePerpPosition(
+        new Decimal(position.size.toString()),
+        new Decimal(position.entryPrice.toString()),
+        new Decimal(position.margin.toString()),
+        markPrice,
+        leverage
+      );
+      return snapshot.equity.lt(snapshot.maintenanceMargin);
+    })
+    .map((position) => position.id);
+}
+
+/**
+ * Liquidate a perp position at the mark price
+ *
+ * Flow (one transaction):
+ * 1. Lock the quote balance, then the position
+ * 2. Re-check equity < maintenance margin (margin may have been added
+ *    or the position closed since it was selected)
+ * 3. Close the whole position with a 'liquidation' trade; the trader gets
+ *    back whatever equity is left, a loss beyond the margin is bad debt
+ *
+ * @returns null if the position no longer needs liquidating
+ */
+export async function liquidatePerpPosition(
+  positionId: number,
+  indexPrice: DecimalInstance
+): Promise<PerpLiquidationResult | null> {
+  const db = getDb();
+  const leverage = getMaxLeverage();
+
+  return await db.$transaction(async (tx) => {
+    const { userId, market } = await tx.perpPositions.findUniqueOrThrow({
+      where: { id: positionId },
+    });
+    const { quoteAsset } = PERP_MARKETS[validatePerpMarket(market)];
+
+    // 1. Lock (same order as openPerpPosition / closePerpPosition)
+    await lockQuoteBalance(tx, userId, quoteAsset);
+    const position = await lockPerpPosition(tx, userId, market);
+
+    // 2. Re-check under lock
+    const size = new Decimal(position.size);
+    if (size.isZero()) {
+      return null;
+    }
+
+    const markPrice = await getMarkPrice(tx, market, indexPrice);
+    const snapshot = calculatePerpPosition(
+      size,
+      new Decimal(position.entryPrice),
+      new Decimal(position.margin),
+      markPrice,
+      leverage
+    );
+    if (!snapshot.equity.lt(snapshot.maintenanceMargin)) {
+      return null;
+    }
+
+    // 3. Close at mark
+    const { badDebt, ...result } = await closeLockedPosition(
+      tx,
+      position,
+      quoteAsset,
+      size.abs(),
+      markPrice,
+      PERP_TRADE_TYPE.LIQUIDATION
+    );
+
+    return {
+      ...result,
+      userId,
+      equity: snapshot.equity.toString(),
+      maintenanceMargin: snapshot.maintenanceMargin.toString(),
+      badDebt: badDebt.toString(),
+    };
+  });
+}
@@ -1,11 +1,25 @@
 /**
  * Portfolio Management
- * Portfolio initialization and retrieval
+ * Portfolio initialization and retrieval, and performance net of cash flows
  */
 
 import { Decimal } from "decimal.js";
+import type { Decimal as DecimalInstance } from "decimal.js";
 import { getDb } from "@repo/db";
-import { ASSETS, INITIAL_BALANCE } from "./constants.js";
+import { getMarketAssets, getMarkets } from "@repo/pricing";
+import {
+  CASH_FLOW_ASSET,
+  INITIAL_BALANCE,
+  JOURNAL_ACCOUNT,
+  JOURNAL_TYPE,
+  PERP_MARKETS,
+} from "./constants.js";
+import { getCostBasisMethod, type CostBasisMethod } from "./lots.js";
+import { getAccountMode, type AccountMode } from "./margin.js";
+import { getFeeTierStatus, type FeeTierStatus } from "./feeTiers.js";
+import { postJournal, systemAccount, transfer, userAccount } from "./journal.js";
+import { getCashFlowTotals } from "./cashFlows.js";
+import type { PerpMarket } from "./perps.js";
 
 interface Balance {
   asset: string;
@@ -15,20 +29,36 @@ interface Balance {
 
 interface Position {
   asset: string;
-  size: string;
+  size: string; // Negative for a short (margin accounts)
   avgEntryPrice: string;
+  realizedPnl: string; // Cumulative over all closing trades, net of their fees
 }
 
 interface Portfolio {
   userId: number;
   balances: Balance[];
   positions: Position[];
+  totalRealizedPnl: string; // Sum over positions
+  costBasisMethod: CostBasisMethod; // How sells pick tax lots
+  accountMode: AccountMode; // cash or margin (see GET /portfolio/margin)
+  feeTier: FeeTierStatus; // Current fee tier and progress toward the next
   openOrders: any[];
 }
 
+interface Performance {
+  equity: string; // Balances + perp margin and unrealized P&L, in CASH_FLOW_ASSET
+  startingBalance: string; // INITIAL_BALANCE
+  deposited: string;
+  withdrawn: string;
+  netContributions: string; // startingBalance + deposited - withdrawn
+  totalPnl: string; // equity - netContributions
+  totalReturn: string | null; // totalPnl / (startingBalance + deposited), null if nothing was put in
+}
+
 /**
  * Initialize portfolio for a new user
- * Creates initial balances (from INITIAL_BALANCE constant) and SOL position
+ * Creates initial balances (granted from INITIAL_BALANCE in the journal) and
+ * a balance and position for every listed market
  * Called from auth.createOrGetUser() during user registration
  * 
  * Invariants:
@@ -58,53 +88,102 @@ export async function initPortfolio(userId: number): Promise<void> {
     if (existing) {
       return;
     }
-    // Create initial balances for all assets
-    for (const [asset, initialBalance] of Object.entries(INITIAL_BALANCE)) {
-      // Validate balance is valid Decimal-compatible value (string or number)
-      let balanceStr: string;
-      try {
-        // Decimal.js constructor accepts strings, numbers, or Decimal objects
-        balanceStr = new Decimal(initialBalance).toString();
-        
-        // Validate it's not NaN or Infinity
-        if (balanceStr === 'NaN' || balanceStr === 'Infinity') {
-          throw new Error(`Balance is ${balanceStr}`);
-        }
-      } catch (error) {
-        throw new Error(
-          `Invalid INITIAL_BALANCE for ${asset}: ` +
-          `'${initialBalance}' cannot be converted to Decimal. ` +
-          `Error: ${error instanceof Error ? error.message : String(error)}`
-        );
+
+    await grantInitialPortfolio(tx, userId);
+  });
+}
+
+/**
+ * Create a user's initial balances and positions, granting INITIAL_BALANCE
+ * (called within db.$transaction(); the user must have no balances yet)
+ *
+ * Every asset of the active markets gets a balance (0 unless granted) and
+ * every base asset a flat position. Markets listed later get theirs on the
+ * first trade (see executeMarketTrade()).
+ *
+ * Shared by initPortfolio() and resetAccount().
+ * @param tx Prisma transaction context (NOT db!)
+ * @throws Error if INITIAL_BALANCE is invalid
+ */
+export async function grantInitialPortfolio(tx: any, userId: number): Promise<void> {
+  // Create initial balances for all assets
+  for (const [asset, initialBalance] of Object.entries(INITIAL_BALANCE)) {
+    // Validate balance is valid Decimal-compatible value (string or number)
+    let balanceStr: string;
+    try {
+      // Decimal.js constructor accepts strings, numbers, or Decimal objects
+      balanceStr = new Decimal(initialBalance).toString();
+      
+      // Validate it's not NaN or Infinity
+      if (balanceStr === 'NaN' || balanceStr === 'Infinity') {
+        throw new Error(`Balance is ${balanceStr}`);
       }
+    } catch (error) {
+      throw new Error(
+        `Invalid INITIAL_BALANCE for ${asset}: ` +
+        `'${initialBalance}' cannot be converted to Decimal. ` +
+        `Error: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
 
+    // Balances is projected from the journal: start the row at zero,
+    // then grant the balance from equity
+    await tx.balances.create({
+      data: {
+        userId,
+        asset,
+        available: "0",
+        locked: "0",
+      },
+    });
+
+    await postJournal(tx, {
+      type: JOURNAL_TYPE.GRANT,
+      userId,
+      entries: transfer(
+        systemAccount(JOURNAL_ACCOUNT.EQUITY),
+        userAccount(userId, JOURNAL_ACCOUNT.AVAILABLE),
+        asset,
+        balanceStr
+      ),
+    });
+  }
+
+  const markets = await getMarkets();
+  const granted = new Set<string>(Object.keys(INITIAL_BALANCE));
+
+  // Zero balances for the rest of the market assets
+  for (const asset of await getMarketAssets()) {
+    if (!granted.has(asset)) {
       await tx.balances.create({
         data: {
           userId,
           asset,
-          available: balanceStr,
+          available: "0",
           locked: "0",
         },
       });
     }
+  }
 
-    // Create initial position for SOL
+  // Flat position per base asset
+  for (const asset of new Set(markets.map((m) => m.baseAsset))) {
     await tx.positions.create({
       data: {
         userId,
-        asset: ASSETS.SOL,
-        size: "0",       
+        asset,
+        size: "0",
         avgEntryPrice: "0",
       },
     });
-  });
+  }
 }
 
 export async function getPortfolio(userId: number): Promise<Portfolio> {
   const db = getDb();
 
   // Fetch balances, positions, and open orders in parallel
-  const [balances, positions, openOrders] = await Promise.all([
+  const [balances, positions, openOrders, costBasisMethod, accountMode, feeTier] = await Promise.all([
     db.balances.findMany({
       where: { userId },
       orderBy: { asset: "asc" },  
@@ -117,8 +196,16 @@ export async function getPortfolio(userId: number): Promise<Portfolio> {
       where: { userId, status: "pending" },
       orderBy: { createdAt: "desc" },
     }),
+    getCostBasisMethod(db, userId),
+    getAccountMode(db, userId),
+    getFeeTierStatus(userId),
   ]);
 
+  const totalRealizedPnl = positions.reduce(
+    (sum, p) => sum.plus(p.realizedPnl.toString()),
+    new Decimal(0)
+  );
+
   return {
     userId,
     balances: balances.map((b) => ({
@@ -130,7 +217,85 @@ export async function getPortfolio(userId: number): Promise<Portfolio> {
       asset: p.asset,
       size: p.size.toString(),              
       avgEntryPrice: p.avgEntryPrice.toString(),
+      realizedPnl: p.realizedPnl.toString(),
     })),
+    totalRealizedPnl: totalRealizedPnl.toString(),
+    costBasisMethod,
+    accountMode,
+    feeTier,
     openOrders,
   };
 }
+
+/**
+ * Get an account's performance with deposits and withdrawals as external cash flows
+ *
+ * Profit is what equity gained beyond the cash put in, so a deposit or a
+ * faucet top-up raises equity and contributions alike and is never profit:
+ *   equity           = balances (available + locked) valued at the prices
+ *                      + open perp positions' margin + unrealized P&L
+ *   netContributions = INITIAL_BALANCE + deposits - withdrawals
+ *   totalPnl         = equity - netContributions
+ *   totalReturn      = totalPnl / (INITIAL_BALANCE + deposits)
+ * Withdrawals do not shrink the return's base: withdrawing profits does not
+ * inflate the return of what is left.
+ *
+ * @param prices Price of each non-cash asset in CASH_FLOW_ASSET (e.g. SOL)
+ * @throws Error if an asset held has no price
+ */
+export async function getPerformance(
+  userId: number,
+  prices: Record<string, DecimalInstance>
+): Promise<Performance> {
+  const db = getDb();
+  const [balances, perpPositions, cashFlows] = await Promise.all([
+    db.balances.findMany({ where: { userId } }),
+    db.perpPositions.findMany({ where: { userId, size: { not: 0 } } }),
+    getCashFlowTotals(db, userId),
+  ]);
+
+  const valueOf = (asset: string, amount: Decimal.Value) => {
+    const value = new Decimal(amount);
+    if (asset === CASH_FLOW_ASSET || value.isZero()) {
+      return value;
+    }
+    const price = prices[asset];
+    if (!price) {
+      throw new Error(`Price not available for ${asset}`);
+    }
+    return value.times(price);
+  };
+
+  let equity = new Decimal(0);
+  for (const balance of balances) {
+    const total = new Decimal(balance.available.toString()).plus(balance.locked.toString());
+    equity = equity.plus(valueOf(balance.asset, total));
+  }
+  for (const position of perpPositions) {
+    const { baseAsset } = PERP_MARKETS[position.market as PerpMarket];
+    const size = new Decimal(position.size.toString());
+    const unrealizedPnl = valueOf(baseAsset, size).minus(size.times(position.entryPrice.toString()));
+    equity = equity.plus(position.margin.toString()).plus(unrealizedPnl);
+  }
+
+  let startingBalance = new Decimal(0);
+  for (const [asset, initialBalance] of Object.entries(INITIAL_BALANCE)) {
+    startingBalance = startingBalance.plus(valueOf(asset, initialBalance));
+  }
+
+  const netContributions = startingBalance
+    .plus(cashFlows.deposited)
+    .minus(cashFlows.withdrawn);
+  const totalPnl = equity.minus(netContributions);
+  const capital = startingBalance.plus(cashFlows.deposited);
+
+  return {
+    equity: equity.toString(),
+    startingBalance: startingBalance.toString(),
+    deposited: cashFlows.deposited.toString(),
+    withdrawn: cashFlows.withdrawn.toString(),
+    netContributions: netContributions.toString(),
+    totalPnl: totalPnl.toString(),
+    totalReturn: capital.gt(0) ? totalPnl.dividedBy(capital).toString() : null,
+  };
+}
@@ -1,12 +1,119 @@
 /**
  * Position Tracking
- * Manages user holdings of assets (SOL)
+ * Manages user holdings of assets (SOL), long or (margin accounts) short
  */
 
 import {Decimal} from "decimal.js";
 import type { Decimal as DecimalInstance } from "decimal.js";
 import { getDb } from "@repo/db";
 
+export interface RealizedPnl {
+  costBasis: DecimalInstance; // avgEntryPrice * size consumed by the sell
+  realizedPnl: DecimalInstance; // Net of the sell fee
+}
+
+export interface PositionChange {
+  size: DecimalInstance; // Signed: negative for a short
+  avgEntryPrice: DecimalInstance;
+  closedSize: DecimalInstance; // Part of the trade that reduced the existing position
+}
+
+/**
+ * Calculate the P&L realized by selling against the average entry price
+ * costBasis   = avgEntryPrice * size
+ * realizedPnl = price * size - fee - costBasis
+ *
+ * Buy fees are not part of avgEntryPrice, so only the sell fee is netted.
+ */
+export function calculateRealizedPnl(
+  avgEntryPrice: DecimalInstance,
+  executedPrice: DecimalInstance,
+  executedSize: DecimalInstance,
+  fee: DecimalInstance
+): RealizedPnl {
+  const size = new Decimal(executedSize);
+  const costBasis = new Decimal(avgEntryPrice).times(size);
+  const realizedPnl = new Decimal(executedPrice)
+    .times(size)
+    .minus(fee)
+    .minus(costBasis);
+
+  return { costBasis, realizedPnl };
+}
+
+/**
+ * Calculate the P&L realized by buying back (covering) a short
+ * costBasis   = avgEntryPrice * size (what the short was opened at)
+ * realizedPnl = costBasis - price * size - fee
+ */
+export function calculateShortRealizedPnl(
+  avgEntryPrice: DecimalInstance,
+  executedPrice: DecimalInstance,
+  executedSize: DecimalInstance,
+  fee: DecimalInstance
+): RealizedPnl {
+  const size = new Decimal(executedSize);
+  const costBasis = new Decimal(avgEntryPrice).times(size);
+  const realizedPnl = costBasis
+    .minus(new Decimal(executedPrice).times(size))
+    .minus(fee);
+
+  return { costBasis, realizedPnl };
+}
+
+/**
+ * Calculate a position after a trade
+ *
+ * Size is signed (negative = short). A trade in the direction of the
+ * position (or from flat) adds to it at the weighted average price:
+ *   newAvg = (oldAvg * |oldSize| + price * size) / |newSize|
+ * A trade against it closes up to |oldSize| (closedSize) and keeps the
+ * average; reaching zero clears it, flipping sides re-opens at the price.
+ */
+export function calculatePositionChange(
+  currentSize: DecimalInstance,
+  currentAvg: DecimalInstance,
+  side: string,
+  executedPrice: DecimalInstance,
+  executedSize: DecimalInstance
+): PositionChange {
+  const size = new Decimal(executedSize);
+  const price = new Decimal(executedPrice);
+  const oldSize = new Decimal(currentSize);
+  const oldAvg = new Decimal(currentAvg);
+
+  const delta = side === "buy" ? size : size.negated();
+  const newSize = oldSize.plus(delta);
+
+  // Opening or adding: recalculate weighted average entry price
+  if (oldSize.isZero() || oldSize.isNegative() === delta.isNegative()) {
+    return {
+      size: newSize,
+      avgEntryPrice: oldSize.isZero()
+        ? price // First trade: cost basis = execution price
+        : oldAvg.times(oldSize.abs()).plus(price.times(size)).dividedBy(newSize.abs()),
+      closedSize: new Decimal(0),
+    };
+  }
+
+  // Reducing: keep avg for a partial close, clear it on a full close,
+  // re-open at the execution price when the trade flips the side
+  let newAvg: Decimal;
+  if (newSize.isZero()) {
+    newAvg = new Decimal(0);
+  } else if (newSize.isNegative() === oldSize.isNegative()) {
+    newAvg = oldAvg;
+  } else {
+    newAvg = price;
+  }
+
+  return {
+    size: newSize,
+    avgEntryPrice: newAvg,
+    closedSize: Decimal.min(oldSize.abs(), size),
+  };
+}
+
 /**
  * Initialize a position for a user asset
  * Creates position with size=0, avgEntryPrice=0
@@ -43,10 +150,12 @@ export async function initPosition(
 }
 /**
  * Update position after trade execution (called within db.$transaction())
- * On buy: increase size, recalculate avg entry price
- * On sell: decrease size, keep avg entry price
- * Invariant: size >= 0 always
+ * Applies calculatePositionChange() and adds the trade's realized P&L
+ *
+ * Size may go negative (a short) for margin accounts. Cash accounts never
+ * get there: their sells are checked against the base balance first.
  * @param tx Prisma transaction context (NOT db!)
+ * @param realizedPnl P&L realized by the trade (from recordTradeCostBasis), added to the running total
  */
 export async function updatePosition(
   tx: any,  // Prisma transaction context for atomicity
@@ -54,7 +163,8 @@ export async function updatePosition(
   asset: string,
   side: "buy" | "sell",
   executedPrice: DecimalInstance,
-  executedSize: DecimalInstance
+  executedSize: DecimalInstance,
+  realizedPnl?: DecimalInstance
 ): Promise<void> {
   const position = await tx.positions.findUniqueOrThrow({
     where: {
@@ -64,59 +174,23 @@ export async function updatePosition(
       },
     },
   });
-  const price = new Decimal(executedPrice);
-  const size = new Decimal(executedSize);
-  const currentAvg = new Decimal(position.avgEntryPrice);
-  const currentSize = new Decimal(position.size);
 
-  let newSize: Decimal;
-  let newAvg: Decimal;
-  if (side === "buy") {
-    newSize = currentSize.plus(size);
-    
-    // Sanity check: size must be positive after buy
-    if (newSize.lte(0)) {
-      throw new Error(
-        `Invalid position size after buy: ${newSize}. ` +
-        `oldSize=${currentSize}, buySize=${size}`
-      );
-    }
-    
-    // Recalculate weighted average entry price
-    if (currentSize.isZero()) {
-      // First buy: cost basis = execution price
-      newAvg = price;
-    } else {
-      // Pyramid: newAvg = (oldAvg * oldSize + price * newSize) / (oldSize + newSize)
-      newAvg = currentAvg
-        .times(currentSize)
-        .plus(price.times(size))
-        .dividedBy(newSize);
-    }
-  } else {
-    newSize = currentSize.minus(size);
-
-    // Invariant: size cannot go negative
-    if (newSize.isNegative()) {
-      throw new Error(
-        `Position update error: selling ${size} but only own ${currentSize} ` +
-          `for user ${userId} asset ${asset}`
-      );
-    }
-    
-    // FIX: Reset avgEntryPrice to 0 if position fully closed
-    if (newSize.isZero()) {
-      newAvg = new Decimal('0');  // Clear cost basis on full close
-    } else {
-      newAvg = currentAvg;  // Keep avg for partial close (P&L tracking)
-    }
-  }
+  const change = calculatePositionChange(
+    new Decimal(position.size),
+    new Decimal(position.avgEntryPrice),
+    side,
+    executedPrice,
+    executedSize
+  );
 
   await tx.positions.update({
     where: { userId_asset: { userId, asset } },
     data: {
-      size: newSize.toString(),      // String preserves exact decimal precision
-      avgEntryPrice: newAvg.toString(), // String preserves exact decimal precision
+      size: change.size.toString(),      // String preserves exact decimal precision
+      avgEntryPrice: change.avgEntryPrice.toString(), // String preserves exact decimal precision
+      ...(realizedPnl && {
+        realizedPnl: new Decimal(position.realizedPnl).plus(realizedPnl).toString(),
+      }),
     },
   });
 }
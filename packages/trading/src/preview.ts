@@ -0,0 +1,187 @@
+/**
+ * Order Preview
+ * Dry-run of a market order against the real rules, without writing anything
+ */
+
+import { Decimal } from "decimal.js";
+import type { Decimal as DecimalInstance } from "decimal.js";
+import { getDb } from "@repo/db";
+import { validateOrderInput, requireMarket, validateMarketRules } from "./validation.js";
+import { getMarginParams, projectMarketTrade } from "./execution.js";
+import { validateBracket, type BracketParams } from "./brackets.js";
+import { previewTradeCostBasis } from "./lots.js";
+import { applyPriceImpact } from "./slippage.js";
+import { getAccountMode } from "./margin.js";
+import { getUserFeeTier } from "./feeTiers.js";
+import { ACCOUNT_MODE, ORDER_SIDE } from "./constants.js";
+
+export interface BalancePreview {
+  asset: string;
+  available: string;
+  projectedAvailable: string;
+}
+
+export interface OrderPreview {
+  side: string;
+  baseAsset: string;
+  quoteAsset: string;
+  executedSize: string;
+  executedPrice: string;
+  referencePrice: string; // Market price before price impact
+  priceImpact: string; // Fraction the price moved against the order
+  slippage: string; // |executedPrice - referencePrice| * size, in the quote asset
+  cost: string; // price * size
+  fee: string;
+  feeTier: string; // Tier applied (volume tier, or the user's override label)
+  feeRate: string; // Taker rate
+  quoteAmount: string; // Quote spent (buy) or received (sell), fee included
+  realizedPnl: string | null; // Closing trades only, net of the fee, per the user's cost-basis method
+  balances: BalancePreview[]; // Quote first, then base
+  position: {
+    size: string;
+    avgEntryPrice: string;
+    projectedSize: string;
+    projectedAvgEntryPrice: string;
+  };
+}
+
+/**
+ * Preview a market order at the given price
+ *
+ * Runs the same validation and math as placeOrder() (price impact, fee,
+ * balance checks, average entry price) via applyPriceImpact() and
+ * projectMarketTrade(), reading balances and the position without locks. The projection is only as good as the moment it
+ * was taken: a later placeOrder() uses the price and balances at that time.
+ *
+ * @throws Error with the same messages as placeOrder() (e.g. "Insufficient ...")
+ */
+export async function previewOrder(
+  userId: number,
+  side: string,
+  baseAsset: string,
+  quoteAsset: string,
+  requestedSize: DecimalInstance,
+  executionPrice: DecimalInstance,
+  bracket?: BracketParams
+): Promise<OrderPreview> {
+  validateOrderInput(side, "market", baseAsset, quoteAsset, requestedSize);
+
+  const size = new Decimal(requestedSize);
+  const price = new Decimal(executionPrice);
+
+  if (price.lte(0)) {
+    throw new Error("Price must be > 0");
+  }
+
+  const market = await requireMarket(baseAsset, quoteAsset);
+  validateMarketRules(market, size, {
+    stopLossPrice: bracket && new Decimal(bracket.stopLossPrice),
+    takeProfitPrice: bracket && new Decimal(bracket.takeProfitPrice),
+  });
+
+  if (bracket) {
+    validateBracket(side, price, bracket);
+  }
+
+  const db = getDb();
+
+  const [quoteBalance, baseBalance, position, accountMode, feeTier] = await Promise.all([
+    db.balances.findUnique({
+      where: { userId_asset: { userId, asset: quoteAsset } },
+    }),
+    db.balances.findUnique({
+      where: { userId_asset: { userId, asset: baseAsset } },
+    }),
+    db.positions.findUnique({
+      where: { userId_asset: { userId, asset: baseAsset } },
+    }),
+    getAccountMode(db, userId),
+    getUserFeeTier(db, userId),
+  ]);
+
+  if (!quoteBalance) {
+    throw new Error(`No ${quoteAsset} balance found for user ${userId}`);
+  }
+
+  const quoteAvailable = new Decimal(quoteBalance.available);
+  const baseAvailable = new Decimal(baseBalance?.available ?? 0);
+  const positionSize = new Decimal(position?.size ?? 0);
+  const avgEntryPrice = new Decimal(position?.avgEntryPrice ?? 0);
+
+  const execution = applyPriceImpact(side, size, price);
+  const executedPrice = execution.executedPrice;
+
+  const projection = projectMarketTrade(
+    side,
+    baseAsset,
+    quoteAsset,
+    size,
+    executedPrice,
+    {
+      quoteAvailable,
+      baseAvailable,
+      positionSize,
+      avgEntryPrice,
+    },
+    accountMode === ACCOUNT_MODE.MARGIN
+      ? await getMarginParams(db, userId, side, baseAsset, quoteAsset, size, {
+          quoteLocked: new Decimal(quoteBalance.locked),
+          baseAvailable,
+          baseLocked: new Decimal(baseBalance?.locked ?? 0),
+        })
+      : undefined,
+    feeTier.takerRate
+  );
+
+  // Realized P&L follows the lots a sell would consume (or the short a buy covers)
+  const realized = await previewTradeCostBasis(
+    userId,
+    baseAsset,
+    side,
+    executedPrice,
+    size,
+    projection.fee,
+    positionSize,
+    avgEntryPrice
+  );
+
+  const quoteAmount =
+    side === ORDER_SIDE.BUY
+      ? projection.cost.plus(projection.fee)
+      : projection.cost.minus(projection.fee);
+
+  return {
+    side,
+    baseAsset,
+    quoteAsset,
+    executedSize: size.toString(),
+    executedPrice: executedPrice.toString(),
+    referencePrice: execution.referencePrice.toString(),
+    priceImpact: execution.priceImpact.toString(),
+    slippage: execution.slippage.toString(),
+    cost: projection.cost.toString(),
+    fee: projection.fee.toString(),
+    feeTier: feeTier.appliedTier,
+    feeRate: feeTier.takerRate.toString(),
+    quoteAmount: quoteAmount.toString(),
+    realizedPnl: realized?.realizedPnl.toString() ?? null,
+    balances: [
+      {
+        asset: quoteAsset,
+        available: quoteAvailable.toString(),
+        projectedAvailable: projection.quoteAvailable.toString(),
+      },
+      {
+        asset: baseAsset,
+        available: baseAvailable.toString(),
+        projectedAvailable: projection.baseAvailable.toString(),
+      },
+    ],
+    position: {
+      size: positionSize.toString(),
+      avgEntryPrice: avgEntryPrice.toString(),
+      projectedSize: projection.positionSize.toString(),
+      projectedAvgEntryPrice: projection.avgEntryPrice.toString(),
+    },
+  };
+}
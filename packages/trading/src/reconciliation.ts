@@ -0,0 +1,490 @@
+/**
+ * Ledger Reconciliation
+ * Recompute balances and positions from the trade ledger and report drift
+ *
+ * Balances, Positions and Trades are written separately inside each trade
+ * transaction; nothing else proves they still agree. For every user with a
+ * portfolio the expected state is rebuilt from:
+ *   INITIAL_BALANCE
+ *   + every Trades row: buys pay price * size + fee in the quote asset and
+ *     receive size in the base asset, sells the reverse (proceeds - fee);
+ *     a liquidation close adds back the badDebt written off
+ *   + every perp position: realizedPnl + fundingPnl - margin in its quote
+ *     asset (margin is held outside Balances; fees are in realizedPnl)
+ *   + deposits - withdrawals (external cash, recorded only in the journal)
+ *   locked = reservations of the user's pending orders
+ * and positions by replaying the trades through calculatePositionChange()
+ * (avgEntryPrice rounded as its column stores it), realizedPnl as the sum
+ * of the trades' realizedPnl.
+ *
+ * A stored value further than RECONCILIATION_TOLERANCE (tradingEnvSchema)
+ * from the ledger is drift: the ledger sums fees rounded to 8 places where
+ * balances from before the journal were updated with the exact fee. Each
+ * run and its drift rows are stored (ReconciliationRuns /
+ * ReconciliationDrifts). With repair, in the same transaction, a drifted
+ * balance is rebuilt from its journal entries and the remaining difference
+ * to the ledger is posted as an adjustment; drifted positions are reset to
+ * the ledger. Tax lots are not rebuilt.
+ */
+
+import { Decimal } from "decimal.js";
+import type { Decimal as DecimalInstance } from "decimal.js";
+import { getDb } from "@repo/db";
+import { parseEnv, tradingEnvSchema } from "@repo/env";
+import { calculatePositionChange } from "./positions.js";
+import { getOrderReservation } from "./reservations.js";
+import { getCashFlowTotals } from "./cashFlows.js";
+import { getJournalBalances, postJournal, systemAccount, transfer, userAccount } from "./journal.js";
+import {
+  CASH_FLOW_ASSET,
+  INITIAL_BALANCE,
+  JOURNAL_ACCOUNT,
+  JOURNAL_TYPE,
+  ORDER_SIDE,
+  ORDER_STATUS,
+  PERP_MARKETS,
+  RECONCILIATION_KIND,
+  SIZE_DECIMALS,
+} from "./constants.js";
+import type { PerpMarket } from "./perps.js";
+
+export type ReconciliationKind =
+  (typeof RECONCILIATION_KIND)[keyof typeof RECONCILIATION_KIND];
+
+export interface LedgerBalance {
+  available: DecimalInstance;
+  locked: DecimalInstance;
+}
+
+export interface LedgerPosition {
+  size: DecimalInstance; // Signed: negative for a short
+  avgEntryPrice: DecimalInstance;
+  realizedPnl: DecimalInstance;
+}
+
+export interface ExpectedLedger {
+  balances: Map<string, LedgerBalance>;
+  positions: Map<string, LedgerPosition>;
+}
+
+export interface LedgerDrift {
+  userId: number;
+  kind: ReconciliationKind;
+  asset: string;
+  field: string; // available | locked (balance); size | avgEntryPrice | realizedPnl (position)
+  expected: DecimalInstance;
+  actual: DecimalInstance;
+  difference: DecimalInstance; // actual - expected
+  repaired: boolean;
+}
+
+export interface ReconciliationReport {
+  runId: number;
+  repair: boolean;
+  usersChecked: number;
+  driftCount: number;
+  startedAt: Date;
+  finishedAt: Date | null; // null while running (or if the run failed)
+  drifts: Array<{
+    userId: number;
+    kind: string;
+    asset: string;
+    field: string;
+    expected: string;
+    actual: string;
+    difference: string;
+    repaired: boolean;
+  }>;
+}
+
+const BALANCE_FIELDS = ["available", "locked"] as const;
+const POSITION_FIELDS = ["size", "avgEntryPrice", "realizedPnl"] as const;
+
+let tolerance: DecimalInstance | null = null;
+
+/**
+ * Get RECONCILIATION_TOLERANCE from the environment (tradingEnvSchema, default 0.0001)
+ * @throws Error if RECONCILIATION_TOLERANCE < 0
+ */
+export function getReconciliationTolerance(): DecimalInstance {
+  if (!tolerance) {
+    const env = parseEnv(tradingEnvSchema);
+    const value = new Decimal(env.RECONCILIATION_TOLERANCE);
+    if (value.isNegative()) {
+      throw new Error(`Invalid RECONCILIATION_TOLERANCE: ${value}. Must be >= 0`);
+    }
+    tolerance = value;
+  }
+  return tolerance;
+}
+
+/**
+ * Rebuild a user's balances and positions from INITIAL_BALANCE, cash flows and the ledger
+ * @param client Prisma client or transaction context
+ */
+export async function computeExpectedLedger(
+  client: any,
+  userId: number
+): Promise<ExpectedLedger> {
+  const [trades, perpPositions, pendingOrders, cashFlows] = await Promise.all([
+    client.trades.findMany({
+      where: { userId },
+      orderBy: { id: "asc" },
+      include: { order: { select: { baseAsset: true, quoteAsset: true } } },
+    }),
+    client.perpPositions.findMany({ where: { userId } }),
+    client.orders.findMany({ where: { userId, status: ORDER_STATUS.PENDING } }),
+    getCashFlowTotals(client, userId),
+  ]);
+
+  const totals = new Map<string, DecimalInstance>();
+  const credit = (asset: string, amount: Decimal.Value) => {
+    totals.set(asset, (totals.get(asset) ?? new Decimal(0)).plus(amount));
+  };
+
+  for (const [asset, initialBalance] of Object.entries(INITIAL_BALANCE)) {
+    credit(asset, initialBalance);
+  }
+  credit(CASH_FLOW_ASSET, cashFlows.deposited.minus(cashFlows.withdrawn));
+
+  const positions = new Map<string, LedgerPosition>();
+
+  for (const trade of trades) {
+    const { baseAsset, quoteAsset } = trade.order;
+    const price = new Decimal(trade.executedPrice);
+    const size = new Decimal(trade.executedSize);
+    const fee = new Decimal(trade.fee);
+    const value = price.times(size);
+
+    if (trade.side === ORDER_SIDE.BUY) {
+      credit(quoteAsset, value.plus(fee).negated());
+      credit(baseAsset, size);
+    } else {
+      credit(quoteAsset, value.minus(fee));
+      credit(baseAsset, size.negated());
+    }
+    credit(quoteAsset, trade.badDebt);
+
+    const position = positions.get(baseAsset) ?? {
+      size: new Decimal(0),
+      avgEntryPrice: new Decimal(0),
+      realizedPnl: new Decimal(0),
+    };
+    const change = calculatePositionChange(
+      position.size,
+      position.avgEntryPrice,
+      trade.side,
+      price,
+      size
+    );
+    positions.set(baseAsset, {
+      size: change.size,
+      avgEntryPrice: change.avgEntryPrice.toDecimalPlaces(SIZE_DECIMALS, Decimal.ROUND_HALF_UP),
+      realizedPnl: position.realizedPnl.plus(trade.realizedPnl ?? 0),
+    });
+  }
+
+  for (const position of perpPositions) {
+    const { quoteAsset } = PERP_MARKETS[position.market as PerpMarket];
+    credit(
+      quoteAsset,
+      new Decimal(position.realizedPnl)
+        .plus(position.fundingPnl)
+        .minus(position.margin)
+    );
+  }
+
+  const locked = new Map<string, DecimalInstance>();
+  for (const order of pendingOrders) {
+    const reservation = getOrderReservation(order);
+    if (reservation) {
+      locked.set(
+        reservation.asset,
+        (locked.get(reservation.asset) ?? new Decimal(0)).plus(reservation.amount)
+      );
+    }
+  }
+
+  const balances = new Map<string, LedgerBalance>();
+  for (const asset of new Set([...totals.keys(), ...locked.keys()])) {
+    const assetLocked = locked.get(asset) ?? new Decimal(0);
+    balances.set(asset, {
+      available: (totals.get(asset) ?? new Decimal(0)).minus(assetLocked),
+      locked: assetLocked,
+    });
+  }
+
+  return { balances, positions };
+}
+
+/**
+ * Compare stored values with the ledger, one drift per field beyond the tolerance
+ */
+function findDrifts<Field extends string>(
+  userId: number,
+  kind: ReconciliationKind,
+  fields: readonly Field[],
+  expected: Map<string, Record<Field, DecimalInstance>>,
+  actual: Map<string, Record<Field, DecimalInstance>>,
+  maxDifference: DecimalInstance
+): LedgerDrift[] {
+  const drifts: LedgerDrift[] = [];
+
+  for (const asset of new Set([...expected.keys(), ...actual.keys()])) {
+    for (const field of fields) {
+      const expectedValue = expected.get(asset)?.[field] ?? new Decimal(0);
+      const actualValue = actual.get(asset)?.[field] ?? new Decimal(0);
+      const difference = actualValue.minus(expectedValue);
+
+      if (difference.abs().gt(maxDifference)) {
+        drifts.push({
+          userId,
+          kind,
+          asset,
+          field,
+          expected: expectedValue,
+          actual: actualValue,
+          difference,
+          repaired: false,
+        });
+      }
+    }
+  }
+
+  return drifts;
+}
+
+/**
+ * Reconcile one user's balances and positions against the ledger
+ * (called within db.$transaction())
+ *
+ * Locks the user's balance rows (USDC before SOL, the order every trade
+ * path locks them in) so no trade lands between reading the ledger and
+ * the stored values. With repair, drifted balances are rebuilt from the
+ * journal plus an adjustment to the ledger, drifted positions reset to it.
+ *
+ * @param tx Prisma transaction context (NOT db!)
+ * @returns Drifts found; empty if the user has no portfolio yet
+ */
+export async function reconcileUser(
+  tx: any,
+  userId: number,
+  repair: boolean = false,
+  maxDifference: DecimalInstance = getReconciliationTolerance()
+): Promise<LedgerDrift[]> {
+  const balanceRows: Array<{ asset: string; available: string; locked: string }> =
+    await tx.$queryRaw`
+      SELECT asset, available::text, locked::text
+      FROM balances
+      WHERE "userId" = ${userId}
+      ORDER BY asset DESC
+      FOR UPDATE
+    `;
+
+  if (balanceRows.length === 0) {
+    return [];
+  }
+
+  const positionRows = await tx.positions.findMany({ where: { userId } });
+  const expected = await computeExpectedLedger(tx, userId);
+
+  const actualBalances = new Map<string, LedgerBalance>(
+    balanceRows.map((row) => [
+      row.asset,
+      { available: new Decimal(row.available), locked: new Decimal(row.locked) },
+    ])
+  );
+  const actualPositions = new Map<string, LedgerPosition>(
+    positionRows.map((row: any) => [
+      row.asset,
+      {
+        size: new Decimal(row.size),
+        avgEntryPrice: new Decimal(row.avgEntryPrice),
+        realizedPnl: new Decimal(row.realizedPnl),
+      },
+    ])
+  );
+
+  const drifts = [
+    ...findDrifts(
+      userId,
+      RECONCILIATION_KIND.BALANCE,
+      BALANCE_FIELDS,
+      expected.balances,
+      actualBalances,
+      maxDifference
+    ),
+    ...findDrifts(
+      userId,
+      RECONCILIATION_KIND.POSITION,
+      POSITION_FIELDS,
+      expected.positions,
+      actualPositions,
+      maxDifference
+    ),
+  ];
+
+  if (!repair || drifts.length === 0) {
+    return drifts;
+  }
+
+  const zero = new Decimal(0);
+  const journalBalances = await getJournalBalances(tx, userId);
+  const repairedBalances = new Set<string>();
+  const repairedPositions = new Set<string>();
+
+  for (const drift of drifts) {
+    if (drift.kind === RECONCILIATION_KIND.BALANCE && !repairedBalances.has(drift.asset)) {
+      const balance = expected.balances.get(drift.asset) ?? { available: zero, locked: zero };
+      const journal = journalBalances.get(drift.asset) ?? { available: zero, locked: zero };
+
+      // Rebuild the projection from the journal, then post what the journal misses
+      const data = {
+        available: journal.available.toString(),
+        locked: journal.locked.toString(),
+      };
+      await tx.balances.upsert({
+        where: { userId_asset: { userId, asset: drift.asset } },
+        create: { userId, asset: drift.asset, ...data },
+        update: data,
+      });
+
+      const adjustment = systemAccount(JOURNAL_ACCOUNT.ADJUSTMENT);
+      await postJournal(tx, {
+        type: JOURNAL_TYPE.ADJUSTMENT,
+        userId,
+        description: `Reconciliation repair (${drift.asset})`,
+        entries: [
+          ...transfer(
+            adjustment,
+            userAccount(userId, JOURNAL_ACCOUNT.AVAILABLE),
+            drift.asset,
+            balance.available.minus(journal.available)
+          ),
+          ...transfer(
+            adjustment,
+            userAccount(userId, JOURNAL_ACCOUNT.LOCKED),
+            drift.asset,
+            balance.locked.minus(journal.locked)
+          ),
+        ],
+      });
+      repairedBalances.add(drift.asset);
+    }
+
+    if (drift.kind === RECONCILIATION_KIND.POSITION && !repairedPositions.has(drift.asset)) {
+      const position = expected.positions.get(drift.asset) ?? {
+        size: zero,
+        avgEntryPrice: zero,
+        realizedPnl: zero,
+      };
+      const data = {
+        size: position.size.toString(),
+        avgEntryPrice: position.avgEntryPrice.toString(),
+        realizedPnl: position.realizedPnl.toString(),
+      };
+      await tx.positions.upsert({
+        where: { userId_asset: { userId, asset: drift.asset } },
+        create: { userId, asset: drift.asset, ...data },
+        update: data,
+      });
+      repairedPositions.add(drift.asset);
+    }
+
+    drift.repaired = true;
+  }
+
+  return drifts;
+}
+
+/**
+ * Reconcile every user (or one) and store the run with its drifts
+ *
+ * Each user is reconciled, repaired and recorded in its own transaction.
+ */
+export async function runReconciliation(
+  options: { repair?: boolean; userId?: number } = {}
+): Promise<ReconciliationReport> {
+  const repair = options.repair ?? false;
+  const maxDifference = getReconciliationTolerance();
+  const db = getDb();
+
+  const run = await db.reconciliationRuns.create({ data: { repair } });
+
+  const users = await db.users.findMany({
+    where: options.userId !== undefined ? { id: options.userId } : {},
+    select: { id: true },
+    orderBy: { id: "asc" },
+  });
+
+  let driftCount = 0;
+  for (const { id: userId } of users) {
+    driftCount += await db.$transaction(async (tx) => {
+      const drifts = await reconcileUser(tx, userId, repair, maxDifference);
+
+      if (drifts.length > 0) {
+        await tx.reconciliationDrifts.createMany({
+          data: drifts.map((drift) => ({
+            runId: run.id,
+            userId: drift.userId,
+            kind: drift.kind,
+            asset: drift.asset,
+            field: drift.field,
+            expected: drift.expected.toString(),
+            actual: drift.actual.toString(),
+            difference: drift.difference.toString(),
+            repaired: drift.repaired,
+          })),
+        });
+      }
+
+      return drifts.length;
+    });
+  }
+
+  await db.reconciliationRuns.update({
+    where: { id: run.id },
+    data: { usersChecked: users.length, driftCount, finishedAt: new Date() },
+  });
+
+  return (await getReconciliationReport(run.id))!;
+}
+
+/**
+ * Get a reconciliation run with its drifts (the latest run if no id given)
+ * @returns null if there is no such run
+ */
+export async function getReconciliationReport(
+  runId?: number
+): Promise<ReconciliationReport | null> {
+  const db = getDb();
+
+  const run = await db.reconciliationRuns.findFirst({
+    where: runId !== undefined ? { id: runId } : {},
+    orderBy: { id: "desc" },
+    include: { drifts: { orderBy: { id: "asc" } } },
+  });
+
+  if (!run) {
+    return null;
+  }
+
+  return {
+    runId: run.id,
+    repair: run.repair,
+    usersChecked: run.usersChecked,
+    driftCount: run.driftCount,
+    startedAt: run.startedAt,
+    finishedAt: run.finishedAt,
+    drifts: run.drifts.map((drift) => ({
+      userId: drift.userId,
+      kind: drift.kind,
+      asset: drift.asset,
+      field: drift.field,
+      expected: drift.expected.toString(),
+      actual: drift.actual.toString(),
+      difference: drift.difference.toString(),
+      repaired: drift.repaired,
+    })),
+  };
+}
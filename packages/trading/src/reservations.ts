@@ -0,0 +1,107 @@
+/**
+ * Order Reservations
+ * Funds held in Balances.locked while an order is pending
+ */
+
+import { Decimal } from "decimal.js";
+import type { Decimal as DecimalInstance } from "decimal.js";
+import { calculateFee } from "./fees.js";
+import { postReservation } from "./journal.js";
+import { ORDER_SIDE, ORDER_TYPE } from "./constants.js";
+
+export interface Reservation {
+  asset: string;
+  amount: DecimalInstance;
+}
+
+/**
+ * Calculate the balance a pending order must hold
+ *
+ * BUY:  worst-case cost + fee at the limit price, in the quote asset
+ *       (fee at FEE_RATE: no tier or override rate exceeds it)
+ * SELL: the full requested size, in the base asset
+ */
+export function calculateReservation(
+  side: string,
+  baseAsset: string,
+  quoteAsset: string,
+  requestedSize: DecimalInstance,
+  limitPrice: DecimalInstance
+): Reservation {
+  const size = new Decimal(requestedSize);
+  const price = new Decimal(limitPrice);
+
+  if (side === ORDER_SIDE.BUY) {
+    return {
+      asset: quoteAsset,
+      amount: price.times(size).plus(calculateFee(price, size)),
+    };
+  }
+
+  return { asset: baseAsset, amount: size };
+}
+
+/**
+ * Reservation currently held by a stored pending order
+ *
+ * Only limit orders reserve funds. Trigger orders (stop_market, take_profit)
+ * hold nothing and are checked against balances when they fire.
+ */
+export function getOrderReservation(order: {
+  type: string;
+  side: string;
+  baseAsset: string;
+  quoteAsset: string;
+  requestedSize: Decimal.Value;
+  limitPrice: Decimal.Value | null;
+  priceAtOrderTime: Decimal.Value;
+}): Reservation | null {
+  if (order.type !== ORDER_TYPE.LIMIT) {
+    return null;
+  }
+
+  return calculateReservation(
+    order.side,
+    order.baseAsset,
+    order.quoteAsset,
+    new Decimal(order.requestedSize),
+    new Decimal(order.limitPrice ?? order.priceAtOrderTime)
+  );
+}
+
+/**
+ * Move a pending order's reservation from locked back to available
+ * (called within db.$transaction())
+ *
+ * Invariant: locked >= 0 after release
+ * @param tx Prisma transaction context (NOT db!)
+ * @param orderId Order the reservation belonged to (journal reference)
+ */
+export async function releaseReservation(
+  tx: any, // Prisma transaction context for atomicity
+  userId: number,
+  reservation: Reservation,
+  orderId?: number
+): Promise<void> {
+  const rows: Array<{ available: string; locked: string }> = await tx.$queryRaw`
+    SELECT available::text, locked::text
+    FROM balances
+    WHERE "userId" = ${userId} AND asset = ${reservation.asset}
+    FOR UPDATE
+  `;
+
+  if (!rows || rows.length === 0) {
+    throw new Error(`No ${reservation.asset} balance found for user ${userId}`);
+  }
+
+  const newLocked = new Decimal(rows[0]!.locked).minus(reservation.amount);
+
+  if (newLocked.isNegative()) {
+    throw new Error(
+      `Invariant violated: releasing ${reservation.amount} ${reservation.asset} ` +
+        `but only ${rows[0]!.locked} is locked for user ${userId}`
+    );
+  }
+
+  await postReservation(tx, userId, reservation, true, orderId);
+}
@@ -0,0 +1,453 @@
+/**
+ * Risk Limits
+ * Per-wallet prop-firm style rules checked when an order is placed
+ *
+ * A RiskLimits row (set by an instructor through /admin) caps:
+ *   maxOrdersPerDay   orders placed per UTC day (bracket legs and
+ *                     liquidations are not placed by the user)
+ *   maxOrderNotional  size * price of one order, in the quote asset
+ *                     (limit / trigger orders at their limit / trigger price)
+ *   maxPositionSize   |position| in the base asset if the order fills
+ *   maxDailyLoss      realized loss (spot and perp trades, funding) since
+ *                     UTC midnight; once reached, only orders that reduce
+ *                     the position pass
+ * A null field is no limit; a user without a row has none.
+ *
+ * Limits belong to the wallet: the row is keyed by its main account and
+ * covers every sub-account, so a new sub-account cannot escape them. Usage
+ * is the wallet's too: orders and P&L of every account, archives included
+ * (a reset moves today's history there), and |position| summed over the
+ * wallet's live accounts.
+ *
+ * Limits apply at placement, inside the placement transaction, with the
+ * RiskLimits row locked so a wallet's concurrent orders are counted one at a
+ * time. Fills of resting orders are not re-checked. Perp opens are checked
+ * the same way against the perp position (they are not orders: the daily
+ * count does not apply), and margin top-ups against the daily loss.
+ * Rejections throw a RISK_LIMIT_EXCEEDED trading error, the limit broken
+ * as its reason (see riskLimitError).
+ */
+
+import { Decimal } from "decimal.js";
+import type { Decimal as DecimalInstance } from "decimal.js";
+import { getDb } from "@repo/db";
+import { ORDER_SIDE, ORDER_TYPE, RISK_LIMIT_REASON } from "./constants.js";
+import { riskLimitError } from "./errors.js";
+
+export type RiskLimitReason = (typeof RISK_LIMIT_REASON)[keyof typeof RISK_LIMIT_REASON];
+
+export interface RiskLimits {
+  maxPositionSize: DecimalInstance | null;
+  maxOrderNotional: DecimalInstance | null;
+  maxOrdersPerDay: number | null;
+  maxDailyLoss: DecimalInstance | null;
+}
+
+export interface RiskUsage {
+  ordersToday: number;
+  realizedPnlToday: DecimalInstance; // Spot and perp trades, and funding, since UTC midnight
+}
+
+export interface RiskOrder {
+  side: string;
+  size: DecimalInstance;
+  price: DecimalInstance; // Execution, limit or trigger price
+  positionSize: DecimalInstance; // Current signed position in the base asset
+}
+
+export interface RiskViolation {
+  reason: RiskLimitReason;
+  message: string;
+}
+
+export interface RiskStatus {
+  limits: {
+    maxPositionSize: string | null;
+    maxOrderNotional: string | null;
+    maxOrdersPerDay: number | null;
+    maxDailyLoss: string | null;
+  } | null; // null = no limits
+  ordersToday: number;
+  realizedPnlToday: string;
+  dailyLossReached: boolean; // Only risk-reducing orders are accepted
+  resetsAt: Date; // Next UTC midnight
+}
+
+/**
+ * Start of the UTC day containing `now` (daily limits reset at midnight UTC)
+ */
+export function getTradingDayStart(now: Date = new Date()): Date {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+}
+
+function toRiskLimits(row: any): RiskLimits {
+  const decimalOrNull = (value: unknown) =>
+    value === null || value === undefined ? null : new Decimal(value.toString());
+
+  return {
+    maxPositionSize: decimalOrNull(row.maxPositionSize),
+    maxOrderNotional: decimalOrNull(row.maxOrderNotional),
+    maxOrdersPerDay: row.maxOrdersPerDay ?? null,
+    maxDailyLoss: decimalOrNull(row.maxDailyLoss),
+  };
+}
+
+interface WalletAccounts {
+  walletId: number; // The main account, which holds the RiskLimits row
+  accountIds: number[]; // Every account of the wallet, archives included
+  liveAccountIds: number[]; // Not archived: the ones holding positions
+}
+
+/**
+ * Find the wallet an account belongs to, and all of the wallet's accounts
+ * @param client Prisma client or transaction context
+ */
+async function getWalletAccounts(client: any, userId: number): Promise<WalletAccounts> {
+  const account = await client.users.findUnique({
+    where: { id: userId },
+    select: { ownerId: true },
+  });
+  const walletId = account?.ownerId ?? userId;
+
+  const accounts: Array<{ id: number; archivedAt: Date | null }> = await client.users.findMany({
+    where: { OR: [{ id: walletId }, { ownerId: walletId }] },
+    select: { id: true, archivedAt: true },
+  });
+  return {
+    walletId,
+    accountIds: accounts.map((row) => row.id),
+    liveAccountIds: accounts.filter((row) => row.archivedAt === null).map((row) => row.id),
+  };
+}
+
+/**
+ * Get the risk limits that apply to an account (its wallet's), or null if
+ * none are set
+ * @param client Prisma client or transaction context
+ */
+export async function getRiskLimits(client: any, userId: number): Promise<RiskLimits | null> {
+  const { walletId } = await getWalletAccounts(client, userId);
+  const row = await client.riskLimits.findUnique({ where: { userId: walletId } });
+  return row ? toRiskLimits(row) : null;
+}
+
+/**
+ * Count today's placed orders and sum today's realized P&L across the
+ * given accounts: spot trades, perp trades (net of fees) and funding payments
+ */
+async function sumRiskUsage(client: any, accountIds: number[], now: Date): Promise<RiskUsage> {
+  const since = getTradingDayStart(now);
+  const userId = { in: accountIds };
+
+  const [ordersToday, pnl, perpPnl, funding] = await Promise.all([
+    client.orders.count({
+      where: {
+        userId,
+        createdAt: { gte: since },
+        parentOrderId: null,
+        type: { not: ORDER_TYPE.LIQUIDATION },
+      },
+    }),
+    client.trades.aggregate({
+      where: { userId, createdAt: { gte: since } },
+      _sum: { realizedPnl: true },
+    }),
+    client.perpTrades.aggregate({
+      where: { userId, createdAt: { gte: since } },
+      _sum: { realizedPnl: true },
+    }),
+    client.fundingPayments.aggregate({
+      where: { userId, createdAt: { gte: since } },
+      _sum: { amount: true },
+    }),
+  ]);
+
+  return {
+    ordersToday,
+    realizedPnlToday: new Decimal(pnl._sum.realizedPnl?.toString() ?? 0)
+      .plus(perpPnl._sum.realizedPnl?.toString() ?? 0)
+      .plus(funding._sum.amount?.toString() ?? 0),
+  };
+}
+
+/**
+ * Today's usage of the wallet an account belongs to: orders placed and
+ * realized P&L of all its accounts, archives included
+ * @param client Prisma client or transaction context
+ */
+export async function getRiskUsage(
+  client: any,
+  userId: number,
+  now: Date = new Date()
+): Promise<RiskUsage> {
+  const { accountIds } = await getWalletAccounts(client, userId);
+  return await sumRiskUsage(client, accountIds, now);
+}
+
+/**
+ * Check an order against a user's limits and today's usage
+ * Checks run in order: orders per day, notional, position size, daily loss.
+ * @returns The first limit the order breaks, or null
+ */
+export function checkRiskLimits(
+  limits: RiskLimits,
+  order: RiskOrder,
+  usage: RiskUsage
+): RiskViolation | null {
+  const signedSize = order.side === ORDER_SIDE.BUY ? order.size : order.size.negated();
+  const newPosition = order.positionSize.plus(signedSize);
+  const increasesRisk = newPosition.abs().gt(order.positionSize.abs());
+
+  if (limits.maxOrdersPerDay !== null && usage.ordersToday >= limits.maxOrdersPerDay) {
+    return {
+      reason: RISK_LIMIT_REASON.MAX_ORDERS_PER_DAY,
+      message: `${usage.ordersToday} orders placed today, the daily limit is ${limits.maxOrdersPerDay}`,
+    };
+  }
+
+  const notional = order.size.times(order.price);
+  if (limits.maxOrderNotional !== null && notional.gt(limits.maxOrderNotional)) {
+    return {
+      reason: RISK_LIMIT_REASON.MAX_ORDER_NOTIONAL,
+      message:
+        `Order notional ${notional.toString()} is above the limit of ` +
+        `${limits.maxOrderNotional.toString()}`,
+    };
+  }
+
+  if (
+    limits.maxPositionSize !== null &&
+    increasesRisk &&
+    newPosition.abs().gt(limits.maxPositionSize)
+  ) {
+    return {
+      reason: RISK_LIMIT_REASON.MAX_POSITION_SIZE,
+      message:
+        `Position would be ${newPosition.toString()}, above the limit of ` +
+        `${limits.maxPositionSize.toString()}`,
+    };
+  }
+
+  const loss = Decimal.max(usage.realizedPnlToday.negated(), 0);
+  if (limits.maxDailyLoss !== null && increasesRisk && loss.gte(limits.maxDailyLoss)) {
+    return {
+      reason: RISK_LIMIT_REASON.DAILY_LOSS_LIMIT,
+      message:
+        `Realized loss today ${loss.toString()} reached the limit of ` +
+        `${limits.maxDailyLoss.toString()}. Only orders reducing the position are accepted`,
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Lock a wallet's RiskLimits row and read it: checks of the same wallet are
+ * serialized, so two concurrent orders (from any of its accounts) cannot
+ * both pass the daily count
+ * @returns The limits, or null if the wallet has none
+ */
+async function lockRiskLimits(tx: any, walletId: number): Promise<RiskLimits | null> {
+  const rows: Array<Record<string, unknown>> = await tx.$queryRaw`
+    SELECT "maxPositionSize"::text, "maxOrderNotional"::text, "maxOrdersPerDay", "maxDailyLoss"::text
+    FROM risk_limits
+    WHERE "userId" = ${walletId}
+    FOR UPDATE
+  `;
+  return rows.length > 0 ? toRiskLimits(rows[0]) : null;
+}
+
+function throwViolation(violation: RiskViolation | null): void {
+  if (violation) {
+    throw riskLimitError(
+      violation.reason,
+      `Risk limit exceeded (${violation.reason}): ${violation.message}`
+    );
+  }
+}
+
+/**
+ * Enforce a user's risk limits on an order being placed
+ * (called within db.$transaction(), before the order is created)
+ *
+ * Locks the wallet's RiskLimits row first (see lockRiskLimits).
+ *
+ * @param tx Prisma transaction context (NOT db!)
+ * @throws RiskLimitError (RISK_LIMIT_EXCEEDED) if a limit is broken
+ */
+export async function enforceRiskLimits(
+  tx: any,
+  userId: number,
+  order: { side: string; baseAsset: string; size: DecimalInstance; price: DecimalInstance },
+  now: Date = new Date()
+): Promise<void> {
+  const wallet = await getWalletAccounts(tx, userId);
+  const limits = await lockRiskLimits(tx, wallet.walletId);
+  if (!limits) {
+    return;
+  }
+
+  const position = await tx.positions.aggregate({
+    where: { userId: { in: wallet.liveAccountIds }, asset: order.baseAsset },
+    _sum: { size: true },
+  });
+  const usage = await sumRiskUsage(tx, wallet.accountIds, now);
+
+  const violation = checkRiskLimits(
+    limits,
+    {
+      side: order.side,
+      size: new Decimal(order.size),
+      price: new Decimal(order.price),
+      positionSize: new Decimal(position._sum.size?.toString() ?? 0),
+    },
+    usage
+  );
+  throwViolation(violation);
+}
+
+/**
+ * Enforce a user's risk limits on a perp open, or a margin top-up
+ * (called within the perp transaction, before anything is written)
+ *
+ * A trade is checked like an order against the wallet's perp position: notional,
+ * |position| and daily loss; it is not an order, so the daily count does
+ * not apply. Adding margin keeps a position open, so once the daily loss
+ * limit is reached it is refused like an order increasing the position.
+ *
+ * @param tx Prisma transaction context (NOT db!)
+ * @param trade The open (side: buy = long, sell = short, at the mark price),
+ *              or null for a margin top-up
+ * @throws RiskLimitError (RISK_LIMIT_EXCEEDED) if a limit is broken
+ */
+export async function enforcePerpRiskLimits(
+  tx: any,
+  userId: number,
+  market: string,
+  trade: { side: string; size: DecimalInstance; price: DecimalInstance } | null,
+  now: Date = new Date()
+): Promise<void> {
+  const wallet = await getWalletAccounts(tx, userId);
+  const limits = await lockRiskLimits(tx, wallet.walletId);
+  if (!limits) {
+    return;
+  }
+
+  const usage = await sumRiskUsage(tx, wallet.accountIds, now);
+  if (trade) {
+    const position = await tx.perpPositions.aggregate({
+      where: { userId: { in: wallet.liveAccountIds }, market },
+      _sum: { size: true },
+    });
+    const violation = checkRiskLimits(
+      { ...limits, maxOrdersPerDay: null },
+      {
+        side: trade.side,
+        size: new Decimal(trade.size),
+        price: new Decimal(trade.price),
+        positionSize: new Decimal(position._sum.size?.toString() ?? 0),
+      },
+      usage
+    );
+    throwViolation(violation);
+    return;
+  }
+
+  const loss = Decimal.max(usage.realizedPnlToday.negated(), 0);
+  if (limits.maxDailyLoss !== null && loss.gte(limits.maxDailyLoss)) {
+    throwViolation({
+      reason: RISK_LIMIT_REASON.DAILY_LOSS_LIMIT,
+      message:
+        `Realized loss today ${loss.toString()} reached the limit of ` +
+        `${limits.maxDailyLoss.toString()}. Margin cannot be added`,
+    });
+  }
+}
+
+/**
+ * Get the limits that apply to an account with its wallet's usage today
+ * (GET /portfolio/risk)
+ */
+export async function getRiskStatus(userId: number, now: Date = new Date()): Promise<RiskStatus> {
+  const db = getDb();
+  const wallet = await getWalletAccounts(db, userId);
+  const [row, usage] = await Promise.all([
+    db.riskLimits.findUnique({ where: { userId: wallet.walletId } }),
+    sumRiskUsage(db, wallet.accountIds, now),
+  ]);
+  const limits = row ? toRiskLimits(row) : null;
+
+  const loss = Decimal.max(usage.realizedPnlToday.negated(), 0);
+  const resetsAt = getTradingDayStart(now);
+  resetsAt.setUTCDate(resetsAt.getUTCDate() + 1);
+
+  return {
+    limits: limits && {
+      maxPositionSize: limits.maxPositionSize?.toString() ?? null,
+      maxOrderNotional: limits.maxOrderNotional?.toString() ?? null,
+      maxOrdersPerDay: limits.maxOrdersPerDay,
+      maxDailyLoss: limits.maxDailyLoss?.toString() ?? null,
+    },
+    ordersToday: usage.ordersToday,
+    realizedPnlToday: usage.realizedPnlToday.toString(),
+    dailyLossReached: limits?.maxDailyLoss != null && loss.gte(limits.maxDailyLoss),
+    resetsAt,
+  };
+}
+
+/**
+ * Set a wallet's risk limits (replaces any previous ones; null = no limit)
+ * Given a sub-account, the limits are set on its wallet.
+ * @throws Error if a limit is not positive
+ */
+export async function setRiskLimits(
+  userId: number,
+  limits: {
+    maxPositionSize?: Decimal.Value | null;
+    maxOrderNotional?: Decimal.Value | null;
+    maxOrdersPerDay?: number | null;
+    maxDailyLoss?: Decimal.Value | null;
+  }
+): Promise<RiskLimits> {
+  const decimalOrNull = (value: Decimal.Value | null | undefined, label: string) => {
+    if (value === null || value === undefined) {
+      return null;
+    }
+    const decimal = new Decimal(value);
+    if (!decimal.isFinite() || decimal.lte(0)) {
+      throw new Error(`Invalid risk limit: ${label} must be > 0`);
+    }
+    return decimal.toString();
+  };
+
+  const maxOrdersPerDay = limits.maxOrdersPerDay ?? null;
+  if (maxOrdersPerDay !== null && (!Number.isInteger(maxOrdersPerDay) || maxOrdersPerDay <= 0)) {
+    throw new Error("Invalid risk limit: maxOrdersPerDay must be a positive integer");
+  }
+
+  const data = {
+    maxPositionSize: decimalOrNull(limits.maxPositionSize, "maxPositionSize"),
+    maxOrderNotional: decimalOrNull(limits.maxOrderNotional, "maxOrderNotional"),
+    maxOrdersPerDay,
+    maxDailyLoss: decimalOrNull(limits.maxDailyLoss, "maxDailyLoss"),
+  };
+
+  const db = getDb();
+  const { walletId } = await getWalletAccounts(db, userId);
+  const row = await db.riskLimits.upsert({
+    where: { userId: walletId },
+    create: { userId: walletId, ...data },
+    update: data,
+  });
+
+  return toRiskLimits(row);
+}
+
+/**
+ * Remove a wallet's risk limits (given any of its accounts)
+ */
+export async function removeRiskLimits(userId: number): Promise<void> {
+  const db = getDb();
+  const { walletId } = await getWalletAccounts(db, userId);
+  await db.riskLimits.deleteMany({ where: { userId: walletId } });
+}
@@ -0,0 +1,244 @@
+/**
+ * Slippage
+ * Size-dependent price impact for market executions
+ *
+ * Market orders (and the trigger / liquidation orders that execute at
+ * market) fill at the market price moved against the taker by a price
+ * impact that grows with the order size:
+ *   executedPrice = marketPrice * (1 + impact)   buys
+ *   executedPrice = marketPrice * (1 - impact)   sells
+ *   slippage      = |executedPrice - marketPrice| * size   (quote asset)
+ *
+ * The model comes from SLIPPAGE_MODEL (tradingEnvSchema, default none):
+ *   none    impact = 0
+ *   linear  impact = factor * size / depth
+ *   sqrt    impact = factor * sqrt(size / depth)
+ *   curve   constant-product pool holding `depth` base units:
+ *           buys  impact = size / (depth - size)
+ *           sells impact = size / (depth + size)
+ *
+ * Orders whose impact would exceed SLIPPAGE_MAX_IMPACT are rejected, except
+ * liquidations, which fill at the capped impact (a forced close must go through).
+ * Limit orders fill at their limit price and never slip.
+ */
+
+import { Decimal } from "decimal.js";
+import type { Decimal as DecimalInstance } from "decimal.js";
+import { parseEnv, tradingEnvSchema } from "@repo/env";
+import { calculateSizeForQuote } from "./fees.js";
+import { tradingError } from "./errors.js";
+import {
+  FEE_RATE,
+  ORDER_SIDE,
+  SIZE_DECIMALS,
+  SLIPPAGE_MODEL,
+  TRADING_ERROR_CODE,
+} from "./constants.js";
+
+export type SlippageModelName = (typeof SLIPPAGE_MODEL)[keyof typeof SLIPPAGE_MODEL];
+
+export interface PriceImpactModel {
+  name: string;
+  maxImpact: DecimalInstance; // Largest impact an order may take, as a fraction
+  /**
+   * Fractional price impact (>= 0) of executing size at the market price
+   * Infinity when the size cannot be filled at any price
+   */
+  calculateImpact(side: string, size: DecimalInstance, price: DecimalInstance): DecimalInstance;
+}
+
+export interface PriceImpactParams {
+  impactFactor: Decimal.Value; // linear / sqrt: impact when size = depth
+  depth: Decimal.Value; // Liquidity, in base units
+  maxImpact: Decimal.Value;
+}
+
+export interface MarketExecution {
+  referencePrice: DecimalInstance; // Market price before impact
+  executedPrice: DecimalInstance;
+  priceImpact: DecimalInstance; // Fraction applied to the price
+  slippage: DecimalInstance; // |executedPrice - referencePrice| * size, in the quote asset
+}
+
+let configuredModel: PriceImpactModel | null = null;
+
+/**
+ * Validate a price impact model name
+ * @throws Error if name is not one of SLIPPAGE_MODEL
+ */
+export function validateSlippageModel(name: string): SlippageModelName {
+  const models = Object.values(SLIPPAGE_MODEL) as string[];
+  if (!models.includes(name)) {
+    throw new Error(
+      `Invalid slippage model: ${name}. Must be one of: ${models.join(", ")}`
+    );
+  }
+  return name as SlippageModelName;
+}
+
+/**
+ * Create one of the built-in price impact models
+ * @throws Error if depth <= 0, or the factor or maxImpact is out of range
+ */
+export function createPriceImpactModel(
+  name: string,
+  params: PriceImpactParams
+): PriceImpactModel {
+  const model = validateSlippageModel(name);
+  const factor = new Decimal(params.impactFactor);
+  const depth = new Decimal(params.depth);
+  const maxImpact = new Decimal(params.maxImpact);
+
+  if (depth.lte(0)) {
+    throw new Error(`Invalid slippage depth: ${depth.toString()}. Must be > 0`);
+  }
+  if (factor.lt(0)) {
+    throw new Error(`Invalid slippage impact factor: ${factor.toString()}. Must be >= 0`);
+  }
+  // A sell impact of 1 would fill at a price of 0
+  if (maxImpact.lt(0) || maxImpact.gte(1)) {
+    throw new Error(
+      `Invalid slippage max impact: ${maxImpact.toString()}. Must be >= 0 and < 1`
+    );
+  }
+
+  switch (model) {
+    case SLIPPAGE_MODEL.LINEAR:
+      return {
+        name: model,
+        maxImpact,
+        calculateImpact: (_side, size) => factor.times(size).dividedBy(depth),
+      };
+
+    case SLIPPAGE_MODEL.SQRT:
+      return {
+        name: model,
+        maxImpact,
+        calculateImpact: (_side, size) => factor.times(new Decimal(size).dividedBy(depth).sqrt()),
+      };
+
+    case SLIPPAGE_MODEL.CURVE:
+      return {
+        name: model,
+        maxImpact,
+        calculateImpact: (side, size) => {
+          if (side === ORDER_SIDE.BUY) {
+            // Buying the whole pool would cost an infinite price
+            if (new Decimal(size).gte(depth)) {
+              return new Decimal(Infinity);
+            }
+            return new Decimal(size).dividedBy(depth.minus(size));
+          }
+          return new Decimal(size).dividedBy(depth.plus(size));
+        },
+      };
+
+    default:
+      return {
+        name: model,
+        maxImpact,
+        calculateImpact: () => new Decimal(0),
+      };
+  }
+}
+
+/**
+ * Get the price impact model market executions use
+ * A model set with setPriceImpactModel() wins over SLIPPAGE_MODEL.
+ */
+export function getPriceImpactModel(): PriceImpactModel {
+  if (!configuredModel) {
+    const env = parseEnv(tradingEnvSchema);
+    configuredModel = createPriceImpactModel(env.SLIPPAGE_MODEL, {
+      impactFactor: env.SLIPPAGE_IMPACT_FACTOR,
+      depth: env.SLIPPAGE_DEPTH,
+      maxImpact: env.SLIPPAGE_MAX_IMPACT,
+    });
+  }
+  return configuredModel;
+}
+
+/**
+ * Replace the price impact model (a custom one, or a built-in with other
+ * parameters); null goes back to the SLIPPAGE_* environment
+ */
+export function setPriceImpactModel(model: PriceImpactModel | null): void {
+  configuredModel = model;
+}
+
+/**
+ * Apply price impact to a market execution
+ *
+ * A moved price is rounded to SIZE_DECIMALS against the taker
+ * (up for buys, down for sells); with no impact it is the market price as is.
+ * @param capImpact Fill at the model's maxImpact instead of rejecting (liquidations)
+ * @throws Error if the impact exceeds the model's maxImpact
+ */
+export function applyPriceImpact(
+  side: string,
+  size: DecimalInstance,
+  referencePrice: DecimalInstance,
+  capImpact: boolean = false,
+  model: PriceImpactModel = getPriceImpactModel()
+): MarketExecution {
+  const price = new Decimal(referencePrice);
+  let impact = model.calculateImpact(side, new Decimal(size), price);
+
+  if (impact.gt(model.maxImpact)) {
+    if (!capImpact) {
+      const percent = impact.isFinite()
+        ? `${impact.times(100).toDecimalPlaces(2).toString()}%`
+        : "unbounded";
+      throw tradingError(
+        TRADING_ERROR_CODE.PRICE_IMPACT_TOO_HIGH,
+        `Price impact (${percent}) of size ${size.toString()} exceeds the maximum of ` +
+          `${model.maxImpact.times(100).toString()}%. Reduce the order size`
+      );
+    }
+    impact = model.maxImpact;
+  }
+
+  const executedPrice = impact.isZero()
+    ? price
+    : side === ORDER_SIDE.BUY
+      ? price.times(impact.plus(1)).toDecimalPlaces(SIZE_DECIMALS, Decimal.ROUND_UP)
+      : price
+          .times(new Decimal(1).minus(impact))
+          .toDecimalPlaces(SIZE_DECIMALS, Decimal.ROUND_DOWN);
+
+  return {
+    referencePrice: price,
+    executedPrice,
+    priceImpact: impact,
+    slippage: executedPrice
+      .minus(price)
+      .abs()
+      .times(size)
+      .toDecimalPlaces(SIZE_DECIMALS, Decimal.ROUND_UP),
+  };
+}
+
+/**
+ * Calculate the base size for a quote-denominated market order with price impact
+ *
+ * The impact depends on the size, so the size is solved at the executed
+ * price of a first estimate (see calculateSizeForQuote). The impact only
+ * falls as a buy shrinks, so a buy never spends more than quoteAmount; a
+ * sell grows, so it may net slightly less than quoteAmount.
+ * @param feeRate The user's taker rate (default FEE_RATE)
+ */
+export function calculateSizeForQuoteWithImpact(
+  side: string,
+  quoteAmount: DecimalInstance,
+  referencePrice: DecimalInstance,
+  model: PriceImpactModel = getPriceImpactModel(),
+  feeRate: Decimal.Value = FEE_RATE
+): DecimalInstance {
+  const estimate = calculateSizeForQuote(side, quoteAmount, referencePrice, feeRate);
+  if (estimate.lte(0)) {
+    return estimate;
+  }
+
+  const { executedPrice } = applyPriceImpact(side, estimate, referencePrice, false, model);
+  return calculateSizeForQuote(side, quoteAmount, executedPrice, feeRate);
+}
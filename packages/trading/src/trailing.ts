@@ -0,0 +1,173 @@
+/**
+ * Trailing Stops
+ * Stop orders whose trigger follows the price peak by a fixed amount or
+ * a percentage. State (peak + trigger) lives on the order row, so the
+ * order-matching worker can restart without losing it.
+ *
+ * SELL: tracks the high-water mark, trigger = peak - trail
+ * BUY:  tracks the low-water mark,  trigger = peak + trail
+ *
+ * Execution is the same as stop_market: once the price crosses the
+ * trigger, matchTriggerOrders() executes it at market.
+ */
+
+import { Decimal } from "decimal.js";
+import type { Decimal as DecimalInstance } from "decimal.js";
+import { getDb } from "@repo/db";
+import { ORDER_SIDE, ORDER_STATUS, ORDER_TYPE } from "./constants.js";
+
+export interface TrailParams {
+  trailAmount?: DecimalInstance;
+  trailPercent?: DecimalInstance;
+}
+
+export interface TrailingStopAdjustment {
+  orderId: number;
+  userId: number;
+  peakPrice: string;
+  triggerPrice: string;
+}
+
+/**
+ * Validate trail parameters: exactly one of amount or percent
+ * @throws Error if invalid
+ */
+export function validateTrail(
+  side: string,
+  marketPrice: DecimalInstance,
+  trail: TrailParams
+): void {
+  const hasAmount = trail.trailAmount !== undefined;
+  const hasPercent = trail.trailPercent !== undefined;
+
+  if (hasAmount === hasPercent) {
+    throw new Error("Trailing stop needs exactly one of trailAmount or trailPercent");
+  }
+
+  if (hasPercent) {
+    const percent = new Decimal(trail.trailPercent!);
+    if (percent.lte(0) || percent.gte(100)) {
+      throw new Error("trailPercent must be between 0 and 100");
+    }
+    return;
+  }
+
+  const amount = new Decimal(trail.trailAmount!);
+  if (amount.lte(0)) {
+    throw new Error("trailAmount must be > 0");
+  }
+  // A sell trigger at or below zero could never fire
+  if (side === ORDER_SIDE.SELL && amount.gte(marketPrice)) {
+    throw new Error("trailAmount must be less than the current price");
+  }
+}
+
+/**
+ * Calculate the trigger level for a given peak
+ */
+export function calculateTrailingTrigger(
+  side: string,
+  peak: DecimalInstance,
+  trail: TrailParams
+): DecimalInstance {
+  const distance =
+    trail.trailAmount !== undefined
+      ? new Decimal(trail.trailAmount)
+      : new Decimal(peak).times(trail.trailPercent!).dividedBy(100);
+
+  return side === ORDER_SIDE.SELL
+    ? new Decimal(peak).minus(distance)
+    : new Decimal(peak).plus(distance);
+}
+
+/**
+ * Move trailing stop triggers for a new price
+ * Called by the order-matching worker on each price update, BEFORE
+ * matchTriggerOrders() so executions see the latest trigger level.
+ *
+ * Only orders whose peak improves are touched: a new high for sells,
+ * a new low for buys. Each move is recorded in TrailingStopAdjustments.
+ *
+ * @returns Adjustments made
+ */
+export async function updateTrailingStops(
+  baseAsset: string,
+  price: DecimalInstance
+): Promise<TrailingStopAdjustment[]> {
+  const db = getDb();
+  const priceStr = new Decimal(price).toString();
+
+  const candidates = await db.orders.findMany({
+    where: {
+      status: ORDER_STATUS.PENDING,
+      type: ORDER_TYPE.TRAILING_STOP,
+      baseAsset,
+      OR: [
+        { side: ORDER_SIDE.SELL, trailingPeak: { lt: priceStr } },
+        { side: ORDER_SIDE.BUY, trailingPeak: { gt: priceStr } },
+      ],
+    },
+    select: { id: true },
+  });
+
+  const adjustments: TrailingStopAdjustment[] = [];
+
+  for (const { id } of candidates) {
+    try {
+      const adjustment = await db.$transaction(async (tx) => {
+        await tx.$queryRaw`SELECT id FROM orders WHERE id = ${id} FOR UPDATE`;
+
+        const order = await tx.orders.findUniqueOrThrow({ where: { id } });
+
+        // Re-check under lock: it may have filled or been cancelled meanwhile
+        if (order.status !== ORDER_STATUS.PENDING || order.trailingPeak === null) {
+          return null;
+        }
+
+        const peak = new Decimal(order.trailingPeak);
+        const newPeak = new Decimal(price);
+        const improved =
+          order.side === ORDER_SIDE.SELL ? newPeak.gt(peak) : newPeak.lt(peak);
+        if (!improved) {
+          return null;
+        }
+
+        const newTrigger = calculateTrailingTrigger(order.side, newPeak, {
+          trailAmount: order.trailAmount !== null ? new Decimal(order.trailAmount) : undefined,
+          trailPercent: order.trailPercent !== null ? new Decimal(order.trailPercent) : undefined,
+        });
+
+        await tx.orders.update({
+          where: { id },
+          data: {
+            trailingPeak: newPeak.toString(),
+            triggerPrice: newTrigger.toString(),
+          },
+        });
+
+        await tx.trailingStopAdjustments.create({
+          data: {
+            orderId: id,
+            peakPrice: newPeak.toString(),
+            triggerPrice: newTrigger.toString(),
+          },
+        });
+
+        return {
+          orderId: id,
+          userId: order.userId,
+          peakPrice: newPeak.toString(),
+          triggerPrice: newTrigger.toString(),
+        };
+      });
+
+      if (adjustment) {
+        adjustments.push(adjustment);
+      }
+    } catch (error) {
+      console.error(`[MATCHING] Failed to adjust trailing stop ${id}:`, error);
+    }
+  }
+
+  return adjustments;
+}
@@ -0,0 +1,169 @@
+/**
+ * Trigger Orders
+ * Stop-market, take-profit and trailing-stop orders that rest as pending
+ * until the price crosses their trigger, then execute at market
+ */
+
+import { Decimal } from "decimal.js";
+import type { Decimal as DecimalInstance } from "decimal.js";
+import { getDb } from "@repo/db";
+import { validateStatusTransition } from "./validation.js";
+import { executeMarketTrade } from "./execution.js";
+import { rejectOrder, type FillOrderResult } from "./fills.js";
+import { cancelBracketLegs } from "./brackets.js";
+import { getTradingErrorCode } from "./errors.js";
+import { ORDER_SIDE, ORDER_STATUS, ORDER_TYPE } from "./constants.js";
+
+export interface TriggerMatchResult {
+  filled: FillOrderResult[];
+  rejected: Array<{ orderId: number; userId: number; reason: string }>;
+}
+
+/**
+ * Check whether a price crosses a trigger order's trigger level
+ *
+ * stop_market, trailing_stop:  SELL when price <= trigger, BUY when price >= trigger
+ * take_profit:                 SELL when price >= trigger, BUY when price <= trigger
+ */
+export function isTriggerCrossed(
+  type: string,
+  side: string,
+  triggerPrice: DecimalInstance,
+  price: DecimalInstance
+): boolean {
+  const trigger = new Decimal(triggerPrice);
+  const current = new Decimal(price);
+  const isStop = type === ORDER_TYPE.STOP_MARKET || type === ORDER_TYPE.TRAILING_STOP;
+  const firesBelow = isStop === (side === ORDER_SIDE.SELL);
+
+  return firesBelow ? current.lte(trigger) : current.gte(trigger);
+}
+
+/**
+ * Get pending trigger orders crossed by the given price
+ * Oldest first, so earlier orders execute first (time priority)
+ */
+export async function getCrossedTriggerOrders(
+  baseAsset: string,
+  price: DecimalInstance
+) {
+  const db = getDb();
+  const priceStr = new Decimal(price).toString();
+
+  return await db.orders.findMany({
+    where: {
+      status: ORDER_STATUS.PENDING,
+      baseAsset,
+      OR: [
+        { type: ORDER_TYPE.STOP_MARKET, side: ORDER_SIDE.SELL, triggerPrice: { gte: priceStr } },
+        { type: ORDER_TYPE.STOP_MARKET, side: ORDER_SIDE.BUY, triggerPrice: { lte: priceStr } },
+        { type: ORDER_TYPE.TAKE_PROFIT, side: ORDER_SIDE.SELL, triggerPrice: { lte: priceStr } },
+        { type: ORDER_TYPE.TAKE_PROFIT, side: ORDER_SIDE.BUY, triggerPrice: { gte: priceStr } },
+        { type: ORDER_TYPE.TRAILING_STOP, side: ORDER_SIDE.SELL, triggerPrice: { gte: priceStr } },
+        { type: ORDER_TYPE.TRAILING_STOP, side: ORDER_SIDE.BUY, triggerPrice: { lte: priceStr } },
+      ],
+    },
+    orderBy: { createdAt: "asc" },
+  });
+}
+
+/**
+ * Execute a triggered order at market price
+ *
+ * Locks the order row, validates pending → filled, then runs the same
+ * atomic trade path as placeOrder() (balance check, trade, balances, position).
+ * A filled bracket leg cancels its sibling in the same transaction (OCO).
+ */
+export async function executeTriggerOrder(
+  orderId: number,
+  price: DecimalInstance
+): Promise<FillOrderResult> {
+  const db = getDb();
+  const executionPrice = new Decimal(price);
+
+  return await db.$transaction(async (tx) => {
+    await tx.$queryRaw`SELECT id FROM orders WHERE id = ${orderId} FOR UPDATE`;
+
+    const order = await tx.orders.findUniqueOrThrow({
+      where: { id: orderId },
+    });
+
+    validateStatusTransition(order.status, ORDER_STATUS.FILLED);
+
+    const result = await executeMarketTrade(
+      tx,
+      order.userId,
+      order.side,
+      order.baseAsset,
+      order.quoteAsset,
+      new Decimal(order.requestedSize),
+      executionPrice,
+      order.id
+    );
+
+    const cancelledOrderIds = order.parentOrderId
+      ? await cancelBracketLegs(tx, order.parentOrderId, order.id)
+      : [];
+
+    return {
+      ...result,
+      parentOrderId: order.parentOrderId,
+      childOrderIds: [],
+      cancelledOrderIds,
+      userId: order.userId,
+      side: order.side,
+      baseAsset: order.baseAsset,
+      quoteAsset: order.quoteAsset,
+    };
+  });
+}
+
+/**
+ * Execute every pending trigger order crossed by a new price
+ * Called by the order-matching worker on each price update
+ *
+ * Trigger orders hold no reservation, so funds are checked when they fire.
+ * An order that can no longer be covered (INSUFFICIENT_BALANCE / _MARGIN), or
+ * whose price impact exceeds SLIPPAGE_MAX_IMPACT (PRICE_IMPACT_TOO_HIGH), is
+ * rejected with the reason; any other failure is logged and the order stays
+ * pending.
+ *
+ * Triggers are crossed by the mid price; with a bid/ask quote, a triggered
+ * buy executes at the ask and a sell at the bid.
+ */
+export async function matchTriggerOrders(
+  baseAsset: string,
+  price: DecimalInstance,
+  quote?: { bid: DecimalInstance; ask: DecimalInstance }
+): Promise<TriggerMatchResult> {
+  const orders = await getCrossedTriggerOrders(baseAsset, price);
+  const result: TriggerMatchResult = { filled: [], rejected: [] };
+
+  for (const order of orders) {
+    try {
+      const executionPrice = quote
+        ? order.side === ORDER_SIDE.BUY
+          ? quote.ask
+          : quote.bid
+        : price;
+      result.filled.push(await executeTriggerOrder(order.id, executionPrice));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unknown error";
+
+      // Every TRADING_ERROR_CODE: the order cannot fill at this price, retrying will not help
+      if (getTradingErrorCode(error)) {
+        try {
+          await rejectOrder(order.id, message);
+          result.rejected.push({ orderId: order.id, userId: order.userId, reason: message });
+        } catch (rejectError) {
+          console.error(`[MATCHING] Failed to reject order ${order.id}:`, rejectError);
+        }
+        continue;
+      }
+
+      console.error(`[MATCHING] Failed to execute trigger order ${order.id}:`, error);
+    }
+  }
+
+  return result;
+}
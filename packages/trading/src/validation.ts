@@ -3,8 +3,9 @@
  * Input validation and invariant checks before database writes
  */
 
-import Decimal from "decimal.js";
+import { Decimal } from "decimal.js";
 import type { Decimal as DecimalIntsance } from "decimal.js";
+import { getMarket, marketSymbol, type Market } from "@repo/pricing";
 import { ORDER_SIDE, ORDER_STATUS, ORDER_TYPE } from "./constants.js";
 /**
  * Validate order placement parameters
@@ -39,12 +40,72 @@ export function validateOrderInput(
   }
 }
 
+/**
+ * Get the active registry market an order trades on
+ * @throws Error "Unknown market: BASE/QUOTE" if the pair is not listed or inactive
+ */
+
+export async function requireMarket(baseAsset: string, quoteAsset: string): Promise<Market> {
+  const market = await getMarket(baseAsset, quoteAsset);
+  if (!market) {
+    throw new Error(`Unknown market: ${marketSymbol(baseAsset, quoteAsset)}`);
+  }
+  return market;
+}
+
+/**
+ * Validate an order against its market's rules
+ * Size: a multiple of lotSize within [minOrderSize, maxOrderSize]
+ * Prices the user sets (limit, trigger, bracket levels): multiples of tickSize
+ *
+ * @param prices Named prices to check, e.g. { limitPrice }
+ * @throws Error "Invalid order for BASE/QUOTE: ..." on the first rule broken
+ */
+
+export function validateMarketRules(
+  market: Market,
+  requestedSize: DecimalIntsance,
+  prices: Record<string, DecimalIntsance | undefined> = {}
+): void {
+  const size = new Decimal(requestedSize);
+  const fail = (reason: string) => {
+    throw new Error(`Invalid order for ${market.symbol}: ${reason}`);
+  };
+
+  if (size.lt(market.minOrderSize)) {
+    fail(`size ${size.toString()} is below the minimum ${market.minOrderSize.toString()}`);
+  }
+  if (size.gt(market.maxOrderSize)) {
+    fail(`size ${size.toString()} is above the maximum ${market.maxOrderSize.toString()}`);
+  }
+  if (!size.mod(market.lotSize).isZero()) {
+    fail(`size ${size.toString()} is not a multiple of the lot size ${market.lotSize.toString()}`);
+  }
+
+  for (const [name, price] of Object.entries(prices)) {
+    if (price !== undefined && !new Decimal(price).mod(market.tickSize).isZero()) {
+      fail(
+        `${name} ${price.toString()} is not a multiple of the tick size ${market.tickSize.toString()}`
+      );
+    }
+  }
+}
+
+/**
+ * Round a derived size (e.g. from a quote amount) to the market's lot size:
+ * down for buys (never spend more), up for sells (never receive less)
+ */
+
+export function roundToLot(market: Market, side: string, size: DecimalIntsance): DecimalIntsance {
+  const rounding = side === ORDER_SIDE.BUY ? Decimal.ROUND_DOWN : Decimal.ROUND_UP;
+  return new Decimal(size).toNearest(market.lotSize, rounding);
+}
+
 /**
  * Validate order status state machine
- * Only allowed: pending → {filled, rejected}
+ * Only allowed: pending → {filled, rejected, cancelled}
+ * Used by fillOrder()/rejectOrder()/cancelOrder() for resting (limit) orders
  * 
- * @deprecated Market orders now execute directly in placeOrder() with no pending state.
- *             Kept for potential future limit order support.
  * @throws Error if transition is invalid
  */
 
@@ -52,26 +113,34 @@ export function validateStatusTransition(
   currentStatus: string,
   newStatus: string
 ): void {
-  // From pending, can go to filled or rejected
+  // From pending, can go to filled, rejected or cancelled
   if (currentStatus === ORDER_STATUS.PENDING) {
     if (
-      ![ORDER_STATUS.FILLED, ORDER_STATUS.REJECTED].includes(newStatus as any)
+      ![
+        ORDER_STATUS.FILLED,
+        ORDER_STATUS.REJECTED,
+        ORDER_STATUS.CANCELLED,
+      ].includes(newStatus as any)
     ) {
       throw new Error(
         `Invalid transitions: '${currentStatus}' -> '${newStatus}'.` +
-          `From pending, can only go to filled or rejected`
+          `From pending, can only go to filled, rejected or cancelled`
       );
     }
     return;
   }
 
-  // From filled/rejected (terminal states), cannot transition
+  // From filled/rejected/cancelled (terminal states), cannot transition
   if (
-    [ORDER_STATUS.FILLED, ORDER_STATUS.REJECTED].includes(currentStatus as any)
+    [
+      ORDER_STATUS.FILLED,
+      ORDER_STATUS.REJECTED,
+      ORDER_STATUS.CANCELLED,
+    ].includes(currentStatus as any)
   ) {
     throw new Error(
       `Cannot transition from terminal state '${currentStatus}'. ` +
-        `Orders cannot change after filled or rejected`
+        `Orders cannot change after filled, rejected or cancelled`
     );
   }
 
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "orders" ADD COLUMN     "limitPrice" DECIMAL(20,8);
+
+-- CreateIndex
+CREATE INDEX "orders_status_type_baseAsset_idx" ON "orders"("status", "type", "baseAsset");
@@ -0,0 +1,10 @@
+-- AlterTable
+ALTER TABLE "orders" ADD COLUMN     "parentOrderId" INTEGER,
+ADD COLUMN     "stopLossPrice" DECIMAL(20,8),
+ADD COLUMN     "takeProfitPrice" DECIMAL(20,8);
+
+-- CreateIndex
+CREATE INDEX "orders_parentOrderId_idx" ON "orders"("parentOrderId");
+
+-- AddForeignKey
+ALTER TABLE "orders" ADD CONSTRAINT "orders_parentOrderId_fkey" FOREIGN KEY ("parentOrderId") REFERENCES "orders"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
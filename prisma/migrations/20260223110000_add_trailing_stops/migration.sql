@@ -0,0 +1,21 @@
+-- AlterTable
+ALTER TABLE "orders" ADD COLUMN     "trailAmount" DECIMAL(20,8),
+ADD COLUMN     "trailPercent" DECIMAL(10,4),
+ADD COLUMN     "trailingPeak" DECIMAL(20,8);
+
+-- CreateTable
+CREATE TABLE "trailing_stop_adjustments" (
+    "id" SERIAL NOT NULL,
+    "orderId" INTEGER NOT NULL,
+    "peakPrice" DECIMAL(20,8) NOT NULL,
+    "triggerPrice" DECIMAL(20,8) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "trailing_stop_adjustments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "trailing_stop_adjustments_orderId_createdAt_idx" ON "trailing_stop_adjustments"("orderId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "trailing_stop_adjustments" ADD CONSTRAINT "trailing_stop_adjustments_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "orders"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
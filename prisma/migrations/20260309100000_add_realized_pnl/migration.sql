@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "positions" ADD COLUMN     "realizedPnl" DECIMAL(20,8) NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "trades" ADD COLUMN     "costBasis" DECIMAL(20,8),
+ADD COLUMN     "realizedPnl" DECIMAL(20,8);
@@ -0,0 +1,65 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN     "costBasisMethod" VARCHAR(10) NOT NULL DEFAULT 'fifo';
+
+-- CreateTable
+CREATE TABLE "tax_lots" (
+    "id" SERIAL NOT NULL,
+    "userId" INTEGER NOT NULL,
+    "asset" VARCHAR(20) NOT NULL,
+    "buyTradeId" INTEGER,
+    "price" DECIMAL(20,8) NOT NULL,
+    "size" DECIMAL(20,8) NOT NULL,
+    "remainingSize" DECIMAL(20,8) NOT NULL,
+    "acquiredAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "tax_lots_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "lot_disposals" (
+    "id" SERIAL NOT NULL,
+    "lotId" INTEGER NOT NULL,
+    "sellTradeId" INTEGER NOT NULL,
+    "size" DECIMAL(20,8) NOT NULL,
+    "costBasis" DECIMAL(20,8) NOT NULL,
+    "proceeds" DECIMAL(20,8) NOT NULL,
+    "realizedPnl" DECIMAL(20,8) NOT NULL,
+    "method" VARCHAR(10) NOT NULL,
+    "holdingPeriodDays" INTEGER NOT NULL,
+    "term" VARCHAR(10) NOT NULL,
+    "disposedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "lot_disposals_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "tax_lots_buyTradeId_key" ON "tax_lots"("buyTradeId");
+
+-- CreateIndex
+CREATE INDEX "tax_lots_userId_asset_acquiredAt_idx" ON "tax_lots"("userId", "asset", "acquiredAt");
+
+-- CreateIndex
+CREATE INDEX "lot_disposals_lotId_idx" ON "lot_disposals"("lotId");
+
+-- CreateIndex
+CREATE INDEX "lot_disposals_sellTradeId_idx" ON "lot_disposals"("sellTradeId");
+
+-- AddForeignKey
+ALTER TABLE "tax_lots" ADD CONSTRAINT "tax_lots_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "tax_lots" ADD CONSTRAINT "tax_lots_buyTradeId_fkey" FOREIGN KEY ("buyTradeId") REFERENCES "trades"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "lot_disposals" ADD CONSTRAINT "lot_disposals_lotId_fkey" FOREIGN KEY ("lotId") REFERENCES "tax_lots"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "lot_disposals" ADD CONSTRAINT "lot_disposals_sellTradeId_fkey" FOREIGN KEY ("sellTradeId") REFERENCES "trades"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- Open one lot per existing position, at its average entry price
+INSERT INTO "tax_lots" ("userId", "asset", "price", "size", "remainingSize", "acquiredAt", "updatedAt")
+SELECT "userId", "asset", "avgEntryPrice", "size", "size", "updatedAt", CURRENT_TIMESTAMP
+FROM "positions"
+WHERE "size" > 0;
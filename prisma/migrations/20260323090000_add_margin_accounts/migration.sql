@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN     "accountMode" VARCHAR(10) NOT NULL DEFAULT 'cash';
@@ -0,0 +1,99 @@
+-- CreateTable
+CREATE TABLE "perp_positions" (
+    "id" SERIAL NOT NULL,
+    "userId" INTEGER NOT NULL,
+    "market" VARCHAR(20) NOT NULL,
+    "size" DECIMAL(20,8) NOT NULL,
+    "entryPrice" DECIMAL(20,8) NOT NULL,
+    "margin" DECIMAL(20,8) NOT NULL,
+    "realizedPnl" DECIMAL(20,8) NOT NULL DEFAULT 0,
+    "fundingPnl" DECIMAL(20,8) NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "perp_positions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "perp_trades" (
+    "id" SERIAL NOT NULL,
+    "positionId" INTEGER NOT NULL,
+    "userId" INTEGER NOT NULL,
+    "market" VARCHAR(20) NOT NULL,
+    "side" VARCHAR(10) NOT NULL,
+    "type" VARCHAR(20) NOT NULL,
+    "price" DECIMAL(20,8) NOT NULL,
+    "size" DECIMAL(20,8) NOT NULL,
+    "fee" DECIMAL(20,8) NOT NULL,
+    "realizedPnl" DECIMAL(20,8),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "perp_trades_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "funding_rates" (
+    "id" SERIAL NOT NULL,
+    "market" VARCHAR(20) NOT NULL,
+    "fundingTime" TIMESTAMP(3) NOT NULL,
+    "indexPrice" DECIMAL(20,8) NOT NULL,
+    "markPrice" DECIMAL(20,8) NOT NULL,
+    "rate" DECIMAL(20,10) NOT NULL,
+    "longOpenInterest" DECIMAL(20,8) NOT NULL,
+    "shortOpenInterest" DECIMAL(20,8) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "funding_rates_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "funding_payments" (
+    "id" SERIAL NOT NULL,
+    "fundingRateId" INTEGER NOT NULL,
+    "positionId" INTEGER NOT NULL,
+    "userId" INTEGER NOT NULL,
+    "positionSize" DECIMAL(20,8) NOT NULL,
+    "amount" DECIMAL(20,8) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "funding_payments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "perp_positions_market_idx" ON "perp_positions"("market");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "perp_positions_userId_market_key" ON "perp_positions"("userId", "market");
+
+-- CreateIndex
+CREATE INDEX "perp_trades_userId_createdAt_idx" ON "perp_trades"("userId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "perp_trades_positionId_idx" ON "perp_trades"("positionId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "funding_rates_market_fundingTime_key" ON "funding_rates"("market", "fundingTime");
+
+-- CreateIndex
+CREATE INDEX "funding_payments_userId_createdAt_idx" ON "funding_payments"("userId", "createdAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "funding_payments_fundingRateId_positionId_key" ON "funding_payments"("fundingRateId", "positionId");
+
+-- AddForeignKey
+ALTER TABLE "perp_positions" ADD CONSTRAINT "perp_positions_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "perp_trades" ADD CONSTRAINT "perp_trades_positionId_fkey" FOREIGN KEY ("positionId") REFERENCES "perp_positions"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "perp_trades" ADD CONSTRAINT "perp_trades_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "funding_payments" ADD CONSTRAINT "funding_payments_fundingRateId_fkey" FOREIGN KEY ("fundingRateId") REFERENCES "funding_rates"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "funding_payments" ADD CONSTRAINT "funding_payments_positionId_fkey" FOREIGN KEY ("positionId") REFERENCES "perp_positions"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "funding_payments" ADD CONSTRAINT "funding_payments_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "trades" ADD COLUMN     "referencePrice" DECIMAL(20,8),
+ADD COLUMN     "slippage" DECIMAL(20,8) NOT NULL DEFAULT 0;
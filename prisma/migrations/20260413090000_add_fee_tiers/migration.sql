@@ -0,0 +1,28 @@
+-- AlterTable
+ALTER TABLE "trades" ADD COLUMN     "feeTier" VARCHAR(50),
+ADD COLUMN     "feeRate" DECIMAL(10,8),
+ADD COLUMN     "liquidity" VARCHAR(10);
+
+-- AlterTable
+ALTER TABLE "perp_trades" ADD COLUMN     "feeTier" VARCHAR(50),
+ADD COLUMN     "feeRate" DECIMAL(10,8);
+
+-- CreateTable
+CREATE TABLE "fee_overrides" (
+    "id" SERIAL NOT NULL,
+    "userId" INTEGER NOT NULL,
+    "label" VARCHAR(50) NOT NULL,
+    "makerRate" DECIMAL(10,8) NOT NULL,
+    "takerRate" DECIMAL(10,8) NOT NULL,
+    "expiresAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "fee_overrides_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "fee_overrides_userId_key" ON "fee_overrides"("userId");
+
+-- AddForeignKey
+ALTER TABLE "fee_overrides" ADD CONSTRAINT "fee_overrides_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
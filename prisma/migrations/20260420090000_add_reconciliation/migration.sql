@@ -0,0 +1,42 @@
+-- AlterTable
+ALTER TABLE "trades" ADD COLUMN     "badDebt" DECIMAL(20,8) NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "reconciliation_runs" (
+    "id" SERIAL NOT NULL,
+    "repair" BOOLEAN NOT NULL DEFAULT false,
+    "usersChecked" INTEGER NOT NULL DEFAULT 0,
+    "driftCount" INTEGER NOT NULL DEFAULT 0,
+    "startedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "finishedAt" TIMESTAMP(3),
+
+    CONSTRAINT "reconciliation_runs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "reconciliation_drifts" (
+    "id" SERIAL NOT NULL,
+    "runId" INTEGER NOT NULL,
+    "userId" INTEGER NOT NULL,
+    "kind" VARCHAR(10) NOT NULL,
+    "asset" VARCHAR(20) NOT NULL,
+    "field" VARCHAR(20) NOT NULL,
+    "expected" DECIMAL(20,8) NOT NULL,
+    "actual" DECIMAL(20,8) NOT NULL,
+    "difference" DECIMAL(20,8) NOT NULL,
+    "repaired" BOOLEAN NOT NULL DEFAULT false,
+
+    CONSTRAINT "reconciliation_drifts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "reconciliation_runs_startedAt_idx" ON "reconciliation_runs"("startedAt");
+
+-- CreateIndex
+CREATE INDEX "reconciliation_drifts_runId_idx" ON "reconciliation_drifts"("runId");
+
+-- CreateIndex
+CREATE INDEX "reconciliation_drifts_userId_idx" ON "reconciliation_drifts"("userId");
+
+-- AddForeignKey
+ALTER TABLE "reconciliation_drifts" ADD CONSTRAINT "reconciliation_drifts_runId_fkey" FOREIGN KEY ("runId") REFERENCES "reconciliation_runs"("id") ON DELETE CASCADE ON UPDATE CASCADE;
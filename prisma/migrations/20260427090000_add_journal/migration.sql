@@ -0,0 +1,71 @@
+-- CreateTable
+CREATE TABLE "journal_transactions" (
+    "id" SERIAL NOT NULL,
+    "type" VARCHAR(20) NOT NULL,
+    "userId" INTEGER,
+    "orderId" INTEGER,
+    "tradeId" INTEGER,
+    "perpTradeId" INTEGER,
+    "description" VARCHAR(255),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "journal_transactions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "journal_entries" (
+    "id" SERIAL NOT NULL,
+    "transactionId" INTEGER NOT NULL,
+    "userId" INTEGER,
+    "account" VARCHAR(20) NOT NULL,
+    "asset" VARCHAR(20) NOT NULL,
+    "amount" DECIMAL(20,8) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "journal_entries_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "journal_transactions_userId_createdAt_idx" ON "journal_transactions"("userId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "journal_transactions_tradeId_idx" ON "journal_transactions"("tradeId");
+
+-- CreateIndex
+CREATE INDEX "journal_entries_transactionId_idx" ON "journal_entries"("transactionId");
+
+-- CreateIndex
+CREATE INDEX "journal_entries_userId_asset_account_idx" ON "journal_entries"("userId", "asset", "account");
+
+-- CreateIndex
+CREATE INDEX "journal_entries_account_asset_idx" ON "journal_entries"("account", "asset");
+
+-- AddForeignKey
+ALTER TABLE "journal_entries" ADD CONSTRAINT "journal_entries_transactionId_fkey" FOREIGN KEY ("transactionId") REFERENCES "journal_transactions"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- Backfill: one opening_balance transaction per existing user, so the
+-- journal sums to the current Balances (and perp margins) from the start.
+-- Every perp market is quoted in USDC.
+WITH "lines" AS (
+    SELECT "userId", 'available' AS "account", "asset", "available" AS "amount"
+    FROM "balances" WHERE "available" <> 0
+    UNION ALL
+    SELECT "userId", 'locked', "asset", "locked"
+    FROM "balances" WHERE "locked" <> 0
+    UNION ALL
+    SELECT "userId", 'perp_margin', 'USDC', SUM("margin")
+    FROM "perp_positions" GROUP BY "userId" HAVING SUM("margin") <> 0
+),
+"opening" AS (
+    INSERT INTO "journal_transactions" ("type", "userId", "description")
+    SELECT 'opening_balance', "userId", 'Balances before the journal'
+    FROM "lines" GROUP BY "userId"
+    RETURNING "id", "userId"
+)
+INSERT INTO "journal_entries" ("transactionId", "userId", "account", "asset", "amount")
+SELECT "opening"."id", "lines"."userId", "lines"."account", "lines"."asset", "lines"."amount"
+FROM "lines" JOIN "opening" ON "opening"."userId" = "lines"."userId"
+UNION ALL
+SELECT "opening"."id", NULL, 'equity', "lines"."asset", -SUM("lines"."amount")
+FROM "lines" JOIN "opening" ON "opening"."userId" = "lines"."userId"
+GROUP BY "opening"."id", "lines"."asset";
@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "risk_limits" (
+    "id" SERIAL NOT NULL,
+    "userId" INTEGER NOT NULL,
+    "maxPositionSize" DECIMAL(20,8),
+    "maxOrderNotional" DECIMAL(20,8),
+    "maxOrdersPerDay" INTEGER,
+    "maxDailyLoss" DECIMAL(20,8),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "risk_limits_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "risk_limits_userId_key" ON "risk_limits"("userId");
+
+-- AddForeignKey
+ALTER TABLE "risk_limits" ADD CONSTRAINT "risk_limits_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "users" ALTER COLUMN "walletAddress" DROP NOT NULL,
+ADD COLUMN     "ownerId" INTEGER,
+ADD COLUMN     "name" VARCHAR(32) NOT NULL DEFAULT 'main',
+ADD COLUMN     "archivedAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "users_ownerId_name_idx" ON "users"("ownerId", "name");
+
+-- AddForeignKey
+ALTER TABLE "users" ADD CONSTRAINT "users_ownerId_fkey" FOREIGN KEY ("ownerId") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
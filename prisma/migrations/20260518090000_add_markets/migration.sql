@@ -0,0 +1,28 @@
+-- CreateTable
+CREATE TABLE "markets" (
+    "id" SERIAL NOT NULL,
+    "symbol" VARCHAR(41) NOT NULL,
+    "baseAsset" VARCHAR(20) NOT NULL,
+    "quoteAsset" VARCHAR(20) NOT NULL,
+    "tickSize" DECIMAL(20,8) NOT NULL,
+    "lotSize" DECIMAL(20,8) NOT NULL,
+    "minOrderSize" DECIMAL(20,8) NOT NULL,
+    "maxOrderSize" DECIMAL(20,8) NOT NULL,
+    "priceFeedId" VARCHAR(100),
+    "devPrice" DECIMAL(20,8),
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "markets_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "markets_symbol_key" ON "markets"("symbol");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "markets_baseAsset_quoteAsset_key" ON "markets"("baseAsset", "quoteAsset");
+
+-- Seed the market traded so far (SOL/USDC, Pyth SOL/USD feed)
+INSERT INTO "markets" ("symbol", "baseAsset", "quoteAsset", "tickSize", "lotSize", "minOrderSize", "maxOrderSize", "priceFeedId", "devPrice", "updatedAt")
+VALUES ('SOL/USDC', 'SOL', 'USDC', 0.01, 0.00000001, 0.01, 10000, '0xef0d8b6fda2ceba41da15d4095d1da392a0d2f8ed0c6c7bc0f4cfac8c280b56d', 230.50, CURRENT_TIMESTAMP);
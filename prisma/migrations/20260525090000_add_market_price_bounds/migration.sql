@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "markets" ADD COLUMN     "minPrice" DECIMAL(20,8),
+ADD COLUMN     "maxPrice" DECIMAL(20,8);
+
+-- Bounds wide enough for any plausible SOL/USD print, tight enough to catch
+-- a misapplied exponent
+UPDATE "markets" SET "minPrice" = 0.01, "maxPrice" = 100000 WHERE "symbol" = 'SOL/USDC';
@@ -0,0 +1,3 @@
+-- SOL/USDC was seeded with a minimum order of 0.01 SOL, but orders from
+-- 0.001 SOL were accepted before the registry: keep accepting them
+UPDATE "markets" SET "minOrderSize" = 0.001 WHERE "symbol" = 'SOL/USDC' AND "minOrderSize" = 0.01;
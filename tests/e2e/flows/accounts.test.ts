@@ -0,0 +1,157 @@
+import { afterAll, beforeAll, describe, expect, test } from "vitest";
+import { getApiClient, shutdownApiClient } from "../setup/testServer.ts";
+import { createAuthenticatedUser } from "../helpers/auth.ts";
+import { setTestPrice } from "../helpers/price.ts";
+import type { SuperTest, Test } from "supertest";
+
+/**
+ * Accounts E2E Tests
+ *
+ * Tests named paper sub-accounts under one wallet:
+ * 1. A wallet starts with its 'main' account and can create named ones
+ * 2. The X-Account header selects the account trading routes act on
+ * 3. Resetting an account cancels its orders, archives its history and
+ *    starts it over at the initial balance
+ */
+
+describe("Accounts (E2E)", () => {
+  let api: SuperTest<Test>;
+  let token: string;
+
+  const getAccounts = (query: string = "") =>
+    api.get(`/accounts${query}`).set("Authorization", `Bearer ${token}`);
+
+  const getBalance = async (account: string, asset: string) => {
+    const res = await api
+      .get("/portfolio")
+      .set("Authorization", `Bearer ${token}`)
+      .set("X-Account", account);
+    return res.body.portfolio.balances.find((b: any) => b.asset === asset);
+  };
+
+  const postOrder = (account: string, body: Record<string, string>) =>
+    api
+      .post("/orders")
+      .set("Authorization", `Bearer ${token}`)
+      .set("X-Account", account)
+      .send({ baseAsset: "SOL", quoteAsset: "USDC", ...body });
+
+  beforeAll(async () => {
+    api = await getApiClient();
+    await setTestPrice("SOL", "100");
+    ({ token } = await createAuthenticatedUser(api));
+  });
+
+  afterAll(async () => {
+    await shutdownApiClient();
+  });
+
+  describe("Sub-accounts", () => {
+    test("a wallet starts with its main account", async () => {
+      const res = await getAccounts();
+
+      expect(res.status).toBe(200);
+      expect(res.body.accounts).toHaveLength(1);
+      expect(res.body.accounts[0]).toMatchObject({ name: "main", archivedAt: null });
+    });
+
+    test("POST /accounts creates a funded sub-account", async () => {
+      const res = await api
+        .post("/accounts")
+        .set("Authorization", `Bearer ${token}`)
+        .send({ name: "scalping" });
+
+      expect(res.status).toBe(201);
+      expect(res.body.account.name).toBe("scalping");
+      expect(
+        res.body.account.balances.find((b: any) => b.asset === "USDC").available
+      ).toBe("1000");
+
+      const list = await getAccounts();
+      expect(list.body.accounts.map((a: any) => a.name)).toEqual(["main", "scalping"]);
+    });
+
+    test("rejects duplicate and malformed names", async () => {
+      const duplicate = await api
+        .post("/accounts")
+        .set("Authorization", `Bearer ${token}`)
+        .send({ name: "scalping" });
+      expect(duplicate.status).toBe(409);
+      expect(duplicate.body.code).toBe("ACCOUNT_EXISTS");
+
+      const main = await api
+        .post("/accounts")
+        .set("Authorization", `Bearer ${token}`)
+        .send({ name: "main" });
+      expect(main.status).toBe(409);
+
+      const malformed = await api
+        .post("/accounts")
+        .set("Authorization", `Bearer ${token}`)
+        .send({ name: "Not Valid!" });
+      expect(malformed.status).toBe(400);
+    });
+
+    test("X-Account selects the account an order trades on", async () => {
+      const order = await postOrder("scalping", { side: "buy", requestedSize: "2" });
+      expect(order.status).toBe(201);
+
+      expect((await getBalance("scalping", "SOL")).available).toBe("2");
+      expect((await getBalance("main", "USDC")).available).toBe("1000");
+    });
+
+    test("an unknown X-Account is rejected", async () => {
+      const res = await postOrder("swing", { side: "buy", requestedSize: "1" });
+
+      expect(res.status).toBe(404);
+      expect(res.body.code).toBe("ACCOUNT_NOT_FOUND");
+    });
+  });
+
+  describe("Reset", () => {
+    test("resets an account to the initial balance and archives its history", async () => {
+      const pending = await postOrder("scalping", {
+        side: "buy",
+        type: "limit",
+        requestedSize: "1",
+        limitPrice: "90",
+      });
+      expect(pending.status).toBe(201);
+
+      const res = await api
+        .post("/accounts/scalping/reset")
+        .set("Authorization", `Bearer ${token}`);
+
+      expect(res.status).toBe(200);
+      expect(res.body.cancelledOrderIds).toEqual([pending.body.orderId]);
+      expect((await getBalance("scalping", "USDC")).available).toBe("1000");
+      expect((await getBalance("scalping", "SOL")).available).toBe("0");
+
+      const orders = await api
+        .get("/orders")
+        .set("Authorization", `Bearer ${token}`)
+        .set("X-Account", "scalping");
+      expect(orders.body.orders).toHaveLength(0);
+
+      // The archive keeps the old balances and is not selectable
+      const list = await getAccounts("?includeArchived=true");
+      const archive = list.body.accounts.find(
+        (a: any) => a.accountId === res.body.archivedAccountId
+      );
+      expect(archive).toMatchObject({ name: "scalping" });
+      expect(archive.archivedAt).not.toBeNull();
+      expect(archive.balances.find((b: any) => b.asset === "SOL").available).toBe("2");
+
+      expect((await getAccounts()).body.accounts).toHaveLength(2);
+    });
+
+    test("resetting an unknown account is a 404", async () => {
+      const res = await api
+        .post("/accounts/swing/reset")
+        .set("Authorization", `Bearer ${token}`);
+
+      expect(res.status).toBe(404);
+      expect(res.body.code).toBe("ACCOUNT_NOT_FOUND");
+    });
+  });
+});
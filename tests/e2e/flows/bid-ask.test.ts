@@ -0,0 +1,248 @@
+import { afterAll, afterEach, beforeAll, describe, expect, test, vi } from "vitest";
+import { getApiClient, shutdownApiClient } from "../setup/testServer.ts";
+import { createAuthenticatedUser } from "../helpers/auth.ts";
+import { setTestPrice } from "../helpers/price.ts";
+import type { SuperTest, Test } from "supertest";
+import { Decimal } from "decimal.js";
+import { calculateQuote, getQuoteSidePrice, setPrice } from "@repo/pricing";
+import { matchLimitOrders } from "@repo/trading";
+import {
+  fetchPythPrice,
+  type PythHermesResponse,
+} from "../../../workers/price-ingestion/src/pyth.ts";
+
+/**
+ * Bid/Ask E2E Tests
+ *
+ * Tests the synthetic spread built from the Pyth confidence interval:
+ * 1. The Hermes price, confidence and EMA are parsed with the exponent applied
+ * 2. Confidence too wide for a spread is rejected
+ * 3. /market/price/:symbol exposes bid, ask and confidence
+ * 4. Market buys fill at the ask, sells at the bid
+ * 5. Limit orders cross and fill at the touch, not the mid
+ */
+
+const SOL_FEED_ID = "ef0d8b6fda2ceba41da15d4095d1da392a0d2f8ed0c6c7bc0f4cfac8c280b56d";
+
+function hermesResponse(price: string, conf: string): PythHermesResponse {
+  return {
+    binary: { encoding: "hex", data: [] },
+    parsed: [
+      {
+        id: SOL_FEED_ID,
+        price: { price, conf, expo: -8, publish_time: 1767225600 },
+        ema_price: { price: "9990000000", conf: "40000000", expo: -8, publish_time: 1767225600 },
+      },
+    ],
+  };
+}
+
+function stubHermes(body: unknown, status = 200) {
+  const fetchMock = vi.fn(
+    async (_url: string | URL) => new Response(JSON.stringify(body), { status })
+  );
+  vi.stubGlobal("fetch", fetchMock);
+  return fetchMock;
+}
+
+describe("Bid/Ask (E2E)", () => {
+  let api: SuperTest<Test>;
+
+  beforeAll(async () => {
+    api = await getApiClient();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  afterAll(async () => {
+    // Later suites expect bid = ask = price
+    await setTestPrice("SOL", "100");
+    await shutdownApiClient();
+  });
+
+  describe("Pyth ingestion", () => {
+    test("parses price, confidence and EMA from a Hermes response", async () => {
+      const fetchMock = stubHermes(hermesResponse("10000000000", "50000000"));
+
+      const pythPrice = await fetchPythPrice(SOL_FEED_ID, "http://hermes.test");
+
+      expect(fetchMock).toHaveBeenCalledOnce();
+      expect(String(fetchMock.mock.calls[0]![0])).toContain(
+        "http://hermes.test/v2/updates/price/latest"
+      );
+      expect(pythPrice.price.toString()).toBe("100");
+      expect(pythPrice.confidence.toString()).toBe("0.5");
+      expect(pythPrice.emaPrice.toString()).toBe("99.9");
+      expect(pythPrice.emaConfidence.toString()).toBe("0.4");
+      expect(pythPrice.publishTime.toISOString()).toBe("2026-01-01T00:00:00.000Z");
+    });
+
+    test("rejects a confidence wider than 2% of the price", async () => {
+      // ±3 on 100
+      stubHermes(hermesResponse("10000000000", "300000000"));
+
+      await expect(fetchPythPrice(SOL_FEED_ID, "http://hermes.test")).rejects.toThrow(
+        "Confidence too wide"
+      );
+    });
+
+    test("rejects a response without the SOL/USD feed", async () => {
+      stubHermes({ binary: { encoding: "hex", data: [] }, parsed: [] });
+
+      await expect(fetchPythPrice(SOL_FEED_ID, "http://hermes.test")).rejects.toThrow(
+        "No price data"
+      );
+    });
+  });
+
+  describe("Quotes", () => {
+    test("spread is the confidence either side of the mid price", () => {
+      const quote = calculateQuote(new Decimal("100"), new Decimal("0.5"));
+
+      expect(quote.bid.toString()).toBe("99.5");
+      expect(quote.ask.toString()).toBe("100.5");
+      expect(getQuoteSidePrice(quote, "buy").toString()).toBe("100.5");
+      expect(getQuoteSidePrice(quote, "sell").toString()).toBe("99.5");
+    });
+
+    test("no confidence quotes bid = ask = price", () => {
+      const quote = calculateQuote(new Decimal("100"));
+
+      expect(quote.bid.toString()).toBe("100");
+      expect(quote.ask.toString()).toBe("100");
+    });
+
+    test("rejects a negative confidence or one that leaves no bid", () => {
+      expect(() => calculateQuote(new Decimal("100"), new Decimal("-1"))).toThrow(
+        "Invalid confidence"
+      );
+      expect(() => calculateQuote(new Decimal("100"), new Decimal("100"))).toThrow(
+        "leaves no bid"
+      );
+    });
+  });
+
+  describe("Market", () => {
+    let token: string;
+
+    const postOrder = (side: string) =>
+      api
+        .post("/orders")
+        .set("Authorization", `Bearer ${token}`)
+        .send({ side, baseAsset: "SOL", quoteAsset: "USDC", requestedSize: "2" });
+
+    const getUsdc = async () => {
+      const res = await api.get("/portfolio").set("Authorization", `Bearer ${token}`);
+      return res.body.portfolio.balances.find((b: any) => b.asset === "USDC");
+    };
+
+    beforeAll(async () => {
+      // What the worker writes for the Hermes response above
+      await setPrice("SOL", new Decimal("100"), new Date(), new Decimal("0.5"));
+      ({ token } = await createAuthenticatedUser(api));
+    });
+
+    test("GET /market/price/:symbol exposes bid and ask", async () => {
+      const res = await api.get("/market/price/SOL");
+
+      expect(res.status).toBe(200);
+      expect(res.body.price).toBe("100");
+      expect(res.body.bid).toBe("99.5");
+      expect(res.body.ask).toBe("100.5");
+      expect(res.body.confidence).toBe("0.5");
+    });
+
+    test("the preview prices a buy at the ask", async () => {
+      const res = await api
+        .post("/orders/preview")
+        .set("Authorization", `Bearer ${token}`)
+        .send({ side: "buy", baseAsset: "SOL", quoteAsset: "USDC", requestedSize: "2" });
+
+      expect(res.status).toBe(200);
+      expect(res.body.executedPrice).toBe("100.5");
+    });
+
+    test("a market buy fills at the ask", async () => {
+      const res = await postOrder("buy");
+
+      expect(res.status).toBe(201);
+      expect(res.body.executedPrice).toBe("100.5");
+
+      // 1000 - 201 - 0.201
+      expect((await getUsdc()).available).toBe("798.799");
+    });
+
+    test("a market sell fills at the bid", async () => {
+      const res = await postOrder("sell");
+
+      expect(res.status).toBe(201);
+      expect(res.body.executedPrice).toBe("99.5");
+
+      // 798.799 + 199 - 0.199
+      expect((await getUsdc()).available).toBe("997.6");
+    });
+
+    test("a price set without confidence collapses the spread", async () => {
+      await setTestPrice("SOL", "100");
+
+      const res = await api.get("/market/price/SOL");
+      expect(res.body.bid).toBe("100");
+      expect(res.body.ask).toBe("100");
+      expect(res.body.confidence).toBe("0");
+    });
+  });
+
+  describe("Limit orders", () => {
+    let token: string;
+
+    const quote = (bid: string, ask: string) => ({ bid: new Decimal(bid), ask: new Decimal(ask) });
+
+    const postLimit = (side: string, limitPrice: string) =>
+      api
+        .post("/orders")
+        .set("Authorization", `Bearer ${token}`)
+        .send({
+          side,
+          type: "limit",
+          baseAsset: "SOL",
+          quoteAsset: "USDC",
+          requestedSize: "1",
+          limitPrice,
+        });
+
+    beforeAll(async () => {
+      await setPrice("SOL", new Decimal("100"), new Date(), new Decimal("0.5"));
+      ({ token } = await createAuthenticatedUser(api));
+    });
+
+    test("a buy fills at the ask once the ask crosses the limit, not the mid", async () => {
+      const order = await postLimit("buy", "100.2");
+      expect(order.status).toBe(201);
+
+      // Mid 100 is below the limit, the ask 100.5 is not
+      let fills = await matchLimitOrders("SOL", new Decimal("100"), quote("99.5", "100.5"));
+      expect(fills.find((f) => f.orderId === order.body.orderId)).toBeUndefined();
+
+      fills = await matchLimitOrders("SOL", new Decimal("99.6"), quote("99.1", "100.1"));
+      const fill = fills.find((f) => f.orderId === order.body.orderId);
+      expect(fill).toBeDefined();
+      expect(fill!.executedPrice).toBe("100.1");
+    });
+
+    test("a sell fills at the bid once the bid crosses the limit, not the mid", async () => {
+      const order = await postLimit("sell", "99.8");
+      expect(order.status).toBe(201);
+
+      // Mid 100 is above the limit, the bid 99.5 is not
+      let fills = await matchLimitOrders("SOL", new Decimal("100"), quote("99.5", "100.5"));
+      expect(fills.find((f) => f.orderId === order.body.orderId)).toBeUndefined();
+
+      fills = await matchLimitOrders("SOL", new Decimal("100.4"), quote("99.9", "100.9"));
+      const fill = fills.find((f) => f.orderId === order.body.orderId);
+      expect(fill).toBeDefined();
+      expect(fill!.executedPrice).toBe("99.9");
+    });
+  });
+});
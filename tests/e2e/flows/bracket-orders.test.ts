@@ -0,0 +1,178 @@
+import { afterAll, beforeAll, describe, expect, test } from "vitest";
+import { getApiClient, shutdownApiClient } from "../setup/testServer.ts";
+import { createAuthenticatedUser } from "../helpers/auth.ts";
+import { setTestPrice } from "../helpers/price.ts";
+import type { SuperTest, Test } from "supertest";
+import { Decimal } from "decimal.js";
+import { matchLimitOrders, matchTriggerOrders } from "@repo/trading";
+
+/**
+ * Bracket Order E2E Tests
+ *
+ * Tests entry + stop-loss/take-profit groups:
+ * 1. A filled entry activates both legs (market and limit entries)
+ * 2. When one leg fills, the other is cancelled (OCO)
+ * 3. Group-aware cancellation (leg takes its sibling, entry takes its legs)
+ * 4. Validation (levels on the right side, market/limit entries only)
+ */
+
+describe("Bracket Orders (E2E)", () => {
+  let api: SuperTest<Test>;
+  let authToken: string;
+
+  const postOrder = (body: Record<string, unknown>) =>
+    api
+      .post("/orders")
+      .set("Authorization", `Bearer ${authToken}`)
+      .send({ baseAsset: "SOL", quoteAsset: "USDC", ...body });
+
+  const getOrderStatus = async (orderId: number) => {
+    const res = await api
+      .get(`/orders/${orderId}`)
+      .set("Authorization", `Bearer ${authToken}`);
+    return res.body.order.status;
+  };
+
+  beforeAll(async () => {
+    api = await getApiClient();
+    await setTestPrice("SOL", "100");
+    ({ token: authToken } = await createAuthenticatedUser(api));
+  });
+
+  afterAll(async () => {
+    await shutdownApiClient();
+  });
+
+  describe("Market entry", () => {
+    let entryId: number;
+    let legIds: number[];
+
+    test("activates stop-loss and take-profit legs on fill", async () => {
+      const res = await postOrder({
+        side: "buy",
+        requestedSize: "1",
+        bracket: { stopLossPrice: "90", takeProfitPrice: "120" },
+      });
+
+      expect(res.status).toBe(201);
+      expect(res.body.status).toBe("filled");
+      expect(res.body.childOrderIds).toHaveLength(2);
+      entryId = res.body.orderId;
+      legIds = res.body.childOrderIds;
+
+      const listRes = await api
+        .get("/orders")
+        .set("Authorization", `Bearer ${authToken}`);
+      const legs = listRes.body.orders.filter(
+        (o: any) => o.parentOrderId === entryId
+      );
+
+      expect(legs).toHaveLength(2);
+      expect(legs.map((o: any) => o.type).sort()).toEqual([
+        "stop_market",
+        "take_profit",
+      ]);
+      for (const leg of legs) {
+        expect(leg.side).toBe("sell");
+        expect(leg.status).toBe("pending");
+      }
+    });
+
+    test("take-profit fill cancels the stop-loss (OCO)", async () => {
+      const { filled } = await matchTriggerOrders("SOL", new Decimal("125"));
+      const fill = filled.find((f) => legIds.includes(f.orderId));
+
+      expect(fill).toBeDefined();
+      expect(fill!.parentOrderId).toBe(entryId);
+      expect(fill!.cancelledOrderIds).toHaveLength(1);
+
+      const siblingId = legIds.find((id) => id !== fill!.orderId)!;
+      expect(fill!.cancelledOrderIds).toEqual([siblingId]);
+      expect(await getOrderStatus(siblingId)).toBe("cancelled");
+    });
+  });
+
+  describe("Limit entry", () => {
+    let entryId: number;
+
+    test("rests without legs until the entry fills", async () => {
+      const res = await postOrder({
+        side: "buy",
+        type: "limit",
+        requestedSize: "1",
+        limitPrice: "95",
+        bracket: { stopLossPrice: "85", takeProfitPrice: "110" },
+      });
+
+      expect(res.status).toBe(201);
+      expect(res.body.status).toBe("pending");
+      entryId = res.body.orderId;
+
+      const fills = await matchLimitOrders("SOL", new Decimal("94"));
+      const fill = fills.find((f) => f.orderId === entryId);
+
+      expect(fill).toBeDefined();
+      expect(fill!.childOrderIds).toHaveLength(2);
+    });
+
+    test("cancelling the filled entry cancels its pending legs", async () => {
+      const res = await api
+        .delete(`/orders/${entryId}`)
+        .set("Authorization", `Bearer ${authToken}`);
+
+      expect(res.status).toBe(200);
+      expect(res.body.status).toBe("filled");
+      expect(res.body.cancelledOrderIds).toHaveLength(2);
+
+      for (const legId of res.body.cancelledOrderIds) {
+        expect(await getOrderStatus(legId)).toBe("cancelled");
+      }
+    });
+  });
+
+  describe("Leg cancellation", () => {
+    test("cancelling one leg cancels its sibling", async () => {
+      const entryRes = await postOrder({
+        side: "sell",
+        requestedSize: "1",
+        bracket: { stopLossPrice: "110", takeProfitPrice: "90" },
+      });
+      expect(entryRes.status).toBe(201);
+      const [stopId, takeProfitId] = entryRes.body.childOrderIds;
+
+      const res = await api
+        .delete(`/orders/${stopId}`)
+        .set("Authorization", `Bearer ${authToken}`);
+
+      expect(res.status).toBe(200);
+      expect(res.body.cancelledOrderIds).toEqual([stopId, takeProfitId]);
+      expect(res.body.parentOrderId).toBe(entryRes.body.orderId);
+      expect(await getOrderStatus(takeProfitId)).toBe("cancelled");
+    });
+  });
+
+  describe("Validation", () => {
+    test("rejects stop-loss above a buy entry", async () => {
+      const res = await postOrder({
+        side: "buy",
+        requestedSize: "1",
+        bracket: { stopLossPrice: "105", takeProfitPrice: "120" },
+      });
+
+      expect(res.status).toBe(400);
+      expect(res.body.error).toContain("Invalid bracket");
+    });
+
+    test("rejects bracket on a trigger order", async () => {
+      const res = await postOrder({
+        side: "sell",
+        type: "stop_market",
+        requestedSize: "1",
+        triggerPrice: "90",
+        bracket: { stopLossPrice: "80", takeProfitPrice: "120" },
+      });
+
+      expect(res.status).toBe(400);
+    });
+  });
+});
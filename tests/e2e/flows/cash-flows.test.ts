@@ -0,0 +1,213 @@
+import { afterAll, beforeAll, describe, expect, test } from "vitest";
+import { getApiClient, shutdownApiClient } from "../setup/testServer.ts";
+import { createAuthenticatedUser } from "../helpers/auth.ts";
+import { setTestPrice } from "../helpers/price.ts";
+import type { SuperTest, Test } from "supertest";
+import { Decimal } from "decimal.js";
+import { setCashFlowLimits, type CashFlowLimits } from "@repo/trading";
+
+/**
+ * Cash Flows E2E Tests
+ *
+ * Tests simulated deposits and withdrawals:
+ * 1. A deposit without an amount is a faucet top-up
+ * 2. Cooldowns and daily caps limit deposits and withdrawals
+ * 3. Withdrawals only take what is available, and what a margin account's
+ *    positions do not need
+ * 4. Performance treats cash flows as external: a top-up is not profit
+ * 5. The ledger (reconciliation) includes them
+ * 6. Resetting the account keeps today's cooldowns and caps
+ */
+
+const ADMIN_API_KEY = "test-admin-key-0123456789abcdefghijklmnop";
+
+const limits = (depositCooldownMs: number, withdrawalDailyLimit: string): CashFlowLimits => ({
+  faucetAmount: new Decimal("1000"),
+  deposit: { dailyLimit: new Decimal("1500"), cooldownMs: depositCooldownMs },
+  withdrawal: { dailyLimit: new Decimal(withdrawalDailyLimit), cooldownMs: 0 },
+});
+
+describe("Cash Flows (E2E)", () => {
+  let api: SuperTest<Test>;
+  let token: string;
+  let userId: number;
+
+  const post = (path: string, body?: Record<string, string>) =>
+    api.post(`/portfolio/${path}`).set("Authorization", `Bearer ${token}`).send(body);
+
+  const getPerformance = async () => {
+    const res = await api.get("/portfolio/performance").set("Authorization", `Bearer ${token}`);
+    return res.body.performance;
+  };
+
+  beforeAll(async () => {
+    process.env.ADMIN_API_KEY = ADMIN_API_KEY;
+    setCashFlowLimits(limits(60 * 60 * 1000, "300"));
+    api = await getApiClient();
+    await setTestPrice("SOL", "100");
+    ({ token } = await createAuthenticatedUser(api));
+
+    const res = await api.get("/portfolio").set("Authorization", `Bearer ${token}`);
+    userId = res.body.portfolio.userId;
+  });
+
+  afterAll(async () => {
+    setCashFlowLimits(null);
+    await setTestPrice("SOL", "100");
+    delete process.env.ADMIN_API_KEY;
+    await shutdownApiClient();
+  });
+
+  describe("Deposits", () => {
+    test("a deposit without an amount is a faucet top-up", async () => {
+      const res = await post("deposit");
+
+      expect(res.status).toBe(201);
+      expect(res.body.deposit).toMatchObject({
+        type: "deposit",
+        asset: "USDC",
+        amount: "1000",
+        available: "2000",
+        remainingToday: "500",
+      });
+    });
+
+    test("a second deposit within the cooldown is rejected", async () => {
+      const res = await post("deposit", { amount: "100" });
+
+      expect(res.status).toBe(429);
+      expect(res.body.code).toBe("CASH_FLOW_COOLDOWN");
+    });
+
+    test("deposits are capped per day", async () => {
+      setCashFlowLimits(limits(0, "300"));
+
+      const over = await post("deposit", { amount: "600" });
+      expect(over.status).toBe(429);
+      expect(over.body.code).toBe("CASH_FLOW_LIMIT_EXCEEDED");
+
+      const rest = await post("deposit", { amount: "500" });
+      expect(rest.status).toBe(201);
+      expect(rest.body.deposit.remainingToday).toBe("0");
+    });
+
+    test("rejects invalid amounts", async () => {
+      expect((await post("deposit", { amount: "-5" })).status).toBe(400);
+      expect((await post("deposit", { amount: "abc" })).status).toBe(400);
+    });
+  });
+
+  describe("Withdrawals", () => {
+    test("withdraws from the available balance within the daily cap", async () => {
+      const res = await post("withdraw", { amount: "200" });
+      expect(res.status).toBe(201);
+      expect(res.body.withdrawal).toMatchObject({ type: "withdrawal", available: "2300" });
+
+      const over = await post("withdraw", { amount: "200" });
+      expect(over.status).toBe(429);
+      expect(over.body.code).toBe("CASH_FLOW_LIMIT_EXCEEDED");
+    });
+
+    test("cannot withdraw more than is available", async () => {
+      setCashFlowLimits(limits(0, "100000"));
+
+      const res = await post("withdraw", { amount: "5000" });
+      expect(res.status).toBe(400);
+      expect(res.body.code).toBe("INSUFFICIENT_BALANCE");
+    });
+
+    test("a margin account keeps its initial margin", async () => {
+      const { token: marginToken } = await createAuthenticatedUser(api);
+      const as = (request: Test) => request.set("Authorization", `Bearer ${marginToken}`);
+      expect((await as(api.put("/portfolio/account-mode")).send({ mode: "margin" })).status).toBe(200);
+
+      // Short 90 SOL @ $100: USDC 1000 + 9000 - 9 = 9991, equity 991, initial margin 900
+      const short = await as(api.post("/orders")).send({
+        baseAsset: "SOL",
+        quoteAsset: "USDC",
+        side: "sell",
+        requestedSize: "90",
+      });
+      expect(short.status).toBe(201);
+
+      // The proceeds are available, but equity would fall to 791
+      const over = await as(api.post("/portfolio/withdraw")).send({ amount: "200" });
+      expect(over.status).toBe(400);
+      expect(over.body.code).toBe("INSUFFICIENT_MARGIN");
+
+      const within = await as(api.post("/portfolio/withdraw")).send({ amount: "50" });
+      expect(within.status).toBe(201);
+    });
+  });
+
+  describe("Performance", () => {
+    test("deposits and withdrawals are not profit", async () => {
+      const performance = await getPerformance();
+
+      expect(performance).toMatchObject({
+        equity: "2300",
+        startingBalance: "1000",
+        deposited: "1500",
+        withdrawn: "200",
+        netContributions: "2300",
+        totalPnl: "0",
+        totalReturn: "0",
+      });
+    });
+
+    test("P&L is what equity gained beyond contributions", async () => {
+      const order = await api
+        .post("/orders")
+        .set("Authorization", `Bearer ${token}`)
+        .send({ baseAsset: "SOL", quoteAsset: "USDC", side: "buy", requestedSize: "1" });
+      expect(order.status).toBe(201);
+
+      // Bought 1 SOL at 100 (fee 0.1), now worth 110
+      await setTestPrice("SOL", "110");
+      const performance = await getPerformance();
+
+      expect(performance.equity).toBe("2309.9");
+      expect(performance.totalPnl).toBe("9.9");
+      expect(performance.totalReturn).toBe("0.00396"); // 9.9 / (1000 + 1500)
+    });
+  });
+
+  test("the ledger includes deposits and withdrawals", async () => {
+    const journal = await api
+      .get("/portfolio/journal?asset=USDC&account=available")
+      .set("Authorization", `Bearer ${token}`);
+    const types = journal.body.entries.map((e: any) => e.type);
+    expect(types.filter((t: string) => t === "deposit")).toHaveLength(2);
+    expect(types.filter((t: string) => t === "withdrawal")).toHaveLength(1);
+
+    const res = await api
+      .post("/admin/reconciliation")
+      .set("X-Admin-Key", ADMIN_API_KEY)
+      .send({ userId });
+    expect(res.status).toBe(200);
+    expect(res.body.report.driftCount).toBe(0);
+  });
+
+  test("resetting the account keeps the cooldown and the daily cap", async () => {
+    setCashFlowLimits(limits(60 * 60 * 1000, "100000"));
+    const { token: resetToken } = await createAuthenticatedUser(api);
+    const postAs = (path: string, body?: Record<string, string>) =>
+      api.post(`/portfolio/${path}`).set("Authorization", `Bearer ${resetToken}`).send(body);
+
+    expect((await postAs("deposit", { amount: "1500" })).status).toBe(201);
+    const reset = await api
+      .post("/accounts/main/reset")
+      .set("Authorization", `Bearer ${resetToken}`);
+    expect(reset.status).toBe(200);
+
+    // The deposit now lives in the archive, and still counts
+    const cooldown = await postAs("deposit", { amount: "100" });
+    expect(cooldown.status).toBe(429);
+    expect(cooldown.body.code).toBe("CASH_FLOW_COOLDOWN");
+
+    setCashFlowLimits(limits(0, "100000"));
+    const capped = await postAs("deposit", { amount: "100" });
+    expect(capped.status).toBe(429);
+    expect(capped.body.code).toBe("CASH_FLOW_LIMIT_EXCEEDED");
+  });
+});
@@ -0,0 +1,215 @@
+import { afterAll, beforeAll, describe, expect, test } from "vitest";
+import { getApiClient, shutdownApiClient } from "../setup/testServer.ts";
+import { createAuthenticatedUser } from "../helpers/auth.ts";
+import { setTestPrice } from "../helpers/price.ts";
+import type { SuperTest, Test } from "supertest";
+import { Decimal } from "decimal.js";
+import {
+  createFeeTiers,
+  DEFAULT_FEE_TIERS,
+  fillOrder,
+  getFeeTierForVolume,
+  removeFeeOverride,
+  setFeeOverride,
+  setFeeTiers,
+} from "@repo/trading";
+
+/**
+ * Fee Tiers E2E Tests
+ *
+ * Tests the volume-tiered fee schedule:
+ * 1. Tier tables are validated and looked up by trailing volume
+ * 2. Trailing 30-day volume moves a user up a tier
+ * 3. Market fills pay the taker rate, resting limit fills the maker rate
+ * 4. The tier applied is recorded on each trade
+ * 5. Per-user overrides replace the tier until they expire
+ * 6. GET /portfolio shows the tier and progress toward the next
+ */
+
+describe("Fee Tiers (E2E)", () => {
+  let api: SuperTest<Test>;
+
+  beforeAll(async () => {
+    api = await getApiClient();
+  });
+
+  afterAll(async () => {
+    setFeeTiers(null);
+    await shutdownApiClient();
+  });
+
+  describe("Schedule", () => {
+    const tiers = createFeeTiers(DEFAULT_FEE_TIERS);
+
+    test("the highest tier reached by the volume applies", () => {
+      expect(getFeeTierForVolume(new Decimal("0"), tiers).tier.name).toBe("standard");
+      expect(getFeeTierForVolume(new Decimal("9999.99"), tiers).tier.name).toBe("standard");
+
+      const silver = getFeeTierForVolume(new Decimal("10000"), tiers);
+      expect(silver.tier.name).toBe("silver");
+      expect(silver.nextTier?.name).toBe("gold");
+
+      const top = getFeeTierForVolume(new Decimal("2000000"), tiers);
+      expect(top.tier.name).toBe("platinum");
+      expect(top.nextTier).toBeNull();
+    });
+
+    test("rejects invalid schedules", () => {
+      const base = { name: "standard", minVolume: "0", makerRate: "0.001", takerRate: "0.001" };
+
+      expect(() => createFeeTiers([])).toThrow("at least one tier");
+      expect(() => createFeeTiers([{ ...base, minVolume: "100" }])).toThrow(
+        "must start at volume 0"
+      );
+      expect(() =>
+        createFeeTiers([base, { ...base, name: "silver", minVolume: "0" }])
+      ).toThrow("minVolume must ascend");
+      expect(() => createFeeTiers([{ ...base, takerRate: "0.002" }])).toThrow(
+        "Invalid standard taker rate"
+      );
+    });
+  });
+
+  describe("Trading", () => {
+    let token: string;
+    let userId: number;
+
+    const postOrder = (body: Record<string, string>) =>
+      api
+        .post("/orders")
+        .set("Authorization", `Bearer ${token}`)
+        .send({ baseAsset: "SOL", quoteAsset: "USDC", ...body });
+
+    const getFeeTier = async () => {
+      const res = await api.get("/portfolio").set("Authorization", `Bearer ${token}`);
+      return res.body.portfolio.feeTier;
+    };
+
+    beforeAll(async () => {
+      setFeeTiers([
+        { name: "standard", minVolume: "0", makerRate: "0.001", takerRate: "0.001" },
+        { name: "silver", minVolume: "500", makerRate: "0.0005", takerRate: "0.0008" },
+        { name: "gold", minVolume: "5000", makerRate: "0.0002", takerRate: "0.0005" },
+      ]);
+      await setTestPrice("SOL", "100");
+      ({ token } = await createAuthenticatedUser(api));
+
+      const res = await api.get("/portfolio").set("Authorization", `Bearer ${token}`);
+      userId = res.body.portfolio.userId;
+    });
+
+    afterAll(async () => {
+      await removeFeeOverride(userId);
+    });
+
+    test("a new user starts at the first tier", async () => {
+      const feeTier = await getFeeTier();
+
+      expect(feeTier.tier).toBe("standard");
+      expect(feeTier.takerRate).toBe("0.001");
+      expect(feeTier.volume30d).toBe("0");
+      expect(feeTier.nextTier.tier).toBe("silver");
+      expect(feeTier.nextTier.volumeRemaining).toBe("500");
+      expect(feeTier.nextTier.progress).toBe("0");
+    });
+
+    test("market fills pay the taker rate and record the tier", async () => {
+      const res = await postOrder({ side: "buy", requestedSize: "4" });
+
+      expect(res.status).toBe(201);
+      expect(res.body.feesApplied).toBe("0.4");
+      expect(res.body.feeTier).toBe("standard");
+      expect(res.body.feeRate).toBe("0.001");
+
+      const feeTier = await getFeeTier();
+      expect(feeTier.volume30d).toBe("400");
+      expect(feeTier.nextTier.volumeRemaining).toBe("100");
+      expect(feeTier.nextTier.progress).toBe("0.8");
+    });
+
+    test("trailing volume moves the user up a tier", async () => {
+      // Rated on the volume before this trade (400)
+      const res = await postOrder({ side: "buy", requestedSize: "2" });
+      expect(res.body.feesApplied).toBe("0.2");
+      expect(res.body.feeTier).toBe("standard");
+
+      const feeTier = await getFeeTier();
+      expect(feeTier.tier).toBe("silver");
+      expect(feeTier.appliedTier).toBe("silver");
+      expect(feeTier.makerRate).toBe("0.0005");
+      expect(feeTier.takerRate).toBe("0.0008");
+      expect(feeTier.volume30d).toBe("600");
+      expect(feeTier.nextTier.tier).toBe("gold");
+      expect(feeTier.nextTier.volumeRemaining).toBe("4400");
+      // (600 - 500) / (5000 - 500)
+      expect(feeTier.nextTier.progress).toBe("0.0222");
+
+      const sell = await postOrder({ side: "sell", requestedSize: "2" });
+      // 200 * 0.0008
+      expect(sell.body.feesApplied).toBe("0.16");
+      expect(sell.body.feeTier).toBe("silver");
+    });
+
+    test("resting limit fills pay the maker rate", async () => {
+      const placed = await postOrder({
+        side: "sell",
+        type: "limit",
+        requestedSize: "1",
+        limitPrice: "105",
+      });
+      expect(placed.status).toBe(201);
+
+      const fill = await fillOrder(placed.body.orderId, new Decimal("105"), new Decimal("1"));
+      // 105 * 0.0005
+      expect(fill.feesApplied).toBe("0.0525");
+      expect(fill.feeTier).toBe("silver");
+      expect(fill.feeRate).toBe("0.0005");
+
+      const ordersRes = await api.get("/orders").set("Authorization", `Bearer ${token}`);
+      const order = ordersRes.body.orders.find((o: any) => o.orderId === placed.body.orderId);
+      expect(order.liquidity).toBe("maker");
+      expect(order.feeTier).toBe("silver");
+    });
+
+    test("an override replaces the tier rates", async () => {
+      await setFeeOverride(userId, {
+        label: "zero-fee-cohort",
+        makerRate: "0",
+        takerRate: "0",
+      });
+
+      const res = await postOrder({ side: "buy", requestedSize: "1" });
+      expect(res.body.feesApplied).toBe("0");
+      expect(res.body.feeTier).toBe("zero-fee-cohort");
+
+      const feeTier = await getFeeTier();
+      expect(feeTier.tier).toBe("silver");
+      expect(feeTier.appliedTier).toBe("zero-fee-cohort");
+      expect(feeTier.takerRate).toBe("0");
+      expect(feeTier.override.label).toBe("zero-fee-cohort");
+    });
+
+    test("an expired override no longer applies", async () => {
+      await setFeeOverride(userId, {
+        label: "promo",
+        makerRate: "0",
+        takerRate: "0",
+        expiresAt: new Date(Date.now() - 1000),
+      });
+
+      const res = await postOrder({ side: "buy", requestedSize: "1" });
+      // 100 * 0.0008
+      expect(res.body.feesApplied).toBe("0.08");
+      expect(res.body.feeTier).toBe("silver");
+
+      await removeFeeOverride(userId);
+      expect((await getFeeTier()).override).toBeNull();
+    });
+
+    test("rejects an override above the base rate", async () => {
+      await expect(
+        setFeeOverride(userId, { label: "vip", makerRate: "0", takerRate: "0.002" })
+      ).rejects.toThrow("Invalid override taker rate");
+    });
+  });
+});
@@ -0,0 +1,146 @@
+import { afterAll, beforeAll, describe, expect, test } from "vitest";
+import { getApiClient, shutdownApiClient } from "../setup/testServer.ts";
+import { createAuthenticatedUser } from "../helpers/auth.ts";
+import { setTestPrice } from "../helpers/price.ts";
+import type { SuperTest, Test } from "supertest";
+
+/**
+ * Idempotent Order Placement E2E Tests
+ *
+ * Tests Idempotency-Key / clientOrderId on POST /orders:
+ * 1. A retry returns the original order instead of executing again
+ * 2. Concurrent requests with the same key execute once, and the retry gets
+ *    the original order even when the first one used up the funds it needed
+ * 3. Keys are unique per user, not globally
+ * 4. Reusing a key for a different order is rejected
+ */
+
+describe("Idempotent Orders (E2E)", () => {
+  let api: SuperTest<Test>;
+  let authToken: string;
+
+  const getBalance = async (token: string, asset: string) => {
+    const res = await api
+      .get("/portfolio")
+      .set("Authorization", `Bearer ${token}`);
+    return res.body.portfolio.balances.find((b: any) => b.asset === asset);
+  };
+
+  const postOrder = (body: Record<string, string>, key?: string, token = authToken) => {
+    const req = api
+      .post("/orders")
+      .set("Authorization", `Bearer ${token}`);
+    if (key) req.set("Idempotency-Key", key);
+    return req.send({ baseAsset: "SOL", quoteAsset: "USDC", ...body });
+  };
+
+  beforeAll(async () => {
+    api = await getApiClient();
+    await setTestPrice("SOL", "100");
+    ({ token: authToken } = await createAuthenticatedUser(api));
+
+    // Initialize portfolio
+    await getBalance(authToken, "USDC");
+  });
+
+  afterAll(async () => {
+    await shutdownApiClient();
+  });
+
+  test("a retry with the same Idempotency-Key returns the original order", async () => {
+    const first = await postOrder({ side: "buy", requestedSize: "1" }, "retry-1");
+    expect(first.status).toBe(201);
+    expect(first.body.clientOrderId).toBe("retry-1");
+
+    const retry = await postOrder({ side: "buy", requestedSize: "1" }, "retry-1");
+    expect(retry.status).toBe(200);
+    expect(retry.headers["idempotent-replayed"]).toBe("true");
+    expect(retry.body.orderId).toBe(first.body.orderId);
+    expect(retry.body.executedPrice).toBe(first.body.executedPrice);
+    expect(retry.body.executedSize).toBe(first.body.executedSize);
+
+    // Charged once: 100 + 0.1 fee
+    const usdc = await getBalance(authToken, "USDC");
+    expect(usdc.available).toBe("899.9");
+  });
+
+  test("clientOrderId in the body works like the header", async () => {
+    const body = {
+      side: "buy",
+      type: "limit",
+      requestedSize: "1",
+      limitPrice: "50",
+      clientOrderId: "limit-1",
+    };
+
+    const first = await postOrder(body);
+    const retry = await postOrder(body);
+
+    expect(first.status).toBe(201);
+    expect(retry.status).toBe(200);
+    expect(retry.body.orderId).toBe(first.body.orderId);
+    expect(retry.body.lockedAmount).toBe(first.body.lockedAmount);
+
+    const usdc = await getBalance(authToken, "USDC");
+    expect(usdc.locked).toBe("50.05");
+  });
+
+  test("concurrent requests with the same key execute once", async () => {
+    const before = await getBalance(authToken, "SOL");
+
+    const responses = await Promise.all([
+      postOrder({ side: "sell", requestedSize: "0.5" }, "race-1"),
+      postOrder({ side: "sell", requestedSize: "0.5" }, "race-1"),
+    ]);
+
+    const statuses = responses.map((r) => r.status).sort();
+    expect(statuses).toEqual([200, 201]);
+    expect(responses[0]!.body.orderId).toBe(responses[1]!.body.orderId);
+
+    const after = await getBalance(authToken, "SOL");
+    expect(Number(before.available) - Number(after.available)).toBeCloseTo(0.5);
+  });
+
+  test("a concurrent retry gets the original order after it spent the balance", async () => {
+    const { token } = await createAuthenticatedUser(api);
+    await getBalance(token, "USDC");
+
+    // 900 + 0.9 fee of 1000: the retry, once the first commits, cannot pay again
+    const responses = await Promise.all([
+      postOrder({ side: "buy", requestedSize: "9" }, "race-2", token),
+      postOrder({ side: "buy", requestedSize: "9" }, "race-2", token),
+    ]);
+
+    const statuses = responses.map((r) => r.status).sort();
+    expect(statuses).toEqual([200, 201]);
+    expect(responses[0]!.body.orderId).toBe(responses[1]!.body.orderId);
+
+    const sol = await getBalance(token, "SOL");
+    expect(sol.available).toBe("9");
+  });
+
+  test("keys are scoped per user", async () => {
+    const { token: otherToken } = await createAuthenticatedUser(api);
+    await getBalance(otherToken, "USDC");
+
+    const res = await postOrder({ side: "buy", requestedSize: "1" }, "retry-1", otherToken);
+
+    expect(res.status).toBe(201);
+  });
+
+  test("rejects reusing a key for a different order", async () => {
+    const res = await postOrder({ side: "sell", requestedSize: "1" }, "retry-1");
+
+    expect(res.status).toBe(409);
+    expect(res.body.code).toBe("IDEMPOTENCY_KEY_REUSED");
+  });
+
+  test("rejects a header that disagrees with clientOrderId", async () => {
+    const res = await postOrder(
+      { side: "buy", requestedSize: "1", clientOrderId: "body-key" },
+      "header-key"
+    );
+
+    expect(res.status).toBe(400);
+  });
+});
@@ -0,0 +1,169 @@
+import { afterAll, beforeAll, describe, expect, test } from "vitest";
+import { getApiClient, shutdownApiClient } from "../setup/testServer.ts";
+import { createAuthenticatedUser } from "../helpers/auth.ts";
+import { setTestPrice } from "../helpers/price.ts";
+import type { SuperTest, Test } from "supertest";
+import { Decimal } from "decimal.js";
+import { getDb } from "@repo/db";
+import { postJournal, systemAccount, userAccount } from "@repo/trading";
+
+/**
+ * Journal E2E Tests
+ *
+ * Tests the double-entry journal behind every balance:
+ * 1. A new user's balance is a grant from equity
+ * 2. A fill posts the trade and its fee, with running balances
+ * 3. A limit order reserves available -> locked, cancelling releases it
+ * 4. Fees accrue to the system fees account (GET /admin/accounts)
+ * 5. Balances equal the sum of the journal; unbalanced postings are rejected
+ */
+
+const ADMIN_API_KEY = "test-admin-key-0123456789abcdefghijklmnop";
+
+describe("Journal (E2E)", () => {
+  let api: SuperTest<Test>;
+  let token: string;
+  let userId: number;
+
+  const getJournal = (query: string = "") =>
+    api.get(`/portfolio/journal${query}`).set("Authorization", `Bearer ${token}`);
+
+  const getFeeRevenue = async () => {
+    const res = await api.get("/admin/accounts").set("X-Admin-Key", ADMIN_API_KEY);
+    const fees = res.body.accounts.find(
+      (a: any) => a.account === "fees" && a.asset === "USDC"
+    );
+    return new Decimal(fees?.balance ?? 0);
+  };
+
+  const postOrder = (body: Record<string, string>) =>
+    api
+      .post("/orders")
+      .set("Authorization", `Bearer ${token}`)
+      .send({ baseAsset: "SOL", quoteAsset: "USDC", ...body });
+
+  beforeAll(async () => {
+    process.env.ADMIN_API_KEY = ADMIN_API_KEY;
+    api = await getApiClient();
+    await setTestPrice("SOL", "100");
+    ({ token } = await createAuthenticatedUser(api));
+
+    const res = await api.get("/portfolio").set("Authorization", `Bearer ${token}`);
+    userId = res.body.portfolio.userId;
+  });
+
+  afterAll(async () => {
+    delete process.env.ADMIN_API_KEY;
+    await shutdownApiClient();
+  });
+
+  test("a new user's balance is granted from equity", async () => {
+    const res = await getJournal();
+
+    expect(res.status).toBe(200);
+    expect(res.body.entries).toHaveLength(1);
+    expect(res.body.entries[0]).toMatchObject({
+      type: "grant",
+      account: "available",
+      asset: "USDC",
+      amount: "1000",
+      balance: "1000",
+    });
+  });
+
+  test("a fill posts the trade and its fee to the system accounts", async () => {
+    const feesBefore = await getFeeRevenue();
+
+    const order = await postOrder({ side: "buy", requestedSize: "2" });
+    expect(order.status).toBe(201);
+
+    const usdc = await getJournal("?asset=USDC&account=available");
+    expect(
+      usdc.body.entries.map((e: any) => [e.type, e.amount, e.balance, e.orderId])
+    ).toEqual([
+      ["fee", "-0.2", "799.8", order.body.orderId],
+      ["trade", "-200", "800", order.body.orderId],
+      ["grant", "1000", "1000", null],
+    ]);
+
+    const sol = await getJournal("?asset=SOL");
+    expect(sol.body.entries).toHaveLength(1);
+    expect(sol.body.entries[0]).toMatchObject({ type: "trade", amount: "2", balance: "2" });
+
+    expect((await getFeeRevenue()).minus(feesBefore).toString()).toBe("0.2");
+  });
+
+  test("a limit order reserves funds and cancelling releases them", async () => {
+    const order = await postOrder({
+      side: "buy",
+      type: "limit",
+      requestedSize: "1",
+      limitPrice: "90",
+    });
+    expect(order.status).toBe(201);
+
+    const reserved = await getJournal("?asset=USDC&account=locked");
+    expect(reserved.body.entries[0]).toMatchObject({
+      type: "reserve",
+      amount: "90.09",
+      balance: "90.09",
+      orderId: order.body.orderId,
+    });
+
+    const cancel = await api
+      .delete(`/orders/${order.body.orderId}`)
+      .set("Authorization", `Bearer ${token}`);
+    expect(cancel.status).toBe(200);
+
+    const released = await getJournal("?asset=USDC");
+    expect(
+      released.body.entries.slice(0, 2).map((e: any) => [e.type, e.account, e.amount, e.balance])
+    ).toEqual([
+      ["release", "available", "90.09", "799.8"],
+      ["release", "locked", "-90.09", "0"],
+    ]);
+  });
+
+  test("balances equal the sum of the journal", async () => {
+    const db = getDb();
+    const balances = await db.balances.findMany({ where: { userId } });
+    const sums = await db.journalEntries.groupBy({
+      by: ["account", "asset"],
+      where: { userId, account: { in: ["available", "locked"] } },
+      _sum: { amount: true },
+    });
+
+    for (const balance of balances) {
+      const sumOf = (account: string) =>
+        new Decimal(
+          sums.find((s) => s.account === account && s.asset === balance.asset)?._sum.amount ?? 0
+        ).toString();
+
+      expect(sumOf("available")).toBe(new Decimal(balance.available).toString());
+      expect(sumOf("locked")).toBe(new Decimal(balance.locked).toString());
+    }
+  });
+
+  test("rejects a posting whose entries do not balance", async () => {
+    const db = getDb();
+
+    await expect(
+      db.$transaction((tx) =>
+        postJournal(tx, {
+          type: "adjustment",
+          userId,
+          entries: [
+            { ...systemAccount("adjustment"), asset: "USDC", amount: new Decimal("-5") },
+            { ...userAccount(userId, "available"), asset: "USDC", amount: new Decimal("4") },
+          ],
+        })
+      )
+    ).rejects.toThrow("Unbalanced journal transaction");
+  });
+
+  test("/admin/accounts requires the admin key", async () => {
+    const res = await api.get("/admin/accounts");
+
+    expect(res.status).toBe(401);
+  });
+});
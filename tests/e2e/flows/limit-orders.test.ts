@@ -0,0 +1,221 @@
+import { afterAll, beforeAll, describe, expect, test } from "vitest";
+import { getApiClient, shutdownApiClient } from "../setup/testServer.ts";
+import { createAuthenticatedUser } from "../helpers/auth.ts";
+import { setTestPrice } from "../helpers/price.ts";
+import type { SuperTest, Test } from "supertest";
+import { Decimal } from "decimal.js";
+import { matchLimitOrders } from "@repo/trading";
+
+/**
+ * Limit Order E2E Tests
+ *
+ * Tests the resting order lifecycle:
+ * 1. Placement reserves funds in locked (status: pending)
+ * 2. Matching does nothing while the limit is not crossed
+ * 3. Matching fills at market price once the limit is crossed
+ * 4. Cancellation releases the reservation (DELETE /orders/:orderId)
+ * 5. Validation (limitPrice required, reservation must be covered)
+ */
+
+describe("Limit Orders (E2E)", () => {
+  let api: SuperTest<Test>;
+  let authToken: string;
+
+  const getBalance = async (asset: string) => {
+    const res = await api
+      .get("/portfolio")
+      .set("Authorization", `Bearer ${authToken}`);
+    return res.body.portfolio.balances.find((b: any) => b.asset === asset);
+  };
+
+  beforeAll(async () => {
+    api = await getApiClient();
+    await setTestPrice("SOL", "100");
+    ({ token: authToken } = await createAuthenticatedUser(api));
+
+    // Initialize portfolio
+    await api.get("/portfolio").set("Authorization", `Bearer ${authToken}`);
+  });
+
+  afterAll(async () => {
+    await shutdownApiClient();
+  });
+
+  describe("POST /orders - limit BUY", () => {
+    let orderId: number;
+
+    test("rests as pending and locks limitPrice * size + fee", async () => {
+      // Reserve: 2 SOL @ $90 = $180 + $0.18 fee
+      const res = await api
+        .post("/orders")
+        .set("Authorization", `Bearer ${authToken}`)
+        .send({
+          side: "buy",
+          type: "limit",
+          baseAsset: "SOL",
+          quoteAsset: "USDC",
+          requestedSize: "2",
+          limitPrice: "90",
+        });
+
+      expect(res.status).toBe(201);
+      expect(res.body.status).toBe("pending");
+      expect(res.body.lockedAsset).toBe("USDC");
+      expect(res.body.lockedAmount).toBe("180.18");
+      orderId = res.body.orderId;
+
+      const usdc = await getBalance("USDC");
+      expect(usdc.available).toBe("819.82");
+      expect(usdc.locked).toBe("180.18");
+    });
+
+    test("does not fill while price is above the limit", async () => {
+      const fills = await matchLimitOrders("SOL", new Decimal("95"));
+      expect(fills.find((f) => f.orderId === orderId)).toBeUndefined();
+
+      const res = await api
+        .get(`/orders/${orderId}`)
+        .set("Authorization", `Bearer ${authToken}`);
+      expect(res.body.order.status).toBe("pending");
+    });
+
+    test("fills at market price once the limit is crossed", async () => {
+      await setTestPrice("SOL", "85");
+      const fills = await matchLimitOrders("SOL", new Decimal("85"));
+      const fill = fills.find((f) => f.orderId === orderId);
+
+      expect(fill).toBeDefined();
+      expect(fill!.executedPrice).toBe("85");
+      expect(fill!.executedSize).toBe("2");
+      expect(fill!.feesApplied).toBe("0.17");
+
+      // Reservation released; only $170 + $0.17 fee actually spent
+      const usdc = await getBalance("USDC");
+      expect(usdc.available).toBe("829.83");
+      expect(usdc.locked).toBe("0");
+
+      const sol = await getBalance("SOL");
+      expect(sol.available).toBe("2");
+    });
+  });
+
+  describe("POST /orders - limit SELL", () => {
+    test("locks base asset and fills when price rises to the limit", async () => {
+      const res = await api
+        .post("/orders")
+        .set("Authorization", `Bearer ${authToken}`)
+        .send({
+          side: "sell",
+          type: "limit",
+          baseAsset: "SOL",
+          quoteAsset: "USDC",
+          requestedSize: "1",
+          limitPrice: "120",
+        });
+
+      expect(res.status).toBe(201);
+      expect(res.body.lockedAsset).toBe("SOL");
+      expect(res.body.lockedAmount).toBe("1");
+
+      const fills = await matchLimitOrders("SOL", new Decimal("121"));
+      expect(fills.find((f) => f.orderId === res.body.orderId)).toBeDefined();
+
+      const sol = await getBalance("SOL");
+      expect(sol.available).toBe("1");
+      expect(sol.locked).toBe("0");
+    });
+  });
+
+  describe("DELETE /orders/:orderId", () => {
+    let orderId: number;
+
+    test("cancels a pending order and releases locked funds", async () => {
+      const before = await getBalance("USDC");
+
+      const placeRes = await api
+        .post("/orders")
+        .set("Authorization", `Bearer ${authToken}`)
+        .send({
+          side: "buy",
+          type: "limit",
+          baseAsset: "SOL",
+          quoteAsset: "USDC",
+          requestedSize: "1",
+          limitPrice: "50",
+        });
+      expect(placeRes.status).toBe(201);
+      orderId = placeRes.body.orderId;
+
+      const res = await api
+        .delete(`/orders/${orderId}`)
+        .set("Authorization", `Bearer ${authToken}`);
+
+      expect(res.status).toBe(200);
+      expect(res.body.status).toBe("cancelled");
+      expect(res.body.releasedAsset).toBe("USDC");
+      expect(res.body.releasedAmount).toBe("50.05");
+
+      const after = await getBalance("USDC");
+      expect(after.available).toBe(before.available);
+      expect(after.locked).toBe(before.locked);
+    });
+
+    test("cancelled order is never filled by matching", async () => {
+      const fills = await matchLimitOrders("SOL", new Decimal("10"));
+      expect(fills.find((f) => f.orderId === orderId)).toBeUndefined();
+    });
+
+    test("returns 409 when cancelling twice", async () => {
+      const res = await api
+        .delete(`/orders/${orderId}`)
+        .set("Authorization", `Bearer ${authToken}`);
+
+      expect(res.status).toBe(409);
+      expect(res.body.code).toBe("ORDER_NOT_CANCELLABLE");
+    });
+
+    test("returns 404 for another user's order", async () => {
+      const { token: otherToken } = await createAuthenticatedUser(api);
+
+      const res = await api
+        .delete(`/orders/${orderId}`)
+        .set("Authorization", `Bearer ${otherToken}`);
+
+      expect(res.status).toBe(404);
+    });
+  });
+
+  describe("Validation", () => {
+    test("rejects limit order without limitPrice", async () => {
+      const res = await api
+        .post("/orders")
+        .set("Authorization", `Bearer ${authToken}`)
+        .send({
+          side: "buy",
+          type: "limit",
+          baseAsset: "SOL",
+          quoteAsset: "USDC",
+          requestedSize: "1",
+        });
+
+      expect(res.status).toBe(400);
+    });
+
+    test("rejects reservation larger than available balance", async () => {
+      const res = await api
+        .post("/orders")
+        .set("Authorization", `Bearer ${authToken}`)
+        .send({
+          side: "buy",
+          type: "limit",
+          baseAsset: "SOL",
+          quoteAsset: "USDC",
+          requestedSize: "100",
+          limitPrice: "90",
+        });
+
+      expect(res.status).toBe(400);
+      expect(res.body.code).toBe("INSUFFICIENT_BALANCE");
+    });
+  });
+});
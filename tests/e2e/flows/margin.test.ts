@@ -0,0 +1,364 @@
+import { afterAll, beforeAll, describe, expect, test } from "vitest";
+import { getApiClient, shutdownApiClient } from "../setup/testServer.ts";
+import { createAuthenticatedUser } from "../helpers/auth.ts";
+import { setTestPrice } from "../helpers/price.ts";
+import type { SuperTest, Test } from "supertest";
+import { Decimal } from "decimal.js";
+import { getLiquidatableAccounts, liquidateAccount } from "@repo/trading";
+
+/**
+ * Margin Account E2E Tests (MAX_LEVERAGE = 10, maintenance = half the initial margin)
+ *
+ * Tests margin accounts:
+ * 1. Cash accounts cannot short; margin accounts can (negative balance + position)
+ * 2. Covering a short realizes (entry - exit) * size - fee
+ * 3. Buying power is capped by the initial margin (equity >= notional / 10)
+ * 4. GET /portfolio/margin reports equity, margin requirements, liquidation price
+ * 5. Accounts below maintenance margin are liquidated (orders cancelled,
+ *    position closed, bad debt written off)
+ * 6. Margin is across markets: the cash balance is shared, every holding
+ *    counts toward equity and the initial margin, and a liquidation closes
+ *    them all
+ */
+
+const ADMIN_API_KEY = "test-admin-key-0123456789abcdefghijklmnop";
+
+const JUP_MARKET = {
+  baseAsset: "JUP",
+  quoteAsset: "USDC",
+  tickSize: "0.0001",
+  lotSize: "1",
+  minOrderSize: "1",
+  maxOrderSize: "100000",
+};
+
+describe("Margin Accounts (E2E)", () => {
+  let api: SuperTest<Test>;
+
+  const postOrder = (token: string, body: Record<string, string>) =>
+    api
+      .post("/orders")
+      .set("Authorization", `Bearer ${token}`)
+      .send({ baseAsset: "SOL", quoteAsset: "USDC", ...body });
+
+  const getPortfolio = async (token: string) => {
+    const res = await api
+      .get("/portfolio")
+      .set("Authorization", `Bearer ${token}`);
+    return res.body.portfolio;
+  };
+
+  const getBalance = async (token: string, asset: string) => {
+    const portfolio = await getPortfolio(token);
+    return portfolio.balances.find((b: any) => b.asset === asset);
+  };
+
+  const setAccountMode = (token: string, mode: string) =>
+    api
+      .put("/portfolio/account-mode")
+      .set("Authorization", `Bearer ${token}`)
+      .send({ mode });
+
+  const createMarginUser = async () => {
+    const { token } = await createAuthenticatedUser(api);
+    const { userId } = await getPortfolio(token);
+
+    const res = await setAccountMode(token, "margin");
+    expect(res.status).toBe(200);
+    expect(res.body.accountMode).toBe("margin");
+
+    return { token, userId: userId as number };
+  };
+
+  beforeAll(async () => {
+    api = await getApiClient();
+  });
+
+  afterAll(async () => {
+    await shutdownApiClient();
+  });
+
+  describe("Short selling", () => {
+    test("cash accounts cannot sell what they do not hold", async () => {
+      await setTestPrice("SOL", "100");
+      const { token } = await createAuthenticatedUser(api);
+
+      const res = await postOrder(token, { side: "sell", requestedSize: "1" });
+
+      expect(res.status).toBe(400);
+      expect(res.body.code).toBe("INSUFFICIENT_BALANCE");
+    });
+
+    test("margin accounts open a short and cover it for a profit", async () => {
+      await setTestPrice("SOL", "100");
+      const { token } = await createMarginUser();
+
+      const preview = await api
+        .post("/orders/preview")
+        .set("Authorization", `Bearer ${token}`)
+        .send({ baseAsset: "SOL", quoteAsset: "USDC", side: "sell", requestedSize: "5" });
+      expect(preview.status).toBe(200);
+      expect(preview.body.position.projectedSize).toBe("-5");
+
+      const shortRes = await postOrder(token, { side: "sell", requestedSize: "5" });
+      expect(shortRes.status).toBe(201);
+
+      // 1000 + 500 proceeds - 0.5 fee
+      let portfolio = await getPortfolio(token);
+      const usdc = portfolio.balances.find((b: any) => b.asset === "USDC");
+      const sol = portfolio.balances.find((b: any) => b.asset === "SOL");
+      expect(usdc.available).toBe("1499.5");
+      expect(sol.available).toBe("-5");
+      expect(portfolio.positions[0].size).toBe("-5");
+      expect(portfolio.positions[0].avgEntryPrice).toBe("100");
+
+      // Cover at $80: (100 - 80) * 5 - 0.4 fee
+      await setTestPrice("SOL", "80");
+      const coverRes = await postOrder(token, { side: "buy", requestedSize: "5" });
+      expect(coverRes.status).toBe(201);
+
+      const orderRes = await api
+        .get(`/orders/${coverRes.body.orderId}`)
+        .set("Authorization", `Bearer ${token}`);
+      expect(orderRes.body.order.trades[0].costBasis).toBe("500");
+      expect(orderRes.body.order.trades[0].realizedPnl).toBe("99.6");
+
+      portfolio = await getPortfolio(token);
+      expect(portfolio.positions[0].size).toBe("0");
+      expect(portfolio.positions[0].realizedPnl).toBe("99.6");
+      expect(portfolio.totalRealizedPnl).toBe("99.6");
+    });
+  });
+
+  describe("Leverage", () => {
+    let token: string;
+
+    beforeAll(async () => {
+      await setTestPrice("SOL", "100");
+      ({ token } = await createMarginUser());
+    });
+
+    test("rejects exposure beyond MAX_LEVERAGE", async () => {
+      // 120 SOL @ $100: initial margin 1200 > equity 988
+      const res = await postOrder(token, { side: "buy", requestedSize: "120" });
+
+      expect(res.status).toBe(400);
+      expect(res.body.code).toBe("INSUFFICIENT_MARGIN");
+    });
+
+    test("borrows the quote asset for a leveraged long", async () => {
+      // 95 SOL @ $100: initial margin 950 <= equity 990.5
+      const res = await postOrder(token, { side: "buy", requestedSize: "95" });
+      expect(res.status).toBe(201);
+
+      const usdc = await getBalance(token, "USDC");
+      expect(usdc.available).toBe("-8509.5");
+    });
+
+    test("reports equity, margin and liquidation price", async () => {
+      const res = await api
+        .get("/portfolio/margin")
+        .set("Authorization", `Bearer ${token}`);
+
+      expect(res.status).toBe(200);
+      expect(res.body.margin).toMatchObject({
+        accountMode: "margin",
+        maxLeverage: "10",
+        equity: "990.5",
+        positionNotional: "9500",
+        initialMargin: "950",
+        maintenanceMargin: "475",
+        availableMargin: "40.5",
+        liquidatable: false,
+      });
+      // -8509.5 + 95p = 95p * 0.05  ->  p = 8509.5 / 90.25
+      expect(Number(res.body.margin.liquidationPrice)).toBeCloseTo(94.288, 3);
+    });
+
+    test("cannot switch back to cash while borrowing", async () => {
+      const res = await setAccountMode(token, "cash");
+
+      expect(res.status).toBe(400);
+      expect(res.body.error).toContain("negative USDC balance");
+    });
+
+    test("reducing exposure is always allowed", async () => {
+      const res = await postOrder(token, { side: "sell", requestedSize: "5" });
+
+      expect(res.status).toBe(201);
+    });
+  });
+
+  describe("Liquidation", () => {
+    test("closes the position and cancels pending orders below maintenance margin", async () => {
+      await setTestPrice("SOL", "100");
+      const { token, userId } = await createMarginUser();
+
+      // 90 SOL @ $100: USDC 1000 - 9000 - 9 = -8009, equity 991
+      const buyRes = await postOrder(token, { side: "buy", requestedSize: "90" });
+      expect(buyRes.status).toBe(201);
+
+      const stopRes = await postOrder(token, {
+        side: "sell",
+        type: "stop_market",
+        requestedSize: "90",
+        triggerPrice: "50",
+      });
+      expect(stopRes.status).toBe(201);
+
+      // $95: equity 541 >= maintenance 427.5
+      expect(await getLiquidatableAccounts("SOL", "USDC", new Decimal("95"))).not.toContain(userId);
+
+      // $93: equity 361 < maintenance 418.5
+      const price = new Decimal("93");
+      await setTestPrice("SOL", "93");
+      expect(await getLiquidatableAccounts("SOL", "USDC", price)).toContain(userId);
+
+      const result = await liquidateAccount(userId, "SOL", "USDC", price);
+
+      expect(result).not.toBeNull();
+      expect(result!.closes).toHaveLength(1);
+      expect(result!.closes[0]!.side).toBe("sell");
+      expect(result!.closes[0]!.executedSize).toBe("90");
+      expect(result!.equity).toBe("361");
+      expect(result!.badDebt).toBe("0");
+      expect(result!.cancelledOrders.map((o) => o.orderId)).toEqual([stopRes.body.orderId]);
+
+      // -8009 + 8370 - 8.37 fee
+      const portfolio = await getPortfolio(token);
+      const usdc = portfolio.balances.find((b: any) => b.asset === "USDC");
+      expect(usdc.available).toBe("352.63");
+      expect(portfolio.positions[0].size).toBe("0");
+      expect(portfolio.openOrders).toHaveLength(0);
+
+      const orderRes = await api
+        .get(`/orders/${result!.closes[0]!.orderId}`)
+        .set("Authorization", `Bearer ${token}`);
+      expect(orderRes.body.order.type).toBe("liquidation");
+      expect(orderRes.body.order.status).toBe("filled");
+    });
+
+    test("writes off a deficit the close cannot cover", async () => {
+      await setTestPrice("SOL", "100");
+      const { token, userId } = await createMarginUser();
+
+      await postOrder(token, { side: "buy", requestedSize: "90" });
+
+      // Gapped down to $85: -8009 + 7650 - 7.65 fee = -366.65
+      const result = await liquidateAccount(userId, "SOL", "USDC", new Decimal("85"));
+
+      expect(result).not.toBeNull();
+      expect(result!.equity).toBe("-359");
+      expect(result!.badDebt).toBe("366.65");
+
+      const usdc = await getBalance(token, "USDC");
+      expect(usdc.available).toBe("0");
+    });
+
+    test("covers a short and keeps the remaining equity", async () => {
+      await setTestPrice("SOL", "100");
+      const { token, userId } = await createMarginUser();
+
+      // Short 95 SOL @ $100: USDC 1000 + 9500 - 9.5 = 10490.5
+      const shortRes = await postOrder(token, { side: "sell", requestedSize: "95" });
+      expect(shortRes.status).toBe(201);
+
+      // $105: equity 515.5 >= maintenance 498.75
+      expect(await getLiquidatableAccounts("SOL", "USDC", new Decimal("105"))).not.toContain(userId);
+
+      // $106: equity 420.5 < maintenance 503.5
+      const price = new Decimal("106");
+      const result = await liquidateAccount(userId, "SOL", "USDC", price);
+
+      expect(result).not.toBeNull();
+      expect(result!.closes[0]!.side).toBe("buy");
+      expect(result!.equity).toBe("420.5");
+      expect(result!.badDebt).toBe("0");
+
+      // 10490.5 - 10070 - 10.07 fee
+      const usdc = await getBalance(token, "USDC");
+      expect(usdc.available).toBe("410.43");
+    });
+
+    test("skips accounts above maintenance margin", async () => {
+      await setTestPrice("SOL", "100");
+      const { token, userId } = await createMarginUser();
+
+      await postOrder(token, { side: "buy", requestedSize: "5" });
+
+      expect(await liquidateAccount(userId, "SOL", "USDC", new Decimal("100"))).toBeNull();
+    });
+  });
+
+  describe("Across markets", () => {
+    let token: string;
+    let userId: number;
+
+    const putMarket = (body: Record<string, unknown>) =>
+      api.put("/admin/markets").set("X-Admin-Key", ADMIN_API_KEY).send(body);
+
+    beforeAll(async () => {
+      process.env.ADMIN_API_KEY = ADMIN_API_KEY;
+      expect((await putMarket(JUP_MARKET)).status).toBe(200);
+      await setTestPrice("SOL", "100");
+      await setTestPrice("JUP", "2");
+      ({ token, userId } = await createMarginUser());
+    });
+
+    afterAll(async () => {
+      // Later suites only know SOL/USDC
+      await putMarket({ ...JUP_MARKET, active: false });
+      await setTestPrice("SOL", "100");
+      delete process.env.ADMIN_API_KEY;
+    });
+
+    test("short-sale cash does not fund exposure in another market", async () => {
+      // Short 90 SOL @ $100: USDC 1000 + 9000 - 9 = 9991, equity 991
+      expect((await postOrder(token, { side: "sell", requestedSize: "90" })).status).toBe(201);
+
+      // 500 JUP @ $2: initial margin (9000 + 1000) / 10 = 1000 > equity 990
+      const res = await postOrder(token, { baseAsset: "JUP", side: "buy", requestedSize: "500" });
+      expect(res.status).toBe(400);
+      expect(res.body.code).toBe("INSUFFICIENT_MARGIN");
+
+      // 20 JUP: initial margin 904 <= equity 990.96
+      const small = await postOrder(token, { baseAsset: "JUP", side: "buy", requestedSize: "20" });
+      expect(small.status).toBe(201);
+    });
+
+    test("reports the other holdings in equity and margin", async () => {
+      const res = await api
+        .get("/portfolio/margin?asset=SOL")
+        .set("Authorization", `Bearer ${token}`);
+
+      expect(res.status).toBe(200);
+      expect(res.body.margin).toMatchObject({
+        balances: { quote: "9950.96", base: "-90" },
+        otherHoldings: [{ asset: "JUP", size: "20", price: "2" }],
+        equity: "990.96", // 9950.96 - 9000 + 40
+        positionNotional: "9040",
+        initialMargin: "904",
+      });
+    });
+
+    test("liquidates every position when the account falls below maintenance", async () => {
+      // SOL $110: equity 9950.96 - 9900 + 40 = 90.96 < maintenance 497
+      const price = new Decimal("110");
+      await setTestPrice("SOL", "110");
+      expect(await getLiquidatableAccounts("SOL", "USDC", price)).toContain(userId);
+
+      const result = await liquidateAccount(userId, "SOL", "USDC", price);
+
+      expect(result).not.toBeNull();
+      expect(result!.equity).toBe("90.96");
+      expect(result!.closes.map((c) => [c.baseAsset, c.side, c.executedSize])).toEqual([
+        ["SOL", "buy", "90"],
+        ["JUP", "sell", "20"],
+      ]);
+
+      // 9950.96 - 9900 - 9.9 fee + 40 - 0.04 fee
+      const usdc = await getBalance(token, "USDC");
+      expect(usdc.available).toBe("81.02");
+    });
+  });
+});
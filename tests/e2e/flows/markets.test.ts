@@ -0,0 +1,169 @@
+import { afterAll, beforeAll, describe, expect, test } from "vitest";
+import { getApiClient, shutdownApiClient } from "../setup/testServer.ts";
+import { createAuthenticatedUser } from "../helpers/auth.ts";
+import { setTestPrice } from "../helpers/price.ts";
+import type { SuperTest, Test } from "supertest";
+
+/**
+ * Market Registry E2E Tests
+ *
+ * Tests the markets table as the single source of tradable pairs:
+ * 1. GET /market/markets lists the active markets and their rules
+ * 2. Orders on unlisted pairs, or breaking size/tick rules, are rejected
+ * 3. Listing a market through /admin makes it tradable and priced, no deploy
+ * 4. New accounts get a balance and position for every listed market
+ * 5. Delisting stops new orders
+ */
+
+const ADMIN_API_KEY = "test-admin-key-0123456789abcdefghijklmnop";
+
+const JUP_MARKET = {
+  baseAsset: "JUP",
+  quoteAsset: "USDC",
+  tickSize: "0.0001",
+  lotSize: "1",
+  minOrderSize: "1",
+  maxOrderSize: "100000",
+};
+
+describe("Market Registry (E2E)", () => {
+  let api: SuperTest<Test>;
+  let token: string;
+
+  const postOrder = (path: string, body: Record<string, string>) =>
+    api
+      .post(path)
+      .set("Authorization", `Bearer ${token}`)
+      .send({ side: "buy", baseAsset: "SOL", quoteAsset: "USDC", ...body });
+
+  const putMarket = (body: Record<string, unknown>) =>
+    api.put("/admin/markets").set("X-Admin-Key", ADMIN_API_KEY).send(body);
+
+  beforeAll(async () => {
+    process.env.ADMIN_API_KEY = ADMIN_API_KEY;
+    api = await getApiClient();
+    await setTestPrice("SOL", "100");
+    ({ token } = await createAuthenticatedUser(api));
+  });
+
+  afterAll(async () => {
+    // Later suites only know SOL/USDC
+    await putMarket({ ...JUP_MARKET, active: false });
+    delete process.env.ADMIN_API_KEY;
+    await shutdownApiClient();
+  });
+
+  test("lists SOL/USDC with its order rules", async () => {
+    const res = await api.get("/market/markets");
+
+    expect(res.status).toBe(200);
+    expect(res.body.markets).toContainEqual({
+      symbol: "SOL/USDC",
+      baseAsset: "SOL",
+      quoteAsset: "USDC",
+      tickSize: "0.01",
+      lotSize: "0.00000001",
+      minOrderSize: "0.001",
+      maxOrderSize: "10000",
+    });
+  });
+
+  describe("Order rules", () => {
+    test("rejects a pair that is not listed", async () => {
+      const res = await postOrder("/orders", { baseAsset: "BONK", requestedSize: "1" });
+
+      expect(res.status).toBe(400);
+      expect(res.body.code).toBe("UNKNOWN_MARKET");
+    });
+
+    test("rejects sizes outside the market's min and max", async () => {
+      const small = await postOrder("/orders", { requestedSize: "0.0005" });
+      expect(small.status).toBe(400);
+      expect(small.body.code).toBe("VALIDATION_ERROR");
+
+      const large = await postOrder("/orders", { requestedSize: "10000.5" });
+      expect(large.status).toBe(400);
+      expect(large.body.code).toBe("VALIDATION_ERROR");
+    });
+
+    test("rejects limit prices off the tick size", async () => {
+      const res = await postOrder("/orders", {
+        type: "limit",
+        requestedSize: "1",
+        limitPrice: "90.005",
+      });
+
+      expect(res.status).toBe(400);
+      expect(res.body.code).toBe("VALIDATION_ERROR");
+      expect(res.body.error).toContain("tick size");
+    });
+  });
+
+  describe("Listing a market", () => {
+    test("validates the rules", async () => {
+      const res = await putMarket({ ...JUP_MARKET, minOrderSize: "200000" });
+
+      expect(res.status).toBe(400);
+      expect(res.body.code).toBe("VALIDATION_ERROR");
+    });
+
+    test("only lists markets quoted in USDC", async () => {
+      // SOL/USDT would share SOL/USDC's price
+      const res = await putMarket({ ...JUP_MARKET, baseAsset: "SOL", quoteAsset: "USDT" });
+
+      expect(res.status).toBe(400);
+      expect(res.body.code).toBe("VALIDATION_ERROR");
+      expect(res.body.error).toContain("must quote in USDC");
+    });
+
+    test("makes the pair tradable and priced", async () => {
+      const listed = await putMarket(JUP_MARKET);
+      expect(listed.status).toBe(200);
+      expect(listed.body.market).toMatchObject({ symbol: "JUP/USDC", active: true });
+
+      await setTestPrice("JUP", "2");
+      const price = await api.get("/market/price/jup");
+      expect(price.status).toBe(200);
+      expect(price.body.price).toBe("2");
+
+      const res = await postOrder("/orders", { baseAsset: "JUP", requestedSize: "10" });
+      expect(res.status).toBe(201);
+      expect(res.body.executedSize).toBe("10");
+    });
+
+    test("sizes quote orders to the market's lot size", async () => {
+      // 10 USDC at 2 (fee included) buys 4.995 JUP: 4 whole lots
+      const preview = await postOrder("/orders/preview", { baseAsset: "JUP", quoteSize: "10" });
+      expect(preview.status).toBe(200);
+      expect(preview.body.executedSize).toBe("4");
+
+      const res = await postOrder("/orders", { baseAsset: "JUP", quoteSize: "10" });
+      expect(res.status).toBe(201);
+      expect(res.body.executedSize).toBe("4");
+    });
+
+    test("new accounts start with every listed market", async () => {
+      const user = await createAuthenticatedUser(api);
+      const res = await api.get("/portfolio").set("Authorization", `Bearer ${user.token}`);
+
+      expect(res.body.portfolio.balances).toContainEqual({
+        asset: "JUP",
+        available: "0",
+        locked: "0",
+      });
+      expect(res.body.portfolio.positions.map((p: any) => p.asset)).toEqual(["JUP", "SOL"]);
+    });
+
+    test("delisting stops new orders", async () => {
+      const delisted = await putMarket({ ...JUP_MARKET, active: false });
+      expect(delisted.status).toBe(200);
+
+      const markets = await api.get("/market/markets");
+      expect(markets.body.markets.map((m: any) => m.symbol)).not.toContain("JUP/USDC");
+
+      const res = await postOrder("/orders", { baseAsset: "JUP", requestedSize: "10" });
+      expect(res.status).toBe(400);
+      expect(res.body.code).toBe("UNKNOWN_MARKET");
+    });
+  });
+});
@@ -0,0 +1,126 @@
+import { afterAll, beforeAll, describe, expect, test } from "vitest";
+import { getApiClient, shutdownApiClient } from "../setup/testServer.ts";
+import { createAuthenticatedUser } from "../helpers/auth.ts";
+import { setTestPrice } from "../helpers/price.ts";
+import type { SuperTest, Test } from "supertest";
+
+/**
+ * Order Preview E2E Tests
+ *
+ * Tests POST /orders/preview:
+ * 1. Projects cost, fee, balances and avgEntryPrice with the placeOrder math
+ * 2. Writes nothing (no order, balances unchanged)
+ * 3. Matches what POST /orders then actually does at the same price
+ * 4. Same error codes as POST /orders (insufficient balance, validation)
+ */
+
+describe("Order Preview (E2E)", () => {
+  let api: SuperTest<Test>;
+  let authToken: string;
+
+  const getPortfolio = async () => {
+    const res = await api
+      .get("/portfolio")
+      .set("Authorization", `Bearer ${authToken}`);
+    return res.body.portfolio;
+  };
+
+  const post = (path: string, body: Record<string, string>) =>
+    api
+      .post(path)
+      .set("Authorization", `Bearer ${authToken}`)
+      .send({ baseAsset: "SOL", quoteAsset: "USDC", ...body });
+
+  beforeAll(async () => {
+    api = await getApiClient();
+    await setTestPrice("SOL", "100");
+    ({ token: authToken } = await createAuthenticatedUser(api));
+
+    // Initialize portfolio
+    await getPortfolio();
+  });
+
+  afterAll(async () => {
+    await shutdownApiClient();
+  });
+
+  test("projects a BUY without executing it", async () => {
+    const res = await post("/orders/preview", { side: "buy", requestedSize: "2" });
+
+    expect(res.status).toBe(200);
+    expect(res.body.executedPrice).toBe("100");
+    expect(res.body.cost).toBe("200");
+    expect(res.body.fee).toBe("0.2");
+    expect(res.body.quoteAmount).toBe("200.2");
+    expect(res.body.balances[0]).toEqual({
+      asset: "USDC",
+      available: "1000",
+      projectedAvailable: "799.8",
+    });
+    expect(res.body.position.projectedSize).toBe("2");
+    expect(res.body.position.projectedAvgEntryPrice).toBe("100");
+    expect(typeof res.body.priceAgeMs).toBe("number");
+
+    const portfolio = await getPortfolio();
+    const usdc = portfolio.balances.find((b: any) => b.asset === "USDC");
+    expect(usdc.available).toBe("1000");
+
+    const ordersRes = await api
+      .get("/orders")
+      .set("Authorization", `Bearer ${authToken}`);
+    expect(ordersRes.body.orders).toHaveLength(0);
+  });
+
+  test("matches the executed order at the same price", async () => {
+    const preview = await post("/orders/preview", { side: "buy", requestedSize: "1" });
+    const order = await post("/orders", { side: "buy", requestedSize: "1" });
+
+    expect(order.status).toBe(201);
+    expect(order.body.feesApplied).toBe(preview.body.fee);
+
+    const portfolio = await getPortfolio();
+    const usdc = portfolio.balances.find((b: any) => b.asset === "USDC");
+    expect(usdc.available).toBe(preview.body.balances[0].projectedAvailable);
+  });
+
+  test("projects the new avgEntryPrice after a price move", async () => {
+    await setTestPrice("SOL", "200");
+
+    // 1 SOL @ 100 + 1 SOL @ 200 -> avg 150
+    const res = await post("/orders/preview", { side: "buy", requestedSize: "1" });
+
+    expect(res.status).toBe(200);
+    expect(res.body.position.avgEntryPrice).toBe("100");
+    expect(res.body.position.projectedAvgEntryPrice).toBe("150");
+
+    await setTestPrice("SOL", "100");
+  });
+
+  test("supports quoteSize", async () => {
+    const res = await post("/orders/preview", { side: "buy", quoteSize: "100" });
+
+    expect(res.status).toBe(200);
+    expect(res.body.executedSize).toBe("0.99900099");
+    expect(res.body.quoteSize).toBe("100");
+  });
+
+  describe("Errors", () => {
+    test("returns INSUFFICIENT_BALANCE like POST /orders", async () => {
+      const res = await post("/orders/preview", { side: "sell", requestedSize: "5" });
+
+      expect(res.status).toBe(400);
+      expect(res.body.code).toBe("INSUFFICIENT_BALANCE");
+    });
+
+    test("rejects non-market orders", async () => {
+      const res = await post("/orders/preview", {
+        side: "buy",
+        type: "limit",
+        requestedSize: "1",
+        limitPrice: "90",
+      });
+
+      expect(res.status).toBe(400);
+    });
+  });
+});
@@ -0,0 +1,358 @@
+import { afterAll, beforeAll, describe, expect, test } from "vitest";
+import { getApiClient, shutdownApiClient } from "../setup/testServer.ts";
+import { createAuthenticatedUser } from "../helpers/auth.ts";
+import { setTestPrice } from "../helpers/price.ts";
+import type { SuperTest, Test } from "supertest";
+import { Decimal } from "decimal.js";
+import {
+  calculateMarkPrice,
+  calculateFundingRate,
+  calculateFundingPayment,
+  calculatePerpPosition,
+  settleFunding,
+  getLiquidatablePerpPositions,
+  liquidatePerpPosition,
+} from "@repo/trading";
+
+/**
+ * Perpetual Futures E2E Tests (MAX_LEVERAGE = 10)
+ *
+ * Tests isolated-margin perps:
+ * 1. Mark price premium and funding rate follow the open-interest skew
+ * 2. Opening moves notional / leverage + fee from USDC into the position
+ * 3. Closing pays margin + P&L - fee back; margin can be added or removed
+ * 4. Funding settlement charges longs / pays shorts against their margin
+ * 5. Positions below maintenance margin are liquidated, losses capped at the margin
+ *
+ * The mark price depends on every open position in the market, so flows
+ * check amounts against the mark price each trade reports.
+ */
+
+describe("Perpetual Futures (E2E)", () => {
+  let api: SuperTest<Test>;
+
+  const openPosition = (token: string, body: Record<string, string>) =>
+    api
+      .post("/perps/positions")
+      .set("Authorization", `Bearer ${token}`)
+      .send({ market: "SOL-PERP", ...body });
+
+  const getUsdc = async (token: string) => {
+    const res = await api
+      .get("/portfolio")
+      .set("Authorization", `Bearer ${token}`);
+    const usdc = res.body.portfolio.balances.find((b: any) => b.asset === "USDC");
+    return new Decimal(usdc.available);
+  };
+
+  const getPositions = async (token: string) => {
+    const res = await api
+      .get("/perps/positions")
+      .set("Authorization", `Bearer ${token}`);
+    expect(res.status).toBe(200);
+    return res.body.positions;
+  };
+
+  beforeAll(async () => {
+    api = await getApiClient();
+  });
+
+  afterAll(async () => {
+    await shutdownApiClient();
+  });
+
+  describe("Mark price and funding rate", () => {
+    test("mark trades at a premium to the crowded side", () => {
+      const index = new Decimal("100");
+
+      expect(
+        calculateMarkPrice(index, { long: new Decimal(0), short: new Decimal(0) }).toString()
+      ).toBe("100");
+      // skew (30 - 10) / 40 = 0.5 -> premium 0.05%
+      expect(
+        calculateMarkPrice(index, { long: new Decimal(30), short: new Decimal(10) }).toString()
+      ).toBe("100.05");
+      expect(
+        calculateMarkPrice(index, { long: new Decimal(0), short: new Decimal(10) }).toString()
+      ).toBe("99.9");
+    });
+
+    test("funding rate is premium + interest, capped per interval", () => {
+      const index = new Decimal("100");
+
+      expect(calculateFundingRate(index, new Decimal("100")).toString()).toBe("0.0000125");
+      expect(calculateFundingRate(index, new Decimal("99.99")).toString()).toBe("-0.0000875");
+      expect(calculateFundingRate(index, new Decimal("100.1")).toString()).toBe("0.0005");
+      expect(calculateFundingRate(index, new Decimal("99.9")).toString()).toBe("-0.0005");
+    });
+
+    test("longs pay and shorts receive a positive rate", () => {
+      const mark = new Decimal("100");
+      const rate = new Decimal("0.0005");
+
+      expect(calculateFundingPayment(new Decimal("10"), mark, rate).toString()).toBe("-0.5");
+      expect(calculateFundingPayment(new Decimal("-10"), mark, rate).toString()).toBe("0.5");
+    });
+
+    test("position equity and liquidation price", () => {
+      // Long 10 @ 100 with 100 margin, marked at 110
+      const snapshot = calculatePerpPosition(
+        new Decimal("10"),
+        new Decimal("100"),
+        new Decimal("100"),
+        new Decimal("110"),
+        new Decimal("10")
+      );
+
+      expect(snapshot.notional.toString()).toBe("1100");
+      expect(snapshot.unrealizedPnl.toString()).toBe("100");
+      expect(snapshot.equity.toString()).toBe("200");
+      expect(snapshot.maintenanceMargin.toString()).toBe("55");
+      // (1000 - 100) / (10 - 0.5)
+      expect(snapshot.liquidationPrice!.toNumber()).toBeCloseTo(94.7368, 4);
+    });
+
+    test("GET /perps/markets lists SOL-PERP", async () => {
+      await setTestPrice("SOL", "100");
+
+      const res = await api.get("/perps/markets");
+
+      expect(res.status).toBe(200);
+      const [market] = res.body.markets;
+      expect(market.market).toBe("SOL-PERP");
+      expect(market.indexPrice).toBe("100");
+      expect(market.maxLeverage).toBe("10");
+      expect(new Date(market.nextFundingTime).getTime()).toBeGreaterThan(Date.now());
+    });
+  });
+
+  describe("Opening and closing", () => {
+    let token: string;
+    let entryPrice: Decimal;
+
+    // 2 SOL at 5x, rounded up like the position margin
+    const initialMargin = (price: Decimal) =>
+      price.times(2).dividedBy(5).toDecimalPlaces(8, Decimal.ROUND_UP);
+
+    beforeAll(async () => {
+      await setTestPrice("SOL", "100");
+      ({ token } = await createAuthenticatedUser(api));
+    });
+
+    test("opens a long with isolated margin", async () => {
+      const before = await getUsdc(token);
+
+      const res = await openPosition(token, { side: "long", size: "2", leverage: "5" });
+      expect(res.status).toBe(201);
+
+      entryPrice = new Decimal(res.body.price);
+      const margin = initialMargin(entryPrice);
+      const fee = entryPrice.times(2).times("0.001").toDecimalPlaces(8);
+
+      expect(res.body.side).toBe("buy");
+      expect(res.body.fee).toBe(fee.toString());
+      expect(res.body.position.size).toBe("2");
+      expect(res.body.position.margin).toBe(margin.toString());
+      expect((await getUsdc(token)).toString()).toBe(before.minus(margin).minus(fee).toString());
+
+      const [position] = await getPositions(token);
+      expect(position.side).toBe("long");
+      expect(position.entryPrice).toBe(entryPrice.toString());
+    });
+
+    test("rejects leverage above MAX_LEVERAGE", async () => {
+      const res = await openPosition(token, { side: "long", size: "1", leverage: "20" });
+
+      expect(res.status).toBe(400);
+      expect(res.body.error).toContain("Invalid leverage");
+    });
+
+    test("rejects the opposite side while a position is open", async () => {
+      const res = await openPosition(token, { side: "short", size: "1" });
+
+      expect(res.status).toBe(400);
+      expect(res.body.error).toContain("Close it first");
+    });
+
+    test("rejects a position the balance cannot collateralize", async () => {
+      const res = await openPosition(token, { side: "long", size: "100", leverage: "1" });
+
+      expect(res.status).toBe(400);
+      expect(res.body.code).toBe("INSUFFICIENT_BALANCE");
+    });
+
+    test("adds and removes margin", async () => {
+      const addRes = await api
+        .post("/perps/positions/SOL-PERP/margin")
+        .set("Authorization", `Bearer ${token}`)
+        .send({ action: "add", amount: "10" });
+      expect(addRes.status).toBe(200);
+
+      const margin = initialMargin(entryPrice).plus(10);
+      expect(addRes.body.position.margin).toBe(margin.toString());
+
+      // Equity must stay >= notional / 10 (about 20)
+      const removeRes = await api
+        .post("/perps/positions/SOL-PERP/margin")
+        .set("Authorization", `Bearer ${token}`)
+        .send({ action: "remove", amount: "40" });
+      expect(removeRes.status).toBe(400);
+      expect(removeRes.body.code).toBe("INSUFFICIENT_MARGIN");
+    });
+
+    test("partially closes at a profit", async () => {
+      await setTestPrice("SOL", "110");
+      const before = await getUsdc(token);
+
+      const res = await api
+        .post("/perps/positions/SOL-PERP/close")
+        .set("Authorization", `Bearer ${token}`)
+        .send({ size: "1" });
+      expect(res.status).toBe(200);
+
+      const exitPrice = new Decimal(res.body.price);
+      const fee = exitPrice.times("0.001").toDecimalPlaces(8);
+      const pnl = exitPrice.minus(entryPrice).minus(fee);
+      const releasedMargin = initialMargin(entryPrice)
+        .plus(10)
+        .dividedBy(2)
+        .toDecimalPlaces(8, Decimal.ROUND_DOWN);
+
+      expect(res.body.side).toBe("sell");
+      expect(res.body.realizedPnl).toBe(pnl.toString());
+      expect(res.body.position.size).toBe("1");
+      expect((await getUsdc(token)).toString()).toBe(
+        before.plus(releasedMargin).plus(pnl).toString()
+      );
+    });
+
+    test("closes the rest and lists both trades", async () => {
+      const res = await api
+        .post("/perps/positions/SOL-PERP/close")
+        .set("Authorization", `Bearer ${token}`)
+        .send({});
+      expect(res.status).toBe(200);
+      expect(res.body.position.size).toBe("0");
+      expect(res.body.position.margin).toBe("0");
+
+      expect(await getPositions(token)).toHaveLength(0);
+
+      const tradesRes = await api
+        .get("/perps/trades")
+        .set("Authorization", `Bearer ${token}`);
+      expect(tradesRes.body.trades.map((t: any) => t.side)).toEqual(["sell", "sell", "buy"]);
+    });
+
+    test("closing without a position is a 404", async () => {
+      const res = await api
+        .post("/perps/positions/SOL-PERP/close")
+        .set("Authorization", `Bearer ${token}`)
+        .send({});
+
+      expect(res.status).toBe(404);
+      expect(res.body.code).toBe("POSITION_NOT_FOUND");
+    });
+  });
+
+  describe("Funding", () => {
+    test("settles once per interval against the position margin", async () => {
+      await setTestPrice("SOL", "100");
+      const { token } = await createAuthenticatedUser(api);
+
+      const openRes = await openPosition(token, { side: "short", size: "3", leverage: "2" });
+      expect(openRes.status).toBe(201);
+      const positionId = openRes.body.positionId;
+
+      // A unique boundary, so no other settlement collides with this one
+      const fundingTime = new Date(Date.UTC(2100, 0, 1) + positionId * 3_600_000);
+      const settlement = await settleFunding("SOL-PERP", new Decimal("100"), fundingTime);
+      expect(settlement).not.toBeNull();
+
+      const payment = settlement!.payments.find((p) => p.positionId === positionId)!;
+      const expected = new Decimal(-3)
+        .times(settlement!.markPrice)
+        .times(settlement!.rate)
+        .negated()
+        .toDecimalPlaces(8);
+      expect(payment.amount).toBe(expected.toString());
+      expect(payment.margin).toBe(
+        new Decimal(openRes.body.position.margin).plus(expected).toString()
+      );
+
+      // Same interval again: nothing charged twice
+      expect(await settleFunding("SOL-PERP", new Decimal("100"), fundingTime)).toBeNull();
+
+      const historyRes = await api
+        .get("/perps/funding")
+        .set("Authorization", `Bearer ${token}`);
+      expect(historyRes.status).toBe(200);
+      expect(historyRes.body.payments).toHaveLength(1);
+      expect(historyRes.body.payments[0].amount).toBe(expected.toString());
+
+      const [position] = await getPositions(token);
+      expect(position.fundingPnl).toBe(expected.toString());
+    });
+  });
+
+  describe("Liquidation", () => {
+    test("closes a position below maintenance margin and returns what is left", async () => {
+      await setTestPrice("SOL", "100");
+      const { token } = await createAuthenticatedUser(api);
+
+      // 10x: margin is about 10 USDC, liquidation near 94.7
+      const openRes = await openPosition(token, { side: "long", size: "1", leverage: "10" });
+      expect(openRes.status).toBe(201);
+      const positionId = openRes.body.positionId;
+
+      expect(await getLiquidatablePerpPositions("SOL-PERP", new Decimal("96"))).not.toContain(
+        positionId
+      );
+      expect(await getLiquidatablePerpPositions("SOL-PERP", new Decimal("93"))).toContain(
+        positionId
+      );
+
+      const before = await getUsdc(token);
+      const result = await liquidatePerpPosition(positionId, new Decimal("93"));
+
+      expect(result).not.toBeNull();
+      expect(result!.side).toBe("sell");
+      expect(result!.position.size).toBe("0");
+      expect(result!.badDebt).toBe("0");
+
+      // margin + pnl - fee paid back
+      const payout = new Decimal(openRes.body.position.margin)
+        .plus(new Decimal(result!.price).minus(openRes.body.price))
+        .minus(result!.fee);
+      expect((await getUsdc(token)).toString()).toBe(before.plus(payout).toString());
+
+      const tradesRes = await api
+        .get("/perps/trades")
+        .set("Authorization", `Bearer ${token}`);
+      expect(tradesRes.body.trades[0].type).toBe("liquidation");
+    });
+
+    test("caps the loss at the position margin", async () => {
+      await setTestPrice("SOL", "100");
+      const { token } = await createAuthenticatedUser(api);
+
+      const openRes = await openPosition(token, { side: "long", size: "1", leverage: "10" });
+      const before = await getUsdc(token);
+
+      // Gapped down to $80: the loss of about 20 exceeds the 10 margin
+      const result = await liquidatePerpPosition(openRes.body.positionId, new Decimal("80"));
+
+      expect(result).not.toBeNull();
+      expect(new Decimal(result!.badDebt).gt(0)).toBe(true);
+      expect((await getUsdc(token)).toString()).toBe(before.toString());
+    });
+
+    test("skips positions above maintenance margin", async () => {
+      await setTestPrice("SOL", "100");
+      const { token } = await createAuthenticatedUser(api);
+
+      const openRes = await openPosition(token, { side: "short", size: "1", leverage: "2" });
+
+      expect(await liquidatePerpPosition(openRes.body.positionId, new Decimal("100"))).toBeNull();
+    });
+  });
+});
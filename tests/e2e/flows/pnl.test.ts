@@ -4,6 +4,7 @@ import { createTestWallet, signMessage, type TestWallet } from "../helpers/walle
 import { setTestPrice } from "../helpers/price.ts";
 import type { SuperTest, Test } from "supertest";
 import { Decimal } from "decimal.js";
+import { matchLimitOrders } from "@repo/trading";
 
 /**
  * P&L and Position Tests (E2E)
@@ -14,6 +15,7 @@ import { Decimal } from "decimal.js";
  * 3. Realized P&L when selling
  * 4. Position building and partial selling
  * 5. Edge cases: closing full position, re-entering
+ * 6. Server-side realized P&L on sell trades and per position
  */
 
 describe("P&L and Position Calculations (E2E)", () => {
@@ -617,4 +619,104 @@ describe("P&L and Position Calculations (E2E)", () => {
       expect(solPosition.avgEntryPrice).toBe("80");
     });
   });
+
+  describe("Realized P&L Tracking", () => {
+    test("records cost basis and realized P&L on the sell trade", async () => {
+      const wallet = createTestWallet();
+      const token = await authenticate(wallet);
+
+      // Buy 3 SOL at $100, sell 3 at $150
+      await setTestPrice("SOL", "100");
+      await placeOrder(token, "buy", "3");
+      await setTestPrice("SOL", "150");
+      const sellRes = await placeOrder(token, "sell", "3");
+      expect(sellRes.status).toBe(201);
+
+      // Realized = 450 - 0.45 fee - 300 cost basis = 149.55
+      const orderRes = await api
+        .get(`/orders/${sellRes.body.orderId}`)
+        .set("Authorization", `Bearer ${token}`);
+      const trade = orderRes.body.order.trades[0];
+      expect(trade.costBasis).toBe("300");
+      expect(trade.realizedPnl).toBe("149.55");
+
+      // Full close resets avgEntryPrice but keeps the realized P&L
+      const portfolio = await getPortfolio(token);
+      const solPosition = portfolio.positions.find(
+        (p: any) => p.asset === "SOL"
+      );
+      expect(solPosition.avgEntryPrice).toBe("0");
+      expect(solPosition.realizedPnl).toBe("149.55");
+    });
+
+    test("accumulates across partial sells, gains and losses", async () => {
+      const wallet = createTestWallet();
+      const token = await authenticate(wallet);
+
+      await setTestPrice("SOL", "100");
+      await placeOrder(token, "buy", "5");
+
+      // Sell 2 at $125: 250 - 0.25 - 200 = 49.75
+      await setTestPrice("SOL", "125");
+      await placeOrder(token, "sell", "2");
+
+      // Sell 1 at $80: 80 - 0.08 - 100 = -20.08
+      await setTestPrice("SOL", "80");
+      await placeOrder(token, "sell", "1");
+
+      const portfolio = await getPortfolio(token);
+      const solPosition = portfolio.positions.find(
+        (p: any) => p.asset === "SOL"
+      );
+      expect(solPosition.realizedPnl).toBe("29.67");
+      expect(portfolio.totalRealizedPnl).toBe("29.67");
+    });
+
+    test("buys do not realize P&L", async () => {
+      const wallet = createTestWallet();
+      const token = await authenticate(wallet);
+
+      await setTestPrice("SOL", "100");
+      const buyRes = await placeOrder(token, "buy", "1");
+
+      const orderRes = await api
+        .get(`/orders/${buyRes.body.orderId}`)
+        .set("Authorization", `Bearer ${token}`);
+      expect(orderRes.body.order.trades[0].realizedPnl).toBeNull();
+
+      const portfolio = await getPortfolio(token);
+      expect(portfolio.totalRealizedPnl).toBe("0");
+    });
+
+    test("limit sell fills realize P&L too", async () => {
+      const wallet = createTestWallet();
+      const token = await authenticate(wallet);
+
+      await setTestPrice("SOL", "100");
+      await placeOrder(token, "buy", "1");
+
+      const limitRes = await api
+        .post("/orders")
+        .set("Authorization", `Bearer ${token}`)
+        .send({
+          side: "sell",
+          type: "limit",
+          baseAsset: "SOL",
+          quoteAsset: "USDC",
+          requestedSize: "1",
+          limitPrice: "120",
+        });
+      expect(limitRes.status).toBe(201);
+
+      // Fills at $121: 121 - 0.121 - 100 = 20.879
+      const fills = await matchLimitOrders("SOL", new Decimal("121"));
+      expect(fills.find((f) => f.orderId === limitRes.body.orderId)).toBeDefined();
+
+      const portfolio = await getPortfolio(token);
+      const solPosition = portfolio.positions.find(
+        (p: any) => p.asset === "SOL"
+      );
+      expect(solPosition.realizedPnl).toBe("20.879");
+    });
+  });
 });
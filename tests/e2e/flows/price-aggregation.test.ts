@@ -0,0 +1,193 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, test } from "vitest";
+import { mkdtemp, rm, utimes, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { Decimal } from "decimal.js";
+import { getPriceWithMetadata } from "@repo/pricing";
+import { getApiClient, shutdownApiClient } from "../setup/testServer.ts";
+import { setTestPrice } from "../helpers/price.ts";
+import { startHttpStub, type HttpStub } from "../helpers/httpStub.ts";
+import type { SuperTest, Test } from "supertest";
+import { ingestPrices } from "../../../workers/price-ingestion/src/ingest.ts";
+import { aggregationOptionsFromEnv } from "../../../workers/price-ingestion/src/aggregate.ts";
+import {
+  createBinanceProvider,
+  createPriceSources,
+  createPythProvider,
+  createStaticFileProvider,
+  type PriceSource,
+} from "../../../workers/price-ingestion/src/providers/index.ts";
+
+/**
+ * Price Aggregation E2E Tests
+ *
+ * Tests the median-of-sources price (Pyth, book ticker and static file stubs):
+ * 1. The stored price is the median of every source that answered
+ * 2. A source beyond the maximum deviation from the median is rejected
+ * 3. Without a quorum of agreeing sources, the price is not updated
+ *    (a source price older than PRICE_STALE_THRESHOLD_MS does not count)
+ * 4. Sources, quorum and deviation are stored and exposed on /market/status
+ */
+
+const SOL_FEED_ID = "0xef0d8b6fda2ceba41da15d4095d1da392a0d2f8ed0c6c7bc0f4cfac8c280b56d";
+const HERMES_PATH = "/v2/updates/price/latest";
+const BOOK_TICKER_PATH = "/api/v3/ticker/bookTicker";
+
+const QUORUM_OF_TWO = { minQuorum: 2, maxDeviation: new Decimal("0.01") };
+
+describe("Price Aggregation (E2E)", () => {
+  let api: SuperTest<Test>;
+  let stub: HttpStub;
+  let tmpDir: string;
+  let filePath: string;
+  let sources: PriceSource[];
+
+  // Published now unless given (seconds): older than PRICE_STALE_THRESHOLD_MS is dropped
+  const setPythPrice = (price: string, publishTime = Math.floor(Date.now() / 1000)) =>
+    stub.routes.set(HERMES_PATH, {
+      status: 200,
+      body: {
+        binary: { encoding: "hex", data: [] },
+        parsed: [
+          {
+            id: SOL_FEED_ID.slice(2),
+            price: { price, conf: "5000000", expo: -8, publish_time: publishTime },
+            ema_price: { price, conf: "5000000", expo: -8, publish_time: publishTime },
+          },
+        ],
+      },
+    });
+
+  const setFilePrice = (price: string) => writeFile(filePath, JSON.stringify({ SOL: price }));
+
+  beforeAll(async () => {
+    api = await getApiClient();
+    stub = await startHttpStub();
+    tmpDir = await mkdtemp(join(tmpdir(), "prices-"));
+    filePath = join(tmpDir, "prices.json");
+    sources = createPriceSources([
+      createPythProvider(stub.baseUrl),
+      createBinanceProvider(stub.baseUrl),
+      createStaticFileProvider(filePath),
+    ]);
+  });
+
+  beforeEach(async () => {
+    stub.reset();
+    // Pyth at 150.20 ± 0.05
+    setPythPrice("15020000000");
+    // Book ticker at 150.00 ± 0.10
+    stub.routes.set(BOOK_TICKER_PATH, {
+      status: 200,
+      body: [{ symbol: "SOLUSDC", bidPrice: "149.90", askPrice: "150.10" }],
+    });
+    await setFilePrice("150.10");
+  });
+
+  afterAll(async () => {
+    // Later suites expect bid = ask = price
+    await setTestPrice("SOL", "100");
+    await stub.close();
+    await rm(tmpDir, { recursive: true, force: true });
+    await shutdownApiClient();
+  });
+
+  test("stores the median of every source, exposed on /market/status", async () => {
+    const result = await ingestPrices(sources, QUORUM_OF_TWO);
+
+    expect(result.failed).toEqual({});
+    const sol = (await getPriceWithMetadata("SOL"))!;
+    expect(sol.price.toString()).toBe("150.1");
+    expect(sol.confidence.toString()).toBe("0.1"); // The widest of the sources kept
+    expect(sol.source).toBe("pyth,binance,static");
+    expect(sol.aggregation).toEqual({
+      sources: ["pyth", "binance", "static"],
+      rejected: [],
+      quorum: 2,
+      maxDeviation: "0.01",
+      deviation: "0.0006662", // 0.10 / 150.10
+    });
+
+    const res = await api.get("/market/status");
+    expect(res.status).toBe(200);
+    const market = res.body.markets.find((m: any) => m.symbol === "SOL");
+    expect(market).toMatchObject({
+      available: true,
+      source: "pyth,binance,static",
+      aggregation: { sources: ["pyth", "binance", "static"], rejected: [], quorum: 2 },
+    });
+  });
+
+  test("rejects a source beyond the maximum deviation from the median", async () => {
+    // A bad print: 200, 33% off the 150.20 median
+    await setFilePrice("200");
+
+    const result = await ingestPrices(sources, QUORUM_OF_TWO);
+
+    expect(result.updated.SOL!.aggregation!.rejected).toEqual(["static"]);
+    const sol = (await getPriceWithMetadata("SOL"))!;
+    expect(sol.price.toString()).toBe("150.1"); // Median of 150.20 and 150.00
+    expect(sol.aggregation!.sources).toEqual(["pyth", "binance"]);
+  });
+
+  test("keeps the last price when fewer sources than the quorum agree", async () => {
+    await setTestPrice("SOL", "149.5");
+    stub.routes.set(BOOK_TICKER_PATH, { status: 503, body: { error: "Service Unavailable" } });
+    await setFilePrice("200");
+
+    // Pyth 150.20 and the file 200 disagree: neither can be trusted
+    const result = await ingestPrices(sources, QUORUM_OF_TWO);
+
+    expect(result.updated).toEqual({});
+    expect(result.failed.SOL).toContain("Quorum not met: 0 of 2");
+    expect(result.failed.SOL).toContain("binance: ");
+    expect((await getPriceWithMetadata("SOL"))!.price.toString()).toBe("149.5");
+  });
+
+  test("drops a source price published longer ago than the stale threshold", async () => {
+    await setTestPrice("SOL", "149.5");
+    // A Hermes print and a price file that stopped changing, 10 minutes ago
+    const tenMinutesAgo = new Date(Date.now() - 10 * 60 * 1000);
+    setPythPrice("15020000000", Math.floor(tenMinutesAgo.getTime() / 1000));
+    await utimes(filePath, tenMinutesAgo, tenMinutesAgo);
+
+    // Only the book ticker is fresh: short of a quorum of two
+    const stale = await ingestPrices(sources, QUORUM_OF_TWO);
+
+    expect(stale.updated).toEqual({});
+    expect(stale.failed.SOL).toContain("Quorum not met: 1 of 2");
+    expect(stale.failed.SOL).toContain("pyth: stale (published ");
+    expect(stale.failed.SOL).toContain("static: stale (published ");
+    expect((await getPriceWithMetadata("SOL"))!.price.toString()).toBe("149.5");
+
+    // A quorum of one prices it from the fresh source alone
+    const result = await ingestPrices(sources);
+
+    expect(result.updated.SOL!.source).toBe("binance");
+    expect((await getPriceWithMetadata("SOL"))!.price.toString()).toBe("150");
+  });
+
+  test("a quorum of one takes a single source", async () => {
+    stub.routes.set(BOOK_TICKER_PATH, { status: 503, body: { error: "Service Unavailable" } });
+    await rm(filePath);
+
+    const result = await ingestPrices(sources);
+
+    expect(result.failed).toEqual({});
+    const sol = (await getPriceWithMetadata("SOL"))!;
+    expect(sol.price.toString()).toBe("150.2");
+    expect(sol.aggregation).toMatchObject({ sources: ["pyth"], quorum: 1, deviation: "0" });
+  });
+
+  test("validates the quorum and deviation settings", () => {
+    expect(aggregationOptionsFromEnv()).toEqual({ minQuorum: 1, maxDeviation: new Decimal("0.01") });
+
+    process.env.PRICE_MIN_QUORUM = "0";
+    expect(() => aggregationOptionsFromEnv()).toThrow("Invalid PRICE_MIN_QUORUM");
+    delete process.env.PRICE_MIN_QUORUM;
+
+    process.env.PRICE_MAX_DEVIATION = "abc";
+    expect(() => aggregationOptionsFromEnv()).toThrow("Invalid PRICE_MAX_DEVIATION");
+    delete process.env.PRICE_MAX_DEVIATION;
+  });
+});
@@ -0,0 +1,150 @@
+import { afterAll, afterEach, beforeAll, describe, expect, test, vi } from "vitest";
+import { getPriceWithMetadata, upsertMarket } from "@repo/pricing";
+import { client as redisClient, redisKeys } from "@repo/redis";
+import type { PriceUpdateEvent } from "@repo/events";
+import { setTestPrice } from "../helpers/price.ts";
+import { ingestPrices } from "../../../workers/price-ingestion/src/ingest.ts";
+import {
+  createPriceSources,
+  createPythProvider,
+} from "../../../workers/price-ingestion/src/providers/index.ts";
+import type { PythHermesResponse } from "../../../workers/price-ingestion/src/pyth.ts";
+
+/**
+ * Price Ingestion E2E Tests
+ *
+ * Tests the worker's ingestion pass over the market registry:
+ * 1. Every market's feed is fetched in one batched Hermes request
+ * 2. All prices are written with their confidence, one event per symbol
+ * 3. A price outside its market's sanity bounds is dropped, alone
+ * 4. A feed missing from the response is dropped, alone
+ */
+
+const SOL_FEED_ID = "0xef0d8b6fda2ceba41da15d4095d1da392a0d2f8ed0c6c7bc0f4cfac8c280b56d";
+const JTO_FEED_ID = "0xb43660a5f790c69354b0729a5ef9d50d68f1df92107540210b9cccba1f947cc2";
+
+const JTO_MARKET = {
+  baseAsset: "JTO",
+  quoteAsset: "USDC",
+  tickSize: "0.0001",
+  lotSize: "0.01",
+  minOrderSize: "1",
+  maxOrderSize: "100000",
+  priceFeedId: JTO_FEED_ID,
+  minPrice: "0.01",
+  maxPrice: "100",
+};
+
+function feedUpdate(feedId: string, price: string, conf: string) {
+  const publishTime = Math.floor(Date.now() / 1000); // Older than PRICE_STALE_THRESHOLD_MS is dropped
+  return {
+    id: feedId.slice(2),
+    price: { price, conf, expo: -8, publish_time: publishTime },
+    ema_price: { price, conf, expo: -8, publish_time: publishTime },
+  };
+}
+
+function stubHermes(parsed: PythHermesResponse["parsed"]) {
+  const body: PythHermesResponse = { binary: { encoding: "hex", data: [] }, parsed };
+  const fetchMock = vi.fn(
+    async (_url: string | URL) => new Response(JSON.stringify(body), { status: 200 })
+  );
+  vi.stubGlobal("fetch", fetchMock);
+  return fetchMock;
+}
+
+describe("Price Ingestion (E2E)", () => {
+  const sources = createPriceSources([createPythProvider("http://hermes.test")]);
+  const subscriber = redisClient.duplicate();
+  const events: PriceUpdateEvent[] = [];
+
+  beforeAll(async () => {
+    await upsertMarket(JTO_MARKET);
+    await subscriber.connect();
+    await subscriber.subscribe(redisKeys.CHANNELS.priceUpdate(), (message) => {
+      events.push(JSON.parse(message));
+    });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    events.length = 0;
+  });
+
+  afterAll(async () => {
+    // Later suites only know SOL/USDC, with bid = ask = price
+    await upsertMarket({ ...JTO_MARKET, active: false });
+    await setTestPrice("SOL", "100");
+    await subscriber.quit();
+  });
+
+  test("ingests every market in one request, one event per symbol", async () => {
+    const fetchMock = stubHermes([
+      feedUpdate(SOL_FEED_ID, "15000000000", "7500000"),
+      feedUpdate(JTO_FEED_ID, "250000000", "500000"),
+    ]);
+
+    const result = await ingestPrices(sources);
+
+    expect(fetchMock).toHaveBeenCalledOnce();
+    const url = new URL(String(fetchMock.mock.calls[0]![0]));
+    expect(url.searchParams.getAll("ids[]")).toEqual([SOL_FEED_ID, JTO_FEED_ID]);
+    expect(Object.keys(result.updated).sort()).toEqual(["JTO", "SOL"]);
+    expect(result.failed).toEqual({});
+
+    const sol = (await getPriceWithMetadata("SOL"))!;
+    const jto = (await getPriceWithMetadata("JTO"))!;
+    expect(sol.price.toString()).toBe("150");
+    expect(sol.confidence.toString()).toBe("0.075");
+    expect(jto.price.toString()).toBe("2.5");
+    expect(jto.confidence.toString()).toBe("0.005");
+    expect(sol.timestamp).toEqual(jto.timestamp);
+
+    await vi.waitFor(() => expect(events).toHaveLength(2));
+    expect(events.map((e) => [e.symbol, e.price]).sort()).toEqual([
+      ["JTO", "2.5"],
+      ["SOL", "150"],
+    ]);
+  });
+
+  test("drops a price outside its market's bounds, keeps the others", async () => {
+    // JTO at 500, above its maxPrice of 100 (e.g. a misapplied exponent)
+    stubHermes([
+      feedUpdate(SOL_FEED_ID, "15100000000", "7500000"),
+      feedUpdate(JTO_FEED_ID, "50000000000", "500000"),
+    ]);
+
+    const result = await ingestPrices(sources);
+
+    expect(Object.keys(result.updated)).toEqual(["SOL"]);
+    expect(result.failed.JTO).toContain("Suspicious price");
+    expect((await getPriceWithMetadata("SOL"))!.price.toString()).toBe("151");
+    expect((await getPriceWithMetadata("JTO"))!.price.toString()).toBe("2.5");
+
+    await vi.waitFor(() => expect(events).toHaveLength(1));
+    expect(events[0]!.symbol).toBe("SOL");
+  });
+
+  test("accepts a price above the old $1000 cap within the bounds", async () => {
+    await upsertMarket({ ...JTO_MARKET, maxPrice: "5000" });
+    stubHermes([
+      feedUpdate(SOL_FEED_ID, "15000000000", "7500000"),
+      feedUpdate(JTO_FEED_ID, "120000000000", "50000000"),
+    ]);
+
+    const result = await ingestPrices(sources);
+
+    expect(result.failed).toEqual({});
+    expect((await getPriceWithMetadata("JTO"))!.price.toString()).toBe("1200");
+    await upsertMarket(JTO_MARKET);
+  });
+
+  test("drops a feed missing from the response", async () => {
+    stubHermes([feedUpdate(SOL_FEED_ID, "15000000000", "7500000")]);
+
+    const result = await ingestPrices(sources);
+
+    expect(Object.keys(result.updated)).toEqual(["SOL"]);
+    expect(result.failed.JTO).toContain("not found");
+  });
+});
@@ -0,0 +1,269 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, test } from "vitest";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { Decimal } from "decimal.js";
+import { getPriceWithMetadata, upsertMarket } from "@repo/pricing";
+import { getApiClient, shutdownApiClient } from "../setup/testServer.ts";
+import { setTestPrice } from "../helpers/price.ts";
+import { startHttpStub, type HttpStub } from "../helpers/httpStub.ts";
+import type { SuperTest, Test } from "supertest";
+import { ingestPrices } from "../../../workers/price-ingestion/src/ingest.ts";
+import {
+  createBinanceProvider,
+  createJupiterProvider,
+  createPriceSources,
+  createPriceSourcesFromEnv,
+  createPythProvider,
+  createStaticFileProvider,
+  type PriceFeed,
+} from "../../../workers/price-ingestion/src/providers/index.ts";
+
+/**
+ * Price Provider E2E Tests
+ *
+ * Tests the worker's price providers against a local HTTP stub server:
+ * 1. Jupiter, Binance-style book ticker and static file providers parse their sources
+ * 2. Each symbol is priced by every provider that can, the others still count
+ * 3. A provider outage leaves the prices to the other providers
+ * 4. A failing provider's circuit breaker skips it, then retries after the cooldown
+ *    (a provider that hangs past PRICE_PROVIDER_TIMEOUT_MS fails like one that is down)
+ * 5. Every price records the provider it came from
+ */
+
+const SOL_FEED_ID = "0xef0d8b6fda2ceba41da15d4095d1da392a0d2f8ed0c6c7bc0f4cfac8c280b56d";
+const SOL_MINT = "So11111111111111111111111111111111111111112";
+const USDC_MINT = "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v";
+
+const SOL_FEED: PriceFeed = {
+  symbol: "SOL",
+  quoteAsset: "USDC",
+  priceFeedId: SOL_FEED_ID,
+  minPrice: null,
+  maxPrice: null,
+};
+
+// Listed without a Pyth feed: only the other providers can price it
+const JTO_MARKET = {
+  baseAsset: "JTO",
+  quoteAsset: "USDC",
+  tickSize: "0.0001",
+  lotSize: "0.01",
+  minOrderSize: "1",
+  maxOrderSize: "100000",
+  priceFeedId: null,
+  minPrice: "0.01",
+  maxPrice: "100",
+};
+
+const HERMES_PATH = "/v2/updates/price/latest";
+const JUPITER_PATH = "/jupiter/price";
+const BOOK_TICKER_PATH = "/api/v3/ticker/bookTicker";
+
+const hermesBody = (price: string, publishTime = Math.floor(Date.now() / 1000)) => ({
+  binary: { encoding: "hex", data: [] },
+  parsed: [
+    {
+      id: SOL_FEED_ID.slice(2),
+      price: { price, conf: "5000000", expo: -8, publish_time: publishTime },
+      ema_price: { price, conf: "5000000", expo: -8, publish_time: publishTime },
+    },
+  ],
+});
+
+const bookTickerBody = [
+  { symbol: "SOLUSDC", bidPrice: "149.90", askPrice: "150.10", bidQty: "10", askQty: "10" },
+  { symbol: "JTOUSDC", bidPrice: "2.49", askPrice: "2.51", bidQty: "10", askQty: "10" },
+];
+
+describe("Price Providers (E2E)", () => {
+  let api: SuperTest<Test>;
+  let stub: HttpStub;
+  let baseUrl: string;
+  let tmpDir: string;
+
+  beforeAll(async () => {
+    stub = await startHttpStub();
+    baseUrl = stub.baseUrl;
+
+    tmpDir = await mkdtemp(join(tmpdir(), "prices-"));
+    api = await getApiClient();
+    await upsertMarket(JTO_MARKET);
+  });
+
+  beforeEach(() => {
+    stub.reset();
+    stub.routes.set(HERMES_PATH, { status: 200, body: hermesBody("15000000000") });
+    stub.routes.set(BOOK_TICKER_PATH, { status: 200, body: bookTickerBody });
+  });
+
+  afterAll(async () => {
+    // Later suites only know SOL/USDC, with bid = ask = price
+    await upsertMarket({ ...JTO_MARKET, active: false });
+    await setTestPrice("SOL", "100");
+    await stub.close();
+    await rm(tmpDir, { recursive: true, force: true });
+    await shutdownApiClient();
+  });
+
+  describe("Providers", () => {
+    test("Jupiter prices by mint against the quote asset", async () => {
+      stub.routes.set(JUPITER_PATH, {
+        status: 200,
+        body: { data: { [SOL_MINT]: { id: SOL_MINT, price: "150.25" } } },
+      });
+
+      const prices = await createJupiterProvider(`${baseUrl}${JUPITER_PATH}`).fetchPrices([SOL_FEED]);
+
+      const url = stub.requests.find((u) => u.pathname === JUPITER_PATH)!;
+      expect(url.searchParams.get("ids")).toBe(SOL_MINT);
+      expect(url.searchParams.get("vsToken")).toBe(USDC_MINT);
+      const sol = prices.get("SOL") as { price: Decimal; confidence: Decimal };
+      expect(sol.price.toString()).toBe("150.25");
+      expect(sol.confidence.toString()).toBe("0");
+    });
+
+    test("book ticker gives the mid price, half the spread as confidence", async () => {
+      const prices = await createBinanceProvider(baseUrl).fetchPrices([
+        SOL_FEED,
+        { ...SOL_FEED, symbol: "BONK", priceFeedId: null },
+      ]);
+
+      const url = stub.requests.find((u) => u.pathname === BOOK_TICKER_PATH)!;
+      expect(JSON.parse(url.searchParams.get("symbols")!)).toEqual(["SOLUSDC", "BONKUSDC"]);
+      const sol = prices.get("SOL") as { price: Decimal; confidence: Decimal };
+      expect(sol.price.toString()).toBe("150");
+      expect(sol.confidence.toString()).toBe("0.1");
+      expect(prices.get("BONK")).toBeInstanceOf(Error);
+    });
+
+    test("static file prices, with or without a confidence", async () => {
+      const filePath = join(tmpDir, "prices.json");
+      await writeFile(
+        filePath,
+        JSON.stringify({ SOL: "151.5", JTO: { price: "2.5", confidence: "0.01" } })
+      );
+
+      const prices = await createStaticFileProvider(filePath).fetchPrices([
+        SOL_FEED,
+        { ...SOL_FEED, symbol: "JTO", priceFeedId: null },
+        { ...SOL_FEED, symbol: "BONK", priceFeedId: null },
+      ]);
+
+      expect((prices.get("SOL") as { price: Decimal }).price.toString()).toBe("151.5");
+      expect((prices.get("JTO") as { confidence: Decimal }).confidence.toString()).toBe("0.01");
+      expect(prices.get("BONK")).toBeInstanceOf(Error);
+    });
+
+    test("rejects an unknown or misconfigured provider", () => {
+      process.env.PRICE_PROVIDERS = "pyth,coingecko";
+      expect(() => createPriceSourcesFromEnv()).toThrow("Unknown price provider: coingecko");
+
+      process.env.PRICE_PROVIDERS = "static";
+      delete process.env.PRICE_FILE_PATH;
+      expect(() => createPriceSourcesFromEnv()).toThrow("PRICE_FILE_PATH");
+
+      delete process.env.PRICE_PROVIDERS;
+    });
+  });
+
+  describe("Failover", () => {
+    const createSources = () =>
+      createPriceSources(
+        [createPythProvider(baseUrl), createBinanceProvider(baseUrl)],
+        { failureThreshold: 2, cooldownMs: 200 }
+      );
+
+    test("prices each symbol from every provider that can, and records them", async () => {
+      const result = await ingestPrices(createSources());
+
+      // One request per provider, for every symbol: Pyth only has SOL's feed
+      expect(stub.hits(HERMES_PATH)).toBe(1);
+      expect(stub.hits(BOOK_TICKER_PATH)).toBe(1);
+      expect(stub.requests.find((u) => u.pathname === BOOK_TICKER_PATH)!.searchParams.get("symbols"))
+        .toBe('["SOLUSDC","JTOUSDC"]');
+      expect(result.updated.SOL!.source).toBe("pyth,binance");
+      expect(result.updated.JTO!.source).toBe("binance");
+
+      expect((await getPriceWithMetadata("SOL"))!.source).toBe("pyth,binance");
+      const res = await api.get("/market/price/JTO");
+      expect(res.status).toBe(200);
+      expect(res.body).toMatchObject({ price: "2.5", bid: "2.49", ask: "2.51", source: "binance" });
+    });
+
+    test("fails over when the primary provider is down", async () => {
+      stub.routes.set(HERMES_PATH, { status: 503, body: { error: "Service Unavailable" } });
+
+      const result = await ingestPrices(createSources());
+
+      expect(result.failed).toEqual({});
+      expect(result.updated.SOL!.source).toBe("binance");
+      const sol = (await getPriceWithMetadata("SOL"))!;
+      expect(sol.price.toString()).toBe("150");
+      expect(sol.source).toBe("binance");
+    });
+
+    test("opens the circuit of a failing provider, retries it after the cooldown", async () => {
+      const sources = createSources();
+      const pyth = sources[0]!.breaker;
+      stub.routes.set(HERMES_PATH, { status: 503, body: { error: "Service Unavailable" } });
+
+      await ingestPrices(sources);
+      await ingestPrices(sources);
+      expect(pyth.state()).toBe("open");
+      expect(stub.hits(HERMES_PATH)).toBe(2);
+
+      // Open: skipped, prices still flow from the next provider
+      const skipped = await ingestPrices(sources);
+      expect(stub.hits(HERMES_PATH)).toBe(2);
+      expect(skipped.updated.SOL!.source).toBe("binance");
+
+      // Hermes recovers; after the cooldown a trial request closes the circuit
+      stub.routes.set(HERMES_PATH, { status: 200, body: hermesBody("15200000000") });
+      await new Promise((resolve) => setTimeout(resolve, 250));
+      expect(pyth.state()).toBe("half-open");
+
+      // Pyth 152 and the book ticker 150 agree within 1%: their median
+      const recovered = await ingestPrices(sources);
+      expect(stub.hits(HERMES_PATH)).toBe(3);
+      expect(pyth.state()).toBe("closed");
+      expect(recovered.updated.SOL!.source).toBe("pyth,binance");
+      expect((await getPriceWithMetadata("SOL"))!.price.toString()).toBe("151");
+    });
+
+    test("times out a hung provider, and counts it toward its circuit breaker", async () => {
+      process.env.PRICE_PROVIDER_TIMEOUT_MS = "100";
+      const sources = createSources();
+      const pyth = sources[0]!.breaker;
+      stub.routes.set(HERMES_PATH, { status: 200, body: hermesBody("15000000000"), delayMs: 2000 });
+
+      try {
+        const started = Date.now();
+        const result = await ingestPrices(sources);
+
+        // The other providers' prices are not held up by the hung one
+        expect(Date.now() - started).toBeLessThan(2000);
+        expect(result.updated.SOL!.source).toBe("binance");
+
+        await ingestPrices(sources);
+        expect(pyth.state()).toBe("open");
+        await expect(createPythProvider(baseUrl).fetchPrices([SOL_FEED])).rejects.toThrow(
+          "Request timed out after 100ms"
+        );
+      } finally {
+        delete process.env.PRICE_PROVIDER_TIMEOUT_MS;
+      }
+    });
+
+    test("drops a symbol no provider can price, with each provider's reason", async () => {
+      stub.routes.set(HERMES_PATH, { status: 503, body: { error: "Service Unavailable" } });
+      stub.routes.set(BOOK_TICKER_PATH, { status: 200, body: [bookTickerBody[0]] });
+
+      const result = await ingestPrices(createSources());
+
+      expect(result.updated.SOL!.source).toBe("binance");
+      expect(result.failed.JTO).toContain("pyth: ");
+      expect(result.failed.JTO).toContain("binance: JTOUSDC not found");
+    });
+  });
+});
@@ -0,0 +1,105 @@
+import { afterAll, beforeAll, describe, expect, test } from "vitest";
+import { getApiClient, shutdownApiClient } from "../setup/testServer.ts";
+import { createAuthenticatedUser } from "../helpers/auth.ts";
+import { setTestPrice } from "../helpers/price.ts";
+import type { SuperTest, Test } from "supertest";
+import { Decimal } from "decimal.js";
+
+/**
+ * Quote-Denominated Order E2E Tests
+ *
+ * Tests market orders placed with quoteSize ("spend 100 USDC"):
+ * 1. BUY size is derived server-side so cost + fee never exceeds quoteSize
+ * 2. SELL size is derived so proceeds - fee are at least quoteSize
+ * 3. Validation (exactly one of requestedSize / quoteSize, market only)
+ */
+
+describe("Quote-Denominated Orders (E2E)", () => {
+  let api: SuperTest<Test>;
+  let authToken: string;
+
+  const getBalance = async (asset: string) => {
+    const res = await api
+      .get("/portfolio")
+      .set("Authorization", `Bearer ${authToken}`);
+    return res.body.portfolio.balances.find((b: any) => b.asset === asset);
+  };
+
+  const postOrder = (body: Record<string, string>) =>
+    api
+      .post("/orders")
+      .set("Authorization", `Bearer ${authToken}`)
+      .send({ baseAsset: "SOL", quoteAsset: "USDC", ...body });
+
+  beforeAll(async () => {
+    api = await getApiClient();
+    await setTestPrice("SOL", "100");
+    ({ token: authToken } = await createAuthenticatedUser(api));
+
+    // Initialize portfolio
+    await api.get("/portfolio").set("Authorization", `Bearer ${authToken}`);
+  });
+
+  afterAll(async () => {
+    await shutdownApiClient();
+  });
+
+  test("BUY spends quoteSize including the fee", async () => {
+    // 100 / (100 * 1.001) = 0.999000999... -> rounded down to 8 dp
+    const res = await postOrder({ side: "buy", quoteSize: "100" });
+
+    expect(res.status).toBe(201);
+    expect(res.body.status).toBe("filled");
+    expect(res.body.executedSize).toBe("0.99900099");
+    expect(res.body.quoteSize).toBe("100");
+
+    const spent = new Decimal(res.body.quoteAmount);
+    expect(spent.lte(100)).toBe(true);
+    expect(spent.gt("99.9999")).toBe(true);
+
+    const usdc = await getBalance("USDC");
+    expect(new Decimal(usdc.available).gte(900)).toBe(true);
+    expect(new Decimal(usdc.available).lt("900.0001")).toBe(true);
+  });
+
+  test("SELL receives at least quoteSize after the fee", async () => {
+    // 50 / (100 * 0.999) = 0.50050050... -> rounded up to 8 dp
+    const res = await postOrder({ side: "sell", quoteSize: "50" });
+
+    expect(res.status).toBe(201);
+    expect(res.body.executedSize).toBe("0.50050051");
+
+    const received = new Decimal(res.body.quoteAmount);
+    expect(received.gte(50)).toBe(true);
+    expect(received.lt("50.0001")).toBe(true);
+  });
+
+  describe("Validation", () => {
+    test("rejects both requestedSize and quoteSize", async () => {
+      const res = await postOrder({
+        side: "buy",
+        requestedSize: "1",
+        quoteSize: "100",
+      });
+
+      expect(res.status).toBe(400);
+    });
+
+    test("rejects neither requestedSize nor quoteSize", async () => {
+      const res = await postOrder({ side: "buy" });
+
+      expect(res.status).toBe(400);
+    });
+
+    test("rejects quoteSize on a limit order", async () => {
+      const res = await postOrder({
+        side: "buy",
+        type: "limit",
+        quoteSize: "100",
+        limitPrice: "90",
+      });
+
+      expect(res.status).toBe(400);
+    });
+  });
+});
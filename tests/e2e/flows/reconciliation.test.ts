@@ -0,0 +1,159 @@
+import { afterAll, beforeAll, describe, expect, test } from "vitest";
+import { getApiClient, shutdownApiClient } from "../setup/testServer.ts";
+import { createAuthenticatedUser } from "../helpers/auth.ts";
+import { setTestPrice } from "../helpers/price.ts";
+import type { SuperTest, Test } from "supertest";
+import { getDb } from "@repo/db";
+
+/**
+ * Reconciliation E2E Tests
+ *
+ * Tests balances and positions recomputed from the trade ledger:
+ * 1. /admin routes require ADMIN_API_KEY
+ * 2. A ledger written by normal trading reconciles with no drift
+ * 3. A tampered balance or position is reported per user/asset/field
+ * 4. The latest run (or one by id) is served by GET /admin/reconciliation
+ * 5. Repair resets drifted rows to the ledger
+ */
+
+const ADMIN_API_KEY = "test-admin-key-0123456789abcdefghijklmnop";
+
+describe("Reconciliation (E2E)", () => {
+  let api: SuperTest<Test>;
+  let token: string;
+  let userId: number;
+
+  const reconcile = (body: Record<string, unknown>) =>
+    api.post("/admin/reconciliation").set("X-Admin-Key", ADMIN_API_KEY).send(body);
+
+  const postOrder = (body: Record<string, string>) =>
+    api
+      .post("/orders")
+      .set("Authorization", `Bearer ${token}`)
+      .send({ baseAsset: "SOL", quoteAsset: "USDC", ...body });
+
+  beforeAll(async () => {
+    api = await getApiClient();
+    await setTestPrice("SOL", "100");
+    ({ token } = await createAuthenticatedUser(api));
+
+    const res = await api.get("/portfolio").set("Authorization", `Bearer ${token}`);
+    userId = res.body.portfolio.userId;
+  });
+
+  afterAll(async () => {
+    delete process.env.ADMIN_API_KEY;
+    await shutdownApiClient();
+  });
+
+  describe("Admin key", () => {
+    test("admin routes are disabled without ADMIN_API_KEY", async () => {
+      const res = await api.get("/admin/reconciliation").set("X-Admin-Key", ADMIN_API_KEY);
+
+      expect(res.status).toBe(403);
+    });
+
+    test("rejects a missing or wrong admin key", async () => {
+      process.env.ADMIN_API_KEY = ADMIN_API_KEY;
+
+      const missing = await api.get("/admin/reconciliation");
+      expect(missing.status).toBe(401);
+
+      const wrong = await api
+        .get("/admin/reconciliation")
+        .set("X-Admin-Key", ADMIN_API_KEY.replace("test", "fake"));
+      expect(wrong.status).toBe(401);
+    });
+  });
+
+  describe("Ledger", () => {
+    test("a ledger written by trading reconciles with no drift", async () => {
+      expect((await postOrder({ side: "buy", requestedSize: "4" })).status).toBe(201);
+      expect(
+        (await postOrder({ side: "buy", type: "limit", requestedSize: "1", limitPrice: "90" }))
+          .status
+      ).toBe(201);
+      expect((await postOrder({ side: "sell", requestedSize: "1" })).status).toBe(201);
+
+      const res = await reconcile({ userId });
+
+      expect(res.status).toBe(200);
+      expect(res.body.report.usersChecked).toBe(1);
+      expect(res.body.report.driftCount).toBe(0);
+      expect(res.body.report.finishedAt).not.toBeNull();
+    });
+
+    test("reports a tampered balance and position", async () => {
+      const db = getDb();
+      // 1000 - 400.4 - 90.09 (limit buy reserved) + 99.9 = 609.41 available
+      await db.balances.update({
+        where: { userId_asset: { userId, asset: "USDC" } },
+        data: { available: "614.41" },
+      });
+      await db.positions.update({
+        where: { userId_asset: { userId, asset: "SOL" } },
+        data: { size: "2.5" },
+      });
+
+      const res = await reconcile({ userId });
+
+      expect(res.body.report.driftCount).toBe(2);
+      expect(res.body.report.drifts).toEqual([
+        {
+          userId,
+          kind: "balance",
+          asset: "USDC",
+          field: "available",
+          expected: "609.41",
+          actual: "614.41",
+          difference: "5",
+          repaired: false,
+        },
+        {
+          userId,
+          kind: "position",
+          asset: "SOL",
+          field: "size",
+          expected: "3",
+          actual: "2.5",
+          difference: "-0.5",
+          repaired: false,
+        },
+      ]);
+    });
+
+    test("GET /admin/reconciliation serves the latest run, or one by id", async () => {
+      const latest = await api
+        .get("/admin/reconciliation")
+        .set("X-Admin-Key", ADMIN_API_KEY);
+      expect(latest.status).toBe(200);
+      expect(latest.body.report.driftCount).toBe(2);
+
+      const byId = await api
+        .get(`/admin/reconciliation/${latest.body.report.runId}`)
+        .set("X-Admin-Key", ADMIN_API_KEY);
+      expect(byId.body.report).toEqual(latest.body.report);
+
+      const missing = await api
+        .get("/admin/reconciliation/999999999")
+        .set("X-Admin-Key", ADMIN_API_KEY);
+      expect(missing.status).toBe(404);
+      expect(missing.body.code).toBe("RECONCILIATION_NOT_FOUND");
+    });
+
+    test("repair resets drifted rows to the ledger", async () => {
+      const repaired = await reconcile({ userId, repair: true });
+
+      expect(repaired.body.report.repair).toBe(true);
+      expect(repaired.body.report.drifts.map((d: any) => d.repaired)).toEqual([true, true]);
+
+      const portfolioRes = await api.get("/portfolio").set("Authorization", `Bearer ${token}`);
+      const usdc = portfolioRes.body.portfolio.balances.find((b: any) => b.asset === "USDC");
+      expect(usdc.available).toBe("609.41");
+      expect(usdc.locked).toBe("90.09");
+
+      const res = await reconcile({ userId });
+      expect(res.body.report.driftCount).toBe(0);
+    });
+  });
+});
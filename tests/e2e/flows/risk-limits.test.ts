@@ -0,0 +1,309 @@
+import { afterAll, beforeAll, describe, expect, test } from "vitest";
+import { getApiClient, shutdownApiClient } from "../setup/testServer.ts";
+import { createAuthenticatedUser } from "../helpers/auth.ts";
+import { setTestPrice } from "../helpers/price.ts";
+import type { SuperTest, Test } from "supertest";
+
+/**
+ * Risk Limits E2E Tests
+ *
+ * Tests per-user limits enforced when an order is placed:
+ * 1. Instructors set and remove limits through /admin
+ * 2. Orders above the max notional or max position are rejected with a reason
+ * 3. Past the daily loss cap only risk-reducing orders are accepted
+ * 4. The daily order count caps placements
+ * 5. GET /portfolio/risk reports limits and today's usage
+ * 6. Perp opens and margin top-ups are held to the same limits, and perp
+ *    losses count toward the daily loss
+ * 7. Limits and usage are the wallet's: sub-accounts and resets share them
+ */
+
+const ADMIN_API_KEY = "test-admin-key-0123456789abcdefghijklmnop";
+
+const LIMITS = {
+  maxOrderNotional: "500",
+  maxPositionSize: "3",
+  maxOrdersPerDay: 5,
+  maxDailyLoss: "5",
+};
+
+describe("Risk Limits (E2E)", () => {
+  let api: SuperTest<Test>;
+  let token: string;
+  let userId: number;
+
+  const setLimits = (body: Record<string, unknown>, id: number = userId) =>
+    api
+      .put(`/admin/users/${id}/risk-limits`)
+      .set("X-Admin-Key", ADMIN_API_KEY)
+      .send(body);
+
+  const postOrder = (body: Record<string, string>) =>
+    api
+      .post("/orders")
+      .set("Authorization", `Bearer ${token}`)
+      .send({ baseAsset: "SOL", quoteAsset: "USDC", ...body });
+
+  const getRisk = async () => {
+    const res = await api.get("/portfolio/risk").set("Authorization", `Bearer ${token}`);
+    return res.body.risk;
+  };
+
+  beforeAll(async () => {
+    process.env.ADMIN_API_KEY = ADMIN_API_KEY;
+    api = await getApiClient();
+    await setTestPrice("SOL", "100");
+    ({ token } = await createAuthenticatedUser(api));
+
+    const res = await api.get("/portfolio").set("Authorization", `Bearer ${token}`);
+    userId = res.body.portfolio.userId;
+  });
+
+  afterAll(async () => {
+    await setTestPrice("SOL", "100");
+    delete process.env.ADMIN_API_KEY;
+    await shutdownApiClient();
+  });
+
+  describe("Admin", () => {
+    test("a user starts without limits", async () => {
+      const risk = await getRisk();
+
+      expect(risk.limits).toBeNull();
+      expect(risk.ordersToday).toBe(0);
+      expect(risk.dailyLossReached).toBe(false);
+    });
+
+    test("PUT /admin/users/:userId/risk-limits sets the limits", async () => {
+      const res = await setLimits(LIMITS);
+
+      expect(res.status).toBe(200);
+      expect(res.body.risk.limits).toEqual(LIMITS);
+    });
+
+    test("rejects invalid limits and unknown users", async () => {
+      expect((await setLimits({ maxOrdersPerDay: 0 })).status).toBe(400);
+      expect((await setLimits({ maxDailyLoss: "-5" })).status).toBe(400);
+
+      const missing = await setLimits(LIMITS, 999999999);
+      expect(missing.status).toBe(404);
+      expect(missing.body.code).toBe("USER_NOT_FOUND");
+    });
+  });
+
+  describe("Enforcement", () => {
+    test("rejects an order above the max notional", async () => {
+      const res = await postOrder({ side: "buy", requestedSize: "6" });
+
+      expect(res.status).toBe(403);
+      expect(res.body.code).toBe("RISK_LIMIT_EXCEEDED");
+      expect(res.body.reason).toBe("MAX_ORDER_NOTIONAL");
+    });
+
+    test("rejects an order that would exceed the max position", async () => {
+      expect((await postOrder({ side: "buy", requestedSize: "2" })).status).toBe(201);
+
+      const res = await postOrder({ side: "buy", requestedSize: "2" });
+      expect(res.status).toBe(403);
+      expect(res.body.reason).toBe("MAX_POSITION_SIZE");
+    });
+
+    test("limit orders are checked at their limit price", async () => {
+      const rejected = await postOrder({
+        side: "buy",
+        type: "limit",
+        requestedSize: "1",
+        limitPrice: "600",
+      });
+      expect(rejected.status).toBe(403);
+      expect(rejected.body.reason).toBe("MAX_ORDER_NOTIONAL");
+
+      const placed = await postOrder({
+        side: "buy",
+        type: "limit",
+        requestedSize: "1",
+        limitPrice: "90",
+      });
+      expect(placed.status).toBe(201);
+
+      await api
+        .delete(`/orders/${placed.body.orderId}`)
+        .set("Authorization", `Bearer ${token}`);
+    });
+
+    test("past the daily loss cap only risk-reducing orders pass", async () => {
+      // Sell 1 of 2 bought at 100: a loss of about 10
+      await setTestPrice("SOL", "90");
+      expect((await postOrder({ side: "sell", requestedSize: "1" })).status).toBe(201);
+
+      const risk = await getRisk();
+      expect(risk.dailyLossReached).toBe(true);
+
+      const buy = await postOrder({ side: "buy", requestedSize: "0.5" });
+      expect(buy.status).toBe(403);
+      expect(buy.body.reason).toBe("DAILY_LOSS_LIMIT");
+
+      const sell = await postOrder({ side: "sell", requestedSize: "0.5" });
+      expect(sell.status).toBe(201);
+    });
+
+    test("caps the number of orders placed per day", async () => {
+      // Placed so far: market buy, limit buy, two sells (rejections are not placed)
+      expect((await getRisk()).ordersToday).toBe(4);
+      await setLimits({ ...LIMITS, maxOrdersPerDay: 4 });
+
+      const res = await postOrder({ side: "sell", requestedSize: "0.1" });
+      expect(res.status).toBe(403);
+      expect(res.body.reason).toBe("MAX_ORDERS_PER_DAY");
+    });
+
+    test("DELETE /admin/users/:userId/risk-limits lifts the limits", async () => {
+      const res = await api
+        .delete(`/admin/users/${userId}/risk-limits`)
+        .set("X-Admin-Key", ADMIN_API_KEY);
+      expect(res.status).toBe(200);
+
+      expect((await getRisk()).limits).toBeNull();
+      expect((await postOrder({ side: "buy", requestedSize: "0.5" })).status).toBe(201);
+    });
+  });
+
+  describe("Perps", () => {
+    let perpToken: string;
+    let perpUserId: number;
+
+    const openPerp = (body: Record<string, string>) =>
+      api
+        .post("/perps/positions")
+        .set("Authorization", `Bearer ${perpToken}`)
+        .send({ market: "SOL-PERP", side: "long", leverage: "5", ...body });
+
+    beforeAll(async () => {
+      await setTestPrice("SOL", "100");
+      ({ token: perpToken } = await createAuthenticatedUser(api));
+      const res = await api.get("/portfolio").set("Authorization", `Bearer ${perpToken}`);
+      perpUserId = res.body.portfolio.userId;
+      expect((await setLimits(LIMITS, perpUserId)).status).toBe(200);
+    });
+
+    test("opens are held to the max notional and max position", async () => {
+      const notional = await openPerp({ size: "6" });
+      expect(notional.status).toBe(403);
+      expect(notional.body.reason).toBe("MAX_ORDER_NOTIONAL");
+
+      expect((await openPerp({ size: "2" })).status).toBe(201);
+
+      const position = await openPerp({ size: "2" });
+      expect(position.status).toBe(403);
+      expect(position.body.reason).toBe("MAX_POSITION_SIZE");
+    });
+
+    test("perp losses count toward the daily loss cap", async () => {
+      // Close 1 of 2 opened at 100: a loss of about 10
+      await setTestPrice("SOL", "90");
+      const close = await api
+        .post("/perps/positions/SOL-PERP/close")
+        .set("Authorization", `Bearer ${perpToken}`)
+        .send({ size: "1" });
+      expect(close.status).toBe(200);
+
+      const risk = (await api.get("/portfolio/risk").set("Authorization", `Bearer ${perpToken}`))
+        .body.risk;
+      expect(risk.dailyLossReached).toBe(true);
+
+      const open = await openPerp({ size: "0.5" });
+      expect(open.status).toBe(403);
+      expect(open.body.reason).toBe("DAILY_LOSS_LIMIT");
+
+      const topUp = await api
+        .post("/perps/positions/SOL-PERP/margin")
+        .set("Authorization", `Bearer ${perpToken}`)
+        .send({ action: "add", amount: "10" });
+      expect(topUp.status).toBe(403);
+      expect(topUp.body.reason).toBe("DAILY_LOSS_LIMIT");
+
+      // Spot orders see the perp loss too
+      const spot = await api
+        .post("/orders")
+        .set("Authorization", `Bearer ${perpToken}`)
+        .send({ baseAsset: "SOL", quoteAsset: "USDC", side: "buy", requestedSize: "0.5" });
+      expect(spot.status).toBe(403);
+      expect(spot.body.reason).toBe("DAILY_LOSS_LIMIT");
+
+      // Closing reduces risk and is never blocked
+      const closeRest = await api
+        .post("/perps/positions/SOL-PERP/close")
+        .set("Authorization", `Bearer ${perpToken}`)
+        .send({});
+      expect(closeRest.status).toBe(200);
+    });
+  });
+
+  describe("Accounts", () => {
+    let walletToken: string;
+
+    const postAs = (account: string, body: Record<string, string>) =>
+      api
+        .post("/orders")
+        .set("Authorization", `Bearer ${walletToken}`)
+        .set("X-Account", account)
+        .send({ baseAsset: "SOL", quoteAsset: "USDC", side: "buy", ...body });
+
+    const getRiskAs = async (account: string) => {
+      const res = await api
+        .get("/portfolio/risk")
+        .set("Authorization", `Bearer ${walletToken}`)
+        .set("X-Account", account);
+      return res.body.risk;
+    };
+
+    beforeAll(async () => {
+      await setTestPrice("SOL", "100");
+      ({ token: walletToken } = await createAuthenticatedUser(api));
+      const res = await api.get("/portfolio").set("Authorization", `Bearer ${walletToken}`);
+      await setLimits({ ...LIMITS, maxOrdersPerDay: 2 }, res.body.portfolio.userId);
+
+      const created = await api
+        .post("/accounts")
+        .set("Authorization", `Bearer ${walletToken}`)
+        .send({ name: "alt" });
+      expect(created.status).toBe(201);
+    });
+
+    test("a sub-account is held to its wallet's limits", async () => {
+      expect((await getRiskAs("alt")).limits).toEqual({ ...LIMITS, maxOrdersPerDay: 2 });
+
+      const notional = await postAs("alt", { requestedSize: "6" });
+      expect(notional.status).toBe(403);
+      expect(notional.body.reason).toBe("MAX_ORDER_NOTIONAL");
+    });
+
+    test("orders of every account count toward the wallet's daily limits", async () => {
+      expect((await postAs("main", { requestedSize: "2" })).status).toBe(201);
+
+      // The wallet holds 2: 2 more in another account would make 4
+      const position = await postAs("alt", { requestedSize: "2" });
+      expect(position.status).toBe(403);
+      expect(position.body.reason).toBe("MAX_POSITION_SIZE");
+
+      expect((await postAs("alt", { requestedSize: "0.5" })).status).toBe(201);
+      expect((await getRiskAs("main")).ordersToday).toBe(2);
+
+      const count = await postAs("alt", { requestedSize: "0.1" });
+      expect(count.status).toBe(403);
+      expect(count.body.reason).toBe("MAX_ORDERS_PER_DAY");
+    });
+
+    test("resetting an account does not clear today's usage", async () => {
+      const reset = await api
+        .post("/accounts/alt/reset")
+        .set("Authorization", `Bearer ${walletToken}`);
+      expect(reset.status).toBe(200);
+
+      expect((await getRiskAs("alt")).ordersToday).toBe(2);
+      const res = await postAs("alt", { requestedSize: "0.1" });
+      expect(res.status).toBe(403);
+      expect(res.body.reason).toBe("MAX_ORDERS_PER_DAY");
+    });
+  });
+});
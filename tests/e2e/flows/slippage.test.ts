@@ -0,0 +1,216 @@
+import { afterAll, beforeAll, describe, expect, test } from "vitest";
+import { getApiClient, shutdownApiClient } from "../setup/testServer.ts";
+import { createAuthenticatedUser } from "../helpers/auth.ts";
+import { setTestPrice } from "../helpers/price.ts";
+import type { SuperTest, Test } from "supertest";
+import { Decimal } from "decimal.js";
+import {
+  applyPriceImpact,
+  calculateSizeForQuoteWithImpact,
+  createPriceImpactModel,
+  setPriceImpactModel,
+} from "@repo/trading";
+
+/**
+ * Slippage E2E Tests
+ *
+ * Tests size-dependent price impact on market executions:
+ * 1. linear / sqrt / curve models move the price against the taker
+ * 2. Orders above the max impact are rejected; forced closes are capped
+ * 3. Quote-sized buys never overspend at the impacted price
+ * 4. POST /orders, /orders/preview and GET /orders report the executed
+ *    price, reference price and slippage
+ */
+
+describe("Slippage (E2E)", () => {
+  let api: SuperTest<Test>;
+
+  const price = new Decimal("100");
+  const params = { impactFactor: "0.01", depth: "1000", maxImpact: "0.5" };
+
+  const postOrder = (token: string, path: string, body: Record<string, string>) =>
+    api
+      .post(path)
+      .set("Authorization", `Bearer ${token}`)
+      .send({ baseAsset: "SOL", quoteAsset: "USDC", ...body });
+
+  beforeAll(async () => {
+    api = await getApiClient();
+  });
+
+  afterAll(async () => {
+    setPriceImpactModel(null);
+    await shutdownApiClient();
+  });
+
+  describe("Price impact models", () => {
+    test("none fills at the market price", () => {
+      const model = createPriceImpactModel("none", params);
+      const execution = applyPriceImpact("buy", new Decimal("500"), price, false, model);
+
+      expect(execution.executedPrice.toString()).toBe("100");
+      expect(execution.slippage.toString()).toBe("0");
+    });
+
+    test("linear impact grows with size", () => {
+      const model = createPriceImpactModel("linear", params);
+
+      // 0.01 * 100 / 1000 = 0.1%
+      const buy = applyPriceImpact("buy", new Decimal("100"), price, false, model);
+      expect(buy.priceImpact.toString()).toBe("0.001");
+      expect(buy.executedPrice.toString()).toBe("100.1");
+      expect(buy.slippage.toString()).toBe("10");
+
+      const sell = applyPriceImpact("sell", new Decimal("100"), price, false, model);
+      expect(sell.executedPrice.toString()).toBe("99.9");
+      expect(sell.slippage.toString()).toBe("10");
+    });
+
+    test("sqrt impact grows with the square root of size", () => {
+      const model = createPriceImpactModel("sqrt", params);
+
+      // 0.01 * sqrt(10 / 1000) = 0.1%
+      const buy = applyPriceImpact("buy", new Decimal("10"), price, false, model);
+      expect(buy.executedPrice.toString()).toBe("100.1");
+
+      // 0.01 * sqrt(1000 / 1000) = 1%
+      const large = applyPriceImpact("buy", new Decimal("1000"), price, false, model);
+      expect(large.executedPrice.toString()).toBe("101");
+    });
+
+    test("curve prices a constant-product pool, rounded against the taker", () => {
+      const model = createPriceImpactModel("curve", params);
+
+      // Buy 100 of 1000: impact 100 / 900
+      const buy = applyPriceImpact("buy", new Decimal("100"), price, false, model);
+      expect(buy.executedPrice.toString()).toBe("111.11111112");
+
+      // Sell 100 into 1000: impact 100 / 1100
+      const sell = applyPriceImpact("sell", new Decimal("100"), price, false, model);
+      expect(sell.executedPrice.toString()).toBe("90.9090909");
+      expect(sell.slippage.toString()).toBe("909.09091");
+
+      // The pool cannot sell all it holds
+      expect(() =>
+        applyPriceImpact("buy", new Decimal("1000"), price, false, model)
+      ).toThrow("unbounded");
+    });
+
+    test("rejects orders above the max impact unless capped", () => {
+      const model = createPriceImpactModel("linear", { ...params, maxImpact: "0.001" });
+
+      expect(() =>
+        applyPriceImpact("buy", new Decimal("200"), price, false, model)
+      ).toThrow("Price impact (0.2%) of size 200 exceeds the maximum of 0.1%");
+      // Coded: triggered orders are rejected on the code, not the message
+      expect(() =>
+        applyPriceImpact("buy", new Decimal("200"), price, false, model)
+      ).toThrow(expect.objectContaining({ code: "PRICE_IMPACT_TOO_HIGH" }));
+
+      const capped = applyPriceImpact("buy", new Decimal("200"), price, true, model);
+      expect(capped.executedPrice.toString()).toBe("100.1");
+    });
+
+    test("rejects an unknown model or invalid parameters", () => {
+      expect(() => createPriceImpactModel("orderbook", params)).toThrow(
+        "Invalid slippage model"
+      );
+      expect(() => createPriceImpactModel("linear", { ...params, depth: "0" })).toThrow(
+        "Invalid slippage depth"
+      );
+      expect(() => createPriceImpactModel("linear", { ...params, maxImpact: "1" })).toThrow(
+        "Invalid slippage max impact"
+      );
+    });
+
+    test("quote-sized buys are solved at the impacted price", () => {
+      const model = createPriceImpactModel("linear", params);
+
+      // 10 SOL at 100 would spend exactly 1001; the impact pushes the price to 100.01
+      const size = calculateSizeForQuoteWithImpact(
+        "buy",
+        new Decimal("1001"),
+        price,
+        model
+      );
+      expect(size.toString()).toBe("9.99900009");
+
+      const { executedPrice } = applyPriceImpact("buy", size, price, false, model);
+      expect(size.times(executedPrice).times("1.001").lte(1001)).toBe(true);
+    });
+  });
+
+  describe("Market orders", () => {
+    let token: string;
+
+    beforeAll(async () => {
+      setPriceImpactModel(
+        createPriceImpactModel("linear", { ...params, maxImpact: "0.01" })
+      );
+      await setTestPrice("SOL", "100");
+      ({ token } = await createAuthenticatedUser(api));
+    });
+
+    test("a buy fills above the market price and records the slippage", async () => {
+      // 0.01 * 5 / 1000 = 0.005%
+      const res = await postOrder(token, "/orders", { side: "buy", requestedSize: "5" });
+
+      expect(res.status).toBe(201);
+      expect(res.body.executedPrice).toBe("100.005");
+      expect(res.body.referencePrice).toBe("100");
+      expect(res.body.slippage).toBe("0.025");
+      expect(res.body.feesApplied).toBe("0.500025");
+
+      const portfolioRes = await api
+        .get("/portfolio")
+        .set("Authorization", `Bearer ${token}`);
+      const usdc = portfolioRes.body.portfolio.balances.find((b: any) => b.asset === "USDC");
+      // 1000 - 500.025 - 0.500025
+      expect(usdc.available).toBe("499.474975");
+
+      const ordersRes = await api
+        .get("/orders")
+        .set("Authorization", `Bearer ${token}`);
+      const order = ordersRes.body.orders.find((o: any) => o.orderId === res.body.orderId);
+      expect(order.executedPrice).toBe("100.005");
+      expect(order.slippage).toBe("0.025");
+    });
+
+    test("the preview applies the same impact", async () => {
+      const res = await postOrder(token, "/orders/preview", {
+        side: "sell",
+        requestedSize: "5",
+      });
+
+      expect(res.status).toBe(200);
+      expect(res.body.executedPrice).toBe("99.995");
+      expect(res.body.referencePrice).toBe("100");
+      expect(res.body.priceImpact).toBe("0.00005");
+      expect(res.body.slippage).toBe("0.025");
+      expect(res.body.quoteAmount).toBe("499.475025");
+    });
+
+    test("rejects an order too large for the market", async () => {
+      // 0.01 * 2000 / 1000 = 2% > 1%
+      const res = await postOrder(token, "/orders", { side: "buy", requestedSize: "2000" });
+
+      expect(res.status).toBe(400);
+      expect(res.body.code).toBe("PRICE_IMPACT_TOO_HIGH");
+    });
+
+    test("a sell fills below the market price", async () => {
+      const res = await postOrder(token, "/orders", { side: "sell", requestedSize: "5" });
+
+      expect(res.status).toBe(201);
+      expect(res.body.executedPrice).toBe("99.995");
+      expect(res.body.slippage).toBe("0.025");
+
+      const portfolioRes = await api
+        .get("/portfolio")
+        .set("Authorization", `Bearer ${token}`);
+      const usdc = portfolioRes.body.portfolio.balances.find((b: any) => b.asset === "USDC");
+      // 499.474975 + 499.975 - 0.499975
+      expect(usdc.available).toBe("998.95");
+    });
+  });
+});
@@ -0,0 +1,236 @@
+import { afterAll, afterEach, beforeAll, describe, expect, test, vi } from "vitest";
+import { Decimal } from "decimal.js";
+import { getMarket, getPriceWithMetadata } from "@repo/pricing";
+import { client as redisClient, redisKeys } from "@repo/redis";
+import type { PriceUpdateEvent } from "@repo/events";
+import { getApiClient, shutdownApiClient } from "../setup/testServer.ts";
+import { setTestPrice } from "../helpers/price.ts";
+import type { SuperTest, Test } from "supertest";
+import { ingestPrices } from "../../../workers/price-ingestion/src/ingest.ts";
+import {
+  createPriceSources,
+  createPriceSourcesFromEnv,
+  createSyntheticProvider,
+  syntheticOptionsFromEnv,
+  type PriceFeed,
+  type SyntheticOptions,
+} from "../../../workers/price-ingestion/src/providers/index.ts";
+
+/**
+ * Synthetic Price E2E Tests
+ *
+ * Tests the offline price generator (PRICE_PROVIDERS=synthetic):
+ * 1. The same seed replays the same price path, another seed does not
+ * 2. Drift, jumps and regime changes shape the path
+ * 3. Its prices go through ingestion: stored, published, served by the API
+ * 4. Its settings are validated, and it is refused in production
+ */
+
+const ONE_YEAR_MS = 365.25 * 24 * 60 * 60 * 1000;
+
+const SOL_FEED: PriceFeed = {
+  symbol: "SOL",
+  quoteAsset: "USDC",
+  priceFeedId: null,
+  devPrice: new Decimal("230.5"),
+};
+
+const OPTIONS: SyntheticOptions = {
+  seed: 42,
+  drift: 0,
+  volatility: 0.8,
+  stepMs: 10 * 1000,
+  confidence: 0.0005,
+};
+
+async function pricePath(options: SyntheticOptions, steps: number, feed = SOL_FEED): Promise<string[]> {
+  const provider = createSyntheticProvider(options);
+  const path: string[] = [];
+  for (let i = 0; i < steps; i++) {
+    const price = (await provider.fetchPrices([feed])).get(feed.symbol) as { price: Decimal };
+    path.push(price.price.toString());
+  }
+  return path;
+}
+
+// Standard deviation of the path's log returns
+function realizedVolatility(path: string[]): number {
+  const returns = path.slice(1).map((price, i) => Math.log(Number(price) / Number(path[i])));
+  const mean = returns.reduce((sum, r) => sum + r, 0) / returns.length;
+  return Math.sqrt(returns.reduce((sum, r) => sum + (r - mean) ** 2, 0) / returns.length);
+}
+
+describe("Synthetic Prices (E2E)", () => {
+  describe("Generator", () => {
+    test("the same seed replays the same path, from the devPrice", async () => {
+      const path = await pricePath(OPTIONS, 20);
+
+      expect(path[0]).toBe("230.5");
+      expect(new Set(path).size).toBeGreaterThan(1);
+      expect(await pricePath(OPTIONS, 20)).toEqual(path);
+      expect(await pricePath({ ...OPTIONS, seed: 43 }, 20)).not.toEqual(path);
+    });
+
+    test("each symbol follows its own path", async () => {
+      const provider = createSyntheticProvider(OPTIONS);
+      const jto: PriceFeed = { ...SOL_FEED, symbol: "JTO", devPrice: new Decimal("230.5") };
+      await provider.fetchPrices([SOL_FEED, jto]);
+      const prices = await provider.fetchPrices([SOL_FEED, jto]);
+
+      const sol = (prices.get("SOL") as { price: Decimal }).price.toString();
+      expect(sol).toBe((await pricePath(OPTIONS, 2))[1]); // Unaffected by JTO
+      expect((prices.get("JTO") as { price: Decimal }).price.toString()).not.toBe(sol);
+    });
+
+    test("without volatility, the price compounds at the drift", async () => {
+      // ln(2) a year, one year per step: doubles every step
+      const path = await pricePath(
+        { ...OPTIONS, drift: Math.LN2, volatility: 0, stepMs: ONE_YEAR_MS },
+        3
+      );
+
+      expect(path).toEqual(["230.5", "461", "922"]);
+    });
+
+    test("jumps move the price on top of the diffusion", async () => {
+      // A jump (certain) halving the price every step
+      const path = await pricePath(
+        { ...OPTIONS, volatility: 0, jumps: { intensity: 1e12, mean: Math.log(0.5), volatility: 0 } },
+        3
+      );
+
+      expect(path).toEqual(["230.5", "115.25", "57.625"]);
+    });
+
+    test("regime changes switch to the alternate volatility", async () => {
+      const calm = await pricePath(OPTIONS, 200);
+      const turbulent = await pricePath(
+        { ...OPTIONS, regimes: { switchProbability: 1, drift: 0, volatility: 8 } },
+        200
+      );
+
+      // Every other step in the 10× volatility regime
+      expect(realizedVolatility(turbulent)).toBeGreaterThan(3 * realizedVolatility(calm));
+    });
+
+    test("reports a confidence proportional to the price", async () => {
+      const prices = await createSyntheticProvider(OPTIONS).fetchPrices([SOL_FEED]);
+
+      const sol = prices.get("SOL") as { price: Decimal; confidence: Decimal };
+      expect(sol.confidence.toString()).toBe("0.1153"); // 5 bps of 230.5
+    });
+
+    test("cannot price a market without a devPrice", async () => {
+      const prices = await createSyntheticProvider(OPTIONS).fetchPrices([
+        { ...SOL_FEED, devPrice: null },
+      ]);
+
+      expect(prices.get("SOL")).toBeInstanceOf(Error);
+      expect((prices.get("SOL") as Error).message).toContain("no devPrice");
+    });
+  });
+
+  describe("Ingestion", () => {
+    let api: SuperTest<Test>;
+    const subscriber = redisClient.duplicate();
+    const events: PriceUpdateEvent[] = [];
+
+    beforeAll(async () => {
+      api = await getApiClient();
+      await subscriber.connect();
+      await subscriber.subscribe(redisKeys.CHANNELS.priceUpdate(), (message) => {
+        events.push(JSON.parse(message));
+      });
+    });
+
+    afterEach(() => {
+      events.length = 0;
+    });
+
+    afterAll(async () => {
+      // Later suites expect bid = ask = price
+      await setTestPrice("SOL", "100");
+      await subscriber.quit();
+      await shutdownApiClient();
+    });
+
+    test("stores and publishes the path, served like any other price", async () => {
+      const devPrice = (await getMarket("SOL", "USDC"))!.devPrice!;
+      const expected = await pricePath(OPTIONS, 2, { ...SOL_FEED, devPrice });
+      const sources = createPriceSources([createSyntheticProvider(OPTIONS)]);
+
+      await ingestPrices(sources);
+      const result = await ingestPrices(sources);
+
+      expect(result.updated.SOL!.source).toBe("synthetic");
+      const sol = (await getPriceWithMetadata("SOL"))!;
+      expect(sol.price.toString()).toBe(expected[1]);
+      expect(sol.source).toBe("synthetic");
+
+      // One event per pass, in order
+      await vi.waitFor(() => expect(events.filter((e) => e.symbol === "SOL")).toHaveLength(2));
+      expect(events.filter((e) => e.symbol === "SOL").map((e) => [e.price, e.source])).toEqual([
+        [expected[0], "synthetic"],
+        [expected[1], "synthetic"],
+      ]);
+
+      const res = await api.get("/market/price/SOL");
+      expect(res.status).toBe(200);
+      expect(res.body.source).toBe("synthetic");
+      expect(Number(res.body.bid)).toBeLessThan(Number(res.body.ask));
+    });
+  });
+
+  describe("Configuration", () => {
+    afterEach(() => {
+      vi.unstubAllEnvs();
+    });
+
+    test("reads the process settings from the environment", () => {
+      vi.stubEnv("SYNTHETIC_SEED", "7");
+      vi.stubEnv("SYNTHETIC_DRIFT", "-0.2");
+      vi.stubEnv("SYNTHETIC_VOLATILITY", "0.5");
+      vi.stubEnv("SYNTHETIC_JUMP_INTENSITY", "365");
+      vi.stubEnv("SYNTHETIC_REGIME_SWITCH_PROBABILITY", "0.001");
+
+      expect(syntheticOptionsFromEnv()).toEqual({
+        seed: 7,
+        drift: -0.2,
+        volatility: 0.5,
+        stepMs: 10000,
+        confidence: 0.0005,
+        jumps: { intensity: 365, mean: 0, volatility: 0.05 },
+        regimes: { switchProbability: 0.001, drift: -0.2, volatility: 1.5 }, // 3× the base
+      });
+    });
+
+    test("leaves jumps and regimes off by default", () => {
+      const options = syntheticOptionsFromEnv();
+
+      expect(Number.isInteger(options.seed)).toBe(true);
+      expect(options.jumps).toBeUndefined();
+      expect(options.regimes).toBeUndefined();
+    });
+
+    test("rejects invalid settings", () => {
+      vi.stubEnv("SYNTHETIC_SEED", "1.5");
+      expect(() => syntheticOptionsFromEnv()).toThrow("Invalid SYNTHETIC_SEED");
+      vi.unstubAllEnvs();
+
+      vi.stubEnv("SYNTHETIC_VOLATILITY", "-1");
+      expect(() => syntheticOptionsFromEnv()).toThrow("Invalid SYNTHETIC_VOLATILITY");
+      vi.unstubAllEnvs();
+
+      vi.stubEnv("SYNTHETIC_REGIME_SWITCH_PROBABILITY", "2");
+      expect(() => syntheticOptionsFromEnv()).toThrow("Must be between 0 and 1");
+    });
+
+    test("is a PRICE_PROVIDERS entry, refused in production", () => {
+      vi.stubEnv("PRICE_PROVIDERS", "synthetic");
+      expect(createPriceSourcesFromEnv().map((s) => s.provider.name)).toEqual(["synthetic"]);
+
+      vi.stubEnv("NODE_ENV", "production");
+      expect(() => createPriceSourcesFromEnv()).toThrow("cannot be used in production");
+    });
+  });
+});
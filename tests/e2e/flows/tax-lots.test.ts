@@ -0,0 +1,181 @@
+import { afterAll, beforeAll, describe, expect, test } from "vitest";
+import { getApiClient, shutdownApiClient } from "../setup/testServer.ts";
+import { createAuthenticatedUser } from "../helpers/auth.ts";
+import { setTestPrice } from "../helpers/price.ts";
+import type { SuperTest, Test } from "supertest";
+import { Decimal } from "decimal.js";
+import { planLotDisposals } from "@repo/trading";
+
+/**
+ * Tax Lot E2E Tests
+ *
+ * Tests lot-level cost basis:
+ * 1. Every buy opens a lot; GET /portfolio/lots lists them
+ * 2. The same sell realizes different P&L under FIFO / LIFO / HIFO / average
+ * 3. A sell spanning lots splits the fee and records one disposal per lot
+ * 4. Holding periods classify disposals as short- or long-term
+ */
+
+describe("Tax Lots (E2E)", () => {
+  let api: SuperTest<Test>;
+
+  const postOrder = (token: string, body: Record<string, string>) =>
+    api
+      .post("/orders")
+      .set("Authorization", `Bearer ${token}`)
+      .send({ baseAsset: "SOL", quoteAsset: "USDC", ...body });
+
+  const getLots = async (token: string) => {
+    const res = await api
+      .get("/portfolio/lots")
+      .set("Authorization", `Bearer ${token}`);
+    expect(res.status).toBe(200);
+    return res.body;
+  };
+
+  /**
+   * Buy 1 SOL at $100, $200 and $150 (three lots), then sell 1 SOL at $180
+   */
+  const buyThreeLotsAndSell = async (method: string) => {
+    const { token } = await createAuthenticatedUser(api);
+
+    const methodRes = await api
+      .put("/portfolio/cost-basis-method")
+      .set("Authorization", `Bearer ${token}`)
+      .send({ method });
+    expect(methodRes.status).toBe(200);
+
+    for (const price of ["100", "200", "150"]) {
+      await setTestPrice("SOL", price);
+      const res = await postOrder(token, { side: "buy", requestedSize: "1" });
+      expect(res.status).toBe(201);
+    }
+
+    await setTestPrice("SOL", "180");
+    const sellRes = await postOrder(token, { side: "sell", requestedSize: "1" });
+    expect(sellRes.status).toBe(201);
+
+    return { token, sellOrderId: sellRes.body.orderId as number };
+  };
+
+  beforeAll(async () => {
+    api = await getApiClient();
+  });
+
+  afterAll(async () => {
+    await shutdownApiClient();
+  });
+
+  describe("Cost-basis methods", () => {
+    // Sell 1 @ $180, fee $0.18
+    test.each([
+      ["fifo", "100", "79.82"],
+      ["lifo", "150", "29.82"],
+      ["hifo", "200", "-20.18"],
+      ["average", "150", "29.82"],
+    ])("%s costs the sell at $%s", async (method, costBasis, realizedPnl) => {
+      const { token, sellOrderId } = await buyThreeLotsAndSell(method);
+
+      const orderRes = await api
+        .get(`/orders/${sellOrderId}`)
+        .set("Authorization", `Bearer ${token}`);
+      const trade = orderRes.body.order.trades[0];
+      expect(trade.costBasis).toBe(costBasis);
+      expect(trade.realizedPnl).toBe(realizedPnl);
+
+      const portfolio = await api
+        .get("/portfolio")
+        .set("Authorization", `Bearer ${token}`);
+      expect(portfolio.body.portfolio.costBasisMethod).toBe(method);
+      expect(portfolio.body.portfolio.totalRealizedPnl).toBe(realizedPnl);
+    });
+
+    test("lists open lots and the disposal per lot", async () => {
+      const { token } = await buyThreeLotsAndSell("fifo");
+      const body = await getLots(token);
+
+      expect(body.costBasisMethod).toBe("fifo");
+      expect(body.lots.map((l: any) => l.remainingSize)).toEqual(["0", "1", "1"]);
+
+      const [disposal] = body.lots[0].disposals;
+      expect(disposal.size).toBe("1");
+      expect(disposal.proceeds).toBe("179.82");
+      expect(disposal.realizedPnl).toBe("79.82");
+      expect(disposal.method).toBe("fifo");
+      expect(disposal.holdingPeriodDays).toBe(0);
+      expect(disposal.term).toBe("short");
+
+      expect(body.summary.shortTermPnl).toBe("79.82");
+      expect(body.summary.longTermPnl).toBe("0");
+    });
+
+    test("rejects an unknown method", async () => {
+      const { token } = await createAuthenticatedUser(api);
+
+      const res = await api
+        .put("/portfolio/cost-basis-method")
+        .set("Authorization", `Bearer ${token}`)
+        .send({ method: "random" });
+
+      expect(res.status).toBe(400);
+    });
+  });
+
+  describe("Sell spanning lots", () => {
+    test("splits the fee pro rata and records one disposal per lot", async () => {
+      const { token } = await buyThreeLotsAndSell("fifo");
+
+      // Sell 1.5 more @ $180 (fee $0.27): 1 from the $200 lot, 0.5 from the $150 lot
+      const res = await postOrder(token, { side: "sell", requestedSize: "1.5" });
+      expect(res.status).toBe(201);
+
+      const body = await getLots(token);
+      const [, lot200, lot150] = body.lots;
+
+      expect(lot200.remainingSize).toBe("0");
+      expect(lot200.disposals[0].realizedPnl).toBe("-20.18"); // 180 - 0.18 - 200
+      expect(lot150.remainingSize).toBe("0.5");
+      expect(lot150.disposals[0].realizedPnl).toBe("14.91"); // 90 - 0.09 - 75
+    });
+  });
+
+  describe("Holding periods", () => {
+    test("lots held over a year are long-term", () => {
+      const now = new Date("2026-06-01T00:00:00Z");
+      const lots = [
+        {
+          id: 1,
+          price: new Decimal("100"),
+          remainingSize: new Decimal("1"),
+          acquiredAt: new Date("2025-04-01T00:00:00Z"),
+        },
+        {
+          id: 2,
+          price: new Decimal("120"),
+          remainingSize: new Decimal("1"),
+          acquiredAt: new Date("2026-05-01T00:00:00Z"),
+        },
+      ];
+
+      const { disposals, realizedPnl } = planLotDisposals(
+        lots,
+        "fifo",
+        new Decimal("150"),
+        new Decimal("2"),
+        new Decimal("0.3"),
+        new Decimal("110"),
+        now
+      );
+
+      expect(disposals.map((d) => d.term)).toEqual(["long", "short"]);
+      expect(disposals[0]!.holdingPeriodDays).toBe(426);
+      expect(realizedPnl.toString()).toBe("79.7");
+    });
+
+    test("rejects a sell larger than the open lots", () => {
+      expect(() =>
+        planLotDisposals([], "fifo", new Decimal("150"), new Decimal("1"), new Decimal("0.15"), new Decimal("0"))
+      ).toThrow("Open lots cover");
+    });
+  });
+});
@@ -0,0 +1,161 @@
+import { afterAll, beforeAll, describe, expect, test } from "vitest";
+import { getApiClient, shutdownApiClient } from "../setup/testServer.ts";
+import { createAuthenticatedUser } from "../helpers/auth.ts";
+import { setTestPrice } from "../helpers/price.ts";
+import type { SuperTest, Test } from "supertest";
+import { Decimal } from "decimal.js";
+import { matchTriggerOrders, updateTrailingStops } from "@repo/trading";
+
+/**
+ * Trailing Stop E2E Tests
+ *
+ * Tests trailing_stop orders:
+ * 1. Trigger starts one trail away from the market price
+ * 2. New highs (sell) / lows (buy) move the trigger, retraces don't
+ * 3. Every adjustment is visible via GET /orders/:orderId, to the owner only
+ * 4. A retrace through the trigger executes at market
+ * 5. Validation (exactly one of trailAmount / trailPercent)
+ */
+
+describe("Trailing Stops (E2E)", () => {
+  let api: SuperTest<Test>;
+  let authToken: string;
+
+  const postOrder = (body: Record<string, string>) =>
+    api
+      .post("/orders")
+      .set("Authorization", `Bearer ${authToken}`)
+      .send({ baseAsset: "SOL", quoteAsset: "USDC", ...body });
+
+  const getOrder = async (orderId: number) => {
+    const res = await api
+      .get(`/orders/${orderId}`)
+      .set("Authorization", `Bearer ${authToken}`);
+    return res.body.order;
+  };
+
+  beforeAll(async () => {
+    api = await getApiClient();
+    await setTestPrice("SOL", "100");
+    ({ token: authToken } = await createAuthenticatedUser(api));
+
+    // Start with 1 SOL
+    await postOrder({ side: "buy", requestedSize: "1" });
+  });
+
+  afterAll(async () => {
+    await shutdownApiClient();
+  });
+
+  describe("SELL with trailAmount", () => {
+    let orderId: number;
+
+    test("starts the trigger one trail below the market", async () => {
+      const res = await postOrder({
+        side: "sell",
+        type: "trailing_stop",
+        requestedSize: "1",
+        trailAmount: "5",
+      });
+
+      expect(res.status).toBe(201);
+      expect(res.body.status).toBe("pending");
+      expect(res.body.trailingPeak).toBe("100");
+      expect(res.body.triggerPrice).toBe("95");
+      orderId = res.body.orderId;
+    });
+
+    test("ignores prices below the peak", async () => {
+      const adjustments = await updateTrailingStops("SOL", new Decimal("98"));
+      expect(adjustments.find((a) => a.orderId === orderId)).toBeUndefined();
+    });
+
+    test("moves the trigger up on a new high and records it", async () => {
+      const adjustments = await updateTrailingStops("SOL", new Decimal("110"));
+      const adjustment = adjustments.find((a) => a.orderId === orderId);
+
+      expect(adjustment).toBeDefined();
+      expect(adjustment!.triggerPrice).toBe("105");
+
+      const order = await getOrder(orderId);
+      expect(order.triggerPrice).toBe("105");
+      expect(order.trailingPeak).toBe("110");
+      expect(
+        order.trailingAdjustments.map((a: any) => a.triggerPrice)
+      ).toEqual(["95", "105"]);
+    });
+
+    test("hides the order and its adjustments from other users", async () => {
+      const { token: otherToken } = await createAuthenticatedUser(api);
+
+      const res = await api
+        .get(`/orders/${orderId}`)
+        .set("Authorization", `Bearer ${otherToken}`);
+
+      expect(res.status).toBe(404);
+      expect(res.body.order).toBeUndefined();
+    });
+
+    test("executes at market once the price retraces through the trigger", async () => {
+      let { filled } = await matchTriggerOrders("SOL", new Decimal("107"));
+      expect(filled.find((f) => f.orderId === orderId)).toBeUndefined();
+
+      ({ filled } = await matchTriggerOrders("SOL", new Decimal("104")));
+      const fill = filled.find((f) => f.orderId === orderId);
+
+      expect(fill).toBeDefined();
+      expect(fill!.executedPrice).toBe("104");
+      expect((await getOrder(orderId)).status).toBe("filled");
+    });
+  });
+
+  describe("BUY with trailPercent", () => {
+    test("tracks the low-water mark", async () => {
+      const res = await postOrder({
+        side: "buy",
+        type: "trailing_stop",
+        requestedSize: "1",
+        trailPercent: "10",
+      });
+
+      expect(res.status).toBe(201);
+      expect(res.body.triggerPrice).toBe("110");
+
+      const adjustments = await updateTrailingStops("SOL", new Decimal("80"));
+      const adjustment = adjustments.find((a) => a.orderId === res.body.orderId);
+
+      expect(adjustment).toBeDefined();
+      expect(adjustment!.peakPrice).toBe("80");
+      expect(adjustment!.triggerPrice).toBe("88");
+
+      // Clean up so the order doesn't fire in other suites
+      await api
+        .delete(`/orders/${res.body.orderId}`)
+        .set("Authorization", `Bearer ${authToken}`);
+    });
+  });
+
+  describe("Validation", () => {
+    test("rejects both trailAmount and trailPercent", async () => {
+      const res = await postOrder({
+        side: "sell",
+        type: "trailing_stop",
+        requestedSize: "1",
+        trailAmount: "5",
+        trailPercent: "5",
+      });
+
+      expect(res.status).toBe(400);
+    });
+
+    test("rejects trailing stop without a trail", async () => {
+      const res = await postOrder({
+        side: "sell",
+        type: "trailing_stop",
+        requestedSize: "1",
+      });
+
+      expect(res.status).toBe(400);
+    });
+  });
+});
@@ -0,0 +1,162 @@
+import { afterAll, beforeAll, describe, expect, test } from "vitest";
+import { getApiClient, shutdownApiClient } from "../setup/testServer.ts";
+import { createAuthenticatedUser } from "../helpers/auth.ts";
+import { setTestPrice } from "../helpers/price.ts";
+import type { SuperTest, Test } from "supertest";
+import { Decimal } from "decimal.js";
+import { matchTriggerOrders } from "@repo/trading";
+
+/**
+ * Trigger Order E2E Tests
+ *
+ * Tests stop_market and take_profit orders:
+ * 1. Placement rests as pending without locking funds
+ * 2. Nothing executes until the trigger is crossed
+ * 3. Crossed triggers execute at market price
+ * 4. Triggers short of funds when they fire are rejected
+ * 5. Validation (triggerPrice required, not already crossed)
+ */
+
+describe("Trigger Orders (E2E)", () => {
+  let api: SuperTest<Test>;
+  let authToken: string;
+
+  const getBalance = async (asset: string) => {
+    const res = await api
+      .get("/portfolio")
+      .set("Authorization", `Bearer ${authToken}`);
+    return res.body.portfolio.balances.find((b: any) => b.asset === asset);
+  };
+
+  const postOrder = (body: Record<string, string>) =>
+    api
+      .post("/orders")
+      .set("Authorization", `Bearer ${authToken}`)
+      .send({ baseAsset: "SOL", quoteAsset: "USDC", ...body });
+
+  beforeAll(async () => {
+    api = await getApiClient();
+    await setTestPrice("SOL", "100");
+    ({ token: authToken } = await createAuthenticatedUser(api));
+
+    // Start with 2 SOL
+    await postOrder({ side: "buy", requestedSize: "2" });
+  });
+
+  afterAll(async () => {
+    await shutdownApiClient();
+  });
+
+  describe("stop_market", () => {
+    let orderId: number;
+
+    test("rests as pending without locking funds", async () => {
+      const res = await postOrder({
+        side: "sell",
+        type: "stop_market",
+        requestedSize: "1",
+        triggerPrice: "90",
+      });
+
+      expect(res.status).toBe(201);
+      expect(res.body.status).toBe("pending");
+      expect(res.body.triggerPrice).toBe("90");
+      orderId = res.body.orderId;
+
+      const sol = await getBalance("SOL");
+      expect(sol.available).toBe("2");
+      expect(sol.locked).toBe("0");
+    });
+
+    test("does not execute above the stop", async () => {
+      const { filled } = await matchTriggerOrders("SOL", new Decimal("95"));
+      expect(filled.find((f) => f.orderId === orderId)).toBeUndefined();
+    });
+
+    test("executes at market once price falls through the stop", async () => {
+      const { filled } = await matchTriggerOrders("SOL", new Decimal("88"));
+      const fill = filled.find((f) => f.orderId === orderId);
+
+      expect(fill).toBeDefined();
+      expect(fill!.executedPrice).toBe("88");
+      expect(fill!.executedSize).toBe("1");
+
+      const res = await api
+        .get(`/orders/${orderId}`)
+        .set("Authorization", `Bearer ${authToken}`);
+      expect(res.body.order.status).toBe("filled");
+
+      const sol = await getBalance("SOL");
+      expect(sol.available).toBe("1");
+    });
+  });
+
+  describe("take_profit", () => {
+    test("executes at market once price rises to the target", async () => {
+      const res = await postOrder({
+        side: "sell",
+        type: "take_profit",
+        requestedSize: "1",
+        triggerPrice: "120",
+      });
+      expect(res.status).toBe(201);
+
+      const { filled } = await matchTriggerOrders("SOL", new Decimal("125"));
+      const fill = filled.find((f) => f.orderId === res.body.orderId);
+
+      expect(fill).toBeDefined();
+      expect(fill!.executedPrice).toBe("125");
+
+      const sol = await getBalance("SOL");
+      expect(sol.available).toBe("0");
+    });
+  });
+
+  describe("Insufficient funds at trigger time", () => {
+    test("rejects the order with the reason", async () => {
+      // No SOL left; placement succeeds because nothing is reserved
+      const res = await postOrder({
+        side: "sell",
+        type: "stop_market",
+        requestedSize: "1",
+        triggerPrice: "80",
+      });
+      expect(res.status).toBe(201);
+
+      const { rejected } = await matchTriggerOrders("SOL", new Decimal("79"));
+      const rejection = rejected.find((r) => r.orderId === res.body.orderId);
+      expect(rejection).toBeDefined();
+      expect(rejection!.reason).toContain("Insufficient");
+
+      const orderRes = await api
+        .get(`/orders/${res.body.orderId}`)
+        .set("Authorization", `Bearer ${authToken}`);
+      expect(orderRes.body.order.status).toBe("rejected");
+    });
+  });
+
+  describe("Validation", () => {
+    test("rejects trigger order without triggerPrice", async () => {
+      const res = await postOrder({
+        side: "sell",
+        type: "stop_market",
+        requestedSize: "1",
+      });
+
+      expect(res.status).toBe(400);
+    });
+
+    test("rejects stop that is already crossed", async () => {
+      // Market is $100; a sell stop at $110 would fire immediately
+      const res = await postOrder({
+        side: "sell",
+        type: "stop_market",
+        requestedSize: "1",
+        triggerPrice: "110",
+      });
+
+      expect(res.status).toBe(400);
+      expect(res.body.code).toBe("TRIGGER_ALREADY_CROSSED");
+    });
+  });
+});
@@ -0,0 +1,49 @@
+import { createServer } from "node:http";
+import type { AddressInfo } from "node:net";
+
+export interface StubRoute {
+  status: number;
+  body: unknown;
+  delayMs?: number; // Answer this late (a hung API)
+}
+
+export interface HttpStub {
+  baseUrl: string;
+  routes: Map<string, StubRoute>; // Path → JSON response
+  requests: URL[];                                        // Every request received
+  hits(path: string): number;
+  reset(): void;
+  close(): Promise<void>;
+}
+
+/**
+ * Start a local HTTP server answering canned JSON per path (404 otherwise)
+ * Stands in for external price APIs (Hermes, Jupiter, exchange tickers)
+ */
+export const startHttpStub = async (): Promise<HttpStub> => {
+  const routes = new Map<string, StubRoute>();
+  const requests: URL[] = [];
+
+  const server = createServer((req, res) => {
+    const url = new URL(req.url!, "http://stub");
+    requests.push(url);
+    const route = routes.get(url.pathname) ?? { status: 404, body: { error: "Not found" } };
+    setTimeout(() => {
+      res.writeHead(route.status, { "Content-Type": "application/json" });
+      res.end(JSON.stringify(route.body));
+    }, route.delayMs ?? 0);
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+
+  return {
+    baseUrl: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+    routes,
+    requests,
+    hits: (path) => requests.filter((url) => url.pathname === path).length,
+    reset: () => {
+      routes.clear();
+      requests.length = 0;
+    },
+    close: () => new Promise<void>((resolve) => server.close(() => resolve())),
+  };
+};
@@ -16,3 +16,4 @@ export {
   getTestCurrentCandle,
   getTestBucketStart,
 } from "./candles.ts";
+export { startHttpStub, type HttpStub, type StubRoute } from "./httpStub.ts";
@@ -0,0 +1,62 @@
+/**
+ * Funding Worker
+ * 
+ * Separate worker that settles perpetual futures funding once per
+ * FUNDING_INTERVAL_MS, on interval boundaries.
+ * 
+ * Architecture:
+ * - Sleeps until the next interval boundary
+ * - Reads each perp market's index price from Redis
+ * - Settles funding through settleFunding() (one atomic transaction per
+ *   market: record the rate, then move each payment into or out of the
+ *   position's margin)
+ * - Publishes every payment for WebSocket broadcast
+ * 
+ * Settlement is idempotent per (market, fundingTime), so a restart or a
+ * retry never charges an interval twice.
+ * 
+ * This worker does NOT:
+ * - Liquidate positions pushed under maintenance margin by a payment
+ *   (that's the liquidation worker's job, on the next price update)
+ */
+
+import { initRedis, isRedisHealthy } from "@repo/redis";
+import { initDb, shutdownDb } from "@repo/db";
+import { startFundingSchedule } from "./scheduler.js";
+
+async function main() {
+  console.log("[FUNDING-WORKER] Starting funding worker...");
+
+  // Initialize Redis (for index prices + event publishing)
+  await initRedis();
+  const isHealthy = await isRedisHealthy();
+  if (!isHealthy) {
+    throw new Error("Redis is not healthy");
+  }
+
+  // Initialize PostgreSQL (for settlement)
+  await initDb();
+
+  // Start settling at each interval boundary
+  const stopSchedule = startFundingSchedule();
+
+  // Graceful shutdown
+  const shutdown = async (signal: string) => {
+    console.log(`[FUNDING-WORKER] ${signal} received, shutting down...`);
+    try {
+      stopSchedule();
+      await shutdownDb();
+    } catch (e) {
+      // Ignore errors during shutdown
+    }
+    process.exit(0);
+  };
+
+  process.on("SIGINT", () => void shutdown("SIGINT"));
+  process.on("SIGTERM", () => void shutdown("SIGTERM"));
+}
+
+main().catch((error) => {
+  console.error("[FUNDING-WORKER] Fatal error:", error);
+  process.exit(1);
+});
@@ -0,0 +1,106 @@
+/**
+ * Funding Schedule
+ * 
+ * Settles funding for every perp market at each interval boundary.
+ * A market whose index price is unavailable is retried every
+ * RETRY_DELAY_MS until the next boundary comes up.
+ */
+
+import { getPriceWithMetadata } from "@repo/pricing";
+import {
+  settleFunding,
+  getNextFundingTime,
+  PERP_MARKETS,
+  type PerpMarket,
+} from "@repo/trading";
+import { publishFundingPayment } from "@repo/events";
+
+const RETRY_DELAY_MS = 30 * 1000; // 30 seconds
+
+/**
+ * Settle one market's funding and publish its payments
+ * @returns false if the index price was unavailable (retry later)
+ */
+async function settleMarket(market: PerpMarket, fundingTime: Date): Promise<boolean> {
+  const priceData = await getPriceWithMetadata(PERP_MARKETS[market].baseAsset);
+  if (!priceData) {
+    console.warn(`[FUNDING-WORKER] No index price for ${market}, retrying`);
+    return false;
+  }
+
+  const settlement = await settleFunding(market, priceData.price, fundingTime);
+  if (!settlement) {
+    return true; // Already settled (restart / retry)
+  }
+
+  console.log(
+    `[FUNDING-WORKER] Settled ${market} @ ${fundingTime.toISOString()}: ` +
+      `rate ${settlement.rate}, mark ${settlement.markPrice}, ` +
+      `${settlement.payments.length} position(s)`
+  );
+
+  for (const payment of settlement.payments) {
+    await publishFundingPayment({
+      userId: payment.userId,
+      market,
+      positionId: payment.positionId,
+      fundingTime: fundingTime.toISOString(),
+      rate: settlement.rate,
+      markPrice: settlement.markPrice,
+      positionSize: payment.positionSize,
+      amount: payment.amount,
+      margin: payment.margin,
+    });
+  }
+
+  return true;
+}
+
+/**
+ * Settle funding at every interval boundary
+ * @returns Function that stops the schedule
+ */
+export function startFundingSchedule(): () => void {
+  let timer: NodeJS.Timeout | null = null;
+
+  const scheduleNext = () => {
+    const fundingTime = getNextFundingTime();
+    console.log(`[FUNDING-WORKER] Next funding at ${fundingTime.toISOString()}`);
+    timer = setTimeout(
+      () => void settle(fundingTime, Object.keys(PERP_MARKETS) as PerpMarket[]),
+      fundingTime.getTime() - Date.now()
+    );
+  };
+
+  const settle = async (fundingTime: Date, markets: PerpMarket[]) => {
+    const pending: PerpMarket[] = [];
+
+    for (const market of markets) {
+      try {
+        if (!(await settleMarket(market, fundingTime))) {
+          pending.push(market);
+        }
+      } catch (error) {
+        console.error(`[FUNDING-WORKER] Failed to settle ${market}:`, error);
+        pending.push(market);
+      }
+    }
+
+    // Retry within this interval; past the next boundary, move on
+    const nextBoundary = getNextFundingTime(fundingTime).getTime();
+    if (pending.length > 0 && Date.now() + RETRY_DELAY_MS < nextBoundary) {
+      timer = setTimeout(() => void settle(fundingTime, pending), RETRY_DELAY_MS);
+      return;
+    }
+
+    scheduleNext();
+  };
+
+  scheduleNext();
+
+  return () => {
+    if (timer) {
+      clearTimeout(timer);
+    }
+  };
+}
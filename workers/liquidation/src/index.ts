@@ -0,0 +1,62 @@
+/**
+ * Liquidation Worker
+ * 
+ * Separate worker that subscribes to price updates and force-closes margin
+ * accounts and perp positions whose equity fell below the maintenance margin.
+ * 
+ * Architecture:
+ * - Subscribes to Redis pub/sub channel for price updates
+ * - Finds margin accounts below maintenance margin at the new price
+ *   (equity = quote + base * price, maintenance = notional / MAX_LEVERAGE * 0.5)
+ * - Liquidates each through liquidateAccount() (one atomic transaction per
+ *   account: cancel pending orders, close the position at market)
+ * - Liquidates perp positions through liquidatePerpPosition() (closed at
+ *   the mark price; losses stop at the position's isolated margin)
+ * - Publishes cancellations, the liquidation fill and portfolio / perp
+ *   position updates for WebSocket broadcast
+ * 
+ * This worker does NOT:
+ * - Fill resting orders (that's the order-matching worker's job)
+ * - Touch cash accounts (they never borrow)
+ */
+
+import { initRedis, isRedisHealthy, subscriber } from "@repo/redis";
+import { initDb, shutdownDb } from "@repo/db";
+import { subscribeToPrice } from "./subscriber.js";
+
+async function main() {
+  console.log("[LIQUIDATION-WORKER] Starting liquidation worker...");
+
+  // Initialize Redis (for price subscription + event publishing)
+  await initRedis();
+  const isHealthy = await isRedisHealthy();
+  if (!isHealthy) {
+    throw new Error("Redis is not healthy");
+  }
+
+  // Initialize PostgreSQL (for margin checks and settlement)
+  await initDb();
+
+  // Start subscribing to price updates
+  await subscribeToPrice();
+
+  // Graceful shutdown
+  const shutdown = async (signal: string) => {
+    console.log(`[LIQUIDATION-WORKER] ${signal} received, shutting down...`);
+    try {
+      await subscriber.unsubscribe();
+      await shutdownDb();
+    } catch (e) {
+      // Ignore errors during shutdown
+    }
+    process.exit(0);
+  };
+
+  process.on("SIGINT", () => void shutdown("SIGINT"));
+  process.on("SIGTERM", () => void shutdown("SIGTERM"));
+}
+
+main().catch((error) => {
+  console.error("[LIQUIDATION-WORKER] Fatal error:", error);
+  process.exit(1);
+});
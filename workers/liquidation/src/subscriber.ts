@@ -0,0 +1,183 @@
+/**
+ * Price Subscription Handler
+ * 
+ * Subscribes to the price update pub/sub channel and liquidates margin
+ * accounts and perp positions that fall below maintenance margin at each
+ * price tick. A margin account holding the asset that ticked is checked
+ * across all its holdings (the others at their current marks), and a
+ * liquidation closes every position it holds.
+ */
+
+import { Decimal } from "decimal.js";
+import { subscriber, redisKeys } from "@repo/redis";
+import {
+  getLiquidatableAccounts,
+  liquidateAccount,
+  getLiquidatablePerpPositions,
+  liquidatePerpPosition,
+  getPortfolio,
+  CASH_ASSET,
+  PERP_MARKETS,
+  type PerpMarket,
+} from "@repo/trading";
+import {
+  publishOrderFilled,
+  publishOrderCancelled,
+  publishPortfolioUpdate,
+  publishLiquidation,
+  publishPerpPositionUpdate,
+  type PriceUpdateEvent,
+} from "@repo/events";
+
+/**
+ * Publish a user's current balances and positions for WebSocket broadcast
+ */
+async function publishPortfolioSnapshot(userId: number): Promise<void> {
+  const portfolio = await getPortfolio(userId);
+  await publishPortfolioUpdate({
+    userId,
+    balances: portfolio.balances.map((b) => ({
+      asset: b.asset,
+      available: b.available,
+      locked: b.locked,
+    })),
+    positions: portfolio.positions.map((p) => ({
+      asset: p.asset,
+      size: p.size,
+      avgEntryPrice: p.avgEntryPrice,
+      realizedPnl: p.realizedPnl,
+    })),
+  });
+}
+
+/**
+ * Liquidate the perp positions below maintenance margin in every perp
+ * market on this symbol
+ */
+async function liquidatePerpPositions(symbol: string, price: Decimal): Promise<void> {
+  const markets = (Object.keys(PERP_MARKETS) as PerpMarket[]).filter(
+    (market) => PERP_MARKETS[market].baseAsset === symbol
+  );
+
+  for (const market of markets) {
+    const positionIds = await getLiquidatablePerpPositions(market, price);
+
+    for (const positionId of positionIds) {
+      try {
+        const liquidation = await liquidatePerpPosition(positionId, price);
+        if (!liquidation) {
+          continue; // Margin added or closed since it was selected
+        }
+
+        console.log(
+          `[LIQUIDATION-WORKER] Liquidated ${market} position ${positionId} of user ` +
+            `${liquidation.userId}: ${liquidation.side} ${liquidation.size} @ ${liquidation.price} ` +
+            `(equity ${liquidation.equity} < maintenance ${liquidation.maintenanceMargin}, ` +
+            `bad debt ${liquidation.badDebt})`
+        );
+
+        await publishPerpPositionUpdate({
+          userId: liquidation.userId,
+          market,
+          reason: "liquidation",
+          ...liquidation.position,
+          tradeId: liquidation.tradeId,
+          price: liquidation.price,
+          badDebt: liquidation.badDebt,
+        });
+      } catch (error) {
+        console.error(
+          `[LIQUIDATION-WORKER] Failed to liquidate ${market} position ${positionId}:`,
+          error
+        );
+        // Keep going: the next price tick retries
+      }
+    }
+  }
+}
+
+/**
+ * Subscribe to price updates and liquidate under-margined accounts
+ * (margin accounts, then perp positions)
+ */
+export async function subscribeToPrice(): Promise<void> {
+  const channel = redisKeys.CHANNELS.priceUpdate();
+
+  await subscriber.subscribe(channel, async (message: string) => {
+    try {
+      const priceEvent: PriceUpdateEvent = JSON.parse(message);
+      const price = new Decimal(priceEvent.price);
+
+      const userIds = await getLiquidatableAccounts(
+        priceEvent.symbol,
+        CASH_ASSET,
+        price
+      );
+
+      for (const userId of userIds) {
+        try {
+          const liquidation = await liquidateAccount(
+            userId,
+            priceEvent.symbol,
+            CASH_ASSET,
+            price
+          );
+          if (!liquidation) {
+            continue; // De-risked since it was selected
+          }
+
+          const closed = liquidation.closes
+            .map((close) => `${close.side} ${close.executedSize} ${close.baseAsset} @ ${close.executedPrice}`)
+            .join(", ");
+          console.log(
+            `[LIQUIDATION-WORKER] Liquidated user ${userId}: ${closed} ` +
+              `(equity ${liquidation.equity} < maintenance ${liquidation.maintenanceMargin}, ` +
+              `bad debt ${liquidation.badDebt})`
+          );
+
+          for (const cancelled of liquidation.cancelledOrders) {
+            await publishOrderCancelled({ userId, ...cancelled });
+          }
+
+          for (const [index, close] of liquidation.closes.entries()) {
+            await publishOrderFilled({
+              userId,
+              orderId: close.orderId,
+              side: close.side,
+              baseAsset: close.baseAsset,
+              quoteAsset: liquidation.quoteAsset,
+              executedSize: close.executedSize,
+              executedPrice: close.executedPrice,
+              fee: close.feesApplied,
+            });
+
+            // Bad debt is written off once, with the last close
+            const last = index === liquidation.closes.length - 1;
+            await publishLiquidation({
+              userId,
+              orderId: close.orderId,
+              side: close.side,
+              baseAsset: close.baseAsset,
+              quoteAsset: liquidation.quoteAsset,
+              executedPrice: close.executedPrice,
+              executedSize: close.executedSize,
+              equity: liquidation.equity,
+              maintenanceMargin: liquidation.maintenanceMargin,
+              badDebt: last ? liquidation.badDebt : "0",
+            });
+          }
+
+          await publishPortfolioSnapshot(userId);
+        } catch (error) {
+          console.error(`[LIQUIDATION-WORKER] Failed to liquidate user ${userId}:`, error);
+          // Keep going: the next price tick retries
+        }
+      }
+
+      await liquidatePerpPositions(priceEvent.symbol, price);
+    } catch (error) {
+      console.error("[LIQUIDATION-WORKER] Error processing price update:", error);
+      // Don't rethrow - continue processing other messages
+    }
+  });
+}
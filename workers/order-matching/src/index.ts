@@ -0,0 +1,60 @@
+/**
+ * Order Matching Worker
+ * 
+ * Separate worker that subscribes to price updates and fills resting orders.
+ * 
+ * Architecture:
+ * - Subscribes to Redis pub/sub channel for price updates
+ * - Finds pending limit orders whose limit price was crossed and fills
+ *   them through fillOrder() (one atomic transaction per order)
+ * - Moves trailing stop triggers as the price makes new highs / lows
+ *   (state is stored on the order, so restarts lose nothing)
+ * - Finds pending stop_market / take_profit / trailing_stop orders whose
+ *   trigger was crossed and executes them at market through executeTriggerOrder()
+ * - Publishes order + portfolio updates for WebSocket broadcast
+ * 
+ * This worker does NOT:
+ * - Execute market orders (the API does that inline)
+ * - Write prices (that's the price-ingestion worker's job)
+ */
+
+import { initRedis, isRedisHealthy, subscriber } from "@repo/redis";
+import { initDb, shutdownDb } from "@repo/db";
+import { subscribeToPrice } from "./subscriber.js";
+
+async function main() {
+  console.log("[MATCHING-WORKER] Starting order matching worker...");
+
+  // Initialize Redis (for price subscription + event publishing)
+  await initRedis();
+  const isHealthy = await isRedisHealthy();
+  if (!isHealthy) {
+    throw new Error("Redis is not healthy");
+  }
+
+  // Initialize PostgreSQL (for order settlement)
+  await initDb();
+
+  // Start subscribing to price updates
+  await subscribeToPrice();
+
+  // Graceful shutdown
+  const shutdown = async (signal: string) => {
+    console.log(`[MATCHING-WORKER] ${signal} received, shutting down...`);
+    try {
+      await subscriber.unsubscribe();
+      await shutdownDb();
+    } catch (e) {
+      // Ignore errors during shutdown
+    }
+    process.exit(0);
+  };
+
+  process.on("SIGINT", () => void shutdown("SIGINT"));
+  process.on("SIGTERM", () => void shutdown("SIGTERM"));
+}
+
+main().catch((error) => {
+  console.error("[MATCHING-WORKER] Fatal error:", error);
+  process.exit(1);
+});
@@ -0,0 +1,119 @@
+/**
+ * Price Subscription Handler
+ * 
+ * Subscribes to the price update pub/sub channel and matches resting
+ * limit orders and stop_market / take_profit / trailing_stop triggers
+ * against each price tick.
+ */
+
+import { Decimal } from "decimal.js";
+import { subscriber, redisKeys } from "@repo/redis";
+import {
+  matchLimitOrders,
+  matchTriggerOrders,
+  updateTrailingStops,
+  getPortfolio,
+} from "@repo/trading";
+import {
+  publishOrderFilled,
+  publishOrderRejected,
+  publishOrderCancelled,
+  publishPortfolioUpdate,
+  type PriceUpdateEvent,
+} from "@repo/events";
+
+/**
+ * Publish a user's current balances and positions for WebSocket broadcast
+ */
+async function publishPortfolioSnapshot(userId: number): Promise<void> {
+  const portfolio = await getPortfolio(userId);
+  await publishPortfolioUpdate({
+    userId,
+    balances: portfolio.balances.map((b) => ({
+      asset: b.asset,
+      available: b.available,
+      locked: b.locked,
+    })),
+    positions: portfolio.positions.map((p) => ({
+      asset: p.asset,
+      size: p.size,
+      avgEntryPrice: p.avgEntryPrice,
+      realizedPnl: p.realizedPnl,
+    })),
+  });
+}
+
+/**
+ * Subscribe to price updates and fill crossed limit and trigger orders
+ */
+export async function subscribeToPrice(): Promise<void> {
+  const channel = redisKeys.CHANNELS.priceUpdate();
+
+  await subscriber.subscribe(channel, async (message: string) => {
+    try {
+      const priceEvent: PriceUpdateEvent = JSON.parse(message);
+      const price = new Decimal(priceEvent.price);
+      const quote = {
+        bid: new Decimal(priceEvent.bid ?? priceEvent.price),
+        ask: new Decimal(priceEvent.ask ?? priceEvent.price),
+      };
+
+      // Limit orders cross and fill at the touch: buys at the ask, sells at the bid
+      const limitFills = await matchLimitOrders(priceEvent.symbol, price, quote);
+
+      // Move trailing triggers first so executions see the latest level
+      const adjustments = await updateTrailingStops(priceEvent.symbol, price);
+      for (const adjustment of adjustments) {
+        console.log(
+          `[MATCHING-WORKER] Trailing stop ${adjustment.orderId}: peak ${adjustment.peakPrice}, trigger ${adjustment.triggerPrice}`
+        );
+      }
+
+      // Triggered orders execute at the touch too
+      const triggers = await matchTriggerOrders(priceEvent.symbol, price, quote);
+
+      for (const fill of [...limitFills, ...triggers.filled]) {
+        console.log(
+          `[MATCHING-WORKER] Filled order ${fill.orderId}: ${fill.side} ${fill.executedSize} ${fill.baseAsset} @ ${fill.executedPrice}`
+        );
+
+        await publishOrderFilled({
+          userId: fill.userId,
+          orderId: fill.orderId,
+          side: fill.side,
+          baseAsset: fill.baseAsset,
+          quoteAsset: fill.quoteAsset,
+          executedSize: fill.executedSize,
+          executedPrice: fill.executedPrice,
+          fee: fill.feesApplied,
+          parentOrderId: fill.parentOrderId,
+          childOrderIds: fill.childOrderIds,
+        });
+
+        // One-cancels-other: the filled leg's sibling was cancelled
+        for (const cancelledId of fill.cancelledOrderIds) {
+          await publishOrderCancelled({
+            userId: fill.userId,
+            orderId: cancelledId,
+            releasedAsset: null,
+            releasedAmount: "0",
+            parentOrderId: fill.parentOrderId,
+          });
+        }
+
+        await publishPortfolioSnapshot(fill.userId);
+      }
+
+      for (const rejection of triggers.rejected) {
+        console.log(
+          `[MATCHING-WORKER] Rejected order ${rejection.orderId}: ${rejection.reason}`
+        );
+
+        await publishOrderRejected(rejection);
+      }
+    } catch (error) {
+      console.error("[MATCHING-WORKER] Error processing price update:", error);
+      // Don't rethrow - continue processing other messages
+    }
+  });
+}
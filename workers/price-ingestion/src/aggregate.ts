@@ -0,0 +1,122 @@
+/**
+ * Price Aggregation
+ * The stored price is the median of the sources that answered, not whichever
+ * answered first: one bad print cannot move it
+ *
+ * 1. Median of every source's price
+ * 2. Reject outliers: sources further than maxDeviation from that median
+ * 3. Quorum: at least minQuorum sources must be left, or the price is dropped
+ * 4. Price = median of the sources left; confidence = the widest of theirs
+ *
+ * With two sources that disagree, neither can be told to be the bad one:
+ * both are rejected. Three sources let the odd one out be identified.
+ */
+
+import { Decimal } from "decimal.js";
+import type { PriceAggregation } from "@repo/pricing";
+import type { IngestedPrice } from "./update.js";
+import type { SourcePrice } from "./providers/index.js";
+
+export interface AggregationOptions {
+  minQuorum: number;     // Sources that must agree for a price to be stored
+  maxDeviation: Decimal; // Outlier threshold, as a fraction of the median
+}
+
+/**
+ * A source's price for a symbol
+ */
+export interface SourceQuote extends SourcePrice {
+  source: string;
+}
+
+export const DEFAULT_AGGREGATION_OPTIONS: AggregationOptions = {
+  minQuorum: 1,
+  maxDeviation: new Decimal("0.01"), // 1%
+};
+
+function median(values: Decimal[]): Decimal {
+  const sorted = [...values].sort((a, b) => a.comparedTo(b));
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1
+    ? sorted[middle]!
+    : sorted[middle - 1]!.plus(sorted[middle]!).div(2);
+}
+
+const deviationFrom = (price: Decimal, reference: Decimal) =>
+  price.minus(reference).abs().div(reference);
+
+/**
+ * Aggregate a symbol's source quotes into one price
+ *
+ * @param quotes One per source that answered, in priority order
+ * @returns The median price, widest kept confidence, and how it was built
+ * @throws Error if fewer than minQuorum sources agree
+ */
+export function aggregateQuotes(
+  quotes: SourceQuote[],
+  options: AggregationOptions = DEFAULT_AGGREGATION_OPTIONS
+): IngestedPrice & { aggregation: PriceAggregation } {
+  const firstMedian = median(quotes.map((q) => q.price));
+  const kept = quotes.filter((q) => deviationFrom(q.price, firstMedian).lte(options.maxDeviation));
+  const rejected = quotes.filter((q) => !kept.includes(q));
+
+  if (kept.length === 0 || kept.length < options.minQuorum) {
+    throw new Error(
+      `Quorum not met: ${kept.length} of ${options.minQuorum} required source(s) agree` +
+        (rejected.length > 0
+          ? ` (outliers: ${rejected.map((q) => `${q.source} ${q.price.toString()}`).join(", ")})`
+          : "")
+    );
+  }
+
+  const price = median(kept.map((q) => q.price));
+  const confidence = Decimal.max(...kept.map((q) => q.confidence));
+  const deviation = Decimal.max(...kept.map((q) => deviationFrom(q.price, price)));
+  const sources = kept.map((q) => q.source);
+
+  return {
+    price,
+    confidence,
+    // The oldest publish time of the prices it is built from
+    publishTime: new Date(Math.min(...kept.map((q) => q.publishTime.getTime()))),
+    source: sources.join(","),
+    aggregation: {
+      sources,
+      rejected: rejected.map((q) => q.source),
+      quorum: options.minQuorum,
+      maxDeviation: options.maxDeviation.toString(),
+      deviation: deviation.toSignificantDigits(4).toString(),
+    },
+  };
+}
+
+/**
+ * Aggregation settings from the environment
+ *
+ * - PRICE_MIN_QUORUM: sources that must agree (default 1)
+ * - PRICE_MAX_DEVIATION: outlier threshold, fraction of the median (default 0.01)
+ *
+ * @throws Error if a setting is not a valid number
+ */
+export function aggregationOptionsFromEnv(): AggregationOptions {
+  const minQuorum = Number(
+    process.env.PRICE_MIN_QUORUM || DEFAULT_AGGREGATION_OPTIONS.minQuorum
+  );
+  if (!Number.isInteger(minQuorum) || minQuorum < 1) {
+    throw new Error(`Invalid PRICE_MIN_QUORUM: ${process.env.PRICE_MIN_QUORUM}. Must be an integer >= 1`);
+  }
+
+  let maxDeviation: Decimal;
+  try {
+    maxDeviation = new Decimal(
+      process.env.PRICE_MAX_DEVIATION || DEFAULT_AGGREGATION_OPTIONS.maxDeviation
+    );
+  } catch {
+    maxDeviation = new Decimal(NaN);
+  }
+  if (!maxDeviation.isFinite() || maxDeviation.lte(0)) {
+    throw new Error(`Invalid PRICE_MAX_DEVIATION: ${process.env.PRICE_MAX_DEVIATION}. Must be > 0`);
+  }
+
+  return { minQuorum, maxDeviation };
+}
@@ -0,0 +1,67 @@
+/**
+ * Circuit Breaker
+ * Stops calling a price provider that keeps failing, retries it after a cooldown
+ *
+ * States:
+ * - closed: requests go through; failureThreshold failures in a row open it
+ * - open: requests are skipped until cooldownMs has passed
+ * - half-open: one trial request; success closes it, failure re-opens it
+ */
+
+export type CircuitState = "closed" | "open" | "half-open";
+
+export interface CircuitBreakerOptions {
+  failureThreshold: number; // Consecutive failures that open the circuit
+  cooldownMs: number;       // Time open before a trial request
+}
+
+export interface CircuitBreaker {
+  state(): CircuitState;
+  canRequest(): boolean;
+  recordSuccess(): void;
+  recordFailure(): void;
+}
+
+export const DEFAULT_CIRCUIT_BREAKER_OPTIONS: CircuitBreakerOptions = {
+  failureThreshold: 3,
+  cooldownMs: 60 * 1000,
+};
+
+/**
+ * Create a circuit breaker (one per provider, kept across ingestion passes)
+ *
+ * @param now Clock (tests)
+ */
+export function createCircuitBreaker(
+  options: CircuitBreakerOptions = DEFAULT_CIRCUIT_BREAKER_OPTIONS,
+  now: () => number = Date.now
+): CircuitBreaker {
+  let failures = 0;
+  let openedAt: number | null = null;
+
+  const state = (): CircuitState => {
+    if (openedAt === null) {
+      return "closed";
+    }
+    return now() - openedAt >= options.cooldownMs ? "half-open" : "open";
+  };
+
+  return {
+    state,
+
+    canRequest: () => state() !== "open",
+
+    recordSuccess() {
+      failures = 0;
+      openedAt = null;
+    },
+
+    recordFailure() {
+      failures++;
+      // A failed trial re-opens at once; a closed circuit after failureThreshold
+      if (openedAt !== null || failures >= options.failureThreshold) {
+        openedAt = now();
+      }
+    },
+  };
+}
@@ -1,6 +1,7 @@
 import { initRedis, isRedisHealthy } from "@repo/redis";
-import { fetchSolPriceFromPyth, validatePrice } from "./pyth.js";
-import { updateSolPrice } from "./update.js";
+import { ingestPrices } from "./ingest.js";
+import { createPriceSourcesFromEnv } from "./providers/index.js";
+import { aggregationOptionsFromEnv } from "./aggregate.js";
 
 
 const PRICE_UPDATE_INTERVAL_MS = 10 * 1000; // 10 seconds
@@ -10,7 +11,9 @@ const PRICE_UPDATE_INTERVAL_MS = 10 * 1000; // 10 seconds
  *
  * Lifecycle:
  * 1. Initialize Redis connection
- * 2. Start infinite loop fetching prices every 10 seconds
+ * 2. Start infinite loop ingesting prices every 10 seconds: every active
+ *    market (market registry), keyed by base asset: the median of the
+ *    PRICE_PROVIDERS that answer, outliers rejected (see ingestPrices)
  * 3. Handle graceful shutdown on SIGINT/SIGTERM
  * 4. Log status periodically
  *
@@ -31,32 +34,35 @@ async function main() {
     throw error;
   }
 
+  // Created once: circuit breakers keep their state across iterations
+  const sources = createPriceSourcesFromEnv();
+  const aggregation = aggregationOptionsFromEnv();
+  console.log(
+    `[WORKER] Price providers: ${sources.map((s) => s.provider.name).join(", ")} ` +
+      `(quorum ${aggregation.minQuorum}, max deviation ${aggregation.maxDeviation.toString()})`
+  );
+
   let iteration = 0;
-  let lastPrice: string | null = null;
+  const lastPrices = new Map<string, string>();
 
   const loop = async () => {
     iteration++;
     const timestamp = new Date().toISOString();
 
     try {
-      // fetch latest price from Pyth
-      const price = await fetchSolPriceFromPyth();
-      validatePrice(price);
-
-      // update redis
-      await updateSolPrice(price);
+      // fetch every feed's latest price from the providers, then update redis
+      const { updated } = await ingestPrices(sources, aggregation);
 
       // Track for logging
-      const priceStr = price.toString();
-      if (priceStr !== lastPrice) {
-
-        lastPrice = priceStr;
-      }
-      if (iteration % 6 === 0) {
-        // every 6 iterations (1 min
-        console.log(
-          `[${timestamp}] [WORKER] [Iteration ${iteration}] SOL price unchanged at $${priceStr}`
-        );
+      for (const [symbol, { price }] of Object.entries(updated)) {
+        const priceStr = price.toString();
+        if (priceStr === lastPrices.get(symbol) && iteration % 6 === 0) {
+          // every 6 iterations (1 min)
+          console.log(
+            `[${timestamp}] [WORKER] [Iteration ${iteration}] ${symbol} price unchanged at $${priceStr}`
+          );
+        }
+        lastPrices.set(symbol, priceStr);
       }
     } catch (error) {
       console.error(
@@ -0,0 +1,158 @@
+import { getMarkets, PRICE_STALE_THRESHOLD_MS } from "@repo/pricing";
+import {
+  aggregateQuotes,
+  DEFAULT_AGGREGATION_OPTIONS,
+  type AggregationOptions,
+  type SourceQuote,
+} from "./aggregate.js";
+import type { PriceFeed, PriceSource, SourcePrice } from "./providers/index.js";
+import { updatePrices, type IngestedPrice } from "./update.js";
+import { validateConfidence, validatePrice } from "./validate.js";
+
+export interface IngestionResult {
+  updated: Record<string, IngestedPrice>; // Symbol → price written, its sources and aggregation
+  failed: Record<string, string>;         // Symbol → why it could not be priced
+}
+
+/**
+ * Feeds to ingest: one per base asset of the active markets
+ * The registry is re-read (MARKETS_CACHE_TTL_MS) so listings need no restart
+ */
+async function getPriceFeeds(): Promise<PriceFeed[]> {
+  const feeds = new Map<string, PriceFeed>();
+  for (const market of await getMarkets()) {
+    if (!feeds.has(market.baseAsset)) {
+      feeds.set(market.baseAsset, {
+        symbol: market.baseAsset,
+        quoteAsset: market.quoteAsset,
+        priceFeedId: market.priceFeedId,
+        minPrice: market.minPrice,
+        maxPrice: market.maxPrice,
+        devPrice: market.devPrice,
+      });
+    }
+  }
+  return [...feeds.values()];
+}
+
+/**
+ * Validate a provider's price for a feed
+ * @throws Error if it fails, is outside the market's sanity bounds, or was
+ *   published longer than PRICE_STALE_THRESHOLD_MS ago (a static file that
+ *   stopped changing, a stale Hermes print): stored, it would pass as fresh
+ */
+function acceptPrice(feed: PriceFeed, sourcePrice: SourcePrice | Error | undefined): SourcePrice {
+  if (!sourcePrice) {
+    throw new Error("not returned");
+  }
+  if (sourcePrice instanceof Error) {
+    throw sourcePrice;
+  }
+  const ageMs = Date.now() - sourcePrice.publishTime.getTime();
+  if (ageMs > PRICE_STALE_THRESHOLD_MS) {
+    throw new Error(
+      `stale (published ${Math.round(ageMs / 1000)}s ago, max ${PRICE_STALE_THRESHOLD_MS / 1000}s)`
+    );
+  }
+  validatePrice(sourcePrice.price, feed);
+  validateConfidence(sourcePrice.price, sourcePrice.confidence);
+  return sourcePrice;
+}
+
+/**
+ * Ask one source for every feed
+ * @returns Its price (or Error) for each feed; null if skipped (circuit open)
+ */
+async function fetchFromSource(
+  { provider, breaker }: PriceSource,
+  feeds: PriceFeed[]
+): Promise<Map<string, SourcePrice | Error> | null> {
+  if (!breaker.canRequest()) {
+    return null;
+  }
+
+  try {
+    const sourcePrices = await provider.fetchPrices(feeds);
+    breaker.recordSuccess();
+    return sourcePrices;
+  } catch (error) {
+    breaker.recordFailure();
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(
+      `[WORKER] Price provider ${provider.name} failed (circuit ${breaker.state()}): ${message}`
+    );
+    return new Map(feeds.map((feed) => [feed.symbol, new Error(message)]));
+  }
+}
+
+/**
+ * Ingest every configured price in one pass
+ *
+ * 1. Ask every source at once, each in one batched request for every feed
+ *    (e.g. one Hermes request); a source whose circuit breaker is open is
+ *    skipped, one that throws (outage) counts a failure, one that answers
+ *    closes its breaker
+ * 2. Drop the prices that failed, are outside their market's sanity
+ *    bounds (minPrice/maxPrice), or are stale (PRICE_STALE_THRESHOLD_MS)
+ * 3. Aggregate each symbol's remaining prices: median, outliers beyond
+ *    maxDeviation rejected, at least minQuorum sources (see aggregateQuotes)
+ * 4. Write the aggregates through setPrices (one atomic transaction), then
+ *    publish one PriceUpdateEvent per symbol, each with its sources
+ *
+ * @param sources Providers and their breakers, highest priority first
+ * @param options Quorum and outlier threshold
+ */
+export async function ingestPrices(
+  sources: PriceSource[],
+  options: AggregationOptions = DEFAULT_AGGREGATION_OPTIONS
+): Promise<IngestionResult> {
+  const result: IngestionResult = { updated: {}, failed: {} };
+  const feeds = await getPriceFeeds();
+  if (feeds.length === 0) {
+    return result;
+  }
+
+  const answers = await Promise.all(sources.map((source) => fetchFromSource(source, feeds)));
+
+  for (const feed of feeds) {
+    const quotes: SourceQuote[] = [];
+    const errors: string[] = [];
+
+    sources.forEach(({ provider }, i) => {
+      const sourcePrices = answers[i];
+      if (!sourcePrices) {
+        errors.push(`${provider.name}: circuit open`);
+        return;
+      }
+      try {
+        quotes.push({ ...acceptPrice(feed, sourcePrices.get(feed.symbol)), source: provider.name });
+      } catch (error) {
+        errors.push(`${provider.name}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    });
+
+    try {
+      if (quotes.length === 0) {
+        throw new Error("no source could price it");
+      }
+
+      const ingested = aggregateQuotes(quotes, options);
+      if (ingested.aggregation.rejected.length > 0) {
+        console.warn(
+          `[WORKER] ${feed.symbol} outliers rejected: ${ingested.aggregation.rejected.join(", ")} ` +
+            `(beyond ${options.maxDeviation.times(100).toString()}% of the median)`
+        );
+      }
+      result.updated[feed.symbol] = ingested;
+    } catch (error) {
+      const reason = [error instanceof Error ? error.message : String(error), ...errors].join("; ");
+      console.error(`[WORKER] Dropping ${feed.symbol} price: ${reason}`);
+      result.failed[feed.symbol] = reason;
+    }
+  }
+
+  if (Object.keys(result.updated).length > 0) {
+    await updatePrices(result.updated);
+  }
+  return result;
+}
@@ -0,0 +1,66 @@
+import { Decimal } from "decimal.js";
+import { fetchJson, type PriceFeed, type PriceProvider, type SourcePrice } from "./types.js";
+
+/**
+ * Binance-style /api/v3/ticker/bookTicker entry (best bid and ask)
+ */
+interface BookTicker {
+  symbol: string; // e.g. 'SOLUSDC'
+  bidPrice: string;
+  askPrice: string;
+}
+
+const DEFAULT_BINANCE_URL = "https://api.binance.com";
+
+/**
+ * Exchange book ticker (Binance or any exchange serving the same REST API)
+ * The pair symbol is base + quote (SOL/USDC → SOLUSDC), all in one request
+ *
+ * Mid price = (bid + ask) / 2, confidence = half the spread: the bid/ask
+ * quoted to traders is then the exchange's own top of book
+ *
+ * @param baseUrl API base URL (defaults to BINANCE_API_URL)
+ */
+export function createBinanceProvider(
+  baseUrl: string = process.env.BINANCE_API_URL || DEFAULT_BINANCE_URL
+): PriceProvider {
+  return {
+    name: "binance",
+
+    async fetchPrices(feeds: PriceFeed[]): Promise<Map<string, SourcePrice | Error>> {
+      const pairOf = (feed: PriceFeed) => `${feed.symbol}${feed.quoteAsset}`;
+
+      const url = new URL("/api/v3/ticker/bookTicker", baseUrl);
+      url.searchParams.set("symbols", JSON.stringify(feeds.map(pairOf)));
+
+      const tickers = await fetchJson<BookTicker[]>(url);
+      if (!Array.isArray(tickers)) {
+        throw new Error("Unexpected book ticker response");
+      }
+
+      const publishTime = new Date();
+      const prices = new Map<string, SourcePrice | Error>();
+      for (const feed of feeds) {
+        const ticker = tickers.find((t) => t.symbol === pairOf(feed));
+        if (!ticker) {
+          prices.set(feed.symbol, new Error(`${pairOf(feed)} not found in book ticker response`));
+          continue;
+        }
+
+        const bid = new Decimal(ticker.bidPrice);
+        const ask = new Decimal(ticker.askPrice);
+        if (bid.gt(ask)) {
+          prices.set(feed.symbol, new Error(`${pairOf(feed)} book is crossed (bid ${bid} > ask ${ask})`));
+          continue;
+        }
+
+        prices.set(feed.symbol, {
+          price: bid.plus(ask).div(2),
+          confidence: ask.minus(bid).div(2),
+          publishTime,
+        });
+      }
+      return prices;
+    },
+  };
+}
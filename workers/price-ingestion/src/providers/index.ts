@@ -0,0 +1,109 @@
+import {
+  createCircuitBreaker,
+  DEFAULT_CIRCUIT_BREAKER_OPTIONS,
+  type CircuitBreaker,
+  type CircuitBreakerOptions,
+} from "../breaker.js";
+import { createBinanceProvider } from "./binance.js";
+import { createJupiterProvider } from "./jupiter.js";
+import { createPythProvider } from "./pyth.js";
+import { createStaticFileProvider } from "./static.js";
+import { createSyntheticProvider, syntheticOptionsFromEnv } from "./synthetic.js";
+import type { PriceProvider } from "./types.js";
+
+export {
+  createBinanceProvider,
+  createJupiterProvider,
+  createPythProvider,
+  createStaticFileProvider,
+  createSyntheticProvider,
+  syntheticOptionsFromEnv,
+};
+export type { PriceFeed, PriceProvider, SourcePrice } from "./types.js";
+export type { SyntheticOptions } from "./synthetic.js";
+
+/**
+ * A provider and its circuit breaker, in the worker's priority order
+ */
+export interface PriceSource {
+  provider: PriceProvider;
+  breaker: CircuitBreaker;
+}
+
+/**
+ * Give each provider its own circuit breaker
+ *
+ * @param providers Providers, highest priority first
+ */
+export function createPriceSources(
+  providers: PriceProvider[],
+  options: CircuitBreakerOptions = DEFAULT_CIRCUIT_BREAKER_OPTIONS
+): PriceSource[] {
+  return providers.map((provider) => ({
+    provider,
+    breaker: createCircuitBreaker(options),
+  }));
+}
+
+/**
+ * Create a provider by name (a PRICE_PROVIDERS entry)
+ * @throws Error if the name is unknown, or the provider is missing its settings
+ */
+function createProvider(name: string): PriceProvider {
+  switch (name) {
+    case "pyth":
+      return createPythProvider();
+    case "jupiter":
+      return createJupiterProvider();
+    case "binance":
+      return createBinanceProvider();
+    case "static": {
+      const filePath = process.env.PRICE_FILE_PATH;
+      if (!filePath) {
+        throw new Error("PRICE_FILE_PATH is required by the static price provider");
+      }
+      return createStaticFileProvider(filePath);
+    }
+    case "synthetic": {
+      if (process.env.NODE_ENV === "production") {
+        throw new Error("The synthetic price provider cannot be used in production");
+      }
+      const options = syntheticOptionsFromEnv();
+      console.log(
+        `[WORKER] Synthetic prices (seed ${options.seed}): development only, not market prices`
+      );
+      return createSyntheticProvider(options);
+    }
+    default:
+      throw new Error(
+        `Unknown price provider: ${name}. Supported: pyth, jupiter, binance, static, synthetic`
+      );
+  }
+}
+
+/**
+ * Price sources configured by the environment
+ *
+ * - PRICE_PROVIDERS: providers in priority order (default 'pyth'), e.g. 'pyth,jupiter,binance'
+ *   ('synthetic' alone for offline development, see syntheticOptionsFromEnv)
+ * - PRICE_PROVIDER_FAILURE_THRESHOLD / PRICE_PROVIDER_COOLDOWN_MS: circuit breaker settings
+ * - PRICE_PROVIDER_TIMEOUT_MS: per request, read by each fetch (see providerTimeoutMs)
+ *
+ * @throws Error if a provider is unknown or misconfigured
+ */
+export function createPriceSourcesFromEnv(): PriceSource[] {
+  const names = (process.env.PRICE_PROVIDERS || "pyth")
+    .split(",")
+    .map((name) => name.trim().toLowerCase())
+    .filter(Boolean);
+
+  const options: CircuitBreakerOptions = {
+    failureThreshold:
+      Number(process.env.PRICE_PROVIDER_FAILURE_THRESHOLD) ||
+      DEFAULT_CIRCUIT_BREAKER_OPTIONS.failureThreshold,
+    cooldownMs:
+      Number(process.env.PRICE_PROVIDER_COOLDOWN_MS) || DEFAULT_CIRCUIT_BREAKER_OPTIONS.cooldownMs,
+  };
+
+  return createPriceSources(names.map(createProvider), options);
+}
@@ -0,0 +1,65 @@
+import { Decimal } from "decimal.js";
+import { fetchJson, type PriceFeed, type PriceProvider, type SourcePrice } from "./types.js";
+
+/**
+ * Jupiter Price API v2 response structure
+ * See: https://station.jup.ag/docs/utility/price-api
+ */
+interface JupiterPriceResponse {
+  data: Record<string, { id: string; price: string | number } | null>;
+}
+
+const DEFAULT_JUPITER_URL = "https://api.jup.ag/price/v2";
+
+// Jupiter identifies tokens by mint; an asset not listed here is sent as its symbol
+const JUPITER_MINTS: Record<string, string> = {
+  SOL: "So11111111111111111111111111111111111111112",
+  USDC: "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v",
+  JUP: "JUPyiwrYJFskUPiHa7hkeR8VUtAeFoSYbKedZNsDvCN",
+  JTO: "jtojtomepa8beP8AuQc6eXt5FriJwfFMwQx2v2f9mCL",
+};
+
+const jupiterId = (asset: string) => JUPITER_MINTS[asset] ?? asset;
+
+/**
+ * Jupiter aggregator prices (Solana DEX liquidity)
+ * One request per quote asset (vsToken); no confidence (bid = ask = price)
+ *
+ * @param baseUrl Price API endpoint (defaults to JUPITER_PRICE_URL)
+ */
+export function createJupiterProvider(
+  baseUrl: string = process.env.JUPITER_PRICE_URL || DEFAULT_JUPITER_URL
+): PriceProvider {
+  return {
+    name: "jupiter",
+
+    async fetchPrices(feeds: PriceFeed[]): Promise<Map<string, SourcePrice | Error>> {
+      const prices = new Map<string, SourcePrice | Error>();
+      const quoteAssets = [...new Set(feeds.map((feed) => feed.quoteAsset))];
+
+      for (const quoteAsset of quoteAssets) {
+        const quoteFeeds = feeds.filter((feed) => feed.quoteAsset === quoteAsset);
+        const url = new URL(baseUrl);
+        url.searchParams.set("ids", quoteFeeds.map((feed) => jupiterId(feed.symbol)).join(","));
+        url.searchParams.set("vsToken", jupiterId(quoteAsset));
+
+        const { data } = await fetchJson<JupiterPriceResponse>(url);
+        if (!data) {
+          throw new Error("No price data returned from Jupiter");
+        }
+
+        const publishTime = new Date();
+        for (const feed of quoteFeeds) {
+          const entry = data[jupiterId(feed.symbol)];
+          prices.set(
+            feed.symbol,
+            entry
+              ? { price: new Decimal(String(entry.price)), confidence: new Decimal(0), publishTime }
+              : new Error(`${feed.symbol}/${quoteAsset} not found in Jupiter response`)
+          );
+        }
+      }
+      return prices;
+    },
+  };
+}
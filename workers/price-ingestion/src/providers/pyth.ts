@@ -0,0 +1,37 @@
+import { fetchPythPrices } from "../pyth.js";
+import type { PriceFeed, PriceProvider, SourcePrice } from "./types.js";
+
+/**
+ * Pyth Network, via the Hermes REST API (see fetchPythPrices)
+ * Prices a market through its registry priceFeedId, with Pyth's confidence
+ *
+ * @param hermesUrl Hermes base URL (defaults to PYTH_NETWORK_URL)
+ */
+export function createPythProvider(hermesUrl?: string): PriceProvider {
+  return {
+    name: "pyth",
+
+    async fetchPrices(feeds: PriceFeed[]): Promise<Map<string, SourcePrice | Error>> {
+      const prices = new Map<string, SourcePrice | Error>();
+      const pythFeeds = feeds.filter((feed) => feed.priceFeedId);
+
+      for (const feed of feeds) {
+        if (!feed.priceFeedId) {
+          prices.set(feed.symbol, new Error(`${feed.symbol} has no Pyth price feed`));
+        }
+      }
+      if (pythFeeds.length === 0) {
+        return prices;
+      }
+
+      const pythPrices = await fetchPythPrices(
+        pythFeeds.map((feed) => feed.priceFeedId!),
+        hermesUrl
+      );
+      for (const feed of pythFeeds) {
+        prices.set(feed.symbol, pythPrices.get(feed.priceFeedId!)!);
+      }
+      return prices;
+    },
+  };
+}
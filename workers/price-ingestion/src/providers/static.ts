@@ -0,0 +1,44 @@
+import { readFile, stat } from "node:fs/promises";
+import { Decimal } from "decimal.js";
+import type { PriceFeed, PriceProvider, SourcePrice } from "./types.js";
+
+/**
+ * Price file structure: symbol → price, or price and confidence
+ * e.g. { "SOL": "150.25", "JUP": { "price": "0.85", "confidence": "0.002" } }
+ */
+type PriceFile = Record<string, string | number | { price: string | number; confidence?: string | number }>;
+
+/**
+ * Prices read from a JSON file (last resort, or offline development)
+ * The file is re-read on every fetch, so editing it moves the prices;
+ * its modification time is the prices' publish time
+ *
+ * @param filePath Path of the price file (PRICE_FILE_PATH)
+ */
+export function createStaticFileProvider(filePath: string): PriceProvider {
+  return {
+    name: "static",
+
+    async fetchPrices(feeds: PriceFeed[]): Promise<Map<string, SourcePrice | Error>> {
+      const [content, stats] = await Promise.all([readFile(filePath, "utf8"), stat(filePath)]);
+      const file = JSON.parse(content) as PriceFile;
+
+      const prices = new Map<string, SourcePrice | Error>();
+      for (const feed of feeds) {
+        const entry = file[feed.symbol];
+        if (entry === undefined) {
+          prices.set(feed.symbol, new Error(`${feed.symbol} not found in ${filePath}`));
+          continue;
+        }
+
+        const { price, confidence = 0 } = typeof entry === "object" ? entry : { price: entry };
+        prices.set(feed.symbol, {
+          price: new Decimal(price),
+          confidence: new Decimal(confidence),
+          publishTime: stats.mtime,
+        });
+      }
+      return prices;
+    },
+  };
+}
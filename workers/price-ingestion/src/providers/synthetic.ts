@@ -0,0 +1,222 @@
+import { Decimal } from "decimal.js";
+import type { PriceFeed, PriceProvider, SourcePrice } from "./types.js";
+
+const MS_PER_YEAR = 365.25 * 24 * 60 * 60 * 1000;
+
+/**
+ * Synthetic price process settings
+ * Rates and volatilities are annualized, as quoted for real assets
+ */
+export interface SyntheticOptions {
+  seed: number;       // Same seed, same settings → same price paths
+  drift: number;      // Expected log return per year (e.g. 0.1)
+  volatility: number; // Standard deviation of the log return per year (e.g. 0.8 = 80%)
+  stepMs: number;     // Simulated time each fetch advances (the worker's update interval)
+  confidence: number; // Reported confidence, as a fraction of the price (gives a bid/ask spread)
+  jumps?: {
+    intensity: number;  // Expected jumps per year (365 = one a day)
+    mean: number;       // Mean log jump size (e.g. -0.05 ≈ a 5% drop)
+    volatility: number; // Standard deviation of the log jump size
+  };
+  regimes?: {
+    switchProbability: number; // Chance, each step, of switching to the other regime
+    drift: number;             // The alternate regime's drift...
+    volatility: number;        // ...and volatility (e.g. a turbulent market)
+  };
+}
+
+export const DEFAULT_SYNTHETIC_OPTIONS: Omit<SyntheticOptions, "seed"> = {
+  drift: 0,
+  volatility: 0.8, // Typical of a large crypto asset
+  stepMs: 10 * 1000,
+  confidence: 0.0005, // 5 bps either side
+};
+
+/**
+ * Seeded uniform random numbers in [0, 1) (mulberry32)
+ */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Standard normal draw (Box-Muller)
+ */
+function normal(random: () => number): number {
+  const u = 1 - random(); // (0, 1]: log(0) is -Infinity
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * random());
+}
+
+/**
+ * Mix a symbol into the seed (FNV-1a): each symbol follows its own path,
+ * unchanged by markets being listed or delisted
+ */
+function symbolSeed(seed: number, symbol: string): number {
+  let hash = 0x811c9dc5 ^ (seed >>> 0);
+  for (const char of symbol) {
+    hash = Math.imul(hash ^ char.charCodeAt(0), 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+interface PricePath {
+  price: number;
+  alternate: boolean; // In the alternate regime
+  random: () => number;
+}
+
+/**
+ * Simulated prices, for development and demos without network access
+ *
+ * Each symbol follows a geometric Brownian motion from its market's devPrice,
+ * one step of stepMs per fetch:
+ *
+ *   price × exp((drift - volatility² / 2) × dt + volatility × √dt × Z)
+ *
+ * - jumps: with probability 1 - exp(-intensity × dt) a step also moves by
+ *   exp(N(mean, volatility)): crashes and squeezes (Merton jump diffusion)
+ * - regimes: each step may switch between the base and the alternate
+ *   drift/volatility (e.g. calm and turbulent markets)
+ *
+ * The prices go through ingestion like any other provider's, so charts,
+ * candles and order execution see them move
+ */
+export function createSyntheticProvider(options: SyntheticOptions): PriceProvider {
+  const { seed, stepMs, confidence, jumps, regimes } = options;
+  const dt = stepMs / MS_PER_YEAR;
+  const paths = new Map<string, PricePath>();
+
+  const step = (path: PricePath): void => {
+    if (regimes && path.random() < regimes.switchProbability) {
+      path.alternate = !path.alternate;
+    }
+    const { drift, volatility } = path.alternate ? regimes! : options;
+
+    let logReturn =
+      (drift - (volatility * volatility) / 2) * dt + volatility * Math.sqrt(dt) * normal(path.random);
+    if (jumps && path.random() < 1 - Math.exp(-jumps.intensity * dt)) {
+      logReturn += jumps.mean + jumps.volatility * normal(path.random);
+    }
+    path.price *= Math.exp(logReturn);
+  };
+
+  return {
+    name: "synthetic",
+
+    async fetchPrices(feeds: PriceFeed[]): Promise<Map<string, SourcePrice | Error>> {
+      const prices = new Map<string, SourcePrice | Error>();
+      for (const feed of feeds) {
+        let path = paths.get(feed.symbol);
+        if (!path) {
+          if (!feed.devPrice) {
+            prices.set(feed.symbol, new Error(`${feed.symbol} has no devPrice to start from`));
+            continue;
+          }
+          path = {
+            price: feed.devPrice.toNumber(),
+            alternate: false,
+            random: createRandom(symbolSeed(seed, feed.symbol)),
+          };
+          paths.set(feed.symbol, path);
+        } else {
+          step(path);
+        }
+
+        const price = new Decimal(path.price).toSignificantDigits(8);
+        prices.set(feed.symbol, {
+          price,
+          confidence: price.times(confidence).toSignificantDigits(4),
+          publishTime: new Date(),
+        });
+      }
+      return prices;
+    },
+  };
+}
+
+/**
+ * A numeric setting, or its default when unset (range: >= 0 unless given)
+ * @throws Error if it is set and not a number in range
+ */
+function numberFromEnv(
+  name: string,
+  fallback: number,
+  { min = 0, max = Infinity, exclusiveMin = false } = {}
+): number {
+  const raw = process.env[name];
+  if (!raw) {
+    return fallback;
+  }
+  const value = Number(raw);
+  if (!Number.isFinite(value) || value < min || (exclusiveMin && value === min) || value > max) {
+    const range =
+      min === -Infinity
+        ? "a number"
+        : max === Infinity
+          ? `${exclusiveMin ? ">" : ">="} ${min}`
+          : `between ${min} and ${max}`;
+    throw new Error(`Invalid ${name}: ${raw}. Must be ${range}`);
+  }
+  return value;
+}
+
+/**
+ * Synthetic price settings from the environment
+ *
+ * - SYNTHETIC_SEED: integer seed (default: random, logged so a run can be replayed)
+ * - SYNTHETIC_DRIFT / SYNTHETIC_VOLATILITY: annualized (default 0 / 0.8)
+ * - SYNTHETIC_STEP_MS: simulated time per update (default 10000)
+ * - SYNTHETIC_CONFIDENCE: confidence as a fraction of the price (default 0.0005)
+ * - SYNTHETIC_JUMP_INTENSITY: jumps per year, enables jumps;
+ *   SYNTHETIC_JUMP_MEAN / SYNTHETIC_JUMP_VOLATILITY: log jump size (default 0 / 0.05)
+ * - SYNTHETIC_REGIME_SWITCH_PROBABILITY: per step, enables regimes;
+ *   SYNTHETIC_REGIME_DRIFT / SYNTHETIC_REGIME_VOLATILITY: the alternate regime
+ *   (default: the base drift, 3× the base volatility)
+ *
+ * @throws Error if a setting is invalid
+ */
+export function syntheticOptionsFromEnv(): SyntheticOptions {
+  const rawSeed = process.env.SYNTHETIC_SEED;
+  const seed = rawSeed ? Number(rawSeed) : Math.floor(Math.random() * 2 ** 32);
+  if (!Number.isInteger(seed) || seed < 0) {
+    throw new Error(`Invalid SYNTHETIC_SEED: ${rawSeed}. Must be a non-negative integer`);
+  }
+
+  const drift = numberFromEnv("SYNTHETIC_DRIFT", DEFAULT_SYNTHETIC_OPTIONS.drift, { min: -Infinity });
+  const volatility = numberFromEnv("SYNTHETIC_VOLATILITY", DEFAULT_SYNTHETIC_OPTIONS.volatility);
+  const options: SyntheticOptions = {
+    seed,
+    drift,
+    volatility,
+    stepMs: numberFromEnv("SYNTHETIC_STEP_MS", DEFAULT_SYNTHETIC_OPTIONS.stepMs, { exclusiveMin: true }),
+    // At most what validateConfidence accepts (2%)
+    confidence: numberFromEnv("SYNTHETIC_CONFIDENCE", DEFAULT_SYNTHETIC_OPTIONS.confidence, { max: 0.02 }),
+  };
+
+  const jumpIntensity = numberFromEnv("SYNTHETIC_JUMP_INTENSITY", 0);
+  if (jumpIntensity > 0) {
+    options.jumps = {
+      intensity: jumpIntensity,
+      mean: numberFromEnv("SYNTHETIC_JUMP_MEAN", 0, { min: -Infinity }),
+      volatility: numberFromEnv("SYNTHETIC_JUMP_VOLATILITY", 0.05),
+    };
+  }
+
+  const switchProbability = numberFromEnv("SYNTHETIC_REGIME_SWITCH_PROBABILITY", 0, { max: 1 });
+  if (switchProbability > 0) {
+    options.regimes = {
+      switchProbability,
+      drift: numberFromEnv("SYNTHETIC_REGIME_DRIFT", drift, { min: -Infinity }),
+      volatility: numberFromEnv("SYNTHETIC_REGIME_VOLATILITY", volatility * 3),
+    };
+  }
+
+  return options;
+}
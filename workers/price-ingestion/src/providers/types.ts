@@ -0,0 +1,79 @@
+import type { Decimal } from "decimal.js";
+import type { PriceBounds } from "../validate.js";
+
+/**
+ * A price to ingest: one per base asset of the active markets (market registry)
+ */
+export interface PriceFeed extends PriceBounds {
+  symbol: string;             // Market base asset the price is keyed by (e.g. 'SOL')
+  quoteAsset: string;         // e.g. 'USDC'
+  priceFeedId: string | null; // Pyth price feed ID
+  devPrice?: Decimal | null;  // Development price, where synthetic price paths start
+}
+
+/**
+ * A price as a provider reports it
+ */
+export interface SourcePrice {
+  price: Decimal;
+  confidence: Decimal; // Bid/ask spread source; 0 when the provider has none
+  publishTime: Date;
+}
+
+/**
+ * A source of prices (Pyth, Jupiter, an exchange ticker, a file...)
+ *
+ * fetchPrices prices a batch of feeds:
+ * - a feed the provider cannot price gets an Error entry, the others are still usable
+ * - it throws if the provider itself is unreachable or answers garbage
+ *   (this is what trips its circuit breaker)
+ */
+export interface PriceProvider {
+  name: string; // Recorded with each price it produces (e.g. 'pyth')
+  fetchPrices(feeds: PriceFeed[]): Promise<Map<string, SourcePrice | Error>>; // Keyed by symbol
+}
+
+const DEFAULT_PROVIDER_TIMEOUT_MS = 5000;
+
+/**
+ * How long a provider request may take (PRICE_PROVIDER_TIMEOUT_MS, default 5000)
+ * A provider that hangs then fails like one that is down, and trips its circuit breaker
+ */
+export function providerTimeoutMs(): number {
+  return Number(process.env.PRICE_PROVIDER_TIMEOUT_MS) || DEFAULT_PROVIDER_TIMEOUT_MS;
+}
+
+/**
+ * Why a provider request failed, naming the timeout (fetch only says it was aborted)
+ */
+export function requestErrorMessage(error: unknown, timeoutMs: number): string {
+  if (error instanceof Error && error.name === "TimeoutError") {
+    return `Request timed out after ${timeoutMs}ms`;
+  }
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * GET a JSON document from a provider's HTTP API
+ * @throws Error on a network failure, a non-2xx status or a timeout (providerTimeoutMs)
+ */
+export async function fetchJson<T>(url: URL): Promise<T> {
+  const timeoutMs = providerTimeoutMs();
+  try {
+    const response = await fetch(url.toString(), {
+      method: "GET",
+      headers: {
+        Accept: "application/json",
+      },
+      signal: AbortSignal.timeout(timeoutMs), // Also bounds reading the body
+    });
+
+    if (!response.ok) {
+      throw new Error(`Request failed with status ${response.status}: ${response.statusText}`);
+    }
+
+    return (await response.json()) as T;
+  } catch (error) {
+    throw new Error(requestErrorMessage(error, timeoutMs));
+  }
+}
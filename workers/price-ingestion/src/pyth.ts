@@ -1,4 +1,6 @@
 import { Decimal } from "decimal.js";
+import { providerTimeoutMs, requestErrorMessage } from "./providers/types.js";
+import { validateConfidence, validatePrice } from "./validate.js";
 
 /**
  * Pyth Hermes API response structure
@@ -25,7 +27,7 @@ interface PythParsedPriceUpdate {
   };
 }
 
-interface PythHermesResponse {
+export interface PythHermesResponse {
   binary: {
     encoding: string;
     data: string[];
@@ -33,39 +35,95 @@ interface PythHermesResponse {
   parsed: PythParsedPriceUpdate[];
 }
 
-// SOL/USD price feed ID from Pyth Network
-// Source: https://docs.pyth.network/price-feeds/price-feeds
-const SOL_USD_PRICE_FEED_ID =
-  "0xef0d8b6fda2ceba41da15d4095d1da392a0d2f8ed0c6c7bc0f4cfac8c280b56d";
+/**
+ * A Pyth price with its confidence interval, exponent applied
+ */
+export interface PythPrice {
+  price: Decimal;
+  confidence: Decimal; // Bid/ask spread source (see calculateQuote in @repo/pricing)
+  emaPrice: Decimal;
+  emaConfidence: Decimal;
+  publishTime: Date;
+}
+
+const DEFAULT_HERMES_URL = "https://hermes.pyth.network";
 
 /**
- * Fetch SOL/USD price from Pyth oracle via Hermes REST API
+ * Apply a Pyth exponent (e.g., 23050000000 * 10^-8 = 230.50)
+ */
+function applyExponent(value: string, exponent: number): Decimal {
+  return new Decimal(value).mul(new Decimal(10).pow(exponent));
+}
+
+/**
+ * Extract one feed's price and confidence from a Hermes response
  *
- * Uses Pyth's Hermes service (no auth needed)
- * Returns the latest SOL/USD price with proper decimal adjustment
+ * @param feedId Pyth price feed ID (a market's priceFeedId, with or without 0x)
+ * @throws Error if the response is empty or the feed's update is missing
+ */
+export function parsePythPriceUpdate(data: PythHermesResponse, feedId: string): PythPrice {
+  if (!data.parsed || data.parsed.length === 0) {
+    throw new Error("No price data returned from Pyth Hermes API");
+  }
+
+  const id = feedId.replace(/^0x/, "").toLowerCase();
+  const priceData = data.parsed.find((p) => p.id.toLowerCase() === id);
+
+  if (!priceData || !priceData.price) {
+    throw new Error(`Price feed ${feedId} not found in Pyth Hermes response`);
+  }
+
+  const { price, ema_price: emaPrice } = priceData;
+
+  return {
+    price: applyExponent(price.price, price.expo),
+    confidence: applyExponent(price.conf, price.expo),
+    emaPrice: applyExponent(emaPrice.price, emaPrice.expo),
+    emaConfidence: applyExponent(emaPrice.conf, emaPrice.expo),
+    publishTime: new Date(price.publish_time * 1000),
+  };
+}
+
+/**
+ * Fetch several prices from the Pyth oracle in one Hermes REST API request
+ *
+ * Uses Pyth's Hermes service (no auth needed, PYTH_NETWORK_URL overrides it)
+ * Returns each feed's latest price and confidence with proper decimal adjustment
+ *
+ * Example (SOL/USD):
+ * - API returns price: "23050000000", conf: "11500000" with expo: -8
+ * - Real price: 23050000000 * 10^-8 = $230.50, confidence ±$0.115
  *
- * Example:
- * - API returns price: "23050000000" with expo: -8
- * - Real price: 23050000000 * 10^-8 = $230.50
+ * A feed missing from the response, or with an invalid price or confidence,
+ * fails on its own: its entry is the Error, the other feeds are still usable.
  *
- * @returns SOL price as Decimal (e.g., "230.50")
- * @throws Error if fetch fails or price is invalid
+ * @param feedIds Pyth price feed IDs, from the market registry (priceFeedId)
+ * @returns Map of feed ID (as given) → price and confidence, or why it failed
+ * @throws Error if the request fails, times out (PRICE_PROVIDER_TIMEOUT_MS) or
+ *   returns no price data at all
  */
-export async function fetchSolPriceFromPyth(): Promise<Decimal> {
-  const hermesUrl = "https://hermes.pyth.network";
+export async function fetchPythPrices(
+  feedIds: string[],
+  hermesUrl: string = process.env.PYTH_NETWORK_URL || DEFAULT_HERMES_URL
+): Promise<Map<string, PythPrice | Error>> {
   const endpoint = `/v2/updates/price/latest`;
+  const timeoutMs = providerTimeoutMs();
+  let data: PythHermesResponse;
 
   try {
-    // Build URL with price feed ID as query param
+    // Build URL with every price feed ID as query param
     const url = new URL(endpoint, hermesUrl);
-    url.searchParams.append("ids[]", SOL_USD_PRICE_FEED_ID);
-    console.log(`Fetching SOL price from Pyth Hermes API: ${url.toString()}`);
+    for (const feedId of feedIds) {
+      url.searchParams.append("ids[]", feedId);
+    }
+    console.log(`Fetching ${feedIds.length} price(s) from Pyth Hermes API: ${url.toString()}`);
 
     const response = await fetch(url.toString(), {
       method: "GET",
       headers: {
         Accept: "application/json",
       },
+      signal: AbortSignal.timeout(timeoutMs), // Also bounds reading the body
     });
 
     if (!response.ok) {
@@ -74,66 +132,46 @@ export async function fetchSolPriceFromPyth(): Promise<Decimal> {
       );
     }
 
-    const data: PythHermesResponse = await response.json();
+    data = (await response.json()) as PythHermesResponse;
 
-    // Extract SOL/USD price from parsed response
     if (!data.parsed || data.parsed.length === 0) {
       throw new Error("No price data returned from Pyth Hermes API");
     }
+  } catch (error) {
+    throw new Error(`Failed to fetch prices from Pyth: ${requestErrorMessage(error, timeoutMs)}`);
+  }
 
-    const solPriceData = data.parsed.find(
-      (p) => p.id === SOL_USD_PRICE_FEED_ID.replace("0x", "")
-    );
-
-    if (!solPriceData || !solPriceData.price) {
-      throw new Error("SOL/USD price data not found in Pyth Hermes response");
+  const prices = new Map<string, PythPrice | Error>();
+  for (const feedId of feedIds) {
+    try {
+      // Extract the feed's price and confidence from parsed response
+      const pythPrice = parsePythPriceUpdate(data, feedId);
+
+      validatePrice(pythPrice.price);
+      validateConfidence(pythPrice.price, pythPrice.confidence);
+      prices.set(feedId, pythPrice);
+    } catch (error) {
+      prices.set(feedId, error instanceof Error ? error : new Error(String(error)));
     }
-
-    const rawPrice = solPriceData.price.price;
-    const exponent = solPriceData.price.expo;
-
-    // Adjust price using exponent (e.g., 23050000000 * 10^-8 = 230.50)
-    const adjustedPrice = new Decimal(rawPrice).mul(
-      new Decimal(10).pow(exponent)
-    );
-
-    validatePrice(adjustedPrice);
-    return adjustedPrice;
-  } catch (error) {
-    throw new Error(
-      `Failed to fetch SOL price from Pyth: ${error instanceof Error ? error.message : String(error)}`
-    );
   }
+  return prices;
 }
 
 /**
- * Validate price is reasonable
+ * Fetch one price from the Pyth oracle (see fetchPythPrices)
  *
- * Checks:
- * - Not NaN or Infinity
- * - Greater than 0
- * - Less than $10,000 (sanity check for devnet)
- *
- * @throws Error if price is invalid
+ * @param feedId Pyth price feed ID, from the market registry (priceFeedId)
+ * @returns Price and confidence (e.g., 230.50 ± 0.115)
+ * @throws Error if fetch fails or price/confidence is invalid
  */
-
-export function validatePrice(price: Decimal): void {
-  // Check for NaN/Infinity
-  if (!price.isFinite()) {
-    throw new Error(
-      `Invalid price: ${price.toString()} is not finite (NaN/Infinity)`
-    );
-  }
-
-  // Check positive
-  if (price.lte(0)) {
-    throw new Error(`Invalid price: ${price.toString()} must be > 0`);
-  }
-
-  // Sanity check: SOL should never be $1000
-  if (price.gt(1000)) {
-    throw new Error(
-      `Suspicious price: ${price.toString()} seems too high for SOL/USD`
-    );
+export async function fetchPythPrice(
+  feedId: string,
+  hermesUrl?: string
+): Promise<PythPrice> {
+  const pythPrice = (await fetchPythPrices([feedId], hermesUrl)).get(feedId)!;
+
+  if (pythPrice instanceof Error) {
+    throw new Error(`Failed to fetch price feed ${feedId} from Pyth: ${pythPrice.message}`);
   }
+  return pythPrice;
 }
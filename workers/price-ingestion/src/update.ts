@@ -1,34 +1,75 @@
-import { Decimal } from "decimal.js";
-import { setPrice } from "@repo/pricing";
+import { calculateQuote, setPrices, type PriceAggregation } from "@repo/pricing";
+import type { Decimal } from "decimal.js";
 import { publishPriceUpdate } from "@repo/events";
+import type { SourcePrice } from "./providers/index.js";
 
 /**
- * Update SOL price in Redis cache AND broadcast to WebSocket clients
+ * A price to write, the provider(s) it came from and how it was aggregated
+ */
+export interface IngestedPrice extends SourcePrice {
+  source: string; // e.g. 'pyth', or 'pyth,binance' for a median of both
+  aggregation?: PriceAggregation;
+}
+
+/**
+ * Update prices in Redis cache AND broadcast them to WebSocket clients
  *
- * This writes to:
- * - Key: trading:price:SOL (the price)
+ * This writes, for each symbol (e.g. for SOL):
+ * - Key: trading:price:SOL (the mid price)
  * - Key: trading:price:SOL:ts (the server timestamp)
+ * - Key: trading:price:SOL:conf (the confidence, bid/ask spread source)
+ * - Key: trading:price:SOL:src (the provider(s), e.g. 'pyth,binance')
+ * - Key: trading:price:SOL:agg (sources, outliers, quorum and deviation)
  *
- * Uses setPrice() from @repo/pricing which handles:
- * - Atomic Redis writes
- * - Server-side timestamp (never client time)
- * - JSON serialization
- * 
- * @param price Current SOL/USD price as Decimal
+ * Uses setPrices() from @repo/pricing which handles:
+ * - One atomic Redis transaction for every symbol (all written or none)
+ * - Server-side timestamp (never client time), the same for all
+ *
+ * Then publishes one PriceUpdateEvent per symbol.
+ *
+ * @param ingestedPrices Map of market base asset the price is keyed by (e.g. 'SOL')
+ *   → current price, confidence and source
  */
-export async function updateSolPrice(price: Decimal): Promise<void> {
+export async function updatePrices(ingestedPrices: Record<string, IngestedPrice>): Promise<void> {
+  const prices: Record<string, Decimal> = {};
+  const confidences: Record<string, Decimal> = {};
+  const sources: Record<string, string> = {};
+  const aggregations: Record<string, PriceAggregation> = {};
+  for (const [symbol, { price, confidence, source, aggregation }] of Object.entries(ingestedPrices)) {
+    prices[symbol] = price;
+    confidences[symbol] = confidence;
+    sources[symbol] = source;
+    if (aggregation) {
+      aggregations[symbol] = aggregation;
+    }
+  }
+
   try {
     // Update Redis cache
-    await setPrice("SOL", price);
+    const timestamp = new Date();
+    await setPrices(prices, timestamp, confidences, sources, aggregations);
 
-    // Publish event for WebSocket broadcast
-    await publishPriceUpdate("SOL", price.toString());
+    // Publish events for WebSocket broadcast
+    for (const [symbol, { price, confidence, source }] of Object.entries(ingestedPrices)) {
+      const quote = calculateQuote(price, confidence);
+      await publishPriceUpdate(
+        symbol,
+        price.toString(),
+        {
+          bid: quote.bid.toString(),
+          ask: quote.ask.toString(),
+          confidence: confidence.toString(),
+        },
+        source
+      );
 
-    console.log(
-      `Updated SOL price in Redis: $${price.toString()} at ${new Date().toISOString()}`
-    );
+      console.log(
+        `Updated ${symbol} price in Redis from ${source}: $${price.toString()} ` +
+          `(bid $${quote.bid.toString()} / ask $${quote.ask.toString()}) at ${timestamp.toISOString()}`
+      );
+    }
   } catch (error) {
-    console.error("Error updating SOL price in Redis:", error);
+    console.error(`Error updating ${Object.keys(ingestedPrices).join(", ")} prices in Redis:`, error);
     throw error;
   }
 }
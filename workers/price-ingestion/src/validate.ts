@@ -0,0 +1,76 @@
+/**
+ * Price Validation
+ * Checks every ingested price passes, whichever provider it came from
+ */
+
+import { Decimal } from "decimal.js";
+
+/**
+ * Sanity bounds on a feed's price (a market's minPrice/maxPrice, null = unbounded)
+ */
+export interface PriceBounds {
+  minPrice?: Decimal | null;
+  maxPrice?: Decimal | null;
+}
+
+// Widest confidence accepted, as a fraction of the price: beyond this the
+// publishers disagree too much for the price to be traded on
+const MAX_CONFIDENCE_RATIO = "0.02";
+
+/**
+ * Validate price is reasonable
+ *
+ * Checks:
+ * - Not NaN or Infinity
+ * - Greater than 0
+ * - Within the market's sanity bounds, if it has any (minPrice/maxPrice
+ *   in the registry): catches a misapplied exponent or a wrong feed
+ *
+ * @throws Error if price is invalid
+ */
+
+export function validatePrice(price: Decimal, bounds: PriceBounds = {}): void {
+  // Check for NaN/Infinity
+  if (!price.isFinite()) {
+    throw new Error(
+      `Invalid price: ${price.toString()} is not finite (NaN/Infinity)`
+    );
+  }
+
+  // Check positive
+  if (price.lte(0)) {
+    throw new Error(`Invalid price: ${price.toString()} must be > 0`);
+  }
+
+  const { minPrice, maxPrice } = bounds;
+  if ((minPrice && price.lt(minPrice)) || (maxPrice && price.gt(maxPrice))) {
+    throw new Error(
+      `Suspicious price: ${price.toString()} is outside ` +
+        `[${minPrice?.toString() ?? "0"}, ${maxPrice?.toString() ?? "∞"}]`
+    );
+  }
+}
+
+/**
+ * Validate a confidence interval is usable for a bid/ask spread
+ *
+ * Checks:
+ * - Finite and >= 0
+ * - At most MAX_CONFIDENCE_RATIO (2%) of the price
+ *
+ * @throws Error if confidence is invalid
+ */
+export function validateConfidence(price: Decimal, confidence: Decimal): void {
+  if (!confidence.isFinite() || confidence.isNegative()) {
+    throw new Error(
+      `Invalid confidence: ${confidence.toString()} must be finite and >= 0`
+    );
+  }
+
+  if (confidence.gt(price.times(MAX_CONFIDENCE_RATIO))) {
+    throw new Error(
+      `Confidence too wide: ±${confidence.toString()} on ${price.toString()} ` +
+        `exceeds ${new Decimal(MAX_CONFIDENCE_RATIO).times(100).toString()}% of the price`
+    );
+  }
+}
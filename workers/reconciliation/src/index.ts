@@ -0,0 +1,52 @@
+/**
+ * Reconciliation Worker
+ * 
+ * Separate worker that proves the ledger is consistent: every
+ * RECONCILIATION_INTERVAL_MS it recomputes each user's balances and
+ * positions from INITIAL_BALANCE and the trade ledger and records any drift.
+ * 
+ * Architecture:
+ * - Runs at startup, then once per interval (never overlapping)
+ * - Reconciles each user through runReconciliation() (one transaction per
+ *   user, holding their balance rows so no trade lands mid-check)
+ * - Stores every run and its drifts (GET /admin/reconciliation)
+ * - With RECONCILIATION_AUTO_REPAIR=true, resets drifted balances and
+ *   positions to the ledger in the same transaction
+ * 
+ * This worker does NOT:
+ * - Rebuild tax lots for a repaired position
+ * - Alert on drift (drifts are logged and stored)
+ */
+
+import { initDb, shutdownDb } from "@repo/db";
+import { startReconciliationSchedule } from "./scheduler.js";
+
+async function main() {
+  console.log("[RECONCILIATION-WORKER] Starting reconciliation worker...");
+
+  // Initialize PostgreSQL (ledger, balances, positions)
+  await initDb();
+
+  // Reconcile now and at every interval
+  const stopSchedule = startReconciliationSchedule();
+
+  // Graceful shutdown
+  const shutdown = async (signal: string) => {
+    console.log(`[RECONCILIATION-WORKER] ${signal} received, shutting down...`);
+    try {
+      stopSchedule();
+      await shutdownDb();
+    } catch (e) {
+      // Ignore errors during shutdown
+    }
+    process.exit(0);
+  };
+
+  process.on("SIGINT", () => void shutdown("SIGINT"));
+  process.on("SIGTERM", () => void shutdown("SIGTERM"));
+}
+
+main().catch((error) => {
+  console.error("[RECONCILIATION-WORKER] Fatal error:", error);
+  process.exit(1);
+});
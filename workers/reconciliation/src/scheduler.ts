@@ -0,0 +1,79 @@
+/**
+ * Reconciliation Schedule
+ * 
+ * Runs a ledger reconciliation every RECONCILIATION_INTERVAL_MS, the first
+ * one at startup. A run never overlaps the previous one: the next is
+ * scheduled once it finishes.
+ */
+
+import { runReconciliation } from "@repo/trading";
+
+const DEFAULT_INTERVAL_MS = 60 * 60 * 1000; // 1 hour
+
+/**
+ * Read RECONCILIATION_INTERVAL_MS and RECONCILIATION_AUTO_REPAIR
+ * @throws Error if the interval is not a positive number
+ */
+function getScheduleConfig(): { intervalMs: number; repair: boolean } {
+  const intervalMs = Number(
+    process.env.RECONCILIATION_INTERVAL_MS || DEFAULT_INTERVAL_MS
+  );
+  if (!Number.isFinite(intervalMs) || intervalMs <= 0) {
+    throw new Error(
+      `Invalid RECONCILIATION_INTERVAL_MS: ${process.env.RECONCILIATION_INTERVAL_MS}. Must be > 0`
+    );
+  }
+
+  return {
+    intervalMs,
+    repair: process.env.RECONCILIATION_AUTO_REPAIR === "true",
+  };
+}
+
+/**
+ * Reconcile now, then every interval
+ * @returns Function that stops the schedule
+ */
+export function startReconciliationSchedule(): () => void {
+  const { intervalMs, repair } = getScheduleConfig();
+  let timer: NodeJS.Timeout | null = null;
+  let stopped = false;
+
+  console.log(
+    `[RECONCILIATION-WORKER] Every ${intervalMs}ms, auto-repair ${repair ? "on" : "off"}`
+  );
+
+  const reconcile = async () => {
+    try {
+      const report = await runReconciliation({ repair });
+
+      console.log(
+        `[RECONCILIATION-WORKER] Run ${report.runId}: ${report.usersChecked} user(s), ` +
+          `${report.driftCount} drift(s)`
+      );
+
+      for (const drift of report.drifts) {
+        console.warn(
+          `[RECONCILIATION-WORKER] Drift user ${drift.userId} ${drift.kind} ` +
+            `${drift.asset}.${drift.field}: expected ${drift.expected}, ` +
+            `actual ${drift.actual}${drift.repaired ? " (repaired)" : ""}`
+        );
+      }
+    } catch (error) {
+      console.error("[RECONCILIATION-WORKER] Reconciliation failed:", error);
+    }
+
+    if (!stopped) {
+      timer = setTimeout(() => void reconcile(), intervalMs);
+    }
+  };
+
+  void reconcile();
+
+  return () => {
+    stopped = true;
+    if (timer) {
+      clearTimeout(timer);
+    }
+  };
+}